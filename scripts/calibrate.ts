@@ -0,0 +1,157 @@
+// Calibration CLI
+//
+// Usage: npm run calibrate -- <dataset-dir> [--profile overrides.json] [--out report.json] [--roc roc.csv]
+//
+// Dataset layout: ExifTool JSON dumps (exiftool -j -G1) sorted by ground truth
+//   <dataset-dir>/authentic/*.json
+//   <dataset-dir>/manipulated/*.json
+// A dump may hold one object or an array (first element is used). An optional
+// "UploadedAt" ISO field in the object is used as the validation reference time.
+//
+// Rules that read the file (quantization tables, C2PA, HEIF/PNG/PDF structure, pixel analyses)
+// need it next to the dump, with the same base name:
+//   <name>.analysis.json   precomputed FileAnalysis, or a stored analysis_results object
+//                          (its fileAnalysis is used); include pixel analyses here
+//   <name>.<ext>           the original file; byte-level structures and C2PA are computed from it
+// The precomputed analysis wins when both are present.
+
+import { readdirSync, readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { join, basename, extname } from 'node:path';
+import { DEFAULT_CONFIG } from '../src/utils/exifValidation';
+import { analyzeFileBytes, parseFileAnalysis, type FileAnalysis } from '../src/utils/fileAnalysis';
+import { verifyC2pa } from '../src/utils/c2pa';
+import { buildValidationConfig, parseConfigOverrides } from '../src/utils/validationProfiles';
+import { calibrate, type GroundTruth, type LabeledSample } from '../src/utils/calibration';
+
+interface CliArgs {
+  dataset: string;
+  profile?: string;
+  out?: string;
+  roc?: string;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  const args: Partial<CliArgs> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--profile') args.profile = argv[++i];
+    else if (arg === '--out') args.out = argv[++i];
+    else if (arg === '--roc') args.roc = argv[++i];
+    else if (!arg.startsWith('--')) args.dataset = arg;
+  }
+  if (!args.dataset) {
+    console.error('Usage: npm run calibrate -- <dataset-dir> [--profile overrides.json] [--out report.json] [--roc roc.csv]');
+    process.exit(1);
+  }
+  return args as CliArgs;
+}
+
+const ANALYSIS_SUFFIX = '.analysis.json';
+
+/**
+ * File analysis for a dump: the precomputed one, else computed from the original file, else none
+ */
+async function loadFileAnalysis(dir: string, files: string[], stem: string): Promise<FileAnalysis | undefined> {
+  if (files.includes(`${stem}${ANALYSIS_SUFFIX}`)) {
+    const parsed = JSON.parse(readFileSync(join(dir, `${stem}${ANALYSIS_SUFFIX}`), 'utf8'));
+    const analysis = parseFileAnalysis(parsed?.fileAnalysis ?? parsed);
+    if (analysis) return analysis;
+    console.warn(`Ignoring ${stem}${ANALYSIS_SUFFIX}: not a file analysis`);
+  }
+
+  // "photo.json" pairs with photo.jpg, "photo.jpg.json" with photo.jpg
+  const original = files.find(f => extname(f).toLowerCase() !== '.json' && (f === stem || basename(f, extname(f)) === stem));
+  if (!original) return undefined;
+  const bytes = new Uint8Array(readFileSync(join(dir, original)));
+  const analysis = analyzeFileBytes(bytes);
+  const c2pa = await verifyC2pa(bytes).catch(() => null);
+  if (c2pa) analysis.c2pa = c2pa;
+  return analysis;
+}
+
+async function loadSamples(dataset: string): Promise<LabeledSample[]> {
+  const samples: LabeledSample[] = [];
+  for (const label of ['authentic', 'manipulated'] as GroundTruth[]) {
+    const dir = join(dataset, label);
+    if (!existsSync(dir)) {
+      console.warn(`Missing ${dir}, no ${label} samples`);
+      continue;
+    }
+    const files = readdirSync(dir).sort();
+    const dumps = files.filter(f => f.toLowerCase().endsWith('.json') && !f.toLowerCase().endsWith(ANALYSIS_SUFFIX));
+    for (const file of dumps) {
+      const parsed = JSON.parse(readFileSync(join(dir, file), 'utf8'));
+      const metadata = Array.isArray(parsed) ? parsed[0] : parsed;
+      if (!metadata || typeof metadata !== 'object') {
+        console.warn(`Skipping ${file}: not an ExifTool JSON object`);
+        continue;
+      }
+      const uploadedAt = typeof metadata.UploadedAt === 'string' ? metadata.UploadedAt : undefined;
+      const fileAnalysis = await loadFileAnalysis(dir, files, basename(file, extname(file)));
+      samples.push({ id: `${label}/${basename(file)}`, label, metadata, referenceTime: uploadedAt, fileAnalysis });
+    }
+  }
+  return samples;
+}
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const config = args.profile
+    ? buildValidationConfig(parseConfigOverrides(JSON.parse(readFileSync(args.profile, 'utf8'))),
+        { id: null, slug: basename(args.profile, '.json'), name: basename(args.profile), version: 1 })
+    : DEFAULT_CONFIG;
+
+  const samples = await loadSamples(args.dataset);
+  if (samples.length === 0) {
+    console.error('No samples found');
+    process.exit(1);
+  }
+
+  // Fixed environment so results do not depend on the shell's VITE_* variables
+  const report = calibrate(samples, config, {
+    environment: { debug: false, features: { digitalTransport: true, silentEdit: true } },
+  });
+
+  const analyzed = samples.filter(sample => sample.fileAnalysis).length;
+  console.log(`Samples: ${report.samples} (authentic ${report.authentic}, manipulated ${report.manipulated}; ${analyzed} with file analysis)\n`);
+
+  console.log('Level distribution');
+  console.log('  level   authentic   manipulated');
+  for (let level = 0; level < 4; level++) {
+    console.log(`  ${level}       ${String(report.levelCounts.authentic[level]).padStart(9)}   ${String(report.levelCounts.manipulated[level]).padStart(11)}`);
+  }
+
+  console.log('\nFlagged at level >= N');
+  for (const { minLevel, matrix, metrics } of report.cutoffs) {
+    console.log(`  >= ${minLevel}: TP ${matrix.tp}  FP ${matrix.fp}  TN ${matrix.tn}  FN ${matrix.fn}  ` +
+      `precision ${pct(metrics.precision)}  recall ${pct(metrics.recall)}  FPR ${pct(metrics.fpr)}  F1 ${metrics.f1.toFixed(3)}`);
+  }
+
+  console.log(`\nROC AUC (score): ${report.auc.toFixed(3)}`);
+
+  const t = report.suggestedThresholds;
+  console.log('\nThresholds          current   suggested');
+  console.log(`  level0Max         ${String(config.thresholds.level0Max).padStart(7)}   ${String(t.level0Max).padStart(9)}`);
+  console.log(`  level1Max         ${String(config.thresholds.level1Max).padStart(7)}   ${String(t.level1Max).padStart(9)}`);
+  console.log(`  level2Max         ${String(config.thresholds.level2Max).padStart(7)}   ${String(t.level2Max).padStart(9)}`);
+
+  console.log('\nWeights (by weight key)');
+  console.log('  key                        current  suggested  manip.   auth.   n  codes');
+  for (const w of report.weightSuggestions) {
+    console.log(`  ${(w.weightKey ?? '-').padEnd(26)} ${String(w.current).padStart(7)}  ${String(w.suggested).padStart(9)}  ` +
+      `${pct(w.manipulatedRate).padStart(6)}  ${pct(w.authenticRate).padStart(6)}  ${String(w.support).padStart(3)}  ${w.codes.join(', ')}`);
+  }
+
+  if (args.out) {
+    writeFileSync(args.out, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${args.out}`);
+  }
+  if (args.roc) {
+    writeFileSync(args.roc, ['threshold,tpr,fpr', ...report.roc.map(p => `${p.threshold},${p.tpr},${p.fpr}`)].join('\n'));
+    console.log(`ROC points written to ${args.roc}`);
+  }
+}
+
+main();
@@ -0,0 +1,65 @@
+// Quantization table fingerprint CLI
+//
+// Usage: npm run dqt-fingerprint -- <file.jpg> [--kind camera|editor|library|messenger] [--source name]
+//                                   [--label setting] [--make brand] [--models "Model A,Model B"]
+//
+// Prints the tables, the estimated quality, the ExifTool JPEGDigest and a library entry for
+// src/data/jpegQuantizationTables.ts.
+// Only add entries from reference files whose origin is known.
+
+import { readFileSync } from 'node:fs';
+import { extractQuantizationTables } from '../src/utils/jpegStructure';
+import { estimateJpegQuality, matchQuantizationTables, readQuantizationDigest } from '../src/utils/jpegQuantization';
+import type { QuantizationLibraryEntry, QuantizationSourceKind } from '../src/data/jpegQuantizationTables';
+
+function option(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+function main() {
+  const argv = process.argv.slice(2);
+  const file = argv.find((arg, i) => !arg.startsWith('--') && !argv[i - 1]?.startsWith('--'));
+  if (!file) {
+    console.error('Usage: npm run dqt-fingerprint -- <file.jpg> [--kind camera] [--source name] [--label setting] [--make brand] [--models "Model A,Model B"]');
+    process.exit(1);
+  }
+
+  const bytes = new Uint8Array(readFileSync(file));
+  const tables = extractQuantizationTables(bytes);
+  const digest = readQuantizationDigest(bytes);
+  if (!tables.length || !digest) {
+    console.error(`${file}: no JPEG quantization tables found`);
+    process.exit(1);
+  }
+
+  for (const table of tables) {
+    console.log(`Table ${table.id} (${table.precision}-bit):`);
+    for (let row = 0; row < 8; row++) {
+      console.log('  ' + table.values.slice(row * 8, row * 8 + 8).map(v => String(v).padStart(3)).join(' '));
+    }
+  }
+
+  const estimate = estimateJpegQuality(tables);
+  console.log(`Quality: ${estimate?.quality ?? '?'}${estimate?.standardTables ? ' (standard libjpeg tables)' : ' (estimated)'}`);
+
+  console.log(`Digest: ${digest.md5}${digest.sampling ? ` (sampling ${digest.sampling})` : ''}`);
+
+  const matches = matchQuantizationTables(digest);
+  console.log(`Library matches: ${matches.length ? matches.map(m => `${m.entry.source} (${m.entry.label})`).join(', ') : 'none'}`);
+
+  const make = option(argv, 'make')?.toLowerCase();
+  const models = option(argv, 'models')?.split(',').map(m => m.trim()).filter(Boolean);
+  const entry: QuantizationLibraryEntry = {
+    kind: (option(argv, 'kind') as QuantizationSourceKind) ?? 'camera',
+    source: option(argv, 'source') ?? '',
+    label: option(argv, 'label') ?? `Q${estimate?.quality ?? '?'}`,
+    ...(make && { make }),
+    ...(models?.length && { models }),
+    digest: digest.sampling ? `${digest.md5}:${digest.sampling}` : digest.md5,
+  };
+  console.log('\nLibrary entry:');
+  console.log(JSON.stringify(entry, null, 2));
+}
+
+main();
@@ -1,14 +1,26 @@
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Download, Loader2 } from 'lucide-react';
+import { Download, Loader2, ChevronDown } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { supabase } from '@/integrations/supabase/client';
-import { validateImageMetadata } from '@/utils/exifValidation';
+import { validateImageMetadata, type ValidationSignal } from '@/utils/exifValidation';
+import { formatSignalText } from '@/utils/signalMessages';
+import { ValidationProfileService } from '@/services/ValidationProfileService';
+import type { ValidationProfile } from '@/utils/validationProfiles';
+import { parseStoredAnalysis } from '@/utils/storedAnalysis';
+import { computeCompleteness, computeConfidence, resolveFileKind } from '@/utils/metadataCompleteness';
 import { toast } from 'sonner';
 
 export function DailyReportDownload() {
   const [isLoading, setIsLoading] = useState(false);
 
-  const handleDownload = async () => {
+  // recompute: ignore stored verdicts and re-run the current rules for every record
+  const handleDownload = async (recompute: boolean) => {
     setIsLoading(true);
     
     try {
@@ -31,7 +43,12 @@ export function DailyReportDownload() {
         return;
       }
 
-      const csvContent = generateCSV(data);
+      const profiles = await ValidationProfileService.listProfiles().catch(error => {
+        console.warn('Perfis de validação indisponíveis, usando perfil padrão:', error);
+        return [] as ValidationProfile[];
+      });
+
+      const csvContent = generateCSV(data, profiles, recompute);
       downloadCSV(csvContent, `relatorio_metadados_${formatDate(today)}.csv`);
       
       toast.success(`Relatório exportado com ${data.length} registro(s)`);
@@ -62,7 +79,7 @@ export function DailyReportDownload() {
     }
   };
 
-  const generateCSV = (data: any[]) => {
+  const generateCSV = (data: any[], profiles: ValidationProfile[], recompute: boolean) => {
     const headers = [
       'Nome do Arquivo',
       'Data/Hora da Análise',
@@ -71,16 +88,41 @@ export function DailyReportDownload() {
       'Nível de Risco',
       'Classificação',
       'Score',
+      'Confiança (%)',
+      'Completude (%)',
+      'Perfil de Validação',
+      'Origem do Resultado',
+      'Versão das Regras',
       'Câmera',
       'Data de Captura',
       'Sinais Positivos',
       'Sinais de Risco',
+      'Códigos de Risco',
       'Recomendação'
     ];
 
+    const joinSignals = (signals: ValidationSignal[]) =>
+      signals.length > 0 ? signals.map(s => formatSignalText(s)).join(' | ') : 'Nenhum';
+
+    const defaultProfile = profiles.find(p => p.isDefault) ?? ValidationProfileService.builtinDefault();
+    const profileFor = (id?: string | null) => profiles.find(p => p.id === id) ?? defaultProfile;
+
     const rows = data.map(record => {
       const exifData = record.exif_raw || record.exif_data || {};
-      const validation = validateImageMetadata(exifData);
+      const stored = parseStoredAnalysis(record.analysis_results);
+      const profile = profileFor(record.validation_profile_id);
+      // Records analyzed before results were stored are computed with the current rules
+      const storedResult = recompute ? null : stored?.result ?? null;
+      const validation = storedResult
+        ?? validateImageMetadata(exifData, profile.config, {
+          referenceTime: record.created_at,
+          fileAnalysis: stored?.fileAnalysis
+        });
+      const appliedProfile = validation.profile ?? profile;
+      // Stored results from before completeness existed
+      const completeness = validation.completeness
+        ?? computeCompleteness(exifData, resolveFileKind(exifData, stored?.fileAnalysis));
+      const confidence = validation.confidence ?? computeConfidence(validation, completeness, profile.config.thresholds);
       
       const camera = [
         exifData['IFD0:Make'] || exifData['Make'] || '',
@@ -91,13 +133,9 @@ export function DailyReportDownload() {
                           exifData['DateTimeOriginal'] || 
                           exifData['EXIF:DateTimeOriginal'] || 'N/A';
 
-      const positiveSignals = validation.positiveSignals.length > 0 
-        ? validation.positiveSignals.join(' | ') 
-        : 'Nenhum';
-
-      const riskSignals = validation.riskSignals.length > 0 
-        ? validation.riskSignals.join(' | ') 
-        : 'Nenhum';
+      const positiveSignals = joinSignals(validation.positiveSignals);
+      const riskSignals = joinSignals(validation.riskSignals);
+      const riskCodes = validation.riskSignals.map(s => s.code).join(',');
 
       return [
         record.file_name,
@@ -107,10 +145,16 @@ export function DailyReportDownload() {
         validation.level,
         getLevelLabel(validation.level),
         validation.score.toFixed(0),
+        confidence.score,
+        completeness.score,
+        `${appliedProfile.name} v${appliedProfile.version}`,
+        storedResult ? 'Armazenado' : 'Recalculado',
+        validation.rulesetVersion ?? 'N/A',
         camera,
         captureDate,
         positiveSignals,
         riskSignals,
+        riskCodes,
         validation.recommendation
       ];
     });
@@ -138,18 +182,30 @@ export function DailyReportDownload() {
   };
 
   return (
-    <Button
-      variant="outline"
-      onClick={handleDownload}
-      disabled={isLoading}
-      className="gap-2"
-    >
-      {isLoading ? (
-        <Loader2 className="h-4 w-4 animate-spin" />
-      ) : (
-        <Download className="h-4 w-4" />
-      )}
-      Baixar Relatório do Dia
-    </Button>
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={isLoading}
+          className="gap-2"
+        >
+          {isLoading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          Baixar Relatório do Dia
+          <ChevronDown className="h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleDownload(false)}>
+          Resultados armazenados
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleDownload(true)}>
+          Recalcular com regras atuais
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
   );
 }
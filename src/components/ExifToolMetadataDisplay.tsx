@@ -1,10 +1,71 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Download, AlertTriangle, Shield, Camera, MapPin, Palette, Code, FileText, Settings, Zap, Info, CheckCircle, XCircle, Image as ImageIcon } from 'lucide-react';
-import { validateImageMetadata, type ValidationResult, DEFAULT_CONFIG } from '@/utils/exifValidation';
+import { Download, RefreshCw, AlertTriangle, Shield, Camera, MapPin, Palette, Code, FileText, Settings, Zap, Info, CheckCircle, XCircle, Image as ImageIcon } from 'lucide-react';
+import { validateImageMetadata, type ValidationResult, type ValidationSignal } from '@/utils/exifValidation';
+import { formatSignalText } from '@/utils/signalMessages';
+import { normalizeMetadata, type CanonicalTag } from '@/utils/tagNormalization';
+import { cn } from '@/lib/utils';
+import { useValidationProfile } from '@/hooks/use-validation-profiles';
+import { parseStoredAnalysis, isStoredAnalysisCurrent } from '@/utils/storedAnalysis';
+import { explainVerdict } from '@/utils/verdictExplanation';
+import { computeCompleteness, computeConfidence, resolveFileKind } from '@/utils/metadataCompleteness';
+import { describeQuantization } from '@/utils/jpegQuantization';
+import { compareThumbnail } from '@/utils/thumbnailComparison';
+import { FileAnalysisService } from '@/services/FileAnalysisService';
+import type { FileAnalysis } from '@/utils/fileAnalysis';
+import type { C2paStatus } from '@/utils/c2pa';
+import type { HeifAuxiliaryKind } from '@/utils/heifStructure';
+import type { PngAnomaly } from '@/utils/pngStructure';
+import type { RawImageRole } from '@/utils/rawStructure';
+import { readXmpHistory } from '@/utils/xmpHistory';
+import ImageForensicsPreview from '@/components/ImageForensicsPreview';
+
+type MetadataGroupId = 'file' | 'exif' | 'gps' | 'icc' | 'adobe' | 'composite' | 'other';
+
+// Accordion group for a canonical tag (same grouping for ExifTool and ExifReader keys)
+function getMetadataGroup(tag: CanonicalTag): MetadataGroupId {
+  if (tag.family === 'File') return 'file';
+  if (tag.group === 'GPS') return 'gps';
+  if (tag.family === 'EXIF' || tag.family === 'MakerNotes') return 'exif';
+  if (tag.family === 'ICC_Profile') return 'icc';
+  if (tag.family === 'XMP' || ['Photoshop', 'Adobe', 'APP14'].includes(tag.group)) return 'adobe';
+  if (tag.group === 'Composite' || tag.group === 'JFIF') return 'composite';
+  return 'other';
+}
+
+const C2PA_STATUS: Record<C2paStatus, { label: string; className: string }> = {
+  valid: { label: 'Válida e confiável', className: 'bg-green-100 text-green-800 border-green-200' },
+  untrusted: { label: 'Íntegra, assinante não confiável', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  invalid: { label: 'Assinatura inválida', className: 'bg-red-100 text-red-800 border-red-200' },
+  tampered: { label: 'Violada', className: 'bg-red-100 text-red-800 border-red-200' },
+  unsupported: { label: 'Não verificável', className: 'bg-gray-100 text-gray-800 border-gray-200' },
+};
+
+const HEIF_AUXILIARY_LABELS: Record<HeifAuxiliaryKind, string> = {
+  depth: 'profundidade',
+  alpha: 'transparência',
+  'hdr-gain-map': 'mapa de ganho HDR',
+  matte: 'máscara de retrato',
+  other: 'outra',
+};
+
+const RAW_IMAGE_LABELS: Record<RawImageRole, string> = {
+  raw: 'Dados do sensor',
+  preview: 'Prévia',
+  thumbnail: 'Miniatura',
+};
+
+const PNG_ANOMALY_LABELS: Record<PngAnomaly, string> = {
+  'ihdr-not-first': 'IHDR fora do início',
+  'iend-missing': 'IEND ausente',
+  'split-idat': 'dados de imagem (IDAT) intercalados',
+  'late-ancillary': 'bloco auxiliar após IDAT',
+  'crc-mismatch': 'CRC inválido',
+  truncated: 'arquivo truncado',
+};
 
 interface ExifToolMetadataDisplayProps {
   metadata: {
@@ -15,9 +76,42 @@ interface ExifToolMetadataDisplayProps {
 
 export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDisplayProps) {
   const [isLoading] = useState(false);
+  const [openGroups, setOpenGroups] = useState<string[]>([]);
+  const [highlightedKeys, setHighlightedKeys] = useState<string[]>([]);
+  const rowRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  const [recompute, setRecompute] = useState(false);
+  const [localAnalysis, setLocalAnalysis] = useState<FileAnalysis | null>(null);
 
   const exifData = metadata.rawExifData || {};
   const fileMetadata = metadata.metadata || {};
+  const normalized = useMemo(() => normalizeMetadata(exifData), [exifData]);
+  const xmpHistory = useMemo(() => readXmpHistory(normalized), [normalized]);
+  const profile = useValidationProfile(fileMetadata.validation_profile_id);
+  // Version stored with the record when it was analyzed (may be older than the current profile)
+  const recordedProfileVersion: number | null = fileMetadata.validation_profile_version ?? null;
+  const storedAnalysis = useMemo(() => parseStoredAnalysis(fileMetadata.analysis_results), [fileMetadata.analysis_results]);
+  const showStored = storedAnalysis !== null && !recompute;
+
+  // Recomputing re-reads the stored file here, adding the comparisons and pixel analyses that
+  // need a canvas; the result is only displayed, the server-side verdict stays in the record
+  useEffect(() => {
+    if (showStored || !fileMetadata.file_path) return;
+    let cancelled = false;
+    FileAnalysisService.analyzeStoredFile(fileMetadata.file_path, profile.config)
+      .then(analysis => {
+        if (!cancelled) setLocalAnalysis(analysis);
+      })
+      .catch(error => console.warn('Local file analysis failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [showStored, fileMetadata.file_path, profile]);
+
+  const fileAnalysis = showStored ? storedAnalysis.fileAnalysis : localAnalysis ?? storedAnalysis?.fileAnalysis;
+  const thumbnailComparison = useMemo(
+    () => (fileAnalysis?.thumbnail ? compareThumbnail(fileAnalysis.thumbnail) : null),
+    [fileAnalysis]
+  );
 
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
@@ -27,9 +121,9 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
-  // Organize metadata by groups based on ExifTool Group:Tag format
+  // Organize metadata by groups based on the canonical tag model
   const organizedMetadata = useMemo(() => {
-    const groups: Record<string, Record<string, any>> = {
+    const groups: Record<MetadataGroupId, Record<string, any>> = {
       file: {},
       exif: {},
       gps: {},
@@ -40,33 +134,19 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
     };
 
     Object.entries(exifData).forEach(([key, value]) => {
-      if (key.startsWith('System:')) return; // Filter out System fields
-
-      const [group, tag] = key.split(':', 2);
-      const lowerGroup = group.toLowerCase();
-
-      if (lowerGroup.includes('file')) {
-        groups.file[key] = value;
-      } else if (lowerGroup.includes('exif')) {
-        groups.exif[key] = value;
-      } else if (lowerGroup.includes('gps')) {
-        groups.gps[key] = value;
-      } else if (lowerGroup.includes('icc')) {
-        groups.icc[key] = value;
-      } else if (lowerGroup.includes('adobe') || lowerGroup.includes('photoshop') || lowerGroup.includes('xmp')) {
-        groups.adobe[key] = value;
-      } else if (lowerGroup.includes('composite') || lowerGroup.includes('jfif')) {
-        groups.composite[key] = value;
-      } else {
-        groups.other[key] = value;
-      }
+      const tag = normalized.forKey(key);
+      if (!tag || tag.group === 'System') return; // Filter out System fields
+      groups[getMetadataGroup(tag)][key] = value;
     });
 
     return groups;
-  }, [exifData]);
+  }, [exifData, normalized]);
 
   // New validation system using centralized logic
   const validationResult = useMemo((): ValidationResult => {
+    // Stored verdict is authoritative; recomputing is an explicit action
+    if (showStored) return storedAnalysis.result;
+
     if (!exifData) {
       return {
         level: 3,
@@ -76,26 +156,58 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
         make: null,
         model: null,
         positiveSignals: [],
-        riskSignals: ['Nenhum metadado disponível'],
+        riskSignals: [{
+          code: 'NO_METADATA',
+          kind: 'risk',
+          category: 'coverage',
+          severity: 'high',
+          weight: 50,
+          evidence: [],
+          params: {},
+          message: 'Nenhum metadado disponível'
+        }],
         recommendation: 'Sem metadados disponíveis - análise forense necessária'
       };
     }
 
-    return validateImageMetadata(exifData, DEFAULT_CONFIG);
-  }, [exifData]);
+    // Validate as of the upload time so re-opening an old record gives the same verdict
+    return validateImageMetadata(exifData, profile.config, {
+      referenceTime: fileMetadata.created_at,
+      fileAnalysis
+    });
+  }, [exifData, profile, fileMetadata.created_at, showStored, storedAnalysis, fileAnalysis]);
+
+  // Profile behind the verdict shown (stored results carry their own profile reference)
+  const appliedProfile = validationResult.profile ?? profile;
+
+  // Results stored before explanations existed get one computed under the current profile thresholds
+  const explanation = useMemo(
+    () => validationResult.explanation ?? explainVerdict(validationResult, profile.config.thresholds),
+    [validationResult, profile]
+  );
+
+  const completeness = useMemo(
+    () => validationResult.completeness ?? computeCompleteness(normalized, resolveFileKind(normalized, fileAnalysis)),
+    [validationResult, normalized, fileAnalysis]
+  );
+  const confidence = useMemo(
+    () => validationResult.confidence ?? computeConfidence(validationResult, completeness, profile.config.thresholds),
+    [validationResult, completeness, profile]
+  );
 
   // Legacy manipulation score for backward compatibility
   const manipulationScore = useMemo(() => {
+    const signalTexts = [...validationResult.riskSignals, ...validationResult.positiveSignals].map(s => formatSignalText(s));
     return {
       score: validationResult.score,
-      indicators: [...validationResult.riskSignals, ...validationResult.positiveSignals],
-      details: [...validationResult.riskSignals, ...validationResult.positiveSignals],
-      isProgressive: exifData?.['File:EncodingProcess']?.includes('Progressive') || false,
-      is444: exifData?.['File:YCbCrSubSampling']?.includes('4:4:4') || false,
+      indicators: signalTexts,
+      details: signalTexts,
+      isProgressive: normalized.text('File:EncodingProcess').includes('Progressive'),
+      is444: normalized.text('File:YCbCrSubSampling').includes('4:4:4'),
       hasHPAdobe: !!(exifData?.['APP14:Adobe'] || exifData?.['Adobe:APP14']),
       missingEssentialExif: validationResult.level > 0
     };
-  }, [validationResult, exifData]);
+  }, [validationResult, exifData, normalized]);
 
   // Generate summary information
   const summary = useMemo(() => {
@@ -112,12 +224,14 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
     if (validationResult.canonicalCaptureDate) info['Data/Hora'] = validationResult.canonicalCaptureDate;
     
     // Image dimensions
-    if (exifData['EXIF:ExifImageWidth'] && exifData['EXIF:ExifImageHeight']) {
-      info['Dimensões'] = `${exifData['EXIF:ExifImageWidth']} × ${exifData['EXIF:ExifImageHeight']}`;
+    const width = normalized.text('ExifIFD:ExifImageWidth');
+    const height = normalized.text('ExifIFD:ExifImageHeight');
+    if (width && height) {
+      info['Dimensões'] = `${width} × ${height}`;
     }
 
     return info;
-  }, [exifData, fileMetadata, validationResult]);
+  }, [normalized, fileMetadata, validationResult]);
 
   // Digital Transport Detection (using flag from validation result)
   const isDigitalTransport = validationResult?.isDigitalTransport === true;
@@ -163,12 +277,62 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
     URL.revokeObjectURL(url);
   };
 
-  const renderMetadataGroup = (title: string, icon: React.ReactNode, data: Record<string, any>) => {
+  // Evidence provenance: open the groups holding a signal's keys and highlight those rows
+  const showSignalEvidence = (signal: ValidationSignal) => {
+    const keys = signal.evidence.map(e => e.key).filter(key => key in exifData);
+    if (keys.length === 0) return;
+
+    const groups = Array.from(new Set(keys.map(key => getMetadataGroup(normalized.forKey(key)!))));
+    setOpenGroups(prev => Array.from(new Set([...prev, ...groups])));
+    setHighlightedKeys(keys);
+  };
+
+  useEffect(() => {
+    if (highlightedKeys.length === 0) return;
+    // Wait for the accordion to open before scrolling
+    const frame = requestAnimationFrame(() => {
+      rowRefs.current[highlightedKeys[0]]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [highlightedKeys]);
+
+  const renderSignal = (signal: ValidationSignal, index: number, tone: 'green' | 'orange') => {
+    const hasRows = signal.evidence.some(e => e.key in exifData);
+
+    return (
+      <div key={index} className="space-y-1">
+        <button
+          type="button"
+          onClick={() => showSignalEvidence(signal)}
+          disabled={!hasRows}
+          className={cn(
+            'text-sm flex items-start gap-2 text-left w-full',
+            tone === 'green' ? 'text-green-600' : 'text-orange-600',
+            hasRows ? 'cursor-pointer hover:underline' : 'cursor-default'
+          )}
+        >
+          <span className={cn('w-2 h-2 rounded-full mt-2 flex-shrink-0', tone === 'green' ? 'bg-green-400' : 'bg-orange-400')} />
+          {formatSignalText(signal)}
+        </button>
+        {signal.evidence.length > 0 && (
+          <div className="flex flex-wrap gap-1 pl-4">
+            {signal.evidence.map(e => (
+              <span key={e.key} className="font-mono text-xs text-muted-foreground bg-muted rounded px-1">
+                {e.value === null ? `${e.key} (ausente)` : e.key}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderMetadataGroup = (groupId: MetadataGroupId, title: string, icon: React.ReactNode, data: Record<string, any>) => {
     const entries = Object.entries(data);
     if (entries.length === 0) return null;
 
     return (
-      <AccordionItem value={title.toLowerCase()}>
+      <AccordionItem value={groupId}>
         <AccordionTrigger className="flex items-center gap-2">
           {icon}
           <span>{title}</span>
@@ -179,7 +343,14 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
         <AccordionContent>
           <div className="space-y-2">
             {entries.map(([key, value]) => (
-              <div key={key} className="grid grid-cols-1 md:grid-cols-2 gap-2 p-2 rounded border">
+              <div
+                key={key}
+                ref={el => { rowRefs.current[key] = el; }}
+                className={cn(
+                  'grid grid-cols-1 md:grid-cols-2 gap-2 p-2 rounded border transition-colors',
+                  highlightedKeys.includes(key) && 'bg-yellow-50 border-yellow-400'
+                )}
+              >
                 <div className="font-mono text-sm text-muted-foreground break-all">
                   {key}
                 </div>
@@ -239,6 +410,390 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
               </Badge>
             </div>
 
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Confiança do Veredito:</span>
+              <Badge
+                variant="outline"
+                className={cn(
+                  'text-sm',
+                  confidence.label === 'alta' && 'border-green-400 text-green-700',
+                  confidence.label === 'média' && 'border-yellow-400 text-yellow-700',
+                  confidence.label === 'baixa' && 'border-red-400 text-red-700'
+                )}
+              >
+                {confidence.score}% ({confidence.label}) · completude {completeness.score}%
+              </Badge>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {completeness.groups.map(group => (
+                <span
+                  key={group.id}
+                  className={cn(
+                    'text-xs px-2 py-0.5 rounded border',
+                    group.present ? 'bg-green-50 border-green-200 text-green-700' : 'bg-gray-50 border-gray-200 text-gray-400 line-through'
+                  )}
+                >
+                  {group.label}
+                </span>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">
+                {showStored
+                  ? `Resultado armazenado em ${new Date(storedAnalysis.analyzedAt).toLocaleString('pt-BR')} · regras v${storedAnalysis.rulesetVersion} · config ${storedAnalysis.configHash}`
+                  : storedAnalysis
+                    ? 'Recalculado com as regras atuais (não salvo)'
+                    : 'Sem resultado armazenado — calculado com as regras atuais'}
+                {showStored && !isStoredAnalysisCurrent(storedAnalysis, profile.config) && (
+                  <span className="ml-1 text-orange-600">— regras ou perfil mudaram desde a análise</span>
+                )}
+              </span>
+              {storedAnalysis && (
+                <Button variant="ghost" size="sm" onClick={() => setRecompute(prev => !prev)}>
+                  <RefreshCw className="h-3 w-3 mr-1" />
+                  {recompute ? 'Ver resultado armazenado' : 'Recalcular'}
+                </Button>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Perfil de Validação:</span>
+              <span className="text-sm text-muted-foreground">
+                {appliedProfile.name} (v{appliedProfile.version})
+                {recordedProfileVersion !== null && recordedProfileVersion !== appliedProfile.version && (
+                  <span className="ml-1 text-orange-600">— analisado com v{recordedProfileVersion}</span>
+                )}
+              </span>
+            </div>
+
+            {fileAnalysis?.jpeg?.quantizationTables.length ? (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Tabelas de Quantização JPEG:</span>
+                <span className="text-sm text-muted-foreground">
+                  {describeQuantization(fileAnalysis.jpeg)}
+                </span>
+              </div>
+            ) : null}
+
+            {fileAnalysis?.doubleJpeg && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Dupla Compressão JPEG:</span>
+                <span className="text-sm text-muted-foreground">
+                  {Math.round(fileAnalysis.doubleJpeg.probability * 100)}%
+                  {fileAnalysis.doubleJpeg.aligned.probability >= 0.5 && ' · grade alinhada'}
+                  {fileAnalysis.doubleJpeg.nonAligned.shift &&
+                    ` · grade deslocada (${fileAnalysis.doubleJpeg.nonAligned.shift.join(',')}), passo DC ${fileAnalysis.doubleJpeg.nonAligned.step}`}
+                </span>
+              </div>
+            )}
+
+            {fileAnalysis?.copyMove && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Regiões Clonadas (copy-move):</span>
+                <span className="text-sm text-muted-foreground">
+                  {fileAnalysis.copyMove.regions.length
+                    ? `${fileAnalysis.copyMove.matches} blocos coincidentes · confiança ${Math.round(fileAnalysis.copyMove.confidence * 100)}%`
+                    : 'nenhuma encontrada'}
+                </span>
+              </div>
+            )}
+
+            {fileAnalysis?.noise && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Ruído Local:</span>
+                <span className="text-sm text-muted-foreground">
+                  σ mediano {fileAnalysis.noise.medianNoise} · {Math.round(fileAnalysis.noise.inconsistency * 1000) / 10}% dos blocos inconsistentes
+                </span>
+              </div>
+            )}
+
+            {/* EXIF thumbnail vs main image */}
+            {fileAnalysis?.thumbnail && thumbnailComparison && (
+              <div
+                className={cn(
+                  'border rounded-lg p-3',
+                  thumbnailComparison.consistent ? 'bg-gray-50 border-gray-200' : 'bg-red-50 border-red-200'
+                )}
+              >
+                <p className="text-sm font-medium mb-2">
+                  Thumbnail EXIF vs Imagem Principal
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    similaridade {Math.round(thumbnailComparison.similarity * 100)}%
+                    {thumbnailComparison.reason === 'aspect' && ' · proporções diferentes'}
+                    {thumbnailComparison.reason === 'content' && ' · conteúdo diferente'}
+                  </span>
+                </p>
+                <div className="flex gap-4">
+                  {[
+                    { label: 'Thumbnail (IFD1)', src: fileAnalysis.thumbnail.thumbnailPreview, size: `${fileAnalysis.thumbnail.width}x${fileAnalysis.thumbnail.height}` },
+                    { label: 'Imagem principal', src: fileAnalysis.thumbnail.mainPreview, size: `${fileAnalysis.thumbnail.mainWidth}x${fileAnalysis.thumbnail.mainHeight}` },
+                  ].map(image => (
+                    <figure key={image.label} className="text-center">
+                      {image.src ? (
+                        <img src={image.src} alt={image.label} className="h-28 w-auto rounded border bg-white object-contain" />
+                      ) : (
+                        <div className="h-28 w-36 rounded border bg-white flex items-center justify-center text-xs text-muted-foreground">
+                          sem prévia
+                        </div>
+                      )}
+                      <figcaption className="text-xs text-muted-foreground mt-1">
+                        {image.label} · {image.size}
+                      </figcaption>
+                    </figure>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* HEIF item structure */}
+            {fileAnalysis?.heif && (
+              <div className="border rounded-lg p-3 space-y-1">
+                <p className="text-sm font-medium">
+                  Estrutura HEIF
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {[fileAnalysis.heif.majorBrand, ...fileAnalysis.heif.compatibleBrands.filter(b => b !== fileAnalysis.heif?.majorBrand)].join(' · ')}
+                  </span>
+                </p>
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  {fileAnalysis.heif.primary && (
+                    <p>
+                      Imagem principal: {fileAnalysis.heif.primary.type}
+                      {(fileAnalysis.heif.primary.width ?? 0) > 0 && ` ${fileAnalysis.heif.primary.width}x${fileAnalysis.heif.primary.height}`}
+                      {fileAnalysis.heif.primary.tiles > 0 && ` · grade de ${fileAnalysis.heif.primary.tiles} tiles`}
+                      {fileAnalysis.heif.primary.rotation > 0 && ` · rotação ${fileAnalysis.heif.primary.rotation}°`}
+                    </p>
+                  )}
+                  <p>
+                    Itens: {Object.entries(fileAnalysis.heif.itemTypes).map(([type, count]) => `${type} ×${count}`).join(', ') || 'nenhum'}
+                    {' '}· miniaturas {fileAnalysis.heif.thumbnails} · Exif {fileAnalysis.heif.exifItems} · XMP {fileAnalysis.heif.xmpItems}
+                  </p>
+                  {fileAnalysis.heif.auxiliary.length > 0 && (
+                    <p>
+                      Imagens auxiliares: {fileAnalysis.heif.auxiliary.map(a => HEIF_AUXILIARY_LABELS[a.kind]).join(', ')}
+                    </p>
+                  )}
+                  {fileAnalysis.heif.appleMakerNote && (
+                    <p className="break-all">
+                      MakerNote Apple: {fileAnalysis.heif.appleMakerNote.tags} campos
+                      {fileAnalysis.heif.appleMakerNote.contentIdentifier && ` · Live Photo ${fileAnalysis.heif.appleMakerNote.contentIdentifier}`}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* PNG chunk structure */}
+            {fileAnalysis?.png && (
+              <div className="border rounded-lg p-3 space-y-1">
+                <p className="text-sm font-medium">
+                  Estrutura PNG
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {fileAnalysis.png.width}x{fileAnalysis.png.height} · {fileAnalysis.png.bitDepth} bits
+                    {fileAnalysis.png.interlaced && ' · entrelaçado'}
+                  </span>
+                </p>
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  <p className="break-all">Blocos: {fileAnalysis.png.chunks.join(' → ')}</p>
+                  {fileAnalysis.png.text.length > 0 && (
+                    <p className="break-all">
+                      Texto: {fileAnalysis.png.text.map(t => t.text ? `${t.keyword}: ${t.text}` : `${t.keyword} (${t.type})`).join(' · ')}
+                    </p>
+                  )}
+                  {fileAnalysis.png.exif && (
+                    <p>
+                      eXIf: {[fileAnalysis.png.exif.make, fileAnalysis.png.exif.model, fileAnalysis.png.exif.software].filter(Boolean).join(' · ') || 'sem Make/Model'}
+                    </p>
+                  )}
+                  {fileAnalysis.png.privateChunks.length > 0 && (
+                    <p>Blocos não padronizados: {fileAnalysis.png.privateChunks.join(', ')}</p>
+                  )}
+                  {(fileAnalysis.png.anomalies.length > 0 || fileAnalysis.png.trailingBytes > 0) && (
+                    <p className="text-orange-600">
+                      {[
+                        ...fileAnalysis.png.anomalies.map(a => PNG_ANOMALY_LABELS[a]),
+                        ...(fileAnalysis.png.trailingBytes > 0 ? [`${fileAnalysis.png.trailingBytes} bytes após IEND`] : []),
+                      ].join(' · ')}
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* PDF revisions */}
+            {fileAnalysis?.pdf && (
+              <div className="border rounded-lg p-3 space-y-1">
+                <p className="text-sm font-medium">
+                  Estrutura PDF
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {fileAnalysis.pdf.version ? `versão ${fileAnalysis.pdf.version}` : 'versão desconhecida'}
+                    {fileAnalysis.pdf.linearized && ' · otimizado para web'}
+                  </span>
+                </p>
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  <p className={cn(fileAnalysis.pdf.incrementalUpdates > fileAnalysis.pdf.signatures && 'text-orange-600')}>
+                    Revisões: {fileAnalysis.pdf.revisions}
+                    {fileAnalysis.pdf.incrementalUpdates > 0 && ` (${fileAnalysis.pdf.incrementalUpdates} atualização(ões) incremental(is))`}
+                  </p>
+                  <p>Assinaturas digitais: {fileAnalysis.pdf.signatures}</p>
+                  {fileAnalysis.pdf.producers.length > 0 && (
+                    <p className="break-all">Produtores: {fileAnalysis.pdf.producers.join(' → ')}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* MP4/MOV movie structure */}
+            {fileAnalysis?.video && (
+              <div className="border rounded-lg p-3 space-y-1">
+                <p className="text-sm font-medium">
+                  Estrutura do Vídeo
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {fileAnalysis.video.majorBrand}
+                    {fileAnalysis.video.duration !== null && ` · ${fileAnalysis.video.duration.toFixed(1)} s`}
+                  </span>
+                </p>
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  <p>
+                    Criação: {fileAnalysis.video.createDate ?? 'não definida'}
+                    {fileAnalysis.video.modifyDate && ` · Modificação: ${fileAnalysis.video.modifyDate}`}
+                  </p>
+                  {fileAnalysis.video.tracks.map((track, index) => (
+                    <p key={index} className="break-all">
+                      Faixa {index + 1} ({track.handlerType || '?'}): {[
+                        track.codec,
+                        track.handlerName,
+                        track.frameRate !== null ? `${track.frameRate} fps` : null,
+                        track.mediaCreateDate,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  ))}
+                  {fileAnalysis.video.encoder && <p>Encoder: {fileAnalysis.video.encoder}</p>}
+                  {fileAnalysis.video.location && (
+                    <p>Localização ({fileAnalysis.video.location.source === 'apple' ? 'Apple' : 'Android'}): {fileAnalysis.video.location.value}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Camera RAW / DNG container */}
+            {fileAnalysis?.raw && (
+              <div className="border rounded-lg p-3 space-y-1">
+                <p className="text-sm font-medium">
+                  Resumo RAW
+                  <span className="ml-2 text-xs text-muted-foreground">
+                    {fileAnalysis.raw.format.toUpperCase()}
+                    {fileAnalysis.raw.dngVersion && ` · DNG ${fileAnalysis.raw.dngVersion}`}
+                  </span>
+                </p>
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  {(fileAnalysis.raw.make || fileAnalysis.raw.model) && (
+                    <p>Câmera: {[fileAnalysis.raw.make, fileAnalysis.raw.model].filter(Boolean).join(' ')}</p>
+                  )}
+                  {fileAnalysis.raw.software && <p>Software: {fileAnalysis.raw.software}</p>}
+                  {fileAnalysis.raw.originalRawFileName && (
+                    <p className="break-all">Arquivo original: {fileAnalysis.raw.originalRawFileName}</p>
+                  )}
+                  {fileAnalysis.raw.activeArea && (
+                    <p>Área útil: {fileAnalysis.raw.activeArea.width}×{fileAnalysis.raw.activeArea.height}</p>
+                  )}
+                  {fileAnalysis.raw.images.map((image, index) => (
+                    <p key={index}>
+                      {RAW_IMAGE_LABELS[image.role]}: {image.width && image.height ? `${image.width}×${image.height}` : 'tamanho desconhecido'}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* C2PA content credentials */}
+            {fileAnalysis?.c2pa && (
+              <div className="border rounded-lg p-3 space-y-3">
+                <p className="text-sm font-medium">
+                  Credenciais de Conteúdo (C2PA)
+                  <Badge variant="outline" className={cn('ml-2', C2PA_STATUS[fileAnalysis.c2pa.status].className)}>
+                    {C2PA_STATUS[fileAnalysis.c2pa.status].label}
+                  </Badge>
+                  {fileAnalysis.c2pa.cameraCapture && (
+                    <Badge variant="outline" className="ml-1">Captura por câmera</Badge>
+                  )}
+                </p>
+                {[...fileAnalysis.c2pa.manifests].reverse().map((manifest, index) => (
+                  <div key={manifest.label} className="text-xs space-y-1 border-t pt-2 first:border-t-0 first:pt-0">
+                    <p className="font-medium">
+                      {index === 0 ? 'Manifesto ativo' : 'Manifesto de ingrediente'}
+                      {manifest.title && ` · ${manifest.title}`}
+                      {index > 0 && ` · ${C2PA_STATUS[manifest.status].label}`}
+                    </p>
+                    {manifest.signer && (
+                      <p className="text-muted-foreground">
+                        Assinante: {manifest.signer.organization ?? manifest.signer.commonName ?? 'desconhecido'}
+                        {manifest.signer.issuer && ` (emitido por ${manifest.signer.issuer})`}
+                      </p>
+                    )}
+                    {manifest.claimGenerator && (
+                      <p className="text-muted-foreground">Gerador: {manifest.claimGenerator}</p>
+                    )}
+                    {manifest.actions.length > 0 && (
+                      <p className="text-muted-foreground">
+                        Ações: {manifest.actions.map(a => a.softwareAgent ? `${a.action} (${a.softwareAgent})` : a.action).join(', ')}
+                      </p>
+                    )}
+                    {manifest.ingredients.length > 0 && (
+                      <p className="text-muted-foreground">
+                        Ingredientes: {manifest.ingredients.map(i => i.relationship ? `${i.title} [${i.relationship}]` : i.title).join(', ')}
+                      </p>
+                    )}
+                    {manifest.errors.map(error => (
+                      <p key={error} className="text-red-600">{error}</p>
+                    ))}
+                  </div>
+                ))}
+                <p className="text-xs text-muted-foreground">
+                  Lista de confiança {fileAnalysis.c2pa.trustListVersion}
+                </p>
+              </div>
+            )}
+
+            {/* XMP edit history timeline */}
+            {(xmpHistory.events.length > 0 || xmpHistory.derivedFrom) && (
+              <div className="border rounded-lg p-3 space-y-2">
+                <p className="text-sm font-medium">Histórico de Edição (XMP)</p>
+                {xmpHistory.events.length > 0 && (
+                  <ol className="relative border-l border-gray-300 ml-2 space-y-2">
+                    {xmpHistory.events.map((event, index) => (
+                      <li key={`${index}-${event.instanceId ?? event.when}`} className="ml-4 text-xs">
+                        <span className="absolute -left-1.5 mt-1 h-3 w-3 rounded-full border border-white bg-gray-400" />
+                        <p>
+                          <span className="font-medium">{event.action}</span>
+                          {event.softwareAgent && <span className="text-muted-foreground"> · {event.softwareAgent}</span>}
+                        </p>
+                        <p className="text-muted-foreground">
+                          {event.when ?? 'sem data'}
+                          {event.changed && ` · alterado: ${event.changed}`}
+                          {event.parameters && ` · ${event.parameters}`}
+                        </p>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+                <div className="text-xs text-muted-foreground space-y-0.5 break-all">
+                  {xmpHistory.document.originalDocumentId && (
+                    <p>Documento original: {xmpHistory.document.originalDocumentId}</p>
+                  )}
+                  {xmpHistory.derivedFrom && (
+                    <p>
+                      Derivado de: {xmpHistory.derivedFrom.documentId ?? xmpHistory.derivedFrom.originalDocumentId ?? 'documento desconhecido'}
+                      {xmpHistory.derivedFrom.instanceId && ` (instância ${xmpHistory.derivedFrom.instanceId})`}
+                    </p>
+                  )}
+                  {xmpHistory.document.documentId && <p>Documento: {xmpHistory.document.documentId}</p>}
+                  {xmpHistory.document.instanceId && <p>Instância atual: {xmpHistory.document.instanceId}</p>}
+                </div>
+              </div>
+            )}
+
             {/* Canonical Capture Date */}
             {validationResult.canonicalCaptureDate && (
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
@@ -281,12 +836,7 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
                   Sinais Positivos
                 </h4>
                 <div className="space-y-1">
-                  {validationResult.positiveSignals.map((signal, index) => (
-                    <div key={index} className="text-sm text-green-600 flex items-start gap-2">
-                      <span className="w-2 h-2 rounded-full bg-green-400 mt-2 flex-shrink-0" />
-                      {signal}
-                    </div>
-                  ))}
+                  {validationResult.positiveSignals.map((signal, index) => renderSignal(signal, index, 'green'))}
                 </div>
               </div>
             )}
@@ -299,13 +849,44 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
                   Sinais de Risco
                 </h4>
                 <div className="space-y-1">
-                  {validationResult.riskSignals.map((signal, index) => (
-                    <div key={index} className="text-sm text-orange-600 flex items-start gap-2">
-                      <span className="w-2 h-2 rounded-full bg-orange-400 mt-2 flex-shrink-0" />
-                      {signal}
+                  {validationResult.riskSignals.map((signal, index) => renderSignal(signal, index, 'orange'))}
+                </div>
+              </div>
+            )}
+
+            {/* Counterfactual explanation */}
+            {explanation.counterfactuals.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-gray-800 flex items-center gap-2">
+                  <Info className="h-4 w-4" />
+                  O que mudaria o veredito
+                </h4>
+                <div className="space-y-1">
+                  {explanation.contributions.map((impact, index) => (
+                    <div key={`${impact.code}-${index}`} className="flex items-center gap-2 text-xs">
+                      <div className="h-1.5 bg-orange-400 rounded" style={{ width: `${Math.max(4, impact.share * 100)}%`, maxWidth: '40%' }} />
+                      <span className="text-gray-700">{impact.message}</span>
+                      <span className="text-gray-500">+{impact.weight} ({Math.round(impact.share * 100)}%)</span>
                     </div>
                   ))}
                 </div>
+                <div className="space-y-1">
+                  {explanation.counterfactuals.map(cf => (
+                    <p key={cf.level} className="text-xs text-gray-600">
+                      <span className="font-medium">Nível {cf.level} (≤{cf.maxScore} pts):</span>{' '}
+                      {cf.reachable
+                        ? `sem ${cf.signals.map(s => s.code).join(', ')} (−${cf.signals.reduce((sum, s) => sum + s.weight, 0)} pts)`
+                        : 'não alcançável removendo sinais pontuados'}
+                    </p>
+                  ))}
+                  {explanation.fragility !== null && (
+                    <p className="text-xs text-gray-500">
+                      {explanation.fragility === 1
+                        ? 'Veredito frágil: basta um sinal para reduzir o nível.'
+                        : `Seriam necessários ${explanation.fragility} sinais a menos para reduzir o nível.`}
+                    </p>
+                  )}
+                </div>
               </div>
             )}
 
@@ -341,6 +922,23 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
               </div>
             )}
 
+            {/* Screenshot Detection */}
+            {validationResult.isScreenshot && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
+                <div className="flex items-start gap-2">
+                  <ImageIcon className="h-4 w-4 text-blue-600 mt-0.5" />
+                  <div>
+                    <p className="text-sm font-medium text-blue-800">
+                      Captura de Tela Detectada
+                    </p>
+                    <p className="text-xs text-blue-600 mt-1">
+                      {validationResult.riskSignals.find(s => s.code === 'SCREENSHOT_DETECTED')?.message ?? 'Imagem atende aos critérios de captura de tela'}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Debug Info */}
             {import.meta.env.VITE_DEBUG_EXIF === 'true' && validationResult.debugInfo && (
               <details className="space-y-2">
@@ -355,6 +953,24 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
           </CardContent>
         </Card>
 
+        {/* Image preview with pixel-analysis overlays */}
+        {fileMetadata.file_path && /^image\//.test(fileMetadata.mime_type ?? '') && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <ImageIcon className="h-5 w-5" />
+                Prévia da Imagem
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ImageForensicsPreview
+                filePath={fileMetadata.file_path}
+                isJpeg={fileMetadata.mime_type === 'image/jpeg' || !!fileAnalysis?.jpeg}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* File Summary */}
         <Card>
           <CardHeader>
@@ -384,14 +1000,14 @@ export default function ExifToolMetadataDisplay({ metadata }: ExifToolMetadataDi
             </CardTitle>
           </CardHeader>
           <CardContent>
-            <Accordion type="multiple" className="w-full">
-              {renderMetadataGroup('Informações do Arquivo', <FileText className="h-4 w-4" />, organizedMetadata.file)}
-              {renderMetadataGroup('EXIF - Dados da Câmera', <Camera className="h-4 w-4" />, organizedMetadata.exif)}
-              {renderMetadataGroup('GPS - Localização', <MapPin className="h-4 w-4" />, organizedMetadata.gps)}
-              {renderMetadataGroup('ICC - Perfil de Cor', <Palette className="h-4 w-4" />, organizedMetadata.icc)}
-              {renderMetadataGroup('Adobe/XMP - Software', <Code className="h-4 w-4" />, organizedMetadata.adobe)}
-              {renderMetadataGroup('Composite/JFIF', <ImageIcon className="h-4 w-4" />, organizedMetadata.composite)}
-              {renderMetadataGroup('Outros Metadados', <Zap className="h-4 w-4" />, organizedMetadata.other)}
+            <Accordion type="multiple" className="w-full" value={openGroups} onValueChange={setOpenGroups}>
+              {renderMetadataGroup('file', 'Informações do Arquivo', <FileText className="h-4 w-4" />, organizedMetadata.file)}
+              {renderMetadataGroup('exif', 'EXIF - Dados da Câmera', <Camera className="h-4 w-4" />, organizedMetadata.exif)}
+              {renderMetadataGroup('gps', 'GPS - Localização', <MapPin className="h-4 w-4" />, organizedMetadata.gps)}
+              {renderMetadataGroup('icc', 'ICC - Perfil de Cor', <Palette className="h-4 w-4" />, organizedMetadata.icc)}
+              {renderMetadataGroup('adobe', 'Adobe/XMP - Software', <Code className="h-4 w-4" />, organizedMetadata.adobe)}
+              {renderMetadataGroup('composite', 'Composite/JFIF', <ImageIcon className="h-4 w-4" />, organizedMetadata.composite)}
+              {renderMetadataGroup('other', 'Outros Metadados', <Zap className="h-4 w-4" />, organizedMetadata.other)}
             </Accordion>
           </CardContent>
         </Card>
@@ -4,12 +4,18 @@ import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useValidationProfiles } from '@/hooks/use-validation-profiles';
+import { ValidationProfileService } from '@/services/ValidationProfileService';
+import type { ValidationProfile } from '@/utils/validationProfiles';
 
 interface FileUploadResult {
   file: File;
   status: 'pending' | 'uploading' | 'success' | 'error';
   data?: any;
   error?: string;
+  warning?: string;   // Processed, but the verdict was not stored with the record
 }
 
 interface FileUploadZoneProps {
@@ -20,12 +26,98 @@ interface FileUploadZoneProps {
 
 const MAX_FILES = 50;
 
+function guessFromExt(name?: string): string | undefined {
+  const ext = name?.split('.').pop()?.toLowerCase();
+  if (!ext) return undefined;
+  const mimeMap: Record<string, string> = {
+    'jpg': 'image/jpeg',
+    'jpeg': 'image/jpeg',
+    'png': 'image/png',
+    'webp': 'image/webp',
+    'gif': 'image/gif',
+    'heic': 'image/heic',
+    'heif': 'image/heif',
+    'pdf': 'application/pdf',
+    'mp4': 'video/mp4',
+    'mov': 'video/quicktime',
+    'dng': 'image/x-adobe-dng',
+    'cr2': 'image/x-canon-cr2',
+    'cr3': 'image/x-canon-cr3',
+    'nef': 'image/x-nikon-nef',
+    'arw': 'image/x-sony-arw',
+    'orf': 'image/x-olympus-orf',
+    'rw2': 'image/x-panasonic-rw2',
+    'raf': 'image/x-fuji-raf',
+  };
+  return mimeMap[ext];
+}
+
+/**
+ * Upload one file, extract its metadata and store the verdict under the profile
+ */
+async function processFile(file: File, profile: ValidationProfile): Promise<FileUploadResult> {
+  try {
+    // Upload file to Supabase Storage
+    const fileExt = file.name.split('.').pop();
+    const fileName = `${Math.random().toString(36).substring(2)}.${fileExt}`;
+    const filePath = `uploads/${fileName}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from('image-uploads')
+      .upload(filePath, file);
+
+    if (uploadError) {
+      throw new Error(`Upload failed: ${uploadError.message}`);
+    }
+
+    // Process metadata with ExifTool API
+    const { data, error } = await supabase.functions.invoke('process-file-metadata', {
+      body: {
+        filePath,
+        fileName: file.name,
+        // Browsers report no type for RAW files
+        mimeType: file.type || guessFromExt(file.name) || '',
+        sizeBytes: file.size,
+        validationProfileId: profile.id ?? undefined
+      }
+    });
+
+    if (error) {
+      throw new Error(`Processing failed: ${error.message}`);
+    }
+
+    if (!data.success) {
+      throw new Error(data.error || 'Unknown processing error');
+    }
+
+    // The edge function stores the verdict with the record; without one the viewer recomputes it
+    if (!data.metadata?.analysis_results) {
+      return { file, status: 'success', data, warning: 'Veredito não calculado no servidor' };
+    }
+
+    return { file, status: 'success', data };
+  } catch (error) {
+    console.error('Upload/processing error:', error);
+    return { 
+      file, 
+      status: 'error', 
+      error: error instanceof Error ? error.message : 'Falha ao processar o arquivo' 
+    };
+  }
+}
+
 export default function FileUploadZone({ onFilesUpload, uploadedFiles, onRemoveFiles }: FileUploadZoneProps) {
   const [dragActive, setDragActive] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<FileUploadResult[]>([]);
+  const [selectedProfileId, setSelectedProfileId] = useState<string | undefined>();
+  const { data: profiles = [] } = useValidationProfiles();
   const { toast } = useToast();
 
+  // Profile sent with the upload; the edge function falls back to the default profile when unset
+  const profileId = selectedProfileId ?? profiles.find(p => p.isDefault)?.id;
+  const selectedProfile = profiles.find(p => p.id === profileId) ?? ValidationProfileService.builtinDefault();
+
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
@@ -36,50 +128,6 @@ export default function FileUploadZone({ onFilesUpload, uploadedFiles, onRemoveF
     }
   }, []);
 
-  const processFile = async (file: File): Promise<FileUploadResult> => {
-    try {
-      // Upload file to Supabase Storage
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Math.random().toString(36).substring(2)}.${fileExt}`;
-      const filePath = `uploads/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('image-uploads')
-        .upload(filePath, file);
-
-      if (uploadError) {
-        throw new Error(`Upload failed: ${uploadError.message}`);
-      }
-
-      // Process metadata with ExifTool API
-      const { data, error } = await supabase.functions.invoke('process-file-metadata', {
-        body: {
-          filePath,
-          fileName: file.name,
-          mimeType: file.type,
-          sizeBytes: file.size
-        }
-      });
-
-      if (error) {
-        throw new Error(`Processing failed: ${error.message}`);
-      }
-
-      if (!data.success) {
-        throw new Error(data.error || 'Unknown processing error');
-      }
-
-      return { file, status: 'success', data };
-    } catch (error) {
-      console.error('Upload/processing error:', error);
-      return { 
-        file, 
-        status: 'error', 
-        error: error instanceof Error ? error.message : 'Falha ao processar o arquivo' 
-      };
-    }
-  };
-
   const processFiles = useCallback(async (files: File[]) => {
     if (isUploading) return;
     
@@ -115,7 +163,7 @@ export default function FileUploadZone({ onFilesUpload, uploadedFiles, onRemoveF
         return updated;
       });
 
-      const result = await processFile(file);
+      const result = await processFile(file, selectedProfile);
 
       // Update status with result
       setUploadProgress(prev => {
@@ -129,6 +177,7 @@ export default function FileUploadZone({ onFilesUpload, uploadedFiles, onRemoveF
 
     const successCount = results.filter(r => r.status === 'success').length;
     const errorCount = results.filter(r => r.status === 'error').length;
+    const unsavedCount = results.filter(r => r.warning).length;
 
     if (successCount > 0) {
       toast({
@@ -143,10 +192,18 @@ export default function FileUploadZone({ onFilesUpload, uploadedFiles, onRemoveF
       });
     }
 
+    if (unsavedCount > 0) {
+      toast({
+        title: "Resultado não salvo",
+        description: `O veredito de ${unsavedCount} arquivo(s) não foi salvo no registro e será recalculado ao abrir.`,
+        variant: "destructive"
+      });
+    }
+
     onFilesUpload(results);
     setIsUploading(false);
     setUploadProgress([]);
-  }, [onFilesUpload, isUploading, toast]);
+  }, [onFilesUpload, isUploading, toast, selectedProfile]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -174,22 +231,6 @@ export default function FileUploadZone({ onFilesUpload, uploadedFiles, onRemoveF
     return `${(b! / 1073741824).toFixed(2)} GB`;
   };
 
-  const guessFromExt = (name?: string): string | undefined => {
-    const ext = name?.split('.').pop()?.toLowerCase();
-    if (!ext) return undefined;
-    const mimeMap: Record<string, string> = {
-      'jpg': 'image/jpeg',
-      'jpeg': 'image/jpeg',
-      'png': 'image/png',
-      'webp': 'image/webp',
-      'gif': 'image/gif',
-      'heic': 'image/heic',
-      'pdf': 'application/pdf',
-      'mp4': 'video/mp4',
-    };
-    return mimeMap[ext];
-  };
-
   // Show upload progress
   if (isUploading && uploadProgress.length > 0) {
     const completedCount = uploadProgress.filter(p => p.status === 'success' || p.status === 'error').length;
@@ -269,12 +310,15 @@ export default function FileUploadZone({ onFilesUpload, uploadedFiles, onRemoveF
         <div className="space-y-2 max-h-48 overflow-y-auto">
           {uploadedFiles.map((item, index) => (
             <div key={index} className="flex items-center gap-3 p-2 bg-muted/30 rounded-lg">
-              {item.status === 'success' ? (
+              {item.status === 'success' && !item.warning ? (
                 <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
+              ) : item.status === 'success' ? (
+                <AlertCircle className="h-4 w-4 text-yellow-500 flex-shrink-0" />
               ) : (
                 <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
               )}
-              <span className="text-sm truncate flex-1">{item.file.name}</span>
+              <span className="text-sm truncate flex-1" title={item.warning}>{item.file.name}</span>
+              {item.warning && <span className="text-xs text-yellow-600">Resultado não salvo</span>}
               <span className="text-xs text-muted-foreground">{formatBytes(item.file.size)}</span>
             </div>
           ))}
@@ -284,7 +328,24 @@ export default function FileUploadZone({ onFilesUpload, uploadedFiles, onRemoveF
   }
 
   return (
-    <div className="w-full max-w-2xl">
+    <div className="w-full max-w-2xl space-y-4">
+      {profiles.length > 0 && (
+        <div className="flex items-center gap-3">
+          <Label htmlFor="validation-profile" className="whitespace-nowrap">Perfil de validação</Label>
+          <Select value={profileId} onValueChange={setSelectedProfileId}>
+            <SelectTrigger id="validation-profile" className="w-64">
+              <SelectValue placeholder="Selecione um perfil" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id!}>
+                  {profile.name} (v{profile.version})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
       <div
         className={cn(
           "relative border-2 border-dashed rounded-lg p-8 text-center transition-all duration-300",
@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Slider } from '@/components/ui/slider';
+import { RefreshCw } from 'lucide-react';
+import { FileAnalysisService } from '@/services/FileAnalysisService';
+import { ElaService } from '@/services/ElaService';
+import { DoubleJpegService } from '@/services/DoubleJpegService';
+import { CopyMoveService } from '@/services/CopyMoveService';
+import { NoiseService } from '@/services/NoiseService';
+import type { WorkerTask } from '@/workers/protocol';
+import { isElaAnomalous, type ElaSummary } from '@/utils/ela';
+import type { DoubleJpegSummary } from '@/utils/doubleJpeg';
+import type { CopyMoveSummary } from '@/utils/copyMove';
+import { isNoiseInconsistent, type NoiseSummary } from '@/utils/noiseMap';
+
+type OverlayMode = 'none' | 'ela' | 'double-jpeg' | 'copy-move' | 'noise';
+
+const ELA_QUALITIES = [75, 85, 90, 95];
+
+interface ImageForensicsPreviewProps {
+  filePath: string;
+  isJpeg: boolean;
+}
+
+/**
+ * Draw a per-block probability map as a translucent red mask (one pixel per block, scaled by CSS)
+ */
+function drawBlockMap(canvas: HTMLCanvasElement, blocksX: number, blocksY: number, values: Float32Array) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  canvas.width = blocksX;
+  canvas.height = blocksY;
+  const image = ctx.createImageData(blocksX, blocksY);
+  values.forEach((value, i) => {
+    image.data[i * 4] = 255;
+    image.data[i * 4 + 3] = Math.round(value * 255);
+  });
+  ctx.putImageData(image, 0, 0);
+}
+
+// Copy-move mask colors: source regions in blue, their copies in magenta
+const CLONE_COLORS: Record<number, [number, number, number]> = { 1: [0, 160, 255], 2: [255, 0, 200] };
+
+function drawCloneMask(canvas: HTMLCanvasElement, width: number, height: number, values: Uint8Array) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  canvas.width = width;
+  canvas.height = height;
+  const image = ctx.createImageData(width, height);
+  values.forEach((value, i) => {
+    const color = CLONE_COLORS[value];
+    if (!color) return;
+    image.data.set([...color, 200], i * 4);
+  });
+  ctx.putImageData(image, 0, 0);
+}
+
+/**
+ * Uploaded image with pixel-analysis overlays computed on demand in workers
+ */
+export default function ImageForensicsPreview({ filePath, isJpeg }: ImageForensicsPreviewProps) {
+  const [image, setImage] = useState<Blob | null>(null);
+  const [imageUrl, setImageUrl] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [overlay, setOverlay] = useState<OverlayMode>('none');
+  const [opacity, setOpacity] = useState(70);
+  const [quality, setQuality] = useState(90);
+  const [ela, setEla] = useState<{ quality: number; summary: ElaSummary } | null>(null);
+  const [doubleJpeg, setDoubleJpeg] = useState<DoubleJpegSummary | null>(null);
+  const [copyMove, setCopyMove] = useState<CopyMoveSummary | null>(null);
+  const [noise, setNoise] = useState<NoiseSummary | null>(null);
+  const [shownOverlay, setShownOverlay] = useState<OverlayMode>('none');
+  const [isRunning, setIsRunning] = useState(false);
+  const [overlayError, setOverlayError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let url: string | null = null;
+    FileAnalysisService.downloadStoredFile(filePath)
+      .then(blob => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setImage(blob);
+        setImageUrl(url);
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : String(error));
+      });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [filePath]);
+
+  // Compute the selected overlay (the ELA heat map again when the quality changes)
+  useEffect(() => {
+    if (!image || overlay === 'none') return;
+    if (overlay === shownOverlay && (overlay !== 'ela' || ela?.quality === quality)) return;
+    let cancelled = false;
+    setIsRunning(true);
+    setOverlayError(null);
+
+    // Worker of the current run, terminated when the overlay changes or the preview closes
+    let cancelRun = () => {};
+    const track = <T,>(run: WorkerTask<T>) => {
+      cancelRun = run.cancel;
+      return run;
+    };
+
+    const task = overlay === 'ela'
+      ? track(ElaService.run(image, { quality })).then(result => {
+          if (cancelled) return;
+          const canvas = canvasRef.current;
+          const ctx = canvas?.getContext('2d');
+          if (canvas && ctx) {
+            canvas.width = result.width;
+            canvas.height = result.height;
+            ctx.putImageData(new ImageData(new Uint8ClampedArray(result.heatmap), result.width, result.height), 0, 0);
+          }
+          setEla({ quality, summary: result.summary });
+        })
+      : overlay === 'double-jpeg'
+      ? track(DoubleJpegService.run(image, { localize: true })).then(result => {
+          if (cancelled) return;
+          const canvas = canvasRef.current;
+          if (canvas && result.map) {
+            drawBlockMap(canvas, result.map.blocksX, result.map.blocksY, new Float32Array(result.map.values));
+          } else {
+            canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+          }
+          setDoubleJpeg(result.summary);
+        })
+      : overlay === 'copy-move'
+      ? track(CopyMoveService.run(image, { mask: true })).then(result => {
+          if (cancelled) return;
+          const canvas = canvasRef.current;
+          if (canvas && result.mask) {
+            drawCloneMask(canvas, result.mask.width, result.mask.height, new Uint8Array(result.mask.values));
+          }
+          setCopyMove(result.summary);
+        })
+      : track(NoiseService.run(image)).then(result => {
+          if (cancelled) return;
+          const canvas = canvasRef.current;
+          const ctx = canvas?.getContext('2d');
+          const { blocksX, blocksY } = result.summary;
+          if (canvas && ctx && blocksX && blocksY) {
+            canvas.width = blocksX;
+            canvas.height = blocksY;
+            ctx.putImageData(new ImageData(new Uint8ClampedArray(result.heatmap), blocksX, blocksY), 0, 0);
+          }
+          setNoise(result.summary);
+        });
+
+    task
+      .then(() => {
+        if (!cancelled) setShownOverlay(overlay);
+      })
+      .catch(error => {
+        if (!cancelled) setOverlayError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        if (!cancelled) setIsRunning(false);
+      });
+    return () => {
+      cancelled = true;
+      cancelRun();
+      setIsRunning(false);
+    };
+  }, [overlay, shownOverlay, image, quality, ela?.quality]);
+
+  if (loadError) {
+    return <p className="text-xs text-muted-foreground">Prévia indisponível: {loadError}</p>;
+  }
+  if (!imageUrl) {
+    return <p className="text-xs text-muted-foreground">Carregando prévia…</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={overlay}
+          onValueChange={value => value && setOverlay(value as OverlayMode)}
+        >
+          <ToggleGroupItem value="none">Original</ToggleGroupItem>
+          <ToggleGroupItem value="ela" disabled={!ElaService.isSupported()}>ELA</ToggleGroupItem>
+          <ToggleGroupItem value="double-jpeg" disabled={!isJpeg || !DoubleJpegService.isSupported()}>
+            Dupla compressão
+          </ToggleGroupItem>
+          <ToggleGroupItem value="copy-move" disabled={!CopyMoveService.isSupported()}>Clonagem</ToggleGroupItem>
+          <ToggleGroupItem value="noise" disabled={!NoiseService.isSupported()}>Ruído</ToggleGroupItem>
+        </ToggleGroup>
+
+        {overlay !== 'none' && (
+          <div className="flex items-center gap-2 w-40">
+            <span className="text-xs text-muted-foreground">Opacidade</span>
+            <Slider value={[opacity]} min={0} max={100} step={5} onValueChange={([value]) => setOpacity(value)} />
+          </div>
+        )}
+        {overlay === 'ela' && (
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={String(quality)}
+            onValueChange={value => value && setQuality(Number(value))}
+          >
+            {ELA_QUALITIES.map(q => (
+              <ToggleGroupItem key={q} value={String(q)}>Q{q}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        )}
+        {isRunning && <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />}
+      </div>
+
+      <div className="relative inline-block max-w-full">
+        {/* Shown as stored, like the workers decode it, so the overlays line up with the pixels */}
+        <img src={imageUrl} alt="Prévia da imagem" className="max-h-96 max-w-full rounded border" style={{ imageOrientation: 'none' }} />
+        <canvas
+          ref={canvasRef}
+          className="absolute inset-0 h-full w-full rounded pointer-events-none"
+          style={{
+            opacity: overlay !== 'none' && overlay === shownOverlay && !isRunning ? opacity / 100 : 0,
+            imageRendering: overlay === 'ela' || overlay === 'none' ? undefined : 'pixelated',
+          }}
+        />
+      </div>
+
+      {overlay !== 'none' && overlayError && (
+        <p className="text-xs text-red-600">Falha na análise: {overlayError}</p>
+      )}
+      {overlay === 'ela' && ela && !isRunning && (
+        <p className="text-xs text-muted-foreground">
+          ELA Q{ela.quality}: erro médio {ela.summary.meanError} · mediana por bloco {ela.summary.medianBlockError} ·
+          máx. {ela.summary.maxBlockError} · {Math.round(ela.summary.outlierRatio * 1000) / 10}% dos blocos destoam
+          {isElaAnomalous(ela.summary) && <span className="ml-1 text-orange-600">— anomalia localizada</span>}
+        </p>
+      )}
+      {overlay === 'double-jpeg' && doubleJpeg && !isRunning && (
+        <p className="text-xs text-muted-foreground">
+          Dupla compressão: {Math.round(doubleJpeg.probability * 100)}% (alinhada {Math.round(doubleJpeg.aligned.probability * 100)}%,
+          grade deslocada {Math.round(doubleJpeg.nonAligned.probability * 100)}%)
+          {doubleJpeg.aligned.probability >= 0.5
+            ? ' · em vermelho, blocos comprimidos uma única vez (possível região inserida)'
+            : ' · mapa de localização disponível apenas para dupla compressão alinhada'}
+        </p>
+      )}
+      {overlay === 'copy-move' && copyMove && !isRunning && (
+        <p className="text-xs text-muted-foreground">
+          {copyMove.regions.length
+            ? `Clonagem: ${copyMove.matches} blocos coincidentes em ${copyMove.regions.length} região(ões) · confiança ${Math.round(copyMove.confidence * 100)}% · em azul a origem, em magenta a cópia`
+            : 'Clonagem: nenhuma região duplicada encontrada'}
+        </p>
+      )}
+      {overlay === 'noise' && noise && !isRunning && (
+        <p className="text-xs text-muted-foreground">
+          Ruído: σ mediano {noise.medianNoise} (faixa {noise.lowNoise}–{noise.highNoise}) ·
+          {' '}{Math.round(noise.inconsistency * 1000) / 10}% dos blocos com ruído 2× acima (vermelho) ou abaixo (azul)
+          {isNoiseInconsistent(noise) && <span className="ml-1 text-orange-600">— inconsistência localizada</span>}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+// C2PA trust anchors
+// Root/intermediate certificates (PEM) whose signers are trusted. A manifest whose signature
+// verifies but whose chain does not end at one of these is reported as "untrusted".
+// Add anchors only from a published source (e.g. the C2PA conformance trust list or a
+// camera vendor's content credentials root) and record where each one came from.
+
+export interface TrustAnchor {
+  name: string;
+  source: string;   // Where the certificate was obtained
+  pem: string;
+}
+
+/**
+ * Bump when anchors are added or removed, together with RULESET_VERSION
+ */
+export const C2PA_TRUST_LIST_VERSION = '2026.10.0';
+
+export const C2PA_TRUST_ANCHORS: TrustAnchor[] = [];
+
+// Digital source types that describe a camera capture
+export const CAPTURE_SOURCE_TYPES = [
+  'http://cv.iptc.org/newscodes/digitalsourcetype/digitalCapture',
+  'https://cv.iptc.org/newscodes/digitalsourcetype/digitalCapture',
+];
@@ -0,0 +1,103 @@
+// Reference device database
+// What each camera/phone model writes into its original JPEGs, used by the silent-edit and
+// dimension checks. Brand entries give defaults for models that are not listed.
+// Only add values confirmed on unedited files straight from the device.
+
+export type DeviceType = 'smartphone' | 'camera';
+
+export interface BrandProfile {
+  tokens: string[];       // Lowercase words matched against "Make Model" (word boundaries)
+  deviceClass: DeviceType;
+  makerNote?: boolean;    // MakerNote expected in original files (undefined: no expectation)
+  customQuantization?: boolean;  // Firmware writes its own DQT tables, never the standard libjpeg ones
+}
+
+export interface DeviceModelProfile {
+  brand: string;          // First token of the BrandProfile
+  model: string;          // IFD0:Model without the brand prefix, case-insensitive
+  deviceClass: DeviceType;
+  resolutions: [number, number][];  // Full-size outputs (long edge first) at any quality/size setting
+  aspectRatios: string[];           // Crop modes the device offers, e.g. "4:3", "16:9"
+  makerNote?: boolean;
+  thumbnail?: boolean | [number, number];  // IFD1 thumbnail expected (with size when fixed)
+  subsampling?: string;             // JPEG chroma subsampling, e.g. "4:2:0"
+  exifFields?: string[];            // ExifIFD tags every original file carries (canonical ids)
+}
+
+/**
+ * Bump when entries are added or changed, together with RULESET_VERSION
+ */
+export const DEVICE_DATABASE_VERSION = '2026.10.1';
+
+export const BRAND_PROFILES: BrandProfile[] = [
+  { tokens: ['canon'], deviceClass: 'camera', makerNote: true, customQuantization: true },
+  { tokens: ['nikon'], deviceClass: 'camera', makerNote: true, customQuantization: true },
+  { tokens: ['sony'], deviceClass: 'camera', makerNote: true, customQuantization: true },
+  { tokens: ['fujifilm'], deviceClass: 'camera', makerNote: true, customQuantization: true },
+  { tokens: ['panasonic'], deviceClass: 'camera', makerNote: true },
+  { tokens: ['olympus'], deviceClass: 'camera', makerNote: true },
+  { tokens: ['apple', 'iphone'], deviceClass: 'smartphone', customQuantization: true },
+  { tokens: ['samsung'], deviceClass: 'smartphone' },
+  { tokens: ['google', 'pixel'], deviceClass: 'smartphone' },
+  { tokens: ['motorola'], deviceClass: 'smartphone' },
+  { tokens: ['xiaomi', 'redmi'], deviceClass: 'smartphone' },
+  { tokens: ['huawei'], deviceClass: 'smartphone' },
+  { tokens: ['oneplus'], deviceClass: 'smartphone' },
+  { tokens: ['oppo'], deviceClass: 'smartphone' },
+  { tokens: ['vivo'], deviceClass: 'smartphone' },
+  { tokens: ['realme'], deviceClass: 'smartphone' },
+  { tokens: ['asus'], deviceClass: 'smartphone' },
+];
+
+const IPHONE_EXIF_FIELDS = ['ExifIFD:LensMake', 'ExifIFD:LensModel', 'ExifIFD:SubjectArea', 'ExifIFD:BrightnessValue'];
+const IPHONE_ASPECTS = ['4:3', '16:9', '1:1'];
+
+const iphone = (model: string, resolutions: [number, number][]): DeviceModelProfile => ({
+  brand: 'apple',
+  model,
+  deviceClass: 'smartphone',
+  resolutions,
+  aspectRatios: IPHONE_ASPECTS,
+  makerNote: true,
+  thumbnail: true,
+  subsampling: '4:2:0',
+  exifFields: IPHONE_EXIF_FIELDS,
+});
+
+const CANON_ASPECTS = ['3:2', '4:3', '16:9', '1:1'];
+
+export const DEVICE_MODELS: DeviceModelProfile[] = [
+  // Apple
+  iphone('iPhone 11', [[4032, 3024]]),
+  iphone('iPhone 12', [[4032, 3024]]),
+  iphone('iPhone 12 Pro', [[4032, 3024]]),
+  iphone('iPhone 13', [[4032, 3024]]),
+  iphone('iPhone 13 Pro', [[4032, 3024]]),
+  iphone('iPhone 14 Pro', [[4032, 3024], [8064, 6048]]),
+  iphone('iPhone 15', [[4032, 3024], [5712, 4284], [8064, 6048]]),
+  iphone('iPhone 15 Pro', [[4032, 3024], [5712, 4284], [8064, 6048]]),
+
+  // Samsung
+  { brand: 'samsung', model: 'SM-S911B', deviceClass: 'smartphone', resolutions: [[4000, 3000], [8160, 6120]], aspectRatios: ['4:3', '16:9', '1:1'], makerNote: true },
+  { brand: 'samsung', model: 'SM-S918B', deviceClass: 'smartphone', resolutions: [[4000, 3000], [8160, 6120], [12000, 9000]], aspectRatios: ['4:3', '16:9', '1:1'], makerNote: true },
+
+  // Google
+  { brand: 'google', model: 'Pixel 7', deviceClass: 'smartphone', resolutions: [[4080, 3072]], aspectRatios: ['4:3', '16:9', '1:1'] },
+  { brand: 'google', model: 'Pixel 8', deviceClass: 'smartphone', resolutions: [[4080, 3072]], aspectRatios: ['4:3', '16:9', '1:1'] },
+
+  // Canon
+  { brand: 'canon', model: 'EOS 5D Mark IV', deviceClass: 'camera', resolutions: [[6720, 4480]], aspectRatios: CANON_ASPECTS, makerNote: true, thumbnail: [160, 120], subsampling: '4:2:2' },
+  { brand: 'canon', model: 'EOS R5', deviceClass: 'camera', resolutions: [[8192, 5464]], aspectRatios: CANON_ASPECTS, makerNote: true, thumbnail: [160, 120], subsampling: '4:2:2' },
+
+  // Nikon
+  { brand: 'nikon', model: 'D750', deviceClass: 'camera', resolutions: [[6016, 4016]], aspectRatios: ['3:2'], makerNote: true, thumbnail: true },
+  { brand: 'nikon', model: 'D850', deviceClass: 'camera', resolutions: [[8256, 5504]], aspectRatios: ['3:2', '5:4', '1:1', '16:9'], makerNote: true, thumbnail: true },
+
+  // Sony
+  { brand: 'sony', model: 'ILCE-7M3', deviceClass: 'camera', resolutions: [[6000, 4000]], aspectRatios: ['3:2', '16:9'], makerNote: true, thumbnail: true },
+  { brand: 'sony', model: 'ILCE-7RM4', deviceClass: 'camera', resolutions: [[9504, 6336]], aspectRatios: ['3:2', '16:9', '4:3', '1:1'], makerNote: true, thumbnail: true },
+
+  // Fujifilm
+  { brand: 'fujifilm', model: 'X-T4', deviceClass: 'camera', resolutions: [[6240, 4160]], aspectRatios: ['3:2', '16:9', '1:1'], makerNote: true, thumbnail: true },
+  { brand: 'fujifilm', model: 'X100V', deviceClass: 'camera', resolutions: [[6240, 4160]], aspectRatios: ['3:2', '16:9', '1:1'], makerNote: true, thumbnail: true },
+];
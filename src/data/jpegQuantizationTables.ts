@@ -0,0 +1,717 @@
+// Reference JPEG quantization table digests
+// Each entry is the ExifTool JPEGDigest of the DQT tables written by one encoder at one setting
+// (see readQuantizationDigest in jpegQuantization.ts): the MD5 of the DQT segments, followed by
+// ":<sampling factors>" when ExifTool lists the tables together with the chroma subsampling.
+// Source: ExifTool Image::ExifTool::JPEGDigest 1.06 (Phil Harvey, Jens Duttke, Franz Buchinger),
+// distributed under the same terms as Perl. Entries from other reference files can be generated with
+//   npm run dqt-fingerprint -- <reference.jpg> --kind camera --source Canon --make canon --models "EOS R5"
+// Standard libjpeg (IJG) tables are generated for every quality in jpegQuantization.ts and are not listed here.
+
+export type QuantizationSourceKind = 'camera' | 'editor' | 'library' | 'messenger';
+
+export interface QuantizationLibraryEntry {
+  kind: QuantizationSourceKind;
+  source: string;       // Encoder, e.g. "Adobe Photoshop", "Canon"
+  label: string;        // Setting, e.g. "Qualidade 10", "Save for Web, Qualidade 60"
+  make?: string;        // Camera entries: brand word of IFD0 Make, lowercase ("nikon" matches "NIKON CORPORATION")
+  models?: string[];    // Camera entries: IFD0 Model without the brand word; any model of the make when absent
+  digest: string;
+}
+
+/**
+ * Bump when entries are added or changed (recorded with the quantization check)
+ */
+export const QUANTIZATION_LIBRARY_VERSION = '2026.10.1';
+
+const editor = (source: string) => (digest: string, label: string): QuantizationLibraryEntry =>
+  ({ kind: 'editor', source, label, digest });
+
+const CAMERA_SOURCES: Record<string, string> = {
+  canon: 'Canon', htc: 'HTC', minolta: 'Konica Minolta', nikon: 'Nikon', panasonic: 'Panasonic', pentax: 'Pentax', sony: 'Sony',
+};
+
+const camera = (digest: string, make: string, label: string, models?: string[]): QuantizationLibraryEntry =>
+  ({ kind: 'camera', source: CAMERA_SOURCES[make], label, make, ...(models && { models }), digest });
+
+const photoshop = editor('Adobe Photoshop');
+const photoshopExpress = editor('Adobe Photoshop Express');
+const lightroom = editor('Adobe Lightroom');
+const aperture = editor('Apple Aperture');
+const paintShopPro = editor('Corel Paint Shop Pro');
+const acdsee = editor('ACD Systems');
+const captureNx = editor('Nikon Capture NX');
+const digitalPhotoProfessional = editor('Canon Digital Photo Professional');
+const zoomBrowser = editor('Canon ZoomBrowser');
+const finePixViewer = editor('FUJIFILM FinePixViewer');
+const pentaxPhotoLab = editor('PENTAX PHOTO Laboratory');
+const imageDataSuite = editor('Sony Image Data Suite');
+
+// Camera firmware tables, per make and model (Pentax, PowerShot and DV entries cover the whole make)
+export const CAMERA_QUANTIZATION_TABLES: QuantizationLibraryEntry[] = [
+  camera('0147c5088beb16642f9754f8671f13b3:211111', 'canon', 'PowerShot, Fine'),
+  camera('586b40c7d4b95e11309636703e81fbe9:211111', 'canon', 'EOS 20D, Fine', ['EOS 20D']),
+  camera('6640ae3bb6f646013769b182c74931b5:211111', 'canon', 'PowerShot, Normal'),
+  camera('83d6d7dd7ace56feeeb65b88accae1bc:211111', 'canon', 'PowerShot, Normal Small'),
+  camera('b8548a302585d78a0c269b54bff86541:211111', 'canon', 'PowerShot, Fine Small'),
+  camera('9d125046484461bbc155d8eff6d4e8f0:211111', 'canon', 'PowerShot, Superfine (A430/A460)'),
+  camera('0e618a0e79b4d540da1f6e07fcdce354:211111', 'canon', 'PowerShot, Superfine Small'),
+  camera('d255f70a910a2d0039f4e792d2c01210:211111', 'canon', 'PowerShot, Superfine Medium2'),
+  camera('8bc267b04a54c02fdee1f4fdf0bcce83:211111', 'canon', 'EOS 1DmkIII/5DmkII/40D/1000D, Fine', ['EOS-1D Mark III', 'EOS 5D Mark II', 'EOS 40D', 'EOS 1000D']),
+  camera('17cb779485969589a5c7eb07a5d53247:211111', 'canon', 'EOS 1DmkIII, Fine (pre-production)', ['EOS-1D Mark III']),
+  camera('ee1c033afaf4cd5263ff2b1c1ff8966c:211111', 'canon', 'PowerShot, Superfine'),
+  camera('a92912eb3c81e5c873d49433264af842:211111', 'canon', 'EOS 30D/40D/50D/300D, Normal', ['EOS 30D', 'EOS 40D', 'EOS 50D', 'EOS 300D DIGITAL']),
+  camera('0cec88a0cd8fe35720e78cdcdbdadef6:121111', 'canon', 'EOS 1DmkII, Fine (A)', ['EOS-1D Mark II']),
+  camera('72cdcc91e3ddc2c3d17c20173b75c5ef:211111', 'canon', 'EOS 1DmkII, Fine (B)', ['EOS-1D Mark II']),
+  camera('483b5288e4256aa8ff96d6ccb96eba43:211111', 'canon', 'EOS 1DmkII, Fine (C)', ['EOS-1D Mark II']),
+  camera('ea2f997a0261bab501bf122b04cbc859:211111', 'canon', 'EOS 1DSmkII, Fine', ['EOS-1Ds Mark II']),
+  camera('98af13526b7e4bbf73a9fb11a8fa789d:121111', 'canon', 'EOS 1DSmkII, Fine (vertical)', ['EOS-1Ds Mark II']),
+  camera('9e6abfb26d3b95b8cd2f710e78def947:121111', 'canon', 'EOS 300D, Fine (vertical)', ['EOS 300D DIGITAL']),
+  camera('4d6b36e81fe30c67dd53edb4d7c05422:121111', 'canon', 'EOS 40D, Fine (vertical)', ['EOS 40D']),
+  camera('92c1557deaa14f1cdaf92cf0531487f1:121111', 'canon', 'EOS 1D/1DS, Fine', ['EOS-1D', 'EOS-1DS']),
+  camera('db8d4df12405d0d69eb25f06a963ac5b:211111', 'canon', 'DV'),
+  camera('eaead98bbdfde35210f48286662e8ad2:211111', 'canon', 'DV Hi-Res'),
+  camera('74f0ef9476707be45f06951ca9a809ba:211111', 'canon', 'DV/Optura/Elura, Superfine'),
+  camera('bf72e4d4aacbdaeb86fd3f67c8df2667:221111', 'htc', 'Touch Diamond P3700, qualidade desconhecida', ['Touch Diamond P3700']),
+  camera('b5c213a3785c4c62b25d8f8c30758593:211111', 'minolta', 'DYNAX 7D, Fine', ['DYNAX 7D']),
+  camera('118a60a90c56bcb363fdd93b911a3371:211111', 'nikon', 'D50 / D80, Fine', ['D50', 'D80']),
+  camera('457b05fd0787a8e29bd43cd65911d6ca:211111', 'nikon', 'D80, Basic', ['D80']),
+  camera('5701582a0da2e9e8dcd923a5cf877494:211111', 'nikon', 'D50, Fine', ['D50']),
+  camera('662bd7fb9dff6426e310f9261a3703d0:211111', 'nikon', 'D50, Fine', ['D50']),
+  camera('e06eb7848ec8766239ff014aa8b62e49:211111', 'nikon', 'D80, Normal', ['D80']),
+  camera('9e201a496a3700a77d9102c0dd0f8dbf:211111', 'nikon', 'D300, Basic', ['D300']),
+  camera('07d3cd227395b060a132411cbfc22593:211111', 'panasonic', 'DMC-FZ50, High (A)', ['DMC-FZ50']),
+  camera('118a60a90c56bcb363fdd93b911a3371:211111', 'panasonic', 'DMC-FZ50/TZ3, High (A)', ['DMC-FZ50', 'DMC-TZ3']),
+  camera('1b8d04b1d56a4c0c811a0d3a68e86d06:211111', 'panasonic', 'DMC-FZ50, High (B)', ['DMC-FZ50']),
+  camera('1e619cbdee1f8ff196d34dad9140876f:211111', 'panasonic', 'DMC-FZ50, High (C)', ['DMC-FZ50']),
+  camera('493abc7f4b392a0341bfcac091edb8f8:211111', 'panasonic', 'DMC-FZ30, High (B)', ['DMC-FZ30']),
+  camera('4aa883c43840de7f0d090284120c69bc:211111', 'panasonic', 'DMC-FZ50, High (D)', ['DMC-FZ50']),
+  camera('7eafb9874384d391836e64911e912295:211111', 'panasonic', 'DMC-FZ50, High (E)', ['DMC-FZ50']),
+  camera('82b56237e4eccde035edff4a5abdba44:211111', 'panasonic', 'DMC-FZ50, High (F)', ['DMC-FZ50']),
+  camera('8335023e5a1ee8df80d52327b0556c44:211111', 'panasonic', 'DMC-FZ30, High (C)', ['DMC-FZ30']),
+  camera('8c105b3669931607853fa5ba4fffb839:211111', 'panasonic', 'DMC-FZ30, High (D)', ['DMC-FZ30']),
+  camera('8ecfb959bc76e5d6703f3f3bba2c5529:211111', 'panasonic', 'DMC-FZ30, High (E)', ['DMC-FZ30']),
+  camera('96eda111b2153648b3f27d6c1a9ec48f:211111', 'panasonic', 'DMC-FZ50/TZ3, High (B)', ['DMC-FZ50', 'DMC-TZ3']),
+  camera('99f76923cfbd774febea883b603b8103:211111', 'panasonic', 'DMC-FZ30, High (F)', ['DMC-FZ30']),
+  camera('9b3475b865b9d31e433538460b75a588:211111', 'panasonic', 'DMC-FZ10, High', ['DMC-FZ10']),
+  camera('9eb7cdfd07099c1bb8e2c6c04b20b8ba:211111', 'panasonic', 'DMC-FZ30, High (G)', ['DMC-FZ30']),
+  camera('9fc030294fa5c4044dbb0cb461b0cf93:211111', 'panasonic', 'DMC-TZ5, High (A)', ['DMC-TZ5']),
+  camera('a8779af4cb8afa2def1d346a9b16e81a:211111', 'panasonic', 'DMC-TZ5, High (B)', ['DMC-TZ5']),
+  camera('bebd334aca511e2a2b6c60f43f9e6cf1:211111', 'panasonic', 'DMC-FZ30, High (H)', ['DMC-FZ30']),
+  camera('c871ce0851d4647f226b2dcfd49fe9a9:211111', 'panasonic', 'DMC-L1, Very High', ['DMC-L1']),
+  camera('eb625c64e32314f51dc4286564a71f7b:211111', 'panasonic', 'DMC-FZ10, High', ['DMC-FZ10']),
+  camera('1027a4af6a2a07e58bbd6df5b197d44e:211111', 'pentax', 'K10D (A)'),
+  camera('17a77c2574ff5b72b3284f57977187f3:211111', 'pentax', 'K10D (B)'),
+  camera('1aee684c7eb75320d988f6296c4c16ea:211111', 'pentax', 'K10D (C)'),
+  camera('32386501afff88b45432b23fe41593e8:211111', 'pentax', 'K10D (D)'),
+  camera('35ad02c3d8237a074b67423c39d3d61c:211111', 'pentax', 'K10D (E)'),
+  camera('39d929c095f37a90e7d083db40e8642d:211111', 'pentax', 'K10D (F)'),
+  camera('4127433151f74654762b1ef3293781f4:211111', 'pentax', 'K10D (G)'),
+  camera('599a7794c32b9d60e80426909ed40a09:211111', 'pentax', 'K10D (H)'),
+  camera('641812174c82d5b62ec86c33bd852204:211111', 'pentax', 'K10D (I)'),
+  camera('76d958276bf2cac3c36b7d9a677094a7:211111', 'pentax', 'K10D (J)'),
+  camera('79b07131be4827795315bf42c65212f2:211111', 'pentax', 'K10D (K)'),
+  camera('836448ef538366adb50202927b53808a:211111', 'pentax', 'K10D (L)'),
+  camera('8f70e4a31ad4584043ddc655eca17e89:211111', 'pentax', 'K10D (M)'),
+  camera('90d3c964eaf6e4bd12cf5ca791a7d753:211111', 'pentax', 'K10D (N)'),
+  camera('994a9f2060976d95719ca7064be3a99c:211111', 'pentax', 'K10D (0)'),
+  camera('994a9f2060976d95719ca7064be3a99c:211111', 'pentax', 'K10D/K20D (P)'),
+  camera('9971f02a466c47d640e8f20a2e4b55b9:211111', 'pentax', 'K10D (Q)'),
+  camera('a16626c285e5a2290d331f99f4eec774:211111', 'pentax', 'K10D (R)'),
+  camera('a64569d6387a118992e44e41aaeac27e:211111', 'pentax', 'K10D (S)'),
+  camera('a8055a53fda7f9a0e387026c81960aa4:211111', 'pentax', 'K10D (T)'),
+  camera('ab50a9f53a44ffecc54efe1cb7c6620a:211111', 'pentax', 'K10D (U)'),
+  camera('aeb34eb083acc888770d65e691497bcf:211111', 'pentax', 'K10D (V)'),
+  camera('af2a112c30fa29213a402dbd3c2b2d3a:211111', 'pentax', 'K10D (W)'),
+  camera('bb4475a9e14464eb4682fd81cceb1f91:211111', 'pentax', 'K10D (X)'),
+  camera('bf72e4d4aacbdaeb86fd3f67c8df2667:211111', 'pentax', 'K10D (Y)'),
+  camera('0a953ba56b59fa0bbbdac0162ea1c96b:211111', 'pentax', 'K10D (Z)'),
+  camera('387354b46b9726f33da5c0c1a0c383a0:211111', 'pentax', 'K10D/K20D (AA)'),
+  camera('4e7f4e5cd15f4fc089ab25890619dc60:211111', 'pentax', 'K10D (AB)'),
+  camera('6518270228fd20730740a08cc8a171f6:211111', 'pentax', 'K10D (AC)'),
+  camera('72bce7df55635509eb6468fc6406941d:211111', 'pentax', 'K10D (AD)'),
+  camera('7cafc25f204fc4ddf39d86e2f0f07b62:211111', 'pentax', 'K10D (AE)'),
+  camera('811e5b0229f0e8baf4b40cd2d8777550:211111', 'pentax', 'K10D (AF)'),
+  camera('9282a1cec6bbd1232b3673091164d43d:211111', 'pentax', 'K10D (AG)'),
+  camera('c59a4cf0beedbfd1b102dc3d3c8e73ac:211111', 'pentax', 'K10D (AH)'),
+  camera('d97b27b45fdbe82a79364e0939adbf90:121111', 'pentax', 'K10D (AI)'),
+  camera('db87a4c5c1d4e03dc6645bcf0535a930:211111', 'pentax', 'K10D (AJ)'),
+  camera('f9a93cb70da7bbe87e35cd9980a5fd47:211111', 'pentax', 'K10D (AK)'),
+  camera('ff6a158f803e42bfbf9f702c016b84b3:211111', 'pentax', 'K10D (AL)'),
+  camera('ff6d4a4a60a1c5e032e7fb7d9c91f817:211111', 'pentax', 'K10D (AM)'),
+  camera('dca5476d81d0ceca97f480fecd09b23c:211111', 'pentax', 'K10D (AN)'),
+  camera('efbe7634221900639b3c072395c61bef:211111', 'pentax', 'K10D (AO)'),
+  camera('f4dba22dd251350a21f8122f2777e7b0:211111', 'pentax', 'K10D (AP)'),
+  camera('f90135fcff0e1720dda86e9ad718c0c0:211111', 'pentax', 'K10D (AQ)'),
+  camera('fa3d7753be7b329ab9961657cbc65386:211111', 'pentax', 'K10D (AR)'),
+  camera('fa8720d025f2a164542b6a8e31112991:211111', 'pentax', 'K10D (AS)'),
+  camera('2941d12ef34511d96b659ba30d682cd1:211111', 'pentax', 'K10D (AT)'),
+  camera('2aa82b6717f1cdfe6b6d60a4486b5671:211111', 'pentax', 'K10D (AU)'),
+  camera('2aa82b6717f1cdfe6b6d60a4486b5671:211111', 'pentax', 'K10D (AV)'),
+  camera('3527616df6f26a3ab36b80a8d885fc07:211111', 'pentax', 'K10D (AW)'),
+  camera('3527616df6f26a3ab36b80a8d885fc07:211111', 'pentax', 'K10D (AX)'),
+  camera('3527616df6f26a3ab36b80a8d885fc07:211111', 'pentax', 'K10D (AY)'),
+  camera('5ea9e766888399a41f3f1a3c5c15cd90:211111', 'pentax', 'K10D (AZ)'),
+  camera('f83d978290d0699054eabb0a7811c7a4:211111', 'pentax', 'K10D (BA)'),
+  camera('f83d978290d0699054eabb0a7811c7a4:211111', 'pentax', 'K10D (BB)'),
+  camera('fa8720d025f2a164542b6a8e31112991:211111', 'pentax', 'K10D/K100D'),
+  camera('586b40c7d4b95e11309636703e81fbe9:211111', 'pentax', 'K20D/K200D/Optio 230, Best'),
+  camera('586b40c7d4b95e11309636703e81fbe9:211111', 'canon', 'EOS 10D/300D/350D, Fine', ['EOS 10D', 'EOS 300D DIGITAL', 'EOS 350D DIGITAL']),
+  camera('b73481179da895f3b9ecea1737054a9c:211111', 'pentax', 'K20D, Best (B)'),
+  camera('b8fce00f93108e7db57a012c51fad341:211111', 'pentax', 'K20D, Best (C)'),
+  camera('5ee766b90badc8fed5a5386e78a80783:211111', 'pentax', '*istDS, Good (editada na câmera)'),
+  camera('d528fac9b63536ff52041745945dcb09:211111', 'pentax', '*istDS, Better (editada na câmera)'),
+  camera('d6390cc36d2f03c1d2dd13d6910ca46b:211111', 'pentax', '*istDS, Best (editada na câmera)'),
+  camera('dc149d41f08d16cb9d52a5bdd487a67e:121111', 'pentax', '*istD/K100Dsuper/Optio300GS, Best'),
+  camera('e10030f09a14acdd647eff13c0bf333a:211111', 'pentax', '*istD/DS/DS2/K100D/Optio330GS/33L, Best'),
+  camera('ef0cd1902fb1afe284468a67eaffd078:211111', 'pentax', '*istDS/K100D/K100Dsuper, Good'),
+  camera('f1262dfcada6e6c2cd4b9fa7e881233b:211111', 'pentax', '*istDL/DS, Better'),
+  camera('f3235a7d187d083b7b7ead949653f730:211111', 'pentax', 'K20D/K200D, Best (D)'),
+  camera('6686cddc46088f0987e7476861fbfb47:211111', 'pentax', 'K2000, Best (A)'),
+  camera('5910b8431fdd8ab93ce258f366c4b867:211111', 'pentax', 'K2000, Best (B)'),
+  camera('c8bfcc60aeec937300405f59373be4ef:211111', 'pentax', 'K2000, Best (C)'),
+  camera('689a0e3511f2aea75637f46e6af9fd9f:211111', 'pentax', 'Optio A40, Best (editada na câmera)'),
+  camera('8d14598ae9cc1b7f5357424a19d05a71:211111', 'pentax', 'Optio A30/A40, Good'),
+  camera('a4cb8a3a000484b37c4373cde1170091:211111', 'pentax', 'Optio A30/A40/S10/S12, Best'),
+  camera('0ac5cb651c496369d0e924ae070b7c53:211111', 'pentax', 'Optio A40, Better (editada na câmera)'),
+  camera('1068be028c278941bd8abf3b0021655e:211111', 'pentax', 'Optio A40, Good (editada na câmera)'),
+  camera('336eeeb78e386bf66fe6325b4a0fcfa6:211111', 'pentax', 'Optio A40, Better'),
+  camera('ae2efaf1a96a4fdcfa9003b9aa963ae4:221111', 'pentax', 'Optio 330, Best (vertical)'),
+  camera('3803d7f6b7aed64c658c21dbb2bc0797:221111', 'pentax', 'Optio 330, Best'),
+  camera('353bf09900feb764885329e7bebfd95e:211111', 'pentax', 'Optio 330GS, Good'),
+  camera('6c2bc41a4b6ad1e20655ffcc0dfd2c41:221111', 'pentax', 'Optio 330RS, Fine'),
+  camera('e9206045838e9f5f9bd207744254e96d:221111', 'pentax', 'Optio 430, Best'),
+  camera('759fb7011e13fa5f975bb668f5b94d8b:211111', 'pentax', 'Optio 550/750Z/M60/X, Best'),
+  camera('637103ef9d8e84f8345f8218f158fc3c:211111', 'pentax', 'Optio 550/M10/T30/W30, Best'),
+  camera('23f2a5970523c5f7fd2ab7fa3b09dff9:211111', 'pentax', 'Optio 550/555/M20/M30/W10/W20, Best'),
+  camera('8d2f02a07bad6b5cec48466036fef319:121111', 'pentax', 'Optio 550, Better'),
+  camera('27297008a89ee49804f0859ea6435878:211111', 'pentax', 'Optio MX, Best'),
+  camera('6cfe3833aadd87487afc11129d8cb2aa:221111', 'pentax', 'Optio S, Better'),
+  camera('fcef35c97674aeb26c67e539b726057f:221111', 'pentax', 'Optio S, Best (A)'),
+  camera('13b2644cdad6f75767667e8ea5c218a3:221111', 'pentax', 'Optio S, Best (B)'),
+  camera('310b70bc4fac884f64a07040a4b87468:221111', 'pentax', 'Optio S, Best (C)'),
+  camera('aa05fbe795d86a1063c55865e8613536:221111', 'pentax', 'Optio S, Best (D)'),
+  camera('d57ac6956e4fe86c386f0eef00a5e021:221111', 'pentax', 'Optio S, Best (E)'),
+  camera('28782f5ee24fe983fe90b9438b39ae2e:221111', 'pentax', 'Optio S4, Best'),
+  camera('804bd63907214e005f01fb65a2bb00e6:221111', 'pentax', 'Optio S4i, Best'),
+  camera('84285f5b3248884488e5142b8c7210e2:211111', 'pentax', 'Optio S6, Good'),
+  camera('e97694f0093de13987a335e131b30eb0:221111', 'pentax', 'Optio SVi, Best'),
+  camera('037d043c8a8d5332c28d59f71a0dcfd2:211111', 'pentax', 'Optio E35'),
+  camera('dd8ad8ce688c4248f924022c38d3228c:211111', 'pentax', 'Optio 43WR, Good'),
+  camera('e55e0c1adbbca8b9d100881248050eb5:211111', 'pentax', 'Optio 43WR, Better'),
+  camera('7770d784d852b3333f9213713e481125:211111', 'pentax', 'Optio 450, Best'),
+  camera('61d311bde22762ae0e88b768e835eced:211111', 'pentax', 'Optio 33WR/M50, Best'),
+  camera('bc066ff3fbea8a290c6f9882687945e0:221111', 'pentax', 'Optio 430RS, Fine'),
+  camera('b6bd9f956309a20e3a56294077536391:211111', 'pentax', 'Optio A10/S7, Best'),
+  camera('a4ecd6b77f06671530942783c3595aca:211111', 'pentax', 'Optio A20, Best'),
+  camera('40f66b0a209f24716320636b776dda94:211111', 'pentax', 'Optio E30/E40, Best'),
+  camera('59a868b3d11d9cdc87859c02757e13bb:211111', 'pentax', 'Optio E50, Best'),
+  camera('9570584f017ed2c4f0fb91782b51faa9:211111', 'pentax', 'Optio M40/Z10, Best'),
+  camera('5a74f09fb2586fa000c42e98e3b9f2d8:211111', 'pentax', 'Optio T10'),
+  camera('0867bdf854d1fbb141411de518a66ba6:211111', 'pentax', 'Optio T20 (A)'),
+  camera('f74b3853185743c111ccb13e6febdc21:211111', 'pentax', 'Optio T20 (B)'),
+  camera('b6640d3879f9922708d23e6adb3d61c9:211111', 'pentax', 'Optio V10, Best'),
+  camera('253467dc35dfbb32cb3d619fc635d689:211111', 'pentax', 'Optio V20/W60, Best'),
+  camera('6bd350bf5df27ed1b5bf1d83fa9d021f:211111', 'sony', 'DSLR-A700, Fine', ['DSLR-A700']),
+  camera('d6390cc36d2f03c1d2dd13d6910ca46b', 'pentax', 'K20D/Optio E60, Premium'),
+];
+
+// Image editors and raw converters
+export const EDITOR_QUANTIZATION_TABLES: QuantizationLibraryEntry[] = [
+  // Photoshop CS2 9.0.2: "Save as" (color and grayscale) and "Save for Web"
+  photoshop('683506a889c78d9bc230a0c7ee5f62f3:221111', 'Qualidade 0'),
+  photoshop('bc490651af6592cd1dbbbc4fa2cfa1fb:221111', 'Qualidade 1'),
+  photoshop('ce4286d9f07999524c3c7472b065c5ab:221111', 'Qualidade 2'),
+  photoshop('cbfbfef12aead8841585ef605c789b9f:221111', 'Qualidade 3'),
+  photoshop('a0772e73dec2bdc4057c27da47bff376:221111', 'Qualidade 4'),
+  photoshop('7ef06dbde538346b8b01c6b538ca70c6:221111', 'Qualidade 5'),
+  photoshop('0ff225f58a214f79d1d85d78f6f5dab8:221111', 'Qualidade 6'),
+  photoshop('8a8603650fa5ae5fdcf4b2eaf0b23638:111111', 'Qualidade 7'),
+  photoshop('44f583ed6b65cb8ba915ec5df051616c:111111', 'Qualidade 8'),
+  photoshop('de94c5591bafc7456ccaef430271b907:111111', 'Qualidade 9'),
+  photoshop('a6841b35e9ffefa5d83a0445dddd2621:111111', 'Qualidade 10'),
+  photoshop('6e3f6a3a5a1eae6155331d42d6f968dd:111111', 'Qualidade 11'),
+  photoshop('5379e0133d4439b6f7c7039fc7f7734f:111111', 'Qualidade 12'),
+  photoshop('3b0b5975a0e1c9d732c93e1b37a6978b:11', 'Qualidade 0 (tons de cinza)'),
+  photoshop('f4d19ed563e2d0519d6a547088771ddb:11', 'Qualidade 1 (tons de cinza)'),
+  photoshop('e9ef286567fd84a1f479b35ca00db43c:11', 'Qualidade 2 (tons de cinza)'),
+  photoshop('b39cafdb459a42749be3f6459a596677:11', 'Qualidade 3 (tons de cinza)'),
+  photoshop('b3f215deea48e982e205619af279205f:11', 'Qualidade 4 (tons de cinza)'),
+  photoshop('fccd63ce166e198065eaae05c8d78407:11', 'Qualidade 5 (tons de cinza)'),
+  photoshop('0a50266ad8d1dff11c90cd1480c0a2be:11', 'Qualidade 6 (tons de cinza)'),
+  photoshop('6579941db0216f41f0a20de9b626538a:11', 'Qualidade 7 (tons de cinza)'),
+  photoshop('57aa47876e10c6b4f35ecb8889e55ad9:11', 'Qualidade 8 (tons de cinza)'),
+  photoshop('076598d43c5186f6d7a1020b64b93625:11', 'Qualidade 9 (tons de cinza)'),
+  photoshop('37132e8ea81137fdf26ce30926ab8100:11', 'Qualidade 10 (tons de cinza)'),
+  photoshop('46f55ee294723cee9faa816549b3cfa7:11', 'Qualidade 11 (tons de cinza)'),
+  photoshop('7b83284f61decf47ab3f8f7361c18943:11', 'Qualidade 12 (tons de cinza)'),
+  photoshop('9ac881c536e509675e5cf3795a85d9de:221111', 'Save for Web, Qualidade 0'),
+  photoshop('3521d793fd9d2d9aac85dc4f0be40290:221111', 'Save for Web, Qualidade 1'),
+  photoshop('041c9e3cf0d34a8b89539e3115bca31b:221111', 'Save for Web, Qualidade 2'),
+  photoshop('029b3a6f0b92af6786d753788eafabfe:221111', 'Save for Web, Qualidade 3'),
+  photoshop('6cdd3762e346b16a59af4bddb213b07a:221111', 'Save for Web, Qualidade 4'),
+  photoshop('84a69c0b43505dd0cbc25d640873b5b9:221111', 'Save for Web, Qualidade 5'),
+  photoshop('7254c012821f2bc866d7d6dd7906c92d:221111', 'Save for Web, Qualidade 6'),
+  photoshop('428ba2c747ea4e495ff3c7ff44a988d2:221111', 'Save for Web, Qualidade 7'),
+  photoshop('42cb001aea7e24d239f6c2fcbd861862:221111', 'Save for Web, Qualidade 8'),
+  photoshop('a3698813ce90772a30b6eb9a7deb3f4a:221111', 'Save for Web, Qualidade 9'),
+  photoshop('301158b292e3232856a765486da26fa6:221111', 'Save for Web, Qualidade 10'),
+  photoshop('8d9edea9287aa919e433b620f61468dc:221111', 'Save for Web, Qualidade 11'),
+  photoshop('c1e0554d8a6ed003eb98e068429b56b9:221111', 'Save for Web, Qualidade 12'),
+  photoshop('0e0a151e0a52097cbd7683c9385e3a7c:221111', 'Save for Web, Qualidade 13'),
+  photoshop('911e66f21fe242cc74e0a5738b0330bd:221111', 'Save for Web, Qualidade 14'),
+  photoshop('028fafd94aa66ee269f58d800c89d838:221111', 'Save for Web, Qualidade 15'),
+  photoshop('866b8adb1ce7c9dc0e58b7c1e013280f:221111', 'Save for Web, Qualidade 16'),
+  photoshop('7f712aecf513621f635a007aadda61af:221111', 'Save for Web, Qualidade 17'),
+  photoshop('38f26622a54ba22accac05f7c0a3b307:221111', 'Save for Web, Qualidade 18'),
+  photoshop('d241d5165e64e98024b47dfbf76be88c:221111', 'Save for Web, Qualidade 19'),
+  photoshop('afb31cfed194d4e125bde8fd4755bb8a:221111', 'Save for Web, Qualidade 20'),
+  photoshop('0d501a036c984d2caf49fd298b2d0d16:221111', 'Save for Web, Qualidade 21'),
+  photoshop('9e992f35767c4aa023b8afd243b247bf:221111', 'Save for Web, Qualidade 22'),
+  photoshop('0a80e5bf01a9c5650384dfe1a428f61d:221111', 'Save for Web, Qualidade 23'),
+  photoshop('2501aad23cdf94b25c6df0ab6984b6e0:221111', 'Save for Web, Qualidade 24'),
+  photoshop('09c168d2e075070d3a2535e7f2e455df:221111', 'Save for Web, Qualidade 25'),
+  photoshop('63190207beeb805306f7d0bcc3898cb3:221111', 'Save for Web, Qualidade 26'),
+  photoshop('e47902bc7ba3037921010c568648c8c3:221111', 'Save for Web, Qualidade 27'),
+  photoshop('410ed63b6e5225d8b99da6272fd6069b:221111', 'Save for Web, Qualidade 28'),
+  photoshop('b40f3f3c46d70a560e2033fadd8c7bb5:221111', 'Save for Web, Qualidade 29'),
+  photoshop('45148ae63b12ccaa6fb5a487ca7620e9:221111', 'Save for Web, Qualidade 30'),
+  photoshop('5180e51bd58432c7b51a305ed0c24d1b:221111', 'Save for Web, Qualidade 31'),
+  photoshop('c5c472d899462bbe31da9aa8c072c0bc:221111', 'Save for Web, Qualidade 32'),
+  photoshop('28cdbc95898e02dd0ffc45ba48596ca7:221111', 'Save for Web, Qualidade 33'),
+  photoshop('42cd88e0eb3c14a705b952550ec2eacd:221111', 'Save for Web, Qualidade 34'),
+  photoshop('78a2a442aac5cca7fa2ef5a8bd96219e:221111', 'Save for Web, Qualidade 35'),
+  photoshop('96bce854134a2fccfcb68dca6687cd51:221111', 'Save for Web, Qualidade 36'),
+  photoshop('fefd00ec4610895e4294de690f5977e9:221111', 'Save for Web, Qualidade 37'),
+  photoshop('d71c8ddb9117920304d83a6f8b7832a4:221111', 'Save for Web, Qualidade 38'),
+  photoshop('1727e720300403e5f315b5e17ef84d3f:221111', 'Save for Web, Qualidade 39'),
+  photoshop('8fb05e3c3b0a7404ff6ca54f952d2a5e:221111', 'Save for Web, Qualidade 40'),
+  photoshop('328ab751ea48f5a8bc7c4b8628138ce0:221111', 'Save for Web, Qualidade 41'),
+  photoshop('d9653333a3af8842dd4b72856ac4ef4e:221111', 'Save for Web, Qualidade 42'),
+  photoshop('276da99e50e1b39134e13826789d655e:221111', 'Save for Web, Qualidade 43'),
+  photoshop('23f2bd2d96ec531815609503dae4a2b0:221111', 'Save for Web, Qualidade 44'),
+  photoshop('bafe2a89809f23bc7367e9a819570728:221111', 'Save for Web, Qualidade 45'),
+  photoshop('6bfdcd36327406f801be86d0e8ca6b60:221111', 'Save for Web, Qualidade 46'),
+  photoshop('eb8e5c42d31b916737ac21dffd6f012b:221111', 'Save for Web, Qualidade 47'),
+  photoshop('e57a9878be74473990343573c6585f79:221111', 'Save for Web, Qualidade 48'),
+  photoshop('91dfacd928ce717cb135c6da03afd907:221111', 'Save for Web, Qualidade 49'),
+  photoshop('16c443478b9417d44893f8748d49b790:221111', 'Save for Web, Qualidade 50'),
+  photoshop('84de345dcf710f937a39a0b631b87fc4:111111', 'Save for Web, Qualidade 51'),
+  photoshop('bdd6043e7f5a5f1512b99b2394a075e2:111111', 'Save for Web, Qualidade 52'),
+  photoshop('c7614d3d384a02630721be335062ef75:111111', 'Save for Web, Qualidade 53'),
+  photoshop('42d6f71aace3de2ccfdd8348b0198704:111111', 'Save for Web, Qualidade 54'),
+  photoshop('84d5f059ce3e1b78d91355e1e86e2d1a:111111', 'Save for Web, Qualidade 55'),
+  photoshop('5881004f575752d77ee00e767d848e51:111111', 'Save for Web, Qualidade 56'),
+  photoshop('0cb697537acde3d2e85078377461a8e0:111111', 'Save for Web, Qualidade 57'),
+  photoshop('b2762ffa5c0a1799fb2e9ad6dfd2171a:111111', 'Save for Web, Qualidade 58'),
+  photoshop('2b7a6a83259aa9967e098d3e70f1ee09:111111', 'Save for Web, Qualidade 59'),
+  photoshop('6123a3685e1012af5a0d024de1ce0304:111111', 'Save for Web, Qualidade 60'),
+  photoshop('d08c8435de33f2c186aa2dd9cba3e874:111111', 'Save for Web, Qualidade 61'),
+  photoshop('e69be2174dbbfb952e54576fbdfe6c14:111111', 'Save for Web, Qualidade 62'),
+  photoshop('2ec2d5c10641952fce5c435b331b8872:111111', 'Save for Web, Qualidade 63'),
+  photoshop('98201e1185b7069f1247ac3cdc56c824:111111', 'Save for Web, Qualidade 64'),
+  photoshop('8fc0325d05c9199bc1e2dec417c3a55e:111111', 'Save for Web, Qualidade 65'),
+  photoshop('016600f44a61cc5a5673c9bad85e23a3:111111', 'Save for Web, Qualidade 66'),
+  photoshop('91d7b4300c98c726aff7b19cbe098a3e:111111', 'Save for Web, Qualidade 67'),
+  photoshop('f9b83ba21b86a3d4ddb507e3edce490c:111111', 'Save for Web, Qualidade 68'),
+  photoshop('d312a23c8ecb3bf59bc11bbe17d79e55:111111', 'Save for Web, Qualidade 69'),
+  photoshop('240fffe5f8e2d8f3345b8175f9cb0a40:111111', 'Save for Web, Qualidade 70'),
+  photoshop('ba60a642bfb1a184c11e5561581d7115:111111', 'Save for Web, Qualidade 71'),
+  photoshop('c901580e589f58d309f8b50590cfe214:111111', 'Save for Web, Qualidade 72'),
+  photoshop('c244f94d84a016840c6ef06250c58ade:111111', 'Save for Web, Qualidade 73'),
+  photoshop('3589227bdd85f880f3337b492e895c5d:111111', 'Save for Web, Qualidade 74'),
+  photoshop('cae6fd91a423ff181d50bb9c26a0d392:111111', 'Save for Web, Qualidade 75'),
+  photoshop('7d8ee11ca66d2c22ff9ed1f778b5dbac:111111', 'Save for Web, Qualidade 76'),
+  photoshop('a16371762ce48953d42dfb5b77d1bfc6:111111', 'Save for Web, Qualidade 77'),
+  photoshop('204b111d4aaa85b430e86273a63fd004:111111', 'Save for Web, Qualidade 78'),
+  photoshop('6a243ac0b8575c2ed962070cd7d39e04:111111', 'Save for Web, Qualidade 79'),
+  photoshop('51879d6e5178d2282d5e8276ed4e2439:111111', 'Save for Web, Qualidade 80'),
+  photoshop('ca683ab6caaa3132bf661a0ebf32ef4e:111111', 'Save for Web, Qualidade 81'),
+  photoshop('5399adc3f21ecb30c96d6a94b38ab74c:111111', 'Save for Web, Qualidade 82'),
+  photoshop('43eb3b161279ccc1fb4f9cbe7b92398f:111111', 'Save for Web, Qualidade 83'),
+  photoshop('2d387641f4e94b6986908b3770fb762e:111111', 'Save for Web, Qualidade 84'),
+  photoshop('75ee5a0fd61559c6bf8e6ebc920c93b0:111111', 'Save for Web, Qualidade 85'),
+  photoshop('60d17e041a23d47b96c5aac86180a022:111111', 'Save for Web, Qualidade 86'),
+  photoshop('8e5290b1d12832ad259de92a53e1ef4e:111111', 'Save for Web, Qualidade 87'),
+  photoshop('dc19a48af9051bbdc54cf7e88c03f13e:111111', 'Save for Web, Qualidade 88'),
+  photoshop('c3fbc85c803ddc81c8882c03330b5b15:111111', 'Save for Web, Qualidade 89'),
+  photoshop('5e016a2d28f8ad3e7e27e4e2981031d2:111111', 'Save for Web, Qualidade 90'),
+  photoshop('ef4fa43f4d548e0687c4d4151a0bf1bd:111111', 'Save for Web, Qualidade 91'),
+  photoshop('00f03e367cd316b71de360c6e7af0e6b:111111', 'Save for Web, Qualidade 92'),
+  photoshop('982fc46fd167df238fbf23494a1ce761:111111', 'Save for Web, Qualidade 93'),
+  photoshop('6fd7b56ac6b58dc861e6021815fb5704:111111', 'Save for Web, Qualidade 94'),
+  photoshop('c6d9120293c8435cf6b40574b45756bb:111111', 'Save for Web, Qualidade 95'),
+  photoshop('1e133f4bf9f7c7c1e0accf44c0b1107d:111111', 'Save for Web, Qualidade 96'),
+  photoshop('fb91d6a8a1b72388d68130f551698865:111111', 'Save for Web, Qualidade 97'),
+  photoshop('4ea4e07900e04a3bd7572d4b59aa7a74:111111', 'Save for Web, Qualidade 98'),
+  photoshop('15e1d2321b96b355d4ad109a8d2fe882:111111', 'Save for Web, Qualidade 99'),
+  photoshop('234d8f310d75effc9f77beb1d3847f49:111111', 'Save for Web, Qualidade 100'),
+
+  // Photoshop Express build 481589
+  photoshopExpress('aeb34eb083acc888770d65e691497bcf:111111', 'Tamanho original'),
+
+  // Lightroom 1.4.1 and 2.1 export (settings share a table per range)
+  lightroom('683506a889c78d9bc230a0c7ee5f62f3:221111', 'Qualidade 0% - 7%'),
+  lightroom('bc490651af6592cd1dbbbc4fa2cfa1fb:221111', 'Qualidade 8% - 15%'),
+  lightroom('ce4286d9f07999524c3c7472b065c5ab:221111', 'Qualidade 16% - 23%'),
+  lightroom('cbfbfef12aead8841585ef605c789b9f:221111', 'Qualidade 24% - 30%'),
+  lightroom('a0772e73dec2bdc4057c27da47bff376:221111', 'Qualidade 31% - 38%'),
+  lightroom('7ef06dbde538346b8b01c6b538ca70c6:221111', 'Qualidade 39% - 46%'),
+  lightroom('0ff225f58a214f79d1d85d78f6f5dab8:221111', 'Qualidade 47% - 53%'),
+  lightroom('8a8603650fa5ae5fdcf4b2eaf0b23638:111111', 'Qualidade 54% - 61%'),
+  lightroom('44f583ed6b65cb8ba915ec5df051616c:111111', 'Qualidade 62% - 69%'),
+  lightroom('de94c5591bafc7456ccaef430271b907:111111', 'Qualidade 70% - 76%'),
+  lightroom('a6841b35e9ffefa5d83a0445dddd2621:111111', 'Qualidade 77% - 84%'),
+  lightroom('6e3f6a3a5a1eae6155331d42d6f968dd:111111', 'Qualidade 85% - 92%'),
+  lightroom('5379e0133d4439b6f7c7039fc7f7734f:111111', 'Qualidade 93% - 100%'),
+  lightroom('8453391d3adf377c46a1a0cee08c35c3:221111', 'Qualidade 24% - 30%'),
+  lightroom('f8ede291b1272576d1580e333d30103e:221111', 'Qualidade 31% - 38%'),
+  lightroom('de0fb6d13e12e8df26140dd74691bf0f:221111', 'Qualidade 39% - 46%'),
+  lightroom('0d5b0af72561f68c671731f22d9e41e2:221111', 'Qualidade 47% - 53%'),
+  lightroom('b9fd15fd52408af5ea2a5045227233d8:111111', 'Qualidade 54% - 61%'),
+  lightroom('27472e3714251402d5509438505611c3:111111', 'Qualidade 62% - 69%'),
+  lightroom('34a599dff2b6aaed12143938b7374f2f:111111', 'Qualidade 70% - 76%'),
+  lightroom('5c508e529d045b6f0c800e29ba2d6ab5:111111', 'Qualidade 77% - 84%'),
+  lightroom('42bfe52476bf07f1ed0e6451903cc9ee:111111', 'Qualidade 85% - 92%'),
+  lightroom('4c3c425b4024b68c0de03904a825bc35:111111', 'Qualidade 93% - 100%'),
+
+  // Aperture 2.1.3 (qualities 6 and 12 write standard libjpeg tables)
+  aperture('60cb2afa0cfa7395635a9360fc690b46:221111', 'Qualidade 0'),
+  aperture('6b9be09d6ec6491a20c2827dbeb678c0:221111', 'Qualidade 1'),
+  aperture('dbb17a02e661f2475411fc1dc37902ef:221111', 'Qualidade 2'),
+  aperture('8a5df2b5337bf8251c3f66f6adbb5262:221111', 'Qualidade 3'),
+  aperture('3841f0f3be30520a1a57f41c449588ee:221111', 'Qualidade 4'),
+  aperture('2b1dba266c728a9f46d06e6e5c247953:221111', 'Qualidade 5'),
+  aperture('93818f3a0e6d491500cb62e1f683da22:221111', 'Qualidade 7'),
+  aperture('8c0c36696a99fd889e0f0c7d64824f3c:221111', 'Qualidade 8'),
+  aperture('043645382c79035b6f2afc62d373a37f:221111', 'Qualidade 9'),
+  aperture('558d017ce6d5b5282ce76727fe99b91e:221111', 'Qualidade 10'),
+  aperture('0b52b82694040193aee10e8074cd7ad5:221111', 'Qualidade 11'),
+
+  // Paint Shop Pro PHOTO X2
+  paintShopPro('1c78c0daaa0bbfd4a1678b5569b0fa13', 'Qualidade 1'),
+  paintShopPro('5ffdd2e918ec293efc79083703737290', 'Qualidade 2'),
+  paintShopPro('4ed4751d772933938600c4e7560bf19c', 'Qualidade 3'),
+  paintShopPro('f647f0fb4320c61f52e2a79d12bbc8cc', 'Qualidade 4'),
+  paintShopPro('6194167174dfcb4a769cf26f5c7a018d', 'Qualidade 5'),
+  paintShopPro('6120ded86d4cc42cd7ca2131b1f51fad', 'Qualidade 6'),
+  paintShopPro('c07a6430e56ef16a0526673398e87ac6', 'Qualidade 7'),
+  paintShopPro('507cc511e561916efa3b49228ffc8c9a', 'Qualidade 8'),
+  paintShopPro('612941a50f2c0992938bc13106caf228', 'Qualidade 9'),
+  paintShopPro('7624f08396d811fdb6f1ead575e67e58', 'Qualidade 10'),
+  paintShopPro('e215df38e258b3d8bceb57aa64388d26', 'Qualidade 11'),
+  paintShopPro('78f66ee0bc442950808e25daa02a2b02', 'Qualidade 12'),
+  paintShopPro('14efb0bb5124910a37bcbd5f06de9aa9', 'Qualidade 13'),
+  paintShopPro('d61168238621bd221ef1eb3dcbe270a3', 'Qualidade 14'),
+  paintShopPro('e2d2755891b4e4bc5f7c8d76dcbb0d53', 'Qualidade 15'),
+  paintShopPro('f6c4502144a2e5c82c07994d3cd01665', 'Qualidade 16'),
+  paintShopPro('78801638505e95827c2f7cc0c7ef78f4', 'Qualidade 17'),
+  paintShopPro('e8ff3d165b4c028c18ec8a8f940a12a1', 'Qualidade 18'),
+  paintShopPro('984c359b9fbcc4d6f805946aa23ae708', 'Qualidade 19'),
+  paintShopPro('d1dc48d911055bc533779d6e086f7242', 'Qualidade 20'),
+  paintShopPro('d7437a18e86ac2832d73204acd82aa89', 'Qualidade 21'),
+  paintShopPro('bceaee6c1a150006b3643de6942ccfa3', 'Qualidade 22'),
+  paintShopPro('c448e6817efa9acdad225e60ed0013f9', 'Qualidade 23'),
+  paintShopPro('904f231c98f390400ba7ae17c252813f', 'Qualidade 24'),
+  paintShopPro('ccd6708ca1dbd66a23d40cee635a0f76', 'Qualidade 25'),
+  paintShopPro('10d87624d888b75b29e156be8dad35f4', 'Qualidade 26'),
+  paintShopPro('8558c6d41f03db192198dceefbd1e89b', 'Qualidade 27'),
+  paintShopPro('058fc759cff9d615f91d9ffb4b46436a', 'Qualidade 28'),
+  paintShopPro('5c606e0f7168a78fd8d0c91646c801a3', 'Qualidade 29'),
+  paintShopPro('e9555e593a6fd9aeee399de16080cd61', 'Qualidade 30'),
+  paintShopPro('2c2726484978a15d3d756d43b0baa290', 'Qualidade 31'),
+  paintShopPro('8b1d11d31bc9445278cf9af55b0c156b', 'Qualidade 32'),
+  paintShopPro('aa4a5528ae18ecd36ec052014b91f651', 'Qualidade 33'),
+  paintShopPro('9a26194b114b7db253601ff80b03da9a', 'Qualidade 34'),
+  paintShopPro('3fa780a3dff1d787f7d883585a46dcfb', 'Qualidade 35'),
+  paintShopPro('0a899361ed0d51e224dc535ceb02f9a1', 'Qualidade 36'),
+  paintShopPro('3a2ab96a6ad9612e1377ddc822f02ddd', 'Qualidade 37'),
+  paintShopPro('315f4faadd967e72d730155091c4912f', 'Qualidade 38'),
+  paintShopPro('5f6e3a66672d6e4c41b1689996ca57d3', 'Qualidade 39'),
+  paintShopPro('9503a86793e86d1fca3d8797548fa243', 'Qualidade 40'),
+  paintShopPro('3b95f11bd77cb8af977c09d5851131f8', 'Qualidade 41'),
+  paintShopPro('ececf8dfa473110534b506db58d98f15', 'Qualidade 42'),
+  paintShopPro('cfe3144d4f8048a0507269a9d8a85993', 'Qualidade 43'),
+  paintShopPro('eb9d48d135b2c61c51fc3f23b0001b4d', 'Qualidade 44'),
+  paintShopPro('b08313a6919d308e50b806f138a8a2a1', 'Qualidade 45'),
+  paintShopPro('7c34e6e7fe2cc760fa5c3ed812a8b74c', 'Qualidade 46'),
+  paintShopPro('90ece7123e8d614d9aab55eaba6dd7da', 'Qualidade 47'),
+  paintShopPro('6d79fe623c4c5320bdbe4d3026f4e71a', 'Qualidade 48'),
+  paintShopPro('a7e85552c3e5e40288891d225f308590', 'Qualidade 49'),
+  paintShopPro('67b9a678d9f669167c5b4bf12422ad50', 'Qualidade 50'),
+  paintShopPro('1fab112b17e94f53e94a9208e9091b7b', 'Qualidade 51'),
+  paintShopPro('4971237e046795a030a99a0e8d2c5acb', 'Qualidade 52'),
+  paintShopPro('f3e1672b93ff159231c51b1b157e45fd', 'Qualidade 53'),
+  paintShopPro('6e9cfb8131373c3d1873e3f497e46b64', 'Qualidade 54'),
+  paintShopPro('9155c8acf8322e8af898272c694fa1d6', 'Qualidade 55'),
+  paintShopPro('52b20edc779f206f2aed50610971f181', 'Qualidade 56'),
+  paintShopPro('ad801813f822ef9774801ab4d9145a61', 'Qualidade 57'),
+  paintShopPro('07259679e2a842478df97c7f0ddd4df3', 'Qualidade 58'),
+  paintShopPro('67db25c57803c34b065736f46f6afadb', 'Qualidade 59'),
+  paintShopPro('c7498fc4b3802b290a452631dd1e1b63', 'Qualidade 60'),
+  paintShopPro('3f7b04c7952f96d2624813ed9896f128', 'Qualidade 61'),
+  paintShopPro('d5ec901d20f3887007d0f4cfb7d1460d', 'Qualidade 62'),
+  paintShopPro('61bb38e23040b6a8b0e8721e6d6eff66', 'Qualidade 63'),
+  paintShopPro('48fac53d9d168eab3ce9b6edc4b9fcb1', 'Qualidade 64'),
+  paintShopPro('8cb101a5ae986e45cc31a9e19a35535d', 'Qualidade 65'),
+  paintShopPro('0e08dc629e883530cb2ae78c90f125b3', 'Qualidade 66'),
+  paintShopPro('5134762d2d4baac8711a52e76730591c', 'Qualidade 67'),
+  paintShopPro('14b57dc6d5381fd0a743c7bd8b28bed1', 'Qualidade 68'),
+  paintShopPro('9d398f1b1f40b7aaec1bd9cdb6922530', 'Qualidade 69'),
+  paintShopPro('c7e68d88bee5c2ee4b61a11bc2e68c80', 'Qualidade 70'),
+  paintShopPro('917fe67f6ded5decac1820642239622c', 'Qualidade 71'),
+  paintShopPro('362c3e0c08f6951018cde7b412cd513f', 'Qualidade 72'),
+  paintShopPro('d91cd4a2dcd1a29e6ef652ebcfdd58d7', 'Qualidade 73'),
+  paintShopPro('11f5fbd5e74e5c5e305b95dbbc4356a8', 'Qualidade 74'),
+  paintShopPro('bf010771f909049fc5fceedcaa0f917c', 'Qualidade 75'),
+  paintShopPro('a455a3149812ba6951a016ee6114f9da', 'Qualidade 76'),
+  paintShopPro('42e0c4082ec4d026c77d19a053a983f4', 'Qualidade 77'),
+  paintShopPro('326bd5938e2db7de9250a9fb0efc6692', 'Qualidade 78'),
+  paintShopPro('a3e2cc4ea95cda49501bc73c494e9420', 'Qualidade 79'),
+  paintShopPro('8c89043f00678bb5c68ee90390c1b43b', 'Qualidade 80'),
+  paintShopPro('fc5812ad9a4cd0122eb1c63f0ac3b5a3', 'Qualidade 81'),
+  paintShopPro('84dbe33962674aab86e03681ac3bd35f', 'Qualidade 82'),
+  paintShopPro('b6b80a78472dca05c9135702e96fdad9', 'Qualidade 83'),
+  paintShopPro('01f997907a4c1dfd1e6b00aca9ff5d80', 'Qualidade 84'),
+  paintShopPro('8431e86434062b325c519fd836353cd0', 'Qualidade 85'),
+  paintShopPro('15f375a620952738ff21ff4aa496b8f7', 'Qualidade 86'),
+  paintShopPro('7b0f02aa96271376d3f81658d98fb1df', 'Qualidade 87'),
+  paintShopPro('86e7666b05bd1fc130fbf4b48f854288', 'Qualidade 88'),
+  paintShopPro('6af05d547e8911fe2d1f2b4d968a477e', 'Qualidade 89'),
+  paintShopPro('8baa876790518bf509dd09093759331d', 'Qualidade 90'),
+  paintShopPro('eb7d90d291044d1bd8f40ca1b3ce0ddf', 'Qualidade 91'),
+  paintShopPro('6f338385a8f2cd2dd3420a4f6138a206', 'Qualidade 92'),
+  paintShopPro('b0a0fd1ec2dd366ad00d3e83d6dedec2', 'Qualidade 93'),
+  paintShopPro('e09026128c9880b44ac71224f477cd3b', 'Qualidade 94'),
+  paintShopPro('d0a8f50ff547da69a57eeb892e194cff', 'Qualidade 95'),
+  paintShopPro('7849ba902d96273b5ac7b6eb98f4d009', 'Qualidade 96'),
+  paintShopPro('379f9f196d4190298a732ab9a7031001', 'Qualidade 97'),
+  paintShopPro('c3d1601f84ec3adfbc8ca17883ef6378', 'Qualidade 98'),
+  paintShopPro('1f5e87bec674bdd7dff166c2ea9ca004', 'Qualidade 99'),
+
+  // ACD Systems Digital Imaging
+  acdsee('2ab2f6a116ca6fc0bbf188b19b9de967', 'Qualidade 0 ou 1'),
+  acdsee('f4f9d5c07c78e8700a6f3def0782a18e', 'Qualidade 2'),
+  acdsee('66fc410ab8f71a7fdef86fd70b742dc1', 'Qualidade 3'),
+  acdsee('8e763b5b9255df1f4cb7b9732e99c210', 'Qualidade 4'),
+  acdsee('fd3eed19f6667ab0bedfa3263390ce25', 'Qualidade 5 ou 6'),
+  acdsee('dc0dc92085037072e27247f64af0f22d', 'Qualidade 7'),
+  acdsee('233ed690eb7e9008c20ed16e79aa3eb5', 'Qualidade 8'),
+  acdsee('684649f6c1590f5a912a827a6d8bfc6b', 'Qualidade 9'),
+  acdsee('ed6aec096e8776b483b2c2b3d7e15d76', 'Qualidade 10 ou 11'),
+  acdsee('9cd85933ddb1101d9b859a19e9a30334', 'Qualidade 12'),
+  acdsee('222a8769205a592ec834b6f5fc654a21', 'Qualidade 13'),
+  acdsee('29f957e2a0af0f44d271c3c4e27eec4b', 'Qualidade 14'),
+  acdsee('c46c764191f9c3db2bfe8d134512bcd8', 'Qualidade 15 ou 16'),
+  acdsee('56caa684ce7eb0b1cf662e1c88ed1614', 'Qualidade 17'),
+  acdsee('cedc5208c6e1cbffd8be0e47bfd76698', 'Qualidade 18'),
+  acdsee('dec0717305bae8309a934e1d6a251d88', 'Qualidade 19'),
+  acdsee('8c85e0e8f41257e2cd739a5b158ec218', 'Qualidade 20 ou 21'),
+  acdsee('6ae7ab4e6d5e0e67006cca59c70f843c', 'Qualidade 22'),
+  acdsee('840be626ed18db6cdef3c5c357e24d34', 'Qualidade 23'),
+  acdsee('d48c2b9e514e25fcc4b3f2408d168d72', 'Qualidade 24'),
+  acdsee('b9eb63b89c80c71f4eac8c6e27d272f1', 'Qualidade 25 ou 26'),
+  acdsee('bcd4d36a9db91a51d1a571f71f8230d4', 'Qualidade 27'),
+  acdsee('ac2f66ab2559019fcf021b9a32b049ab', 'Qualidade 28'),
+  acdsee('4208fca702ec702bd5d41c8231883057', 'Qualidade 29'),
+  acdsee('fa620c67ab09a4c0d1c5b8e65ade361e', 'Qualidade 30 ou 31'),
+  acdsee('679dea81c8d4563e07efac4fab6b89ca', 'Qualidade 32'),
+  acdsee('43ceb0c1a5d94d55ee20dc3a168498b2', 'Qualidade 33'),
+  acdsee('a9cc8a19ae25bc024c3d92d84c13c7a5', 'Qualidade 34'),
+  acdsee('e3e7280c8a9e82d31e22d24d5b733580', 'Qualidade 35 ou 36'),
+  acdsee('a06d250213e349005897bd6fa5bebca8', 'Qualidade 37'),
+  acdsee('40d08b823fa60b838dd9998d1e2b550a', 'Qualidade 38'),
+  acdsee('4998abefc838e35cf0180395309e2e33', 'Qualidade 39'),
+  acdsee('280205c47c8d3706c2f36b1986e9b149', 'Qualidade 40 ou 41'),
+  acdsee('8534b67f8115ddc0296623a1ed3fc8ec', 'Qualidade 42'),
+  acdsee('292b83b37765408b65f496cddd3f96ea', 'Qualidade 43'),
+  acdsee('cae0c8eb9a11a1f6eb7eca9651d8dbc0', 'Qualidade 44'),
+  acdsee('078db0d0bffafa44def2e8b85eec26f6', 'Qualidade 45 ou 46'),
+  acdsee('6a26a11cc28df00e01d5979e2e0fb4f7', 'Qualidade 47'),
+  acdsee('b41b3d226ba21244b8070ba719ec721a', 'Qualidade 48'),
+  acdsee('9a8a54328e297faa0a546c46145c9aa8', 'Qualidade 49'),
+  acdsee('256e617be51dade18503fcbbe87cd4a6', 'Qualidade 50 ou 51'),
+  acdsee('064f160a8504465551738c9071f3850f', 'Qualidade 52'),
+  acdsee('5aef4c0bc6a5c8f1baded29946a56310', 'Qualidade 53'),
+  acdsee('c20f4841a1ff7e393af8f6ea4124403c', 'Qualidade 54'),
+  acdsee('14afe9b58e0eacef42db61e1d7fdd09c', 'Qualidade 55 ou 56'),
+  acdsee('147598404233439485574200e253f88e', 'Qualidade 57'),
+  acdsee('17479c1e73d2c062872c871db80d949b', 'Qualidade 58'),
+  acdsee('d237b1202f88ba8183bc1cb69dd4be66', 'Qualidade 59'),
+  acdsee('fc923f2d38e0e549134e1ec86f58149a', 'Qualidade 60 ou 61'),
+  acdsee('93b4929d4a3b955f4996ab7e3b6fbe53', 'Qualidade 62'),
+  acdsee('054f418c24a6a733186a27aa739dc93a', 'Qualidade 63'),
+  acdsee('0df2be705ae86e5de1e508db95efb182', 'Qualidade 64'),
+  acdsee('c1978a445de1173b5039b0cf8d8a91fe', 'Qualidade 65 ou 66'),
+  acdsee('3d8e25b74d0d9be662f26ec5fed6fe94', 'Qualidade 67'),
+  acdsee('8887b718c97e0d80ed8d9a198387e2eb', 'Qualidade 68'),
+  acdsee('8cdb9100cfbb246d440d469e72ce37a6', 'Qualidade 69'),
+  acdsee('379efafa6e71a90ccfcb57073d0bc5c8', 'Qualidade 70 ou 71'),
+  acdsee('e1e122ebb2733a5ccdb5ff1cdce86d4d', 'Qualidade 72'),
+  acdsee('41dd47887a2b87e22ad3bbacc022374e', 'Qualidade 73'),
+  acdsee('a0a30c816d5d47a91c66e5645eb5fdb8', 'Qualidade 74'),
+  acdsee('731f7ffedba80407d039c1db5a785f95', 'Qualidade 75 ou 76'),
+  acdsee('7cfd092a41a0e1c029e82467cb4c034f', 'Qualidade 77'),
+  acdsee('f1b005980104aac41b49973beed9c8c2', 'Qualidade 78'),
+  acdsee('ba12dbfbd652c9cde69822996bdb2139', 'Qualidade 79'),
+  acdsee('d3784280d08a8df51e607bde8c8b5ead', 'Qualidade 80 ou 81'),
+  acdsee('7ed560efea0b44168d910a73fab9204c', 'Qualidade 82'),
+  acdsee('deaa8bbd7c5414b93d8029aa14a76d3a', 'Qualidade 83'),
+  acdsee('9ae3a57ce98290176c4700baaff5661f', 'Qualidade 84'),
+  acdsee('cb99b9bd30ae36929755fee9208ab36b', 'Qualidade 85 ou 86'),
+  acdsee('75ff62bbf17aa1762dd15677e961ce67', 'Qualidade 87'),
+  acdsee('d4f1922c71a6c96a530a9a8268fbc63b', 'Qualidade 88'),
+  acdsee('ec994ef421efd6bc78671858b9f942ad', 'Qualidade 89'),
+  acdsee('5ca52e1ffe2c84660d7377c33c88ad53', 'Qualidade 90 ou 91'),
+  acdsee('5522213c915e2af3ad01ee2ec27ee3ed', 'Qualidade 92'),
+  acdsee('21aa1a0036251eecfffd24e37d7ce3dd', 'Qualidade 93'),
+  acdsee('3233b63fc39fbbaa9af364e8a33862ff', 'Qualidade 94'),
+  acdsee('1860106097672532e7ebc2026d7f9681', 'Qualidade 95 ou 96'),
+  acdsee('0c7d4861b3bee5d766a93f2d34027bfa', 'Qualidade 97'),
+  acdsee('c9309ab058680151be5f97e6c54dc687', 'Qualidade 98'),
+  acdsee('ffe6bb565b2c9008ab917c57ba94cd67', 'Qualidade 99'),
+  acdsee('d6390cc36d2f03c1d2dd13d6910ca46b', 'Qualidade 100'),
+
+  // Capture NX 2.0.0
+  captureNx('0ef9d9f62ab68807eedf6cb8c2ec120b:221111', 'Qualidade 0'),
+  captureNx('efbc50df45bc1d1fbbbd29c3e5de04b2:221111', 'Qualidade 1'),
+  captureNx('cbde745c78fd546d6e83dd7512ebe863:221111', 'Qualidade 2'),
+  captureNx('33731f743fc28e9d81e542f0ed7cdfba:221111', 'Qualidade 3'),
+  captureNx('866fcb1296d7da02b4ad31afb242f25f:221111', 'Qualidade 4'),
+  captureNx('cfbe44397240092d3a67241a23342528:221111', 'Qualidade 5'),
+  captureNx('a4b8b3408ae302ae81f125e972901131:221111', 'Qualidade 6'),
+  captureNx('3a6cefd4f43c513fdf0858f26afeab5a:221111', 'Qualidade 7'),
+  captureNx('1e861ce223babf95bc795e18cbdb49d1:221111', 'Qualidade 8'),
+  captureNx('4d5b512d8bc173f14e6a3cf8574f670a:221111', 'Qualidade 9'),
+  captureNx('9b1e6d379d3030dfa313bcaedc1ef3c7:221111', 'Qualidade 10'),
+  captureNx('e39b60fcecf3221d14c62dc13ddf4726:221111', 'Qualidade 11'),
+  captureNx('3654bbf4a45e0c0758a82a075b3f77cc:221111', 'Qualidade 12'),
+  captureNx('4f5889173779409ec604622a1894ab4a:221111', 'Qualidade 13'),
+  captureNx('738685b86b80ff0e8b562102d1b58f71:221111', 'Qualidade 14'),
+  captureNx('48a53035374c08e6490893d8113ed6b3:221111', 'Qualidade 15'),
+  captureNx('03651ac1d15043f77949a63ac3762584:221111', 'Qualidade 16'),
+  captureNx('27811b28d02bd417857904f0a9e1ed58:221111', 'Qualidade 17'),
+  captureNx('03201bd5642a451d99b99bfd10fc42df:221111', 'Qualidade 18'),
+  captureNx('67d5eb5f55c9a5baa0a67d42a841d77b:221111', 'Qualidade 19'),
+  captureNx('18392b08bf8cf788a579f376297c3334:221111', 'Qualidade 20'),
+  captureNx('de0c784b75953851dc370f4daecfa1a9:221111', 'Qualidade 21'),
+  captureNx('75f260644b87a9779188126da8709e7f:221111', 'Qualidade 22'),
+  captureNx('c44701e8185306f5e6d09be16a2b0fbd:221111', 'Qualidade 23'),
+  captureNx('086e5ce1149e14efd9e424956734fe05:221111', 'Qualidade 24'),
+  captureNx('aad1109d9c49b8170feac125148b2a50:221111', 'Qualidade 25'),
+  captureNx('c97965ce5392623f668a386b30e41cee:221111', 'Qualidade 26'),
+  captureNx('d9dadfb6f0a25765abe00e69857c5520:221111', 'Qualidade 27'),
+  captureNx('0ee9ca02a1fe8a17b6e50a2e86d19a7c:221111', 'Qualidade 28'),
+  captureNx('88b1726a20759f29eecfa2b129773127:221111', 'Qualidade 29'),
+  captureNx('70a311935ed066da954897fad5079377:221111', 'Qualidade 30'),
+  captureNx('aa2d374bbab2a30e00c1863264588a42:221111', 'Qualidade 31'),
+  captureNx('097b684846696b3a8bbdf2bd2f9ded9c:221111', 'Qualidade 32'),
+  captureNx('bb313d5398065376c7765092fc8ea0f0:221111', 'Qualidade 33'),
+  captureNx('aa049fdc1387851a664143df0408f55c:221111', 'Qualidade 34'),
+  captureNx('087c1c1a368adc82900d83235f432d3f:221111', 'Qualidade 35'),
+  captureNx('7dec6568dbad7a70622c994a326957e2:221111', 'Qualidade 36'),
+  captureNx('d2e14d8ba7d38f7544b569eea7221255:221111', 'Qualidade 37'),
+  captureNx('ce6bcb98c5f9358594f5934e64b4ecc3:221111', 'Qualidade 38'),
+  captureNx('4785aafc8471873402819e423b8969a9:221111', 'Qualidade 39'),
+  captureNx('66ae78a749b520b35d4daf4531df8ae5:221111', 'Qualidade 40'),
+  captureNx('946d9f9346a0c65eec478945ad3d6143:221111', 'Qualidade 41'),
+  captureNx('f46e96afa026233c1662c9114feb61e9:221111', 'Qualidade 42'),
+  captureNx('96a267e050b6d8a13439f8a9bb89722c:221111', 'Qualidade 43'),
+  captureNx('27c301566e155f700b01906a43473ffe:221111', 'Qualidade 44'),
+  captureNx('ceff136f6dd88242500bfd639cb0c003:221111', 'Qualidade 45'),
+  captureNx('939b804eefc95158a934bb48e3f3b545:221111', 'Qualidade 46'),
+  captureNx('06186292fe0ccaaeb5999319a366c4b4:221111', 'Qualidade 47'),
+  captureNx('e456c998dc126c1efad013eb7b0186c1:221111', 'Qualidade 48'),
+  captureNx('ef0cd1902fb1afe284468a67eaffd078:221111', 'Qualidade 49'),
+  captureNx('f4693035f8db19e0788f41255c3c052e:221111', 'Qualidade 50'),
+  captureNx('40c6f2886cdca8f19a654ce321ea993e:221111', 'Qualidade 51'),
+  captureNx('e9387b4065bba8570375d6535ab2124b:221111', 'Qualidade 52'),
+  captureNx('f3a55e422a4ab829b2c1f5a1784ce9f6:221111', 'Qualidade 53'),
+  captureNx('2fff3c6e48247992d1543d9e5c679759:221111', 'Qualidade 54'),
+  captureNx('5a1849b49122ff09949f1d355b4f9eaa:221111', 'Qualidade 55'),
+  captureNx('a582968bb1890620ffbae916ebafcb64:221111', 'Qualidade 56'),
+  captureNx('81597eb992e32e186d2b5565bbe4ae3a:221111', 'Qualidade 57'),
+  captureNx('7364416ce4f2a9282efdbe052574527b:221111', 'Qualidade 58'),
+  captureNx('5301c2bcae09fd4305e47ffc56b2c8a7:221111', 'Qualidade 59'),
+  captureNx('5a1849b49122ff09949f1d355b4f9eaa:211111', 'Qualidade 60'),
+  captureNx('9be2446f168941ff42d9fc7441f2429b:211111', 'Qualidade 61'),
+  captureNx('bbba80e58afae43278e287021d4f1499:211111', 'Qualidade 62'),
+  captureNx('2a9ae394dc32a418960522cbe9c6df24:211111', 'Qualidade 63'),
+  captureNx('67fbe0dce139b6db1813e30bbbceccf3:211111', 'Qualidade 64'),
+  captureNx('17bce376f588ebf2b3e9002a337c239d:211111', 'Qualidade 65'),
+  captureNx('cd2c6c01d8eb8d985086b54e2269278a:211111', 'Qualidade 66'),
+  captureNx('34b25782fc089616807bbbe7f7cd8413:211111', 'Qualidade 67'),
+  captureNx('37b8bbab382a228eabb0dc64c0edcb0f:211111', 'Qualidade 68'),
+  captureNx('b163f35baed567d70aa2536695558724:211111', 'Qualidade 69'),
+  captureNx('251eb2d7903f63b168348ec483ba499a:211111', 'Qualidade 70'),
+  captureNx('42e7cdf33b9067a7124dd27020704f9a:211111', 'Qualidade 71'),
+  captureNx('032678d9de74e5530896c28079f666af:211111', 'Qualidade 72'),
+  captureNx('30d7b6db02954dfc4ce47a089d0f40d9:211111', 'Qualidade 73'),
+  captureNx('5c1a40094128ac76eab0405dcb4ae3c7:211111', 'Qualidade 74'),
+  captureNx('2706b8b0cf6686148e285b6d3e44dd72:211111', 'Qualidade 75'),
+  captureNx('6ca4a27cb36f35ab84b0e2df06bb32f4:211111', 'Qualidade 76'),
+  captureNx('6f9cae52d3f47f514f7c927314455a5a:211111', 'Qualidade 77'),
+  captureNx('c0204862b8aafa2c286c7b58d755c31f:211111', 'Qualidade 78'),
+  captureNx('d8ef40736b072f09bead5f73f5ec1372:211111', 'Qualidade 79'),
+  captureNx('8c389c29eca238b3b331f65f7e124a27:111111', 'Qualidade 80'),
+  captureNx('6f9cae52d3f47f514f7c927314455a5a:111111', 'Qualidade 81'),
+  captureNx('8e1ceace8fafe31282393d8677e76994:111111', 'Qualidade 82'),
+  captureNx('60f75a915647ed50d1724179d50a35d2:111111', 'Qualidade 83'),
+  captureNx('df54eb20ec90f41f1e6c37e241ee381c:111111', 'Qualidade 84'),
+  captureNx('5522213c915e2af3ad01ee2ec27ee3ed:111111', 'Qualidade 85'),
+  captureNx('08c063f0997262d9977df4b44e682d82:111111', 'Qualidade 86'),
+  captureNx('d2e34c70872ac119dda6bdeeb36bf229:111111', 'Qualidade 87'),
+  captureNx('e5abf48ce0cc2b4a3db7eca3a1112b7a:111111', 'Qualidade 88'),
+  captureNx('b69dcb672088f296323d891219464ad8:111111', 'Qualidade 89'),
+  captureNx('b6d1c6efb27ea721577888b5f981ad7b:111111', 'Qualidade 90'),
+  captureNx('b023f424f81c8cbbab20119c06163dce:111111', 'Qualidade 91'),
+  captureNx('77f680490d08697cb0f11ff3fe76b7e8:111111', 'Qualidade 92'),
+  captureNx('1860106097672532e7ebc2026d7f9681:111111', 'Qualidade 93'),
+  captureNx('0c7d4861b3bee5d766a93f2d34027bfa:111111', 'Qualidade 94'),
+  captureNx('3adf9a0b85a4000243bbf833cd8e6966:111111', 'Qualidade 95'),
+  captureNx('9530dfffc5574606841a597212ec25b4:111111', 'Qualidade 96'),
+  captureNx('c7294290fe26155147072f9041705cfb:111111', 'Qualidade 97'),
+  captureNx('c24c44a4dadd77c15e0b4c741a2d4bd5:111111', 'Qualidade 98'),
+  captureNx('36016cd5527c505ef3bbba8b3e22f9db:111111', 'Qualidade 99'),
+  captureNx('c9309ab058680151be5f97e6c54dc687:111111', 'Qualidade 100'),
+
+  // Digital Photo Professional 3.4.1.1
+  digitalPhotoProfessional('252482232ff1c8cf77db4f0c6402f858:211111', 'Qualidade 1'),
+  digitalPhotoProfessional('ec6c55677b94970bc09f70265f1d5b55:211111', 'Qualidade 2'),
+  digitalPhotoProfessional('a1085c167f1cd610258fe38c8a84a8b9:211111', 'Qualidade 3'),
+  digitalPhotoProfessional('8ab1119f4ed4941736cb8ec1796f5674:211111', 'Qualidade 4'),
+  digitalPhotoProfessional('e66c03f97b19213f385136f014c78ac1:211111', 'Qualidade 5'),
+  digitalPhotoProfessional('a2f4b6ac52f87791380bdfe38ae333e1:211111', 'Qualidade 6'),
+  digitalPhotoProfessional('fe85b802c5779dcf45ea4bb7749ee886:211111', 'Qualidade 7'),
+  digitalPhotoProfessional('35686967efa5fb333fb8f4844efc33a3:211111', 'Qualidade 8'),
+  digitalPhotoProfessional('a5894172d7ec5f0c1550934c9e9385c9:211111', 'Qualidade 9'),
+  digitalPhotoProfessional('d6390cc36d2f03c1d2dd13d6910ca46b:211111', 'Qualidade 10'),
+
+  // ZoomBrowser EX 6.1.1.21
+  zoomBrowser('e66c03f97b19213f385136f014c78ac1:211111', 'Baixa'),
+  zoomBrowser('bf72e4d4aacbdaeb86fd3f67c8df2667:211111', 'Média'),
+  zoomBrowser('d6390cc36d2f03c1d2dd13d6910ca46b:211111', 'Máxima'),
+  zoomBrowser('aeb34eb083acc888770d65e691497bcf:211111', 'Alta'),
+
+  // FinePixViewer 5.4.11G
+  finePixViewer('3a8a34631e388e39d13616d003f05957:211111', 'Basic'),
+  finePixViewer('b6a2598792fd87b7eb0c094cbd52862f:211111', 'Fine'),
+  finePixViewer('4ee61c39b97558a273f310e085d0bdd2:211111', 'Normal'),
+
+  // PENTAX PHOTO Laboratory 3.51
+  pentaxPhotoLab('76d958276bf2cac3c36b7d9a677094a7:211111', 'Compressão máxima'),
+  pentaxPhotoLab('bf72e4d4aacbdaeb86fd3f67c8df2667:211111', 'Alta compressão'),
+  pentaxPhotoLab('fa8720d025f2a164542b6a8e31112991:211111', 'Qualidade média'),
+  pentaxPhotoLab('f3235a7d187d083b7b7ead949653f730:211111', 'Alta qualidade'),
+  pentaxPhotoLab('d6390cc36d2f03c1d2dd13d6910ca46b:211111', 'Qualidade máxima'),
+
+  // Sony Image Data Suite
+  imageDataSuite('d6390cc36d2f03c1d2dd13d6910ca46b:211111', 'Qualidade 1 (alta qualidade)'),
+  imageDataSuite('aeb34eb083acc888770d65e691497bcf:211111', 'Qualidade 2'),
+  imageDataSuite('524742ca0cff64ecc0c7d7413e7d4b8d:211111', 'Qualidade 3'),
+  imageDataSuite('c44701e8185306f5e6d09be16a2b0fbd:211111', 'Qualidade 4 (alta compressão)'),
+];
+
+// Messenger and social network recompressors. No published digests yet: add entries only from
+// files received through the service. Recompressors that write standard libjpeg tables are caught
+// by the standard-table check for camera makes instead.
+export const MESSENGER_QUANTIZATION_TABLES: QuantizationLibraryEntry[] = [];
@@ -0,0 +1,70 @@
+// Native screen resolutions of common phones, tablets and monitors
+// A screenshot has exactly the pixel size of the screen it was taken on; used as a supporting
+// marker by the screenshot detection (src/utils/screenshot.ts). Sizes are listed portrait
+// for mobile screens and landscape for desktops; both orientations match.
+
+export type ScreenPlatform = 'ios' | 'android' | 'desktop';
+
+export const SCREEN_RESOLUTIONS: Record<ScreenPlatform, [number, number][]> = {
+  ios: [
+    [640, 1136],      // iPhone 5/5s/SE
+    [750, 1334],      // iPhone 6/7/8, SE (2nd/3rd gen.)
+    [1242, 2208],     // iPhone 6/7/8 Plus (rendered size)
+    [1080, 1920],     // iPhone 6/7/8 Plus (downsampled)
+    [828, 1792],      // iPhone XR/11
+    [1125, 2436],     // iPhone X/XS/11 Pro
+    [1242, 2688],     // iPhone XS Max/11 Pro Max
+    [1080, 2340],     // iPhone 12 mini/13 mini
+    [1170, 2532],     // iPhone 12/12 Pro/13/13 Pro/14
+    [1284, 2778],     // iPhone 12 Pro Max/13 Pro Max/14 Plus
+    [1179, 2556],     // iPhone 14 Pro/15/15 Pro/16
+    [1290, 2796],     // iPhone 14 Pro Max/15 Plus/15 Pro Max/16 Plus
+    [1206, 2622],     // iPhone 16 Pro
+    [1320, 2868],     // iPhone 16 Pro Max
+    [1536, 2048],     // iPad (9.7")/iPad mini 2-5
+    [1620, 2160],     // iPad 10.2"
+    [1640, 2360],     // iPad 10.9"/iPad Air (4th/5th gen.)
+    [1668, 2224],     // iPad Pro 10.5"/iPad Air (3rd gen.)
+    [1668, 2388],     // iPad Pro 11"
+    [1488, 2266],     // iPad mini (6th gen.)
+    [2048, 2732],     // iPad Pro 12.9"
+  ],
+  android: [
+    [720, 1280],
+    [720, 1520],
+    [720, 1600],
+    [1080, 1920],
+    [1080, 2160],
+    [1080, 2220],
+    [1080, 2280],
+    [1080, 2340],
+    [1080, 2400],
+    [1080, 2408],
+    [1440, 2560],
+    [1440, 2960],
+    [1440, 3040],
+    [1440, 3088],
+    [1440, 3120],
+    [1440, 3200],
+  ],
+  desktop: [
+    [1280, 720],
+    [1280, 800],
+    [1366, 768],
+    [1440, 900],
+    [1536, 864],
+    [1600, 900],
+    [1680, 1050],
+    [1920, 1080],
+    [1920, 1200],
+    [2560, 1080],
+    [2560, 1440],
+    [2560, 1600],
+    [2880, 1800],     // MacBook Pro 15" Retina
+    [3024, 1964],     // MacBook Pro 14" (2021+)
+    [3456, 2234],     // MacBook Pro 16" (2021+)
+    [2560, 1664],     // MacBook Air 13" (M2+)
+    [3440, 1440],
+    [3840, 2160],
+  ],
+};
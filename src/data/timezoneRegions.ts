@@ -0,0 +1,77 @@
+// Coarse offline timezone regions
+// Boxes around countries/zones with every UTC offset used there since 2008 (standard and DST).
+// Boxes overlap near borders and callers also sample around the point, so a point near a
+// boundary accepts the offsets of both sides. Points outside every box are not checked.
+
+export interface TimezoneRegion {
+  zone: string;                               // Representative IANA zone
+  offsets: number[];                          // Minutes east of UTC
+  box: [number, number, number, number];      // [west, south, east, north] in degrees
+}
+
+/**
+ * Bump when regions are added or changed, together with RULESET_VERSION
+ */
+export const TIMEZONE_REGIONS_VERSION = '2026.10.0';
+
+export const TIMEZONE_REGIONS: TimezoneRegion[] = [
+  // Brazil (DST abolished in 2019; Acre was UTC-4 between 2008 and 2013)
+  { zone: 'America/Noronha', offsets: [-120], box: [-32.6, -4.0, -32.3, -3.7] },
+  { zone: 'America/Sao_Paulo', offsets: [-180, -120], box: [-53.2, -33.8, -34.7, -2.0] },
+  { zone: 'America/Sao_Paulo', offsets: [-180, -120], box: [-53.3, -19.5, -45.7, -5.1] },
+  { zone: 'America/Belem', offsets: [-180], box: [-58.9, -9.9, -46.0, 4.5] },
+  { zone: 'America/Manaus', offsets: [-240], box: [-70.0, -9.8, -56.1, 5.3] },
+  { zone: 'America/Porto_Velho', offsets: [-240], box: [-66.8, -13.7, -59.8, -7.9] },
+  { zone: 'America/Cuiaba', offsets: [-240, -180], box: [-61.6, -18.1, -50.2, -7.3] },
+  { zone: 'America/Campo_Grande', offsets: [-240, -180], box: [-58.2, -24.1, -50.9, -17.1] },
+  { zone: 'America/Rio_Branco', offsets: [-300, -240], box: [-74.0, -11.2, -66.6, -7.1] },
+  { zone: 'America/Eirunepe', offsets: [-300, -240], box: [-73.8, -9.5, -67.0, -4.0] },
+
+  // South America
+  { zone: 'America/Argentina/Buenos_Aires', offsets: [-180, -120], box: [-73.6, -55.1, -53.6, -21.8] },
+  { zone: 'America/Santiago', offsets: [-240, -180], box: [-75.7, -56.0, -66.4, -17.5] },
+  { zone: 'America/Montevideo', offsets: [-180, -120], box: [-58.5, -35.0, -53.1, -30.1] },
+  { zone: 'America/Asuncion', offsets: [-240, -180], box: [-62.7, -27.6, -54.2, -19.3] },
+  { zone: 'America/La_Paz', offsets: [-240], box: [-69.7, -22.9, -57.4, -9.7] },
+  { zone: 'America/Lima', offsets: [-300], box: [-81.4, -18.4, -68.6, 0.0] },
+  { zone: 'America/Bogota', offsets: [-300], box: [-79.1, -4.3, -66.8, 12.5] },
+  { zone: 'America/Caracas', offsets: [-270, -240], box: [-73.4, 0.6, -59.8, 12.2] },
+  { zone: 'America/Guayaquil', offsets: [-300], box: [-81.1, -5.1, -75.2, 1.5] },
+
+  // North America
+  { zone: 'America/New_York', offsets: [-300, -240], box: [-85.5, 24.5, -66.9, 47.5] },
+  { zone: 'America/Chicago', offsets: [-360, -300], box: [-104.1, 25.8, -82.5, 49.4] },
+  { zone: 'America/Denver', offsets: [-420, -360], box: [-117.2, 31.3, -102.0, 49.0] },
+  { zone: 'America/Los_Angeles', offsets: [-480, -420], box: [-124.8, 32.5, -114.0, 49.0] },
+  { zone: 'America/Anchorage', offsets: [-540, -480], box: [-170.0, 51.0, -130.0, 71.5] },
+  { zone: 'Pacific/Honolulu', offsets: [-600], box: [-160.5, 18.8, -154.7, 22.3] },
+  { zone: 'America/Mexico_City', offsets: [-480, -420, -360, -300], box: [-117.2, 14.5, -86.7, 32.7] },
+
+  // Europe
+  { zone: 'Europe/Lisbon', offsets: [0, 60], box: [-9.6, 36.9, -6.1, 42.2] },
+  { zone: 'Atlantic/Azores', offsets: [-60, 0], box: [-31.5, 36.8, -24.9, 39.8] },
+  { zone: 'Atlantic/Madeira', offsets: [0, 60], box: [-17.4, 32.3, -16.2, 33.2] },
+  { zone: 'Europe/London', offsets: [0, 60], box: [-10.7, 49.8, 1.8, 60.9] },
+  { zone: 'Europe/Madrid', offsets: [60, 120], box: [-9.4, 35.9, 3.4, 43.8] },
+  { zone: 'Europe/Paris', offsets: [60, 120], box: [-4.8, 42.3, 8.2, 51.1] },
+  { zone: 'Europe/Berlin', offsets: [60, 120], box: [5.8, 45.8, 24.2, 55.1] },
+  { zone: 'Europe/Rome', offsets: [60, 120], box: [6.6, 36.6, 18.6, 47.1] },
+  { zone: 'Europe/Oslo', offsets: [60, 120], box: [4.5, 54.5, 24.2, 71.2] },
+  { zone: 'Europe/Helsinki', offsets: [120, 180], box: [20.0, 59.8, 31.6, 70.1] },
+  { zone: 'Europe/Athens', offsets: [120, 180], box: [19.3, 34.8, 28.3, 41.8] },
+  { zone: 'Europe/Kyiv', offsets: [120, 180], box: [20.2, 41.2, 40.2, 52.4] },
+  { zone: 'Europe/Istanbul', offsets: [120, 180], box: [26.0, 35.8, 44.8, 42.1] },
+  { zone: 'Europe/Moscow', offsets: [180, 240], box: [27.0, 41.0, 60.0, 70.0] },
+
+  // Africa, Asia, Oceania
+  { zone: 'Africa/Johannesburg', offsets: [120], box: [16.4, -34.9, 32.9, -22.1] },
+  { zone: 'Asia/Kolkata', offsets: [330], box: [68.1, 6.7, 97.4, 35.5] },
+  { zone: 'Asia/Shanghai', offsets: [480], box: [73.5, 18.0, 135.0, 53.6] },
+  { zone: 'Asia/Tokyo', offsets: [540], box: [122.9, 24.0, 146.0, 45.6] },
+  { zone: 'Australia/Perth', offsets: [480], box: [112.9, -35.2, 129.0, -13.7] },
+  { zone: 'Australia/Darwin', offsets: [570], box: [129.0, -26.0, 138.0, -10.9] },
+  { zone: 'Australia/Adelaide', offsets: [570, 630], box: [129.0, -38.1, 141.0, -26.0] },
+  { zone: 'Australia/Brisbane', offsets: [600], box: [138.0, -29.2, 153.6, -10.0] },
+  { zone: 'Australia/Sydney', offsets: [600, 660], box: [140.9, -43.7, 153.7, -28.1] },
+  { zone: 'Pacific/Auckland', offsets: [720, 780], box: [166.4, -47.3, 178.6, -34.4] },
+];
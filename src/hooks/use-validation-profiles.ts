@@ -0,0 +1,26 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ValidationProfileService } from "@/services/ValidationProfileService";
+import type { ValidationProfile } from "@/utils/validationProfiles";
+
+export function useValidationProfiles() {
+  return useQuery({
+    queryKey: ["validation-profiles"],
+    queryFn: () => ValidationProfileService.listProfiles(),
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/**
+ * Profile for a record: the stored profile id when present, otherwise the default profile.
+ * Falls back to the built-in default while loading or when profiles cannot be read.
+ */
+export function useValidationProfile(profileId?: string | null): ValidationProfile {
+  const { data: profiles } = useValidationProfiles();
+
+  return useMemo(() => {
+    const byId = profileId ? profiles?.find(p => p.id === profileId) : undefined;
+    const fallback = profiles?.find(p => p.isDefault);
+    return byId ?? fallback ?? ValidationProfileService.builtinDefault();
+  }, [profiles, profileId]);
+}
@@ -31,6 +31,8 @@ export type Database = {
           size_bytes: number | null
           updated_at: string
           user_id: string | null
+          validation_profile_id: string | null
+          validation_profile_version: number | null
           xmp_data: Json | null
         }
         Insert: {
@@ -49,6 +51,8 @@ export type Database = {
           size_bytes?: number | null
           updated_at?: string
           user_id?: string | null
+          validation_profile_id?: string | null
+          validation_profile_version?: number | null
           xmp_data?: Json | null
         }
         Update: {
@@ -67,6 +71,8 @@ export type Database = {
           size_bytes?: number | null
           updated_at?: string
           user_id?: string | null
+          validation_profile_id?: string | null
+          validation_profile_version?: number | null
           xmp_data?: Json | null
         }
         Relationships: [
@@ -77,6 +83,13 @@ export type Database = {
             referencedRelation: "metadata_jobs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "file_metadata_validation_profile_id_fkey"
+            columns: ["validation_profile_id"]
+            isOneToOne: false
+            referencedRelation: "validation_profiles"
+            referencedColumns: ["id"]
+          },
         ]
       }
       metadata_jobs: {
@@ -118,6 +131,42 @@ export type Database = {
         }
         Relationships: []
       }
+      validation_profiles: {
+        Row: {
+          config: Json
+          created_at: string
+          description: string | null
+          id: string
+          is_default: boolean
+          name: string
+          slug: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          config?: Json
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          slug: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          slug?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
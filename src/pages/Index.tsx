@@ -113,7 +113,7 @@ const Index = () => {
           {/* Results Section */}
           {currentFile && (
             <div className="w-full flex justify-center animate-in fade-in duration-500">
-              <ExifToolMetadataDisplay metadata={currentFile.data} />
+              <ExifToolMetadataDisplay key={currentFileIndex} metadata={currentFile.data} />
             </div>
           )}
 
@@ -0,0 +1,19 @@
+import { runWorker, type WorkerTask } from '@/workers/protocol';
+import type { CopyMoveRequest, CopyMoveResult } from '@/workers/copy-move.worker';
+
+export class CopyMoveService {
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  /**
+   * Copy-move (cloned region) analysis of an image, computed off the main thread.
+   * The region mask is only computed when asked for.
+   */
+  static run(image: Blob, options: { mask?: boolean } = {}): WorkerTask<CopyMoveResult> {
+    return runWorker<CopyMoveRequest, CopyMoveResult>(
+      () => new Worker(new URL('../workers/copy-move.worker.ts', import.meta.url), { type: 'module' }),
+      { image, mask: !!options.mask }
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { runWorker, type WorkerTask } from '@/workers/protocol';
+import type { DoubleJpegRequest, DoubleJpegResult } from '@/workers/double-jpeg.worker';
+
+export class DoubleJpegService {
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  /**
+   * Double compression analysis of a JPEG, computed off the main thread.
+   * The localization map is only computed when asked for.
+   */
+  static run(image: Blob, options: { localize?: boolean } = {}): WorkerTask<DoubleJpegResult> {
+    return runWorker<DoubleJpegRequest, DoubleJpegResult>(
+      () => new Worker(new URL('../workers/double-jpeg.worker.ts', import.meta.url), { type: 'module' }),
+      { image, localize: !!options.localize }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { runWorker, type WorkerTask } from '@/workers/protocol';
+import type { ElaRequest, ElaResult } from '@/workers/ela.worker';
+import { ELA_DEFAULT_QUALITY, ELA_DEFAULT_SCALE } from '@/utils/ela';
+
+export class ElaService {
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  /**
+   * Error Level Analysis of an image, computed off the main thread
+   */
+  static run(image: Blob, options: { quality?: number; scale?: number } = {}): WorkerTask<ElaResult> {
+    return runWorker<ElaRequest, ElaResult>(
+      () => new Worker(new URL('../workers/ela.worker.ts', import.meta.url), { type: 'module' }),
+      {
+        image,
+        quality: options.quality ?? ELA_DEFAULT_QUALITY,
+        scale: options.scale ?? ELA_DEFAULT_SCALE,
+      }
+    );
+  }
+}
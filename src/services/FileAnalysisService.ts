@@ -0,0 +1,119 @@
+import { supabase } from '@/integrations/supabase/client';
+import { analyzeFileBytes, type FileAnalysis } from '@/utils/fileAnalysis';
+import { extractExifThumbnail, type ExifThumbnail } from '@/utils/jpegStructure';
+import {
+  differenceHash,
+  findContentBox,
+  HASH_HEIGHT,
+  HASH_WIDTH,
+  type ThumbnailAnalysis,
+} from '@/utils/thumbnailComparison';
+import { verifyC2pa } from '@/utils/c2pa';
+import { DEFAULT_CONFIG, type ValidationConfig } from '@/utils/exifValidation';
+import { ElaService } from '@/services/ElaService';
+import { DoubleJpegService } from '@/services/DoubleJpegService';
+import { CopyMoveService } from '@/services/CopyMoveService';
+import { NoiseService } from '@/services/NoiseService';
+import { decodeImage, grayscale, orientedCanvas, previewDataUrl } from '@/utils/imageCanvas';
+
+type WeightKey = keyof ValidationConfig['weights'];
+
+/**
+ * Run an optional part of the analysis; a failure only leaves that part out
+ */
+async function optional<T>(label: string, task: () => Promise<T | null>): Promise<T | undefined> {
+  try {
+    return (await task()) ?? undefined;
+  } catch (error) {
+    console.warn(`${label} skipped:`, error);
+    return undefined;
+  }
+}
+
+export class FileAnalysisService {
+  /**
+   * Structure checks plus the optional comparisons and pixel analyses, run concurrently.
+   * Pixel analyses whose rule weighs 0 under the config are skipped: they cannot change the verdict.
+   */
+  static async analyze(file: Blob, config: ValidationConfig = DEFAULT_CONFIG): Promise<FileAnalysis> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const analysis = analyzeFileBytes(bytes);
+
+    const weighs = (key: WeightKey) => (config.weights[key] ?? DEFAULT_CONFIG.weights[key] ?? 0) > 0;
+    const isImage = !!analysis.jpeg || file.type.startsWith('image/');
+    const thumbnail = extractExifThumbnail(bytes);
+
+    const [thumbnailAnalysis, ela, doubleJpeg, copyMove, noise, c2pa] = await Promise.all([
+      thumbnail
+        ? optional('Thumbnail comparison', () => this.analyzeThumbnail(file, thumbnail))
+        : undefined,
+      analysis.jpeg && ElaService.isSupported() && weighs('elaAnomaly')
+        ? optional('Error level analysis', async () => (await ElaService.run(file)).summary)
+        : undefined,
+      analysis.jpeg && DoubleJpegService.isSupported() && weighs('doubleJpeg')
+        ? optional('Double JPEG analysis', async () => (await DoubleJpegService.run(file)).summary)
+        : undefined,
+      isImage && CopyMoveService.isSupported() && weighs('copyMove')
+        ? optional('Copy-move analysis', async () => (await CopyMoveService.run(file)).summary)
+        : undefined,
+      isImage && NoiseService.isSupported() && weighs('noiseInconsistency')
+        ? optional('Noise analysis', async () => (await NoiseService.run(file)).summary)
+        : undefined,
+      optional('C2PA verification', () => verifyC2pa(bytes)),
+    ]);
+
+    if (thumbnailAnalysis) analysis.thumbnail = thumbnailAnalysis;
+    if (ela) analysis.ela = ela;
+    if (doubleJpeg) analysis.doubleJpeg = doubleJpeg;
+    if (copyMove) analysis.copyMove = copyMove;
+    if (noise) analysis.noise = noise;
+    if (c2pa) analysis.c2pa = c2pa;
+    return analysis;
+  }
+
+  /**
+   * Analyze a file already uploaded to the image-uploads bucket
+   */
+  static async analyzeStoredFile(filePath: string, config: ValidationConfig = DEFAULT_CONFIG): Promise<FileAnalysis> {
+    return this.analyze(await this.downloadStoredFile(filePath), config);
+  }
+  static async downloadStoredFile(filePath: string): Promise<Blob> {
+    const { data, error } = await supabase.storage
+      .from('image-uploads')
+      .download(filePath);
+
+    if (error || !data) {
+      throw new Error(`Falha ao baixar o arquivo: ${error?.message ?? 'arquivo vazio'}`);
+    }
+
+    return data;
+  }
+
+  private static async analyzeThumbnail(file: Blob, thumbnail: ExifThumbnail): Promise<ThumbnailAnalysis> {
+    const [main, thumb] = await Promise.all([
+      decodeImage(file),
+      decodeImage(new Blob([thumbnail.data], { type: 'image/jpeg' })),
+    ]);
+
+    try {
+      // The thumbnail has no EXIF of its own: apply the main image's orientation
+      const thumbCanvas = orientedCanvas(thumb, thumbnail.orientation);
+      const luma = grayscale(thumbCanvas, thumbCanvas.width, thumbCanvas.height);
+      const box = findContentBox(luma, thumbCanvas.width, thumbCanvas.height);
+
+      return {
+        width: box.width,
+        height: box.height,
+        mainWidth: main.width,
+        mainHeight: main.height,
+        thumbnailHash: differenceHash(grayscale(thumbCanvas, HASH_WIDTH, HASH_HEIGHT, box)),
+        mainHash: differenceHash(grayscale(main, HASH_WIDTH, HASH_HEIGHT)),
+        thumbnailPreview: previewDataUrl(thumbCanvas, 160, box),
+        mainPreview: previewDataUrl(main, 160),
+      };
+    } finally {
+      main.close();
+      thumb.close();
+    }
+  }
+}
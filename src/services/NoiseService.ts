@@ -0,0 +1,18 @@
+import { runWorker, type WorkerTask } from '@/workers/protocol';
+import type { NoiseRequest, NoiseResult } from '@/workers/noise.worker';
+
+export class NoiseService {
+  static isSupported(): boolean {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+  }
+
+  /**
+   * Local noise levels of an image and their heat map, computed off the main thread
+   */
+  static run(image: Blob): WorkerTask<NoiseResult> {
+    return runWorker<NoiseRequest, NoiseResult>(
+      () => new Worker(new URL('../workers/noise.worker.ts', import.meta.url), { type: 'module' }),
+      { image }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import {
+  BUILTIN_DEFAULT_PROFILE,
+  buildValidationConfig,
+  parseConfigOverrides,
+  type ValidationProfile,
+} from '@/utils/validationProfiles';
+
+export class ValidationProfileService {
+  static async listProfiles(): Promise<ValidationProfile[]> {
+    const { data, error } = await supabase
+      .from('validation_profiles')
+      .select('*')
+      .order('is_default', { ascending: false })
+      .order('name');
+
+    if (error) {
+      throw new Error(`Falha ao carregar perfis de validação: ${error.message}`);
+    }
+
+    return (data ?? []).map(row => this.fromRow(row));
+  }
+
+  static async getProfile(id: string): Promise<ValidationProfile | null> {
+    const { data, error } = await supabase
+      .from('validation_profiles')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Falha ao carregar perfil de validação: ${error.message}`);
+    }
+
+    return data ? this.fromRow(data) : null;
+  }
+
+  /**
+   * Profile to use when none is stored with a record or the table is empty
+   */
+  static builtinDefault(): ValidationProfile {
+    return {
+      ...BUILTIN_DEFAULT_PROFILE,
+      description: null,
+      isDefault: true,
+      overrides: {},
+      config: buildValidationConfig({}),
+    };
+  }
+
+  private static fromRow(row: Tables<'validation_profiles'>): ValidationProfile {
+    const overrides = parseConfigOverrides(row.config);
+    const ref = { id: row.id, slug: row.slug, name: row.name, version: row.version };
+    return {
+      ...ref,
+      description: row.description,
+      isDefault: row.is_default,
+      overrides,
+      config: buildValidationConfig(overrides, ref),
+    };
+  }
+}
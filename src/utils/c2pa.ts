@@ -0,0 +1,395 @@
+// C2PA manifest store reading and offline verification
+// Reads the manifest store from the file's JUMBF boxes, checks the claim signature (COSE_Sign1),
+// the signer chain against the bundled trust list, the assertion hashes and the asset data hash.
+// JPEG (APP11) only; the validation rules are limited to JPEG files accordingly.
+
+import { decodeCbor, encodeCborArray, CborTag } from './cbor';
+import { extractJpegJumbf, type JumbfSuperbox } from './jumbf';
+import {
+  parseCertificate,
+  pemToDer,
+  sameBytes,
+  verifyIssuedBy,
+  verifySignature,
+  type Certificate,
+  type VerifyAlgorithm,
+} from './x509';
+import {
+  C2PA_TRUST_ANCHORS,
+  C2PA_TRUST_LIST_VERSION,
+  CAPTURE_SOURCE_TYPES,
+  type TrustAnchor,
+} from '../data/c2paTrustList';
+
+export type C2paStatus =
+  | 'valid'         // Signature and hashes verify, signer chains to a trust anchor
+  | 'untrusted'     // Signature and hashes verify, signer not in the trust list
+  | 'invalid'       // Signature does not verify or the structure is broken
+  | 'tampered'      // Signature verifies but an assertion or the asset data changed
+  | 'unsupported';  // Algorithm or hash binding this verifier does not handle
+
+export interface C2paAction {
+  action: string;
+  softwareAgent?: string;
+  digitalSourceType?: string;
+  when?: string;
+}
+
+export interface C2paIngredient {
+  title: string;
+  format?: string;
+  relationship?: string;
+}
+
+export interface C2paSigner {
+  commonName?: string;
+  organization?: string;
+  issuer?: string;
+  notBefore?: string;
+  notAfter?: string;
+}
+
+export interface C2paManifestSummary {
+  label: string;
+  claimGenerator?: string;
+  title?: string;
+  format?: string;
+  actions: C2paAction[];
+  ingredients: C2paIngredient[];
+  signer: C2paSigner | null;
+  status: C2paStatus;
+  errors: string[];     // pt-BR reasons for a non-valid status
+}
+
+export interface C2paSummary {
+  trustListVersion: string;
+  activeManifest: string | null;
+  status: C2paStatus;               // Status of the active manifest
+  cameraCapture: boolean;           // Active manifest is valid and records a digital capture
+  manifests: C2paManifestSummary[]; // Active manifest last
+}
+
+const C2PA_STORE_LABEL = 'c2pa';
+
+// COSE algorithm ids (RFC 9053) -> WebCrypto
+const COSE_ALGORITHMS: Record<number, (cert: Certificate) => VerifyAlgorithm | null> = {
+  [-7]: cert => (cert.namedCurve ? { name: 'ECDSA', hash: 'SHA-256', curve: cert.namedCurve } : null),
+  [-35]: cert => (cert.namedCurve ? { name: 'ECDSA', hash: 'SHA-384', curve: cert.namedCurve } : null),
+  [-36]: cert => (cert.namedCurve ? { name: 'ECDSA', hash: 'SHA-512', curve: cert.namedCurve } : null),
+  [-37]: () => ({ name: 'RSA-PSS', hash: 'SHA-256', saltLength: 32 }),
+  [-38]: () => ({ name: 'RSA-PSS', hash: 'SHA-384', saltLength: 48 }),
+  [-39]: () => ({ name: 'RSA-PSS', hash: 'SHA-512', saltLength: 64 }),
+  [-8]: () => ({ name: 'Ed25519' }),
+};
+
+const HASH_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+type CborMap = Record<string, unknown>;
+
+const isMap = (value: unknown): value is CborMap =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array) && !(value instanceof CborTag);
+
+const asText = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
+
+// Labels may carry an instance suffix ("c2pa.ingredient__1")
+const baseLabel = (label: string | null) => (label ?? '').replace(/__\d+$/, '');
+
+function cborContent(box: JumbfSuperbox): { bytes: Uint8Array; value: unknown } | null {
+  const content = box.content.find(c => c.type === 'cbor');
+  if (!content) return null;
+  return { bytes: content.data, value: decodeCbor(content.data) };
+}
+
+/**
+ * Manifest store superbox from the file, or null when there is none
+ */
+export function readC2paManifestStore(bytes: Uint8Array): JumbfSuperbox | null {
+  return extractJpegJumbf(bytes).find(box => box.label === C2PA_STORE_LABEL) ?? null;
+}
+
+async function digest(algorithm: string, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data));
+}
+
+/**
+ * Asset bytes without the excluded ranges (the manifest store itself)
+ */
+function withoutExclusions(bytes: Uint8Array, exclusions: { start: number; length: number }[]): Uint8Array {
+  const sorted = [...exclusions].sort((a, b) => a.start - b.start);
+  const kept: Uint8Array[] = [];
+  let pos = 0;
+  for (const { start, length } of sorted) {
+    if (start > pos) kept.push(bytes.subarray(pos, Math.min(start, bytes.length)));
+    pos = Math.max(pos, start + length);
+  }
+  if (pos < bytes.length) kept.push(bytes.subarray(pos));
+
+  const joined = new Uint8Array(kept.reduce((sum, k) => sum + k.length, 0));
+  let offset = 0;
+  for (const part of kept) {
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+/**
+ * Whether each certificate of the x5chain is signed by the next one
+ */
+async function chainIsLinked(chain: Certificate[]): Promise<boolean> {
+  for (let i = 0; i < chain.length - 1; i++) {
+    if (!(await verifyIssuedBy(chain[i], chain[i + 1]))) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether the top of a linked chain is a trust anchor or was issued by one
+ */
+async function chainsToAnchor(chain: Certificate[], anchors: Certificate[]): Promise<boolean> {
+  const top = chain[chain.length - 1];
+  for (const anchor of anchors) {
+    if (sameBytes(top.raw, anchor.raw)) return true;
+    if (sameBytes(top.issuerRaw, anchor.subjectRaw) && await verifyIssuedBy(top, anchor)) return true;
+  }
+  return false;
+}
+
+function summarizeAssertions(assertions: JumbfSuperbox | undefined) {
+  const actions: C2paAction[] = [];
+  const ingredients: C2paIngredient[] = [];
+
+  for (const assertion of assertions?.children ?? []) {
+    const label = baseLabel(assertion.label);
+    try {
+      if (label === 'c2pa.actions' || label === 'c2pa.actions.v2') {
+        const list = (cborContent(assertion)?.value as CborMap | undefined)?.actions;
+        for (const item of Array.isArray(list) ? list : []) {
+          if (!isMap(item) || !asText(item.action)) continue;
+          const agent = item.softwareAgent;
+          actions.push({
+            action: String(item.action),
+            softwareAgent: asText(agent) ?? (isMap(agent) ? asText(agent.name) : undefined),
+            digitalSourceType: asText(item.digitalSourceType),
+            when: asText(item.when),
+          });
+        }
+      } else if (label.startsWith('c2pa.ingredient')) {
+        const value = cborContent(assertion)?.value;
+        if (isMap(value)) {
+          ingredients.push({
+            title: asText(value['dc:title']) ?? 'sem título',
+            format: asText(value['dc:format']),
+            relationship: asText(value.relationship),
+          });
+        }
+      }
+    } catch {
+      // Unreadable assertion content is caught by the hash check
+    }
+  }
+  return { actions, ingredients };
+}
+
+async function verifyManifest(
+  manifest: JumbfSuperbox,
+  fileBytes: Uint8Array,
+  anchors: Certificate[],
+  isActive: boolean
+): Promise<C2paManifestSummary> {
+  const errors: string[] = [];
+  const assertions = manifest.children.find(c => c.label === 'c2pa.assertions');
+  const { actions, ingredients } = summarizeAssertions(assertions);
+  const summary: C2paManifestSummary = {
+    label: manifest.label ?? '',
+    actions,
+    ingredients,
+    signer: null,
+    status: 'invalid',
+    errors,
+  };
+
+  const claimBox = manifest.children.find(c => c.label === 'c2pa.claim' || c.label === 'c2pa.claim.v2');
+  const signatureBox = manifest.children.find(c => c.label === 'c2pa.signature');
+  if (!claimBox || !signatureBox) {
+    errors.push('Claim ou assinatura ausente no manifesto');
+    return summary;
+  }
+
+  let claimBytes: Uint8Array;
+  let claim: CborMap;
+  let cose: unknown[];
+  try {
+    const claimContent = cborContent(claimBox);
+    const signatureContent = cborContent(signatureBox);
+    if (!claimContent || !signatureContent || !isMap(claimContent.value)) throw new Error('conteúdo CBOR ausente');
+    claimBytes = claimContent.bytes;
+    claim = claimContent.value;
+    const signatureValue = signatureContent.value;
+    cose = (signatureValue instanceof CborTag ? signatureValue.value : signatureValue) as unknown[];
+    if (!Array.isArray(cose) || cose.length !== 4) throw new Error('COSE_Sign1 malformado');
+  } catch (error) {
+    errors.push(`Estrutura do manifesto inválida: ${error instanceof Error ? error.message : String(error)}`);
+    return summary;
+  }
+
+  const generatorInfo = claim.claim_generator_info;
+  summary.claimGenerator = asText(claim.claim_generator)
+    ?? (isMap(generatorInfo) ? asText(generatorInfo.name) : undefined)
+    ?? (Array.isArray(generatorInfo) && isMap(generatorInfo[0]) ? asText(generatorInfo[0].name) : undefined);
+  summary.title = asText(claim['dc:title']);
+  summary.format = asText(claim['dc:format']);
+
+  // COSE_Sign1: [protected bstr, unprotected map, payload (nil = detached claim), signature]
+  const [protectedBytes, unprotected, payload, signature] = cose;
+  if (!(protectedBytes instanceof Uint8Array) || !(signature instanceof Uint8Array)) {
+    errors.push('Assinatura COSE malformada');
+    return summary;
+  }
+  const protectedHeader = protectedBytes.length ? decodeCbor(protectedBytes) : {};
+  const headers = isMap(protectedHeader) ? protectedHeader : {};
+  const x5chain = headers['33'] ?? (isMap(unprotected) ? unprotected['33'] : undefined);
+  const chainBytes = (Array.isArray(x5chain) ? x5chain : [x5chain]).filter((c): c is Uint8Array => c instanceof Uint8Array);
+
+  let chain: Certificate[];
+  try {
+    chain = chainBytes.map(parseCertificate);
+  } catch {
+    errors.push('Certificado do assinante ilegível');
+    return summary;
+  }
+  if (!chain.length) {
+    errors.push('Cadeia de certificados (x5chain) ausente');
+    return summary;
+  }
+
+  const leaf = chain[0];
+  summary.signer = {
+    commonName: leaf.subject.CN,
+    organization: leaf.subject.O,
+    issuer: leaf.issuer.O ?? leaf.issuer.CN,
+    notBefore: leaf.notBefore?.toISOString(),
+    notAfter: leaf.notAfter?.toISOString(),
+  };
+
+  const algorithm = typeof headers['1'] === 'number' ? COSE_ALGORITHMS[headers['1']]?.(leaf) : null;
+  if (!algorithm) {
+    summary.status = 'unsupported';
+    errors.push(`Algoritmo de assinatura não suportado: ${String(headers['1'])}`);
+    return summary;
+  }
+
+  const signedPayload = payload instanceof Uint8Array ? payload : claimBytes;
+  const sigStructure = encodeCborArray(['Signature1', protectedBytes, new Uint8Array(0), signedPayload]);
+  let signatureValid: boolean;
+  try {
+    signatureValid = await verifySignature(leaf, algorithm, signature, sigStructure);
+  } catch {
+    summary.status = 'unsupported';
+    errors.push(`Algoritmo ${algorithm.name} indisponível neste navegador`);
+    return summary;
+  }
+  if (!signatureValid) {
+    errors.push('Assinatura do claim não confere');
+    return summary;
+  }
+
+  // Hashed assertion references (v1: assertions; v2: created + gathered)
+  const claimAlg = HASH_ALGORITHMS[asText(claim.alg) ?? 'sha256'] ?? 'SHA-256';
+  const references = [claim.assertions, claim.created_assertions, claim.gathered_assertions]
+    .flatMap(list => (Array.isArray(list) ? list : []))
+    .filter(isMap);
+  let tampered = false;
+  for (const reference of references) {
+    const url = asText(reference.url) ?? '';
+    const label = url.split('/').pop() ?? '';
+    const assertion = assertions?.children.find(c => c.label === label);
+    const expected = reference.hash;
+    if (!assertion || !(expected instanceof Uint8Array)) {
+      tampered = true;
+      errors.push(`Asserção referenciada ausente: ${label}`);
+      continue;
+    }
+    const alg = HASH_ALGORITHMS[asText(reference.alg) ?? ''] ?? claimAlg;
+    if (!sameBytes(await digest(alg, assertion.payload), expected)) {
+      tampered = true;
+      errors.push(`Hash da asserção não confere: ${label}`);
+    }
+  }
+
+  // Hard binding to the asset bytes (active manifest only)
+  if (isActive) {
+    const dataHash = assertions?.children.find(c => baseLabel(c.label) === 'c2pa.hash.data');
+    const value = dataHash ? cborContent(dataHash)?.value : null;
+    if (isMap(value) && value.hash instanceof Uint8Array) {
+      const exclusions = (Array.isArray(value.exclusions) ? value.exclusions : [])
+        .filter(isMap)
+        .map(e => ({ start: Number(e.start), length: Number(e.length) }));
+      const alg = HASH_ALGORITHMS[asText(value.alg) ?? ''] ?? claimAlg;
+      if (!sameBytes(await digest(alg, withoutExclusions(fileBytes, exclusions)), value.hash)) {
+        tampered = true;
+        errors.push('Hash dos dados da imagem não confere (arquivo alterado após a assinatura)');
+      }
+    } else {
+      summary.status = 'unsupported';
+      errors.push('Vínculo de hash do arquivo não suportado (apenas c2pa.hash.data)');
+      return summary;
+    }
+  }
+
+  if (tampered) {
+    summary.status = 'tampered';
+    return summary;
+  }
+
+  if (!(await chainIsLinked(chain))) {
+    errors.push('Cadeia de certificados do assinante não confere');
+    return summary;
+  }
+  const trusted = await chainsToAnchor(chain, anchors);
+  summary.status = trusted ? 'valid' : 'untrusted';
+  if (!trusted) errors.push('Assinante fora da lista de confiança');
+  return summary;
+}
+
+/**
+ * Read and verify the file's C2PA manifests; null when the file has no manifest store
+ */
+export async function verifyC2pa(
+  bytes: Uint8Array,
+  trustAnchors: TrustAnchor[] = C2PA_TRUST_ANCHORS
+): Promise<C2paSummary | null> {
+  const store = readC2paManifestStore(bytes);
+  if (!store) return null;
+
+  const anchors = trustAnchors.flatMap(anchor => {
+    try {
+      return [parseCertificate(pemToDer(anchor.pem))];
+    } catch {
+      console.warn(`C2PA trust anchor ignored (invalid PEM): ${anchor.name}`);
+      return [];
+    }
+  });
+
+  const manifests: C2paManifestSummary[] = [];
+  for (const [index, manifest] of store.children.entries()) {
+    manifests.push(await verifyManifest(manifest, bytes, anchors, index === store.children.length - 1));
+  }
+
+  const active = manifests[manifests.length - 1];
+  const cameraCapture = active?.status === 'valid' && active.actions.some(a =>
+    a.action === 'c2pa.created' && !!a.digitalSourceType && CAPTURE_SOURCE_TYPES.includes(a.digitalSourceType)
+  );
+
+  return {
+    trustListVersion: C2PA_TRUST_LIST_VERSION,
+    activeManifest: active?.label ?? null,
+    status: active?.status ?? 'invalid',
+    cameraCapture,
+    manifests,
+  };
+}
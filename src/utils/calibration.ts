@@ -0,0 +1,289 @@
+// Calibration of weights and thresholds against labeled data
+// Pure functions: the CLI in scripts/calibrate.ts loads the dataset and prints the report
+
+import {
+  validateImageMetadata,
+  type ValidationConfig,
+  type ValidationOptions,
+} from './exifValidation';
+import { getValidationRules, resolveRuleWeight } from './validationRules';
+import type { FileAnalysis } from './fileAnalysis';
+
+export type GroundTruth = 'authentic' | 'manipulated';
+
+export interface LabeledSample {
+  id: string;                         // File name or other identifier
+  label: GroundTruth;
+  metadata: Record<string, unknown>;  // ExifTool JSON (-G1) object
+  referenceTime?: string;             // Upload time, when known
+  fileAnalysis?: FileAnalysis;        // File structures (and pixel analyses), for the rules that read them
+}
+
+export interface ScoredSample {
+  id: string;
+  label: GroundTruth;
+  score: number;
+  level: number;
+  signals: { code: string; rule?: string; weight: number }[];  // Scored risk signals, plus findings of rules weighing 0
+}
+
+export interface ConfusionMatrix {
+  tp: number;   // Manipulated, flagged
+  fp: number;   // Authentic, flagged
+  tn: number;   // Authentic, not flagged
+  fn: number;   // Manipulated, not flagged
+}
+
+export interface ClassificationMetrics {
+  precision: number;
+  recall: number;         // True positive rate
+  fpr: number;            // False positive rate
+  f1: number;
+  accuracy: number;
+}
+
+export interface LevelCutoffReport {
+  minLevel: number;       // Files at this level or above count as flagged
+  matrix: ConfusionMatrix;
+  metrics: ClassificationMetrics;
+}
+
+export interface RocPoint {
+  threshold: number;      // Flagged when score >= threshold
+  tpr: number;
+  fpr: number;
+}
+
+export interface WeightSuggestion {
+  weightKey: keyof ValidationConfig['weights'] | null;  // Null when the weight is not a plain rule weight
+  codes: string[];          // Signal codes scored with this weight (one code when weightKey is null)
+  current: number;
+  suggested: number;
+  manipulatedRate: number;  // Share of manipulated samples with the signal
+  authenticRate: number;    // Share of authentic samples with the signal
+  support: number;          // Samples with any of the signals
+}
+
+export interface CalibrationReport {
+  samples: number;
+  authentic: number;
+  manipulated: number;
+  levelCounts: Record<GroundTruth, number[]>;  // Samples per level (0-3) per label
+  cutoffs: LevelCutoffReport[];
+  roc: RocPoint[];
+  auc: number;
+  suggestedThresholds: ValidationConfig['thresholds'];
+  weightSuggestions: WeightSuggestion[];
+}
+
+/**
+ * Run the validator on every sample.
+ * Rules that weigh 0 under the config (opt-in rules) skip evaluation, so they run again in a probe
+ * pass with weight 1; their findings are listed at weight 0 and do not change the score.
+ */
+export function scoreSamples(
+  samples: LabeledSample[],
+  config: ValidationConfig,
+  options: Omit<ValidationOptions, 'referenceTime'> = {}
+): ScoredSample[] {
+  const disabled = new Set(config.disabledRules ?? []);
+  const optInRules = (options.rules ?? getValidationRules())
+    .filter(rule => !disabled.has(rule.id) && resolveRuleWeight(rule, config) === 0);
+  const probeConfig: ValidationConfig = {
+    ...config,
+    weights: { ...config.weights, ...Object.fromEntries(optInRules.map(rule => [rule.weightKey, 1])) },
+  };
+
+  return samples.map(sample => {
+    const sampleOptions: ValidationOptions = {
+      ...options,
+      referenceTime: sample.referenceTime,
+      fileAnalysis: sample.fileAnalysis ?? options.fileAnalysis,
+    };
+    const result = validateImageMetadata(sample.metadata, config, sampleOptions);
+    const probed = optInRules.length
+      ? validateImageMetadata(sample.metadata, probeConfig, { ...sampleOptions, rules: optInRules }).riskSignals
+      : [];
+    return {
+      id: sample.id,
+      label: sample.label,
+      score: result.score,
+      level: result.level,
+      signals: [
+        ...result.riskSignals
+          .filter(signal => signal.weight > 0)
+          .map(signal => ({ code: signal.code, rule: signal.rule, weight: signal.weight })),
+        ...probed.map(signal => ({ code: signal.code, rule: signal.rule, weight: 0 })),
+      ],
+    };
+  });
+}
+
+export function confusionMatrix(scored: ScoredSample[], isFlagged: (s: ScoredSample) => boolean): ConfusionMatrix {
+  const matrix: ConfusionMatrix = { tp: 0, fp: 0, tn: 0, fn: 0 };
+  for (const sample of scored) {
+    const flagged = isFlagged(sample);
+    if (sample.label === 'manipulated') {
+      if (flagged) matrix.tp++; else matrix.fn++;
+    } else {
+      if (flagged) matrix.fp++; else matrix.tn++;
+    }
+  }
+  return matrix;
+}
+
+const ratio = (a: number, b: number) => (b > 0 ? a / b : 0);
+
+export function classificationMetrics(m: ConfusionMatrix): ClassificationMetrics {
+  const precision = ratio(m.tp, m.tp + m.fp);
+  const recall = ratio(m.tp, m.tp + m.fn);
+  return {
+    precision,
+    recall,
+    fpr: ratio(m.fp, m.fp + m.tn),
+    f1: ratio(2 * precision * recall, precision + recall),
+    accuracy: ratio(m.tp + m.tn, m.tp + m.tn + m.fp + m.fn),
+  };
+}
+
+/**
+ * ROC curve over every distinct score, from "flag everything" to "flag nothing"
+ */
+export function rocCurve(scored: ScoredSample[]): RocPoint[] {
+  const thresholds = Array.from(new Set(scored.map(s => s.score))).sort((a, b) => a - b);
+  const points = thresholds.map(threshold => {
+    const metrics = classificationMetrics(confusionMatrix(scored, s => s.score >= threshold));
+    return { threshold, tpr: metrics.recall, fpr: metrics.fpr };
+  });
+  const above = (thresholds[thresholds.length - 1] ?? 0) + 1;
+  return [...points, { threshold: above, tpr: 0, fpr: 0 }];
+}
+
+/**
+ * Area under the ROC curve (trapezoidal rule)
+ */
+export function rocAuc(points: RocPoint[]): number {
+  const sorted = [...points].sort((a, b) => a.fpr - b.fpr || a.tpr - b.tpr);
+  let area = 0;
+  for (let i = 1; i < sorted.length; i++) {
+    area += (sorted[i].fpr - sorted[i - 1].fpr) * (sorted[i].tpr + sorted[i - 1].tpr) / 2;
+  }
+  return area;
+}
+
+/**
+ * Thresholds from the score distribution:
+ * - level0Max: highest score that keeps the best Youden index (tpr - fpr) when flagging above it
+ * - level2Max: lowest score above which flagged files are at least `highPrecision` manipulated
+ * - level1Max: midway between the two
+ */
+export function suggestThresholds(
+  scored: ScoredSample[],
+  current: ValidationConfig['thresholds'],
+  highPrecision = 0.9
+): ValidationConfig['thresholds'] {
+  const scores = Array.from(new Set(scored.map(s => s.score))).sort((a, b) => a - b);
+  if (scores.length === 0) return { ...current };
+
+  let level0Max = current.level0Max;
+  let bestJ = -Infinity;
+  for (const t of scores) {
+    const m = classificationMetrics(confusionMatrix(scored, s => s.score > t));
+    const j = m.recall - m.fpr;
+    if (j > bestJ) {
+      bestJ = j;
+      level0Max = t;
+    }
+  }
+
+  let level2Max = Math.max(level0Max + 2, current.level2Max);
+  for (const t of scores) {
+    if (t <= level0Max) continue;
+    const m = confusionMatrix(scored, s => s.score > t);
+    if (m.tp + m.fp > 0 && classificationMetrics(m).precision >= highPrecision) {
+      level2Max = Math.max(t, level0Max + 2);
+      break;
+    }
+  }
+
+  const level1Max = Math.max(level0Max + 1, Math.min(level2Max - 1, Math.round((level0Max + level2Max) / 2)));
+  return { level0Max, level1Max, level2Max };
+}
+
+/**
+ * Weight per weight key from how much more often its signals appear in manipulated files:
+ * log2 of the smoothed likelihood ratio, rounded and clamped to 0-5.
+ * Codes sharing a key (e.g. every SILENT_EDIT_* code) are one suggestion, counted once per sample;
+ * signals that do not carry a plain rule weight are listed per code.
+ */
+export function suggestWeights(scored: ScoredSample[], config: ValidationConfig): WeightSuggestion[] {
+  const manipulated = scored.filter(s => s.label === 'manipulated').length;
+  const authentic = scored.length - manipulated;
+  const rules = new Map(getValidationRules().map(rule => [rule.id, rule]));
+
+  type Group = { weightKey: WeightSuggestion['weightKey']; codes: Set<string>; weight: number; m: number; a: number };
+  const groups = new Map<string, Group>();
+  for (const sample of scored) {
+    const counted = new Set<string>();
+    for (const signal of sample.signals) {
+      const rule = signal.rule ? rules.get(signal.rule) : undefined;
+      // Only map back to a weight key when the signal carries the rule's plain weight (not e.g. the C2PA bump)
+      const weightKey = rule && resolveRuleWeight(rule, config) === signal.weight ? rule.weightKey : null;
+      const key = weightKey ?? `code:${signal.code}`;
+      const group = groups.get(key) ?? { weightKey, codes: new Set<string>(), weight: signal.weight, m: 0, a: 0 };
+      group.codes.add(signal.code);
+      groups.set(key, group);
+      if (counted.has(key)) continue;
+      counted.add(key);
+      if (sample.label === 'manipulated') group.m++; else group.a++;
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(entry => {
+      const manipulatedRate = (entry.m + 0.5) / (manipulated + 1);
+      const authenticRate = (entry.a + 0.5) / (authentic + 1);
+      const suggested = Math.max(0, Math.min(5, Math.round(Math.log2(manipulatedRate / authenticRate))));
+      return {
+        weightKey: entry.weightKey,
+        codes: Array.from(entry.codes).sort(),
+        current: entry.weight,
+        suggested,
+        manipulatedRate: ratio(entry.m, manipulated),
+        authenticRate: ratio(entry.a, authentic),
+        support: entry.m + entry.a,
+      };
+    })
+    .sort((a, b) => b.support - a.support);
+}
+
+/**
+ * Full calibration report for a labeled dataset under one config
+ */
+export function calibrate(
+  samples: LabeledSample[],
+  config: ValidationConfig,
+  options: Omit<ValidationOptions, 'referenceTime'> = {}
+): CalibrationReport {
+  const scored = scoreSamples(samples, config, options);
+  const levelCounts: Record<GroundTruth, number[]> = { authentic: [0, 0, 0, 0], manipulated: [0, 0, 0, 0] };
+  for (const sample of scored) levelCounts[sample.label][sample.level]++;
+
+  const cutoffs = [1, 2, 3].map(minLevel => {
+    const matrix = confusionMatrix(scored, s => s.level >= minLevel);
+    return { minLevel, matrix, metrics: classificationMetrics(matrix) };
+  });
+
+  const roc = rocCurve(scored);
+  return {
+    samples: scored.length,
+    authentic: scored.filter(s => s.label === 'authentic').length,
+    manipulated: scored.filter(s => s.label === 'manipulated').length,
+    levelCounts,
+    cutoffs,
+    roc,
+    auc: rocAuc(roc),
+    suggestedThresholds: suggestThresholds(scored, config.thresholds),
+    weightSuggestions: suggestWeights(scored, config),
+  };
+}
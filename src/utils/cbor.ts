@@ -0,0 +1,149 @@
+// Minimal CBOR (RFC 8949) decoder for C2PA claims, assertions and COSE structures
+// Maps become plain objects keyed by the string form of the key; byte strings are Uint8Array
+
+export class CborTag {
+  constructor(readonly tag: number, readonly value: unknown) {}
+}
+
+export class CborError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CborError';
+  }
+}
+
+const textDecoder = new TextDecoder();
+
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 0;
+
+  const need = (n: number) => {
+    if (pos + n > bytes.length) throw new CborError('CBOR truncado');
+  };
+
+  const readLength = (info: number): number | null => {
+    if (info < 24) return info;
+    if (info === 24) { need(1); return bytes[pos++]; }
+    if (info === 25) { need(2); const v = view.getUint16(pos); pos += 2; return v; }
+    if (info === 26) { need(4); const v = view.getUint32(pos); pos += 4; return v; }
+    if (info === 27) {
+      need(8);
+      const v = view.getUint32(pos) * 2 ** 32 + view.getUint32(pos + 4);
+      pos += 8;
+      return v;
+    }
+    if (info === 31) return null;   // Indefinite length
+    throw new CborError(`Informação adicional CBOR inválida: ${info}`);
+  };
+
+  const readChunks = (major: number, length: number | null): Uint8Array => {
+    if (length !== null) {
+      need(length);
+      const data = bytes.subarray(pos, pos + length);
+      pos += length;
+      return data;
+    }
+    const chunks: Uint8Array[] = [];
+    while (bytes[pos] !== 0xff) {
+      need(1);
+      const head = bytes[pos++];
+      if (head >> 5 !== major) throw new CborError('Fragmento CBOR de tipo inválido');
+      chunks.push(readChunks(major, readLength(head & 0x1f)));
+    }
+    pos++;
+    const joined = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      joined.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return joined;
+  };
+
+  const readItem = (): unknown => {
+    need(1);
+    const head = bytes[pos++];
+    const major = head >> 5;
+    const info = head & 0x1f;
+
+    switch (major) {
+      case 0: return readLength(info);
+      case 1: return -1 - (readLength(info) ?? 0);
+      case 2: return readChunks(2, readLength(info));
+      case 3: return textDecoder.decode(readChunks(3, readLength(info)));
+      case 4: {
+        const length = readLength(info);
+        const items: unknown[] = [];
+        if (length === null) {
+          while (bytes[pos] !== 0xff) items.push(readItem());
+          pos++;
+        } else {
+          for (let i = 0; i < length; i++) items.push(readItem());
+        }
+        return items;
+      }
+      case 5: {
+        const length = readLength(info);
+        const map: Record<string, unknown> = {};
+        const readEntry = () => {
+          const key = readItem();
+          map[String(key)] = readItem();
+        };
+        if (length === null) {
+          while (bytes[pos] !== 0xff) readEntry();
+          pos++;
+        } else {
+          for (let i = 0; i < length; i++) readEntry();
+        }
+        return map;
+      }
+      case 6: {
+        const tag = readLength(info) ?? 0;
+        return new CborTag(tag, readItem());
+      }
+      default: {
+        if (info === 20) return false;
+        if (info === 21) return true;
+        if (info === 22) return null;
+        if (info === 23) return undefined;
+        if (info === 25) { need(2); const v = getFloat16(view.getUint16(pos)); pos += 2; return v; }
+        if (info === 26) { need(4); const v = view.getFloat32(pos); pos += 4; return v; }
+        if (info === 27) { need(8); const v = view.getFloat64(pos); pos += 8; return v; }
+        if (info === 24) { need(1); pos++; return undefined; }
+        throw new CborError(`Valor simples CBOR não suportado: ${info}`);
+      }
+    }
+  };
+
+  return readItem();
+}
+
+function getFloat16(half: number): number {
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  const sign = half & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+function encodeHead(major: number, length: number): number[] {
+  if (length < 24) return [(major << 5) | length];
+  if (length < 0x100) return [(major << 5) | 24, length];
+  if (length < 0x10000) return [(major << 5) | 25, length >> 8, length & 0xff];
+  return [(major << 5) | 26, (length >>> 24) & 0xff, (length >> 16) & 0xff, (length >> 8) & 0xff, length & 0xff];
+}
+
+/**
+ * Encode an array of text and byte strings (enough for COSE Sig_structure)
+ */
+export function encodeCborArray(items: (string | Uint8Array)[]): Uint8Array {
+  const parts: number[][] = [encodeHead(4, items.length)];
+  const encoder = new TextEncoder();
+  for (const item of items) {
+    const data = typeof item === 'string' ? encoder.encode(item) : item;
+    parts.push(encodeHead(typeof item === 'string' ? 3 : 2, data.length), Array.from(data));
+  }
+  return new Uint8Array(parts.flat());
+}
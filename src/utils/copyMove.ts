@@ -0,0 +1,221 @@
+// Copy-move (cloning) detection
+// Overlapping blocks are described by the mean of their 4x4 sub-blocks, sorted lexicographically
+// so similar blocks end up next to each other, and matched pairs are grouped by their offset:
+// a region cloned elsewhere yields many pairs with the same offset, chance matches do not.
+// Pure functions over a luma plane; the worker decodes and downscales the image.
+
+export const COPY_MOVE_MAX_SIDE = 512;     // The image is downscaled to this size before the analysis
+export const COPY_MOVE_BLOCK_SIZE = 16;
+
+const SUB_BLOCKS = 4;                       // 4x4 sub-block means per block
+const FEATURES = SUB_BLOCKS * SUB_BLOCKS;
+const BLOCK_STRIDE = 2;
+const MIN_BLOCK_STD = 6;                    // Flat blocks (sky, walls) match anything
+const SORT_STEP = 4;                        // Feature quantization for the lexicographic sort
+const MATCH_TOLERANCE = 3;                  // Max sub-block mean difference of a matched pair
+const SORT_WINDOW = 6;                      // Sorted neighbours compared with each block
+const MIN_OFFSET = COPY_MOVE_BLOCK_SIZE * 1.5;
+const MIN_PAIRS = 40;                       // Pairs needed for an offset to count as a cloned region
+const CONFIDENCE_PAIRS = 80;                // Pairs for ~63% confidence
+const MAX_CLONE_OFFSETS = 3;                // More significant offsets than this suggest a repeating texture
+const MAX_REGIONS = 5;
+
+export interface CopyMoveBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CopyMoveRegion {
+  offset: [number, number];   // Target minus source, in image pixels
+  pairs: number;              // Matched block pairs with this offset
+  source: CopyMoveBox;        // Bounding boxes in image pixels
+  target: CopyMoveBox;
+}
+
+export interface CopyMoveSummary {
+  matches: number;            // Matched block pairs in cloned regions
+  confidence: number;         // 0-1
+  regions: CopyMoveRegion[];  // Strongest first
+  blocksAnalyzed: number;
+  scale: number;              // Analysis size / image size
+}
+
+export interface CopyMoveMask {
+  width: number;              // Analysis size
+  height: number;
+  values: Uint8Array;         // Per analysis pixel: 0 none, 1 source, 2 target
+}
+
+interface Block {
+  x: number;
+  y: number;
+  features: Float32Array;
+  key: Int16Array;
+}
+
+const round = (n: number, digits = 3) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+/**
+ * Summed-area table of the luma plane ((width + 1) x (height + 1))
+ */
+function integralImage(luma: Float32Array, width: number, height: number): Float64Array {
+  const sums = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += luma[y * width + x];
+      sums[(y + 1) * (width + 1) + x + 1] = sums[y * (width + 1) + x + 1] + row;
+    }
+  }
+  return sums;
+}
+
+function boxMean(sums: Float64Array, width: number, x: number, y: number, size: number): number {
+  const stride = width + 1;
+  const total = sums[(y + size) * stride + x + size] - sums[y * stride + x + size]
+    - sums[(y + size) * stride + x] + sums[y * stride + x];
+  return total / (size * size);
+}
+
+function blockStd(luma: Float32Array, width: number, x: number, y: number, mean: number): number {
+  let sum = 0;
+  for (let dy = 0; dy < COPY_MOVE_BLOCK_SIZE; dy += 2) {
+    const row = (y + dy) * width + x;
+    for (let dx = 0; dx < COPY_MOVE_BLOCK_SIZE; dx += 2) {
+      const d = luma[row + dx] - mean;
+      sum += d * d;
+    }
+  }
+  return Math.sqrt(sum / ((COPY_MOVE_BLOCK_SIZE / 2) ** 2));
+}
+
+function compareKeys(a: Block, b: Block): number {
+  for (let i = 0; i < FEATURES; i++) {
+    if (a.key[i] !== b.key[i]) return a.key[i] - b.key[i];
+  }
+  return 0;
+}
+
+function boundingBox(points: [number, number][], scale: number): CopyMoveBox {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x + COPY_MOVE_BLOCK_SIZE);
+    maxY = Math.max(maxY, y + COPY_MOVE_BLOCK_SIZE);
+  }
+  return {
+    x: Math.round(minX / scale),
+    y: Math.round(minY / scale),
+    width: Math.round((maxX - minX) / scale),
+    height: Math.round((maxY - minY) / scale),
+  };
+}
+
+/**
+ * Copy-move analysis of a luma plane already downscaled by `scale` (analysis size / image size)
+ */
+export function detectCopyMove(
+  luma: Float32Array,
+  width: number,
+  height: number,
+  options: { scale?: number; mask?: boolean } = {}
+): { summary: CopyMoveSummary; mask: CopyMoveMask | null } {
+  const scale = options.scale ?? 1;
+  const size = COPY_MOVE_BLOCK_SIZE;
+  const subSize = size / SUB_BLOCKS;
+  const sums = integralImage(luma, width, height);
+
+  // Textured blocks and their features
+  const blocks: Block[] = [];
+  let blocksAnalyzed = 0;
+  for (let y = 0; y + size <= height; y += BLOCK_STRIDE) {
+    for (let x = 0; x + size <= width; x += BLOCK_STRIDE) {
+      blocksAnalyzed++;
+      const mean = boxMean(sums, width, x, y, size);
+      if (blockStd(luma, width, x, y, mean) < MIN_BLOCK_STD) continue;
+      const features = new Float32Array(FEATURES);
+      const key = new Int16Array(FEATURES);
+      for (let sy = 0; sy < SUB_BLOCKS; sy++) {
+        for (let sx = 0; sx < SUB_BLOCKS; sx++) {
+          const value = boxMean(sums, width, x + sx * subSize, y + sy * subSize, subSize);
+          features[sy * SUB_BLOCKS + sx] = value;
+          key[sy * SUB_BLOCKS + sx] = Math.round(value / SORT_STEP);
+        }
+      }
+      blocks.push({ x, y, features, key });
+    }
+  }
+  blocks.sort(compareKeys);
+
+  // Similar neighbours in sort order, grouped by offset (normalized so the pair order does not matter)
+  const pairsByOffset = new Map<string, [Block, Block][]>();
+  for (let i = 0; i < blocks.length; i++) {
+    for (let j = i + 1; j < Math.min(blocks.length, i + 1 + SORT_WINDOW); j++) {
+      const a = blocks[i];
+      const b = blocks[j];
+      let similar = true;
+      for (let f = 0; f < FEATURES && similar; f++) {
+        similar = Math.abs(a.features[f] - b.features[f]) <= MATCH_TOLERANCE;
+      }
+      if (!similar) continue;
+
+      let dx = b.x - a.x;
+      let dy = b.y - a.y;
+      if (Math.hypot(dx, dy) < MIN_OFFSET) continue;
+      const [source, target] = dx > 0 || (dx === 0 && dy > 0) ? [a, b] : [b, a];
+      dx = target.x - source.x;
+      dy = target.y - source.y;
+      const offset = `${dx},${dy}`;
+      const pairs = pairsByOffset.get(offset);
+      if (pairs) pairs.push([source, target]);
+      else pairsByOffset.set(offset, [[source, target]]);
+    }
+  }
+
+  const clones = [...pairsByOffset.entries()]
+    .filter(([, pairs]) => pairs.length >= MIN_PAIRS)
+    .sort((a, b) => b[1].length - a[1].length);
+  const matches = clones.reduce((total, [, pairs]) => total + pairs.length, 0);
+  const strongest = clones.length ? clones[0][1].length : 0;
+  // A repeating texture (tiles, fences, text) matches at many offsets; a clone at one or two
+  const dominance = clones.length > MAX_CLONE_OFFSETS ? MAX_CLONE_OFFSETS / clones.length : 1;
+  const confidence = (1 - Math.exp(-strongest / CONFIDENCE_PAIRS)) * dominance;
+
+  const regions: CopyMoveRegion[] = clones.slice(0, MAX_REGIONS).map(([offset, pairs]) => {
+    const [dx, dy] = offset.split(',').map(Number);
+    return {
+      offset: [Math.round(dx / scale), Math.round(dy / scale)],
+      pairs: pairs.length,
+      source: boundingBox(pairs.map(([source]) => [source.x, source.y]), scale),
+      target: boundingBox(pairs.map(([, target]) => [target.x, target.y]), scale),
+    };
+  });
+
+  let mask: CopyMoveMask | null = null;
+  if (options.mask) {
+    const values = new Uint8Array(width * height);
+    const paint = (block: Block, value: number) => {
+      for (let y = block.y; y < block.y + size; y++) {
+        values.fill(value, y * width + block.x, y * width + block.x + size);
+      }
+    };
+    for (const [, pairs] of clones.slice(0, MAX_REGIONS)) {
+      for (const [source, target] of pairs) {
+        paint(source, 1);
+        paint(target, 2);
+      }
+    }
+    mask = { width, height, values };
+  }
+
+  return {
+    summary: { matches, confidence: round(confidence), regions, blocksAnalyzed, scale: round(scale, 4) },
+    mask,
+  };
+}
@@ -0,0 +1,83 @@
+// Device lookup against the reference database (src/data/deviceDatabase.ts)
+
+import {
+  BRAND_PROFILES,
+  DEVICE_MODELS,
+  type BrandProfile,
+  type DeviceModelProfile,
+  type DeviceType,
+} from '../data/deviceDatabase';
+
+export interface DeviceProfile {
+  brand: BrandProfile | null;
+  model: DeviceModelProfile | null;     // Null when the model is not in the database
+  deviceType: DeviceType | null;
+  makerNote?: boolean;                  // Model expectation, else brand default
+}
+
+export interface ResolutionCheck {
+  consistent: boolean;
+  native: string;       // Native resolutions, e.g. "4032x3024"
+  aspectRatio: string;  // Closest listed aspect ratio, or the reduced ratio when none is close
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const hasToken = (text: string, token: string) =>
+  new RegExp(`\\b${token.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(text);
+
+/**
+ * Model name without a leading brand word ("Canon EOS R5" -> "eos r5", "NIKON D850" -> "d850")
+ */
+function modelKey(model: string, brand: BrandProfile | null): string {
+  let key = normalize(model);
+  for (const token of brand?.tokens ?? []) {
+    if (key.startsWith(`${token} `)) key = key.slice(token.length + 1);
+  }
+  return key;
+}
+
+/**
+ * Database entries for a Make/Model pair
+ */
+export function lookupDevice(make: string | null, model: string | null): DeviceProfile {
+  const text = `${make ?? ''} ${model ?? ''}`.trim();
+  const brand = text ? BRAND_PROFILES.find(b => b.tokens.some(token => hasToken(text, token))) ?? null : null;
+
+  const key = model ? modelKey(model, brand) : '';
+  const entry = brand && key
+    ? DEVICE_MODELS.find(m => m.brand === brand.tokens[0] && modelKey(m.model, brand) === key) ?? null
+    : null;
+
+  return {
+    brand,
+    model: entry,
+    deviceType: entry?.deviceClass ?? brand?.deviceClass ?? null,
+    makerNote: entry?.makerNote ?? brand?.makerNote,
+  };
+}
+
+function parseRatio(label: string): number {
+  const [a, b] = label.split(':').map(Number);
+  return a > 0 && b > 0 ? Math.max(a, b) / Math.min(a, b) : 0;
+}
+
+const gcd = (a: number, b: number): number => (b ? gcd(b, a % b) : a);
+
+/**
+ * Whether a model can produce an image of this size: the aspect ratio must be one of its
+ * crop modes (1% tolerance) and the long edge must not exceed its largest native output
+ */
+export function checkDeviceResolution(device: DeviceModelProfile, width: number, height: number): ResolutionCheck {
+  const long = Math.max(width, height);
+  const short = Math.min(width, height);
+  const ratio = long / short;
+  const native = device.resolutions.map(([w, h]) => `${w}x${h}`).join(', ');
+
+  const listed = device.aspectRatios.find(label => Math.abs(ratio - parseRatio(label)) / parseRatio(label) < 0.01);
+  const divisor = gcd(long, short);
+  const aspectRatio = listed ?? `${long / divisor}:${short / divisor}`;
+
+  const maxLong = Math.max(...device.resolutions.map(([w, h]) => Math.max(w, h)));
+  return { consistent: !!listed && long <= maxLong, native, aspectRatio };
+}
@@ -0,0 +1,257 @@
+// Double JPEG compression detection from DCT coefficient statistics
+// Aligned case: quantizing twice with different steps leaves periodic gaps or peaks in the
+// histograms of the quantized coefficients (the current grid). Non-aligned case: when the image
+// was cropped between saves, DC coefficients on the first save's grid still cluster at multiples
+// of its quantization step (integer periodicity at some grid shift other than 0,0).
+// Pure functions over a luma plane; the worker only decodes the image.
+
+import { ZIGZAG_TO_NATURAL } from './jpegStructure';
+import { dctCoefficient } from './pixels';
+
+// Low-frequency AC coefficients analyzed for the aligned case (zigzag 1-9)
+const ANALYZED_FREQUENCIES = ZIGZAG_TO_NATURAL.slice(1, 10);
+const HISTOGRAM_RANGE = 50;       // Quantized values beyond ±50 are ignored
+const MAX_PERIOD = 8;
+const MIN_BIN_COUNT = 10;         // Smoothed bin count needed for a bin to take part
+// Non-aligned case: blocks sampled per shift and quantization steps tried for the DC
+const MAX_SAMPLED_BLOCKS = 10_000;
+const MIN_DC_STEP = 2;
+const MAX_DC_STEP = 64;
+
+// Score -> probability calibration (logistic midpoint and spread)
+const ALIGNED_MIDPOINT = 0.35;
+const ALIGNED_SPREAD = 0.06;
+const NON_ALIGNED_MIDPOINT = 25;
+const NON_ALIGNED_SPREAD = 5;
+
+export interface DoubleJpegSummary {
+  probability: number;          // 0-1, either case
+  aligned: {
+    probability: number;
+    score: number;              // Median histogram periodicity contrast (0-1)
+    periods: number[];          // Detected period per analyzed frequency (0 = none)
+  };
+  nonAligned: {
+    probability: number;
+    score: number;              // N·IPM² of the strongest shifted grid (≈ chi-square under no periodicity)
+    shift: [number, number] | null;
+    step: number | null;        // DC quantization step of the earlier save
+  };
+  blocksAnalyzed: number;
+}
+
+export interface DoubleJpegMap {
+  blocksX: number;
+  blocksY: number;
+  values: Float32Array;         // Per 8x8 block: probability the block was compressed only once
+}
+
+const logistic = (score: number, midpoint: number, spread: number) => 1 / (1 + Math.exp(-(score - midpoint) / spread));
+const round = (n: number, digits = 3) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+interface Periodicity {
+  period: number;
+  score: number;
+  ratio: Float64Array;          // Bin count over its one-period moving average, by |value|
+}
+
+/**
+ * Strongest period of a folded histogram (counts by |value|), by phase contrast of the
+ * histogram normalized by its one-period moving average
+ */
+function findPeriodicity(folded: Float64Array): Periodicity {
+  let best: Periodicity = { period: 0, score: 0, ratio: new Float64Array(folded.length).fill(1) };
+
+  for (let p = 2; p <= MAX_PERIOD; p++) {
+    const ratio = new Float64Array(folded.length).fill(1);
+    const sums = new Float64Array(p);
+    const counts = new Uint32Array(p);
+    const half = Math.floor(p / 2);
+
+    for (let m = 1; m < folded.length; m++) {
+      let low = m - half;
+      let high = low + p - 1;
+      if (low < 1 || high >= folded.length) continue;
+      let envelope = 0;
+      for (let k = low; k <= high; k++) envelope += folded[k];
+      if (p % 2 === 0) {
+        // Even period: average the two windows around m
+        low = m - half + 1;
+        high = low + p - 1;
+        if (high >= folded.length) continue;
+        let second = 0;
+        for (let k = low; k <= high; k++) second += folded[k];
+        envelope = (envelope + second) / 2;
+      }
+      envelope /= p;
+      if (envelope < MIN_BIN_COUNT) continue;
+      ratio[m] = folded[m] / envelope;
+      sums[m % p] += ratio[m];
+      counts[m % p]++;
+    }
+
+    if (Array.from(counts).some(c => c < 2)) continue;
+    const means = Array.from(sums, (sum, phase) => sum / counts[phase]);
+    const max = Math.max(...means);
+    const min = Math.min(...means);
+    const score = max + min > 0 ? (max - min) / (max + min) : 0;
+    // A multiple of the true period scores about the same; keep the smaller one
+    if (score > best.score * 1.1) best = { period: p, score, ratio };
+  }
+  return best;
+}
+
+/**
+ * Aligned double compression: histogram periodicity of the quantized low-frequency coefficients
+ */
+function analyzeAligned(
+  luma: Float32Array,
+  width: number,
+  blocksX: number,
+  blocksY: number,
+  quantization: number[],
+  localize: boolean
+): { summary: DoubleJpegSummary['aligned']; map: DoubleJpegMap | null } {
+  const blocks = blocksX * blocksY;
+  const quantized = ANALYZED_FREQUENCIES.map(() => new Int16Array(blocks));
+  const histograms = ANALYZED_FREQUENCIES.map(() => new Float64Array(HISTOGRAM_RANGE + 1));
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      const block = by * blocksX + bx;
+      ANALYZED_FREQUENCIES.forEach((index, f) => {
+        const step = quantization[index] || 1;
+        const value = Math.round(dctCoefficient(luma, width, bx * 8, by * 8, index) / step);
+        quantized[f][block] = value;
+        if (Math.abs(value) <= HISTOGRAM_RANGE) histograms[f][Math.abs(value)]++;
+      });
+    }
+  }
+
+  const periodicities = histograms.map(findPeriodicity);
+  const scores = periodicities.map(p => p.score).sort((a, b) => a - b);
+  const score = scores.length ? scores[Math.floor(scores.length / 2)] : 0;
+  const probability = logistic(score, ALIGNED_MIDPOINT, ALIGNED_SPREAD);
+
+  let map: DoubleJpegMap | null = null;
+  if (localize) {
+    // Log-odds of single compression per block: a value in a depleted bin is unlikely
+    // under double quantization, one in an enriched bin is likely
+    const logOdds = new Float32Array(blocks);
+    periodicities.forEach((periodicity, f) => {
+      if (periodicity.score < ALIGNED_MIDPOINT) return;
+      for (let block = 0; block < blocks; block++) {
+        const magnitude = Math.abs(quantized[f][block]);
+        if (magnitude === 0 || magnitude > HISTOGRAM_RANGE) continue;
+        const ratio = Math.min(20, Math.max(0.05, periodicity.ratio[magnitude]));
+        logOdds[block] -= Math.log(ratio);
+      }
+    });
+
+    // 3x3 smoothing, then probability
+    const values = new Float32Array(blocks);
+    for (let by = 0; by < blocksY; by++) {
+      for (let bx = 0; bx < blocksX; bx++) {
+        let sum = 0;
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const x = bx + dx;
+            const y = by + dy;
+            if (x < 0 || y < 0 || x >= blocksX || y >= blocksY) continue;
+            sum += logOdds[y * blocksX + x];
+            count++;
+          }
+        }
+        values[by * blocksX + bx] = 1 / (1 + Math.exp(-sum / count));
+      }
+    }
+    map = { blocksX, blocksY, values };
+  }
+
+  return {
+    summary: { probability: round(probability), score: round(score), periods: periodicities.map(p => p.period) },
+    map,
+  };
+}
+
+/**
+ * Non-aligned double compression: integer periodicity of DC coefficients on shifted grids
+ */
+function analyzeNonAligned(luma: Float32Array, width: number, height: number): DoubleJpegSummary['nonAligned'] {
+  const blocksX = Math.floor((width - 7) / 8);
+  const blocksY = Math.floor((height - 7) / 8);
+  const total = blocksX * blocksY;
+  const stride = Math.max(1, Math.floor(total / MAX_SAMPLED_BLOCKS));
+  const dc = new Float64Array(Math.ceil(total / stride));
+
+  let best = { score: 0, shift: null as [number, number] | null, step: null as number | null };
+  for (let sy = 0; sy < 8; sy++) {
+    for (let sx = 0; sx < 8; sx++) {
+      if (sx === 0 && sy === 0) continue;   // Current grid: always periodic
+
+      let n = 0;
+      for (let block = 0; block < total; block += stride) {
+        const left = sx + (block % blocksX) * 8;
+        const top = sy + Math.floor(block / blocksX) * 8;
+        if (left + 8 > width || top + 8 > height) continue;
+        let sum = 0;
+        for (let y = 0; y < 8; y++) {
+          const row = (top + y) * width + left;
+          for (let x = 0; x < 8; x++) sum += luma[row + x] - 128;
+        }
+        dc[n++] = sum / 8;
+      }
+      if (n < 100) continue;
+
+      for (let step = MIN_DC_STEP; step <= MAX_DC_STEP; step++) {
+        let re = 0;
+        let im = 0;
+        const w = (2 * Math.PI) / step;
+        for (let i = 0; i < n; i++) {
+          re += Math.cos(w * dc[i]);
+          im += Math.sin(w * dc[i]);
+        }
+        const ipm = Math.hypot(re, im) / n;
+        const score = n * ipm * ipm;
+        if (score > best.score) best = { score, shift: [sx, sy], step };
+      }
+    }
+  }
+
+  const probability = logistic(best.score, NON_ALIGNED_MIDPOINT, NON_ALIGNED_SPREAD);
+  const detected = probability >= 0.5;
+  return {
+    probability: round(probability),
+    score: round(best.score, 1),
+    shift: detected ? best.shift : null,
+    step: detected ? best.step : null,
+  };
+}
+
+/**
+ * Double compression analysis of a decoded JPEG's luma plane.
+ * `quantization` is the luma table of the file (natural order), i.e. the last compression.
+ */
+export function detectDoubleJpeg(
+  luma: Float32Array,
+  width: number,
+  height: number,
+  quantization: number[],
+  options: { localize?: boolean } = {}
+): { summary: DoubleJpegSummary; map: DoubleJpegMap | null } {
+  const blocksX = Math.floor(width / 8);
+  const blocksY = Math.floor(height / 8);
+  const aligned = analyzeAligned(luma, width, blocksX, blocksY, quantization, !!options.localize);
+  const nonAligned = analyzeNonAligned(luma, width, height);
+
+  return {
+    summary: {
+      probability: Math.max(aligned.summary.probability, nonAligned.probability),
+      aligned: aligned.summary,
+      nonAligned,
+      blocksAnalyzed: blocksX * blocksY,
+    },
+    map: aligned.map,
+  };
+}
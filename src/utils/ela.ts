@@ -0,0 +1,132 @@
+// Error Level Analysis (ELA)
+// Re-saving a JPEG at a fixed quality changes regions already compressed at that quality very little;
+// pasted or retouched regions compressed a different number of times stand out in the difference.
+// Pure functions over RGBA buffers; decoding and recompression happen in the worker.
+
+export const ELA_DEFAULT_QUALITY = 90;
+export const ELA_DEFAULT_SCALE = 15;    // Difference amplification for the heat map
+export const ELA_BLOCK_SIZE = 16;
+export const ELA_MAX_PIXELS = 40_000_000;
+
+// A block is an outlier when its mean error is this many MADs above the median block
+const OUTLIER_MADS = 6;
+const MIN_MAD = 0.5;
+// Localized anomaly: some blocks stand out, but not a large part of the image
+// (a uniformly high error level means the whole file was saved once, not edited in places)
+const MIN_OUTLIER_RATIO = 0.005;
+const MAX_OUTLIER_RATIO = 0.2;
+const MIN_OUTLIER_ERROR = 4;
+
+export interface ElaSummary {
+  quality: number;            // Re-compression quality (1-100)
+  blockSize: number;
+  blocksX: number;
+  blocksY: number;
+  meanError: number;          // Mean per-pixel error (0-255)
+  medianBlockError: number;
+  maxBlockError: number;
+  outlierRatio: number;       // Fraction of blocks far above the median
+}
+
+export interface ErrorLevels {
+  heatmap: Uint8ClampedArray; // RGBA, same size as the image
+  blockMeans: Float32Array;   // Row-major, blocksX x blocksY
+  blocksX: number;
+  blocksY: number;
+  meanError: number;
+}
+
+/**
+ * Heat map color for an amplified error (black -> red -> yellow -> white)
+ */
+function heatColor(value: number): [number, number, number] {
+  const v = Math.min(255, value);
+  if (v < 85) return [v * 3, 0, 0];
+  if (v < 170) return [255, (v - 85) * 3, 0];
+  return [255, 255, (v - 170) * 3];
+}
+
+/**
+ * Per-pixel error (max channel difference), amplified into a heat map, plus block means
+ */
+export function computeErrorLevels(
+  original: Uint8ClampedArray,
+  recompressed: Uint8ClampedArray,
+  width: number,
+  height: number,
+  scale = ELA_DEFAULT_SCALE,
+  blockSize = ELA_BLOCK_SIZE
+): ErrorLevels {
+  const blocksX = Math.ceil(width / blockSize);
+  const blocksY = Math.ceil(height / blockSize);
+  const blockSums = new Float64Array(blocksX * blocksY);
+  const blockCounts = new Uint32Array(blocksX * blocksY);
+  const heatmap = new Uint8ClampedArray(width * height * 4);
+  let total = 0;
+
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / blockSize) * blocksX;
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const error = Math.max(
+        Math.abs(original[i] - recompressed[i]),
+        Math.abs(original[i + 1] - recompressed[i + 1]),
+        Math.abs(original[i + 2] - recompressed[i + 2])
+      );
+      const [r, g, b] = heatColor(error * scale);
+      heatmap[i] = r;
+      heatmap[i + 1] = g;
+      heatmap[i + 2] = b;
+      heatmap[i + 3] = 255;
+
+      const block = row + Math.floor(x / blockSize);
+      blockSums[block] += error;
+      blockCounts[block]++;
+      total += error;
+    }
+  }
+
+  const blockMeans = new Float32Array(blockSums.length);
+  for (let i = 0; i < blockMeans.length; i++) {
+    blockMeans[i] = blockCounts[i] ? blockSums[i] / blockCounts[i] : 0;
+  }
+  return { heatmap, blockMeans, blocksX, blocksY, meanError: width * height ? total / (width * height) : 0 };
+}
+
+function median(values: Float32Array | number[]): number {
+  if (!values.length) return 0;
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function summarizeErrorLevels(levels: ErrorLevels, quality: number, blockSize = ELA_BLOCK_SIZE): ElaSummary {
+  const med = median(levels.blockMeans);
+  const mad = median(Array.from(levels.blockMeans, v => Math.abs(v - med)));
+  const threshold = Math.max(med + OUTLIER_MADS * Math.max(mad, MIN_MAD), MIN_OUTLIER_ERROR);
+  let outliers = 0;
+  let max = 0;
+  for (const value of levels.blockMeans) {
+    if (value > threshold) outliers++;
+    if (value > max) max = value;
+  }
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return {
+    quality,
+    blockSize,
+    blocksX: levels.blocksX,
+    blocksY: levels.blocksY,
+    meanError: round(levels.meanError),
+    medianBlockError: round(med),
+    maxBlockError: round(max),
+    outlierRatio: levels.blockMeans.length ? Math.round((outliers / levels.blockMeans.length) * 10000) / 10000 : 0,
+  };
+}
+
+/**
+ * Whether the error levels point to a localized anomaly
+ */
+export function isElaAnomalous(summary: ElaSummary): boolean {
+  return summary.outlierRatio >= MIN_OUTLIER_RATIO && summary.outlierRatio <= MAX_OUTLIER_RATIO;
+}
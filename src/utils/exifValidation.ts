@@ -1,6 +1,109 @@
 // EXIF Validation System - Comprehensive metadata analysis
 // Implementation of proportional scoring with configurable weights
 
+import {
+  getValidationRules,
+  DEFAULT_RULE_FILE_KINDS,
+  registerValidationRule,
+  resolveRuleWeight,
+  ruleCoversFileKind,
+  type RuleContext,
+  type RuleFinding,
+  type ValidationRule,
+} from './validationRules';
+import { formatSignalMessage } from './signalMessages';
+import { normalizeMetadata, type MetadataInput, type NormalizedMetadata } from './tagNormalization';
+import { explainVerdict, type VerdictExplanation } from './verdictExplanation';
+import {
+  computeCompleteness,
+  resolveFileKind,
+  computeConfidence,
+  type FileKind,
+  type MetadataCompleteness,
+  type VerdictConfidence,
+} from './metadataCompleteness';
+import { checkQuantizationConsistency } from './jpegQuantization';
+import { compareThumbnail } from './thumbnailComparison';
+import { checkGpsTimeConsistency, checkTimezonePlausibility, checkGpsSanity } from './gpsConsistency';
+import { lookupDevice, checkDeviceResolution } from './deviceProfiles';
+import { readXmpHistory, hasUtcOffset, parseXmpLocalDate } from './xmpHistory';
+import { isElaAnomalous } from './ela';
+import { isNoiseInconsistent } from './noiseMap';
+import { detectScreenshot } from './screenshot';
+import { compareInfoXmp, detectPdfTools, isOnlinePdfEditor, parsePdfDate, pdfDateDifference } from './pdfMetadata';
+import { readVideoMetadata } from './videoMetadata';
+import { rawFormatMatchesMake, type RawImage } from './rawStructure';
+import type { FileAnalysis } from './fileAnalysis';
+import type { ScreenPlatform } from '../data/screenResolutions';
+
+export type SignalCategory =
+  | 'camera'        // Camera identification (Make/Model)
+  | 'temporal'      // Capture/modification dates
+  | 'software'      // Editing software and silent edit traces
+  | 'ai'            // AI generation and C2PA indicators
+  | 'consistency'   // Cross-field consistency checks
+  | 'encoding'      // JPEG encoding characteristics
+  | 'pixels'        // Pixel-level forensics (error level analysis, double compression, noise levels)
+  | 'cloning'       // Regions duplicated inside the image (copy-move)
+  | 'color'         // ICC profile
+  | 'transport'     // Digital transport (messenger apps)
+  | 'screenshot'    // Screen captures (iOS, Android, desktop)
+  | 'document'      // PDF structure (revisions, signatures)
+  | 'coverage';     // Amount of metadata available
+
+export type SignalSeverity = 'info' | 'low' | 'medium' | 'high';
+
+export interface SignalEvidence {
+  key: string;        // Metadata key as read (e.g. "IFD0:Software")
+  value: unknown;     // Value read, null when the key was checked and found absent
+}
+
+export interface ValidationSignal {
+  code: string;                 // Stable identifier (e.g. "EDITOR_DETECTED")
+  kind: 'positive' | 'risk';
+  category: SignalCategory;
+  severity: SignalSeverity;
+  weight: number;               // Points added (risk) or subtracted (positive) from the score
+  evidence: SignalEvidence[];   // Metadata that triggered the signal
+  params: Record<string, string | number>;  // Message interpolation values
+  message: string;              // Rendered pt-BR message (see signalMessages.ts for other locales)
+  rule?: string;                // Id of the rule that produced the signal
+}
+
+/**
+ * Detector output before it becomes a signal: code, message params and evidence
+ */
+export interface DetectorSignal {
+  code: string;
+  params: Record<string, string | number>;
+  evidence: SignalEvidence[];
+}
+
+/**
+ * Version of the built-in rule set. Bump whenever a rule, default weight or message changes
+ * so stored results can be told apart from results produced by newer rules.
+ */
+export const RULESET_VERSION = '1.15.6';
+
+/**
+ * Environment-dependent inputs of a validation run.
+ * Passing the same environment and reference time makes a run reproducible.
+ */
+export interface ValidationEnvironment {
+  debug: boolean;                 // VITE_DEBUG_EXIF
+  features: {
+    digitalTransport: boolean;    // VITE_FEATURE_DIGITAL_TRANSPORT
+    silentEdit: boolean;          // VITE_FEATURE_SILENT_EDIT
+  };
+}
+
+export interface ValidationOptions {
+  rules?: ValidationRule[];       // Rules to run instead of the registry
+  referenceTime?: Date | string | number;  // "Now" for time-based checks (default: current time)
+  environment?: ValidationEnvironment;     // Default: read from import.meta.env
+  fileAnalysis?: FileAnalysis | null;      // File structure checks (see fileAnalysis.ts); skipped when absent
+}
+
 export interface ValidationResult {
   level: number;           // 0-3 classification level
   label: string;          // Human-readable classification
@@ -8,15 +111,33 @@ export interface ValidationResult {
   canonicalCaptureDate: string | null;  // Best capture date with timezone
   make: string | null;    // Camera make
   model: string | null;   // Camera model
-  positiveSignals: string[];  // Evidence supporting authenticity
-  riskSignals: string[];      // Evidence suggesting manipulation
+  positiveSignals: ValidationSignal[];  // Evidence supporting authenticity
+  riskSignals: ValidationSignal[];      // Evidence suggesting manipulation
   recommendation: string;     // Action recommendation based on level
   isDigitalTransport?: boolean;  // Digital transport detection flag
+  isScreenshot?: boolean;     // Screen capture detected (see screenshot.ts)
   insufficientMetadata?: boolean;  // Insufficient metadata flag (stripped/absent EXIF)
   hasStrongC2PA?: boolean;    // C2PA strong signal (edited + DigitalSourceType AI)
+  profile?: ValidationProfileRef;  // Validation profile the config came from
+  rulesetVersion?: string;    // RULESET_VERSION used
+  referenceTime?: string;     // ISO reference time used for time-based checks
+  environment?: ValidationEnvironment;  // Feature flags used
+  explanation?: VerdictExplanation;     // Signal impact and what would lower the level
+  completeness?: MetadataCompleteness;  // Expected metadata groups present for this file kind
+  confidence?: VerdictConfidence;       // Trust in the verdict (completeness and boundary margin)
   debugInfo?: any;           // Debug information if enabled
 }
 
+/**
+ * Named validation profile a config was built from (see validationProfiles.ts)
+ */
+export interface ValidationProfileRef {
+  id: string | null;      // validation_profiles.id (null for the built-in default)
+  slug: string;
+  name: string;
+  version: number;
+}
+
 export interface ValidationConfig {
   weights: {
     makeAbsent: number;
@@ -32,6 +153,35 @@ export interface ValidationConfig {
     silentEditSignal: number;     // Weight for each silent edit signal
     cameraExifAbsentCombined: number; // Combined penalty when Make+Model+CreateDate missing without hard signals
     impossibleDate: number;       // Penalty when capture date is in the future
+    digitalTransport?: number;    // Consolidated signal when digital transport is detected (default 2)
+    quantizationMismatch?: number; // JPEG tables do not belong to the declared camera (default 2)
+    thumbnailMismatch?: number;   // EXIF thumbnail shows a different framing or content (default 3)
+    gpsTimeMismatch?: number;     // GPS time or coordinates contradict the capture time/offset (default 2)
+    gpsImplausible?: number;      // GPS values no receiver produces (default 1)
+    c2paInvalid?: number;         // C2PA signature broken or asset changed after signing (default 4)
+    c2paTrustedCapture?: number;  // Credit for a valid, trusted camera-capture credential (default 3)
+    elaAnomaly?: number;          // Localized error level anomaly; opt-in, the rule only runs when > 0
+    noiseInconsistency?: number;  // Blocks with a noise level unlike the rest of the frame; opt-in like elaAnomaly
+    doubleJpeg?: number;          // DCT statistics show the JPEG was compressed twice; opt-in like elaAnomaly
+    copyMove?: number;            // Image regions cloned elsewhere in the same image (default 3)
+    heifStructure?: number;       // HEIF items unlike the declared camera's (re-encoded, resized) (default 2)
+    appleMakerNoteMismatch?: number; // Apple maker note in a non-Apple file or with a malformed identifier (default 2)
+    heifConversion?: number;      // JPEG/PNG converted from a HEIC original (default 2)
+    pngStructure?: number;        // PNG chunks out of order, bad CRCs or data after IEND (default 2)
+    pngCameraExif?: number;       // Camera EXIF in a PNG: exported from a photo (default 2)
+    screenshot?: number;          // Screen capture detected; informative by default (default 0)
+    pdfEditor?: number;           // PDF re-saved by a desktop PDF or graphics editor (default 2)
+    pdfOnlineEditor?: number;     // PDF processed by an online editor (default 3)
+    pdfMetadataMismatch?: number; // PDF Info dictionary and XMP disagree (default 2)
+    pdfIncrementalUpdates?: number; // PDF revisions appended after the original, signatures excluded (default 2)
+    pdfDateGap?: number;          // PDF modified after (or dated before) its creation (default 2)
+    videoDateMismatch?: number;   // Movie, track and media creation dates disagree or were zeroed (default 2)
+    videoReencoded?: number;      // Video written by a re-encoder or editing app (default 3)
+    videoLocation?: number;       // Location atom with impossible coordinates (default 2)
+    videoTiming?: number;         // Duration or frame rate no recorder produces (default 2)
+    rawPreviewMismatch?: number;  // RAW preview framed unlike the sensor data (default 3)
+    rawFormatMismatch?: number;   // RAW container of another maker than the declared camera (default 2)
+    rawOriginalName?: number;     // DNG converted from a RAW file of another maker (default 2)
   };
   thresholds: {
     level0Max: number;  // 0-1: Low risk
@@ -41,6 +191,8 @@ export interface ValidationConfig {
   };
   silentEditMax?: number;         // Cap for silent edit signals (default 2)
   c2paStrongBump?: number;        // Bump for C2PA strong signal (default 0)
+  disabledRules?: string[];       // Rule ids to skip (see validationRules.ts)
+  profile?: ValidationProfileRef; // Recorded in the result
 }
 
 // Default configuration with balanced weights
@@ -59,6 +211,35 @@ export const DEFAULT_CONFIG: ValidationConfig = {
     silentEditSignal: 1,          // +1 per silent edit signal
     cameraExifAbsentCombined: 1,  // Combined penalty for missing camera EXIF without hard signals
     impossibleDate: 2,            // +2 when capture date >10min in the future
+    digitalTransport: 2,          // +2 consolidated digital transport signal
+    quantizationMismatch: 2,      // +2 when the JPEG tables point to another encoder
+    thumbnailMismatch: 3,         // +3 when the EXIF thumbnail diverges from the main image
+    gpsTimeMismatch: 2,           // +2 per GPS time/timezone contradiction
+    gpsImplausible: 1,            // +1 per implausible GPS value
+    c2paInvalid: 4,               // +4 when the C2PA manifest fails verification
+    c2paTrustedCapture: 3,        // −3 for a trusted camera-signed C2PA manifest
+    elaAnomaly: 0,                // Off by default: ELA flags strong textures too, enable per profile
+    noiseInconsistency: 0,        // Off by default: smooth skies and foliage differ in noise too
+    doubleJpeg: 0,                // Off by default until the probability is calibrated (calibration tool)
+    copyMove: 3,                  // +3 when a cloned region is found (confidence ≥ 0.5)
+    heifStructure: 2,             // +2 per HEIF structure inconsistency
+    appleMakerNoteMismatch: 2,    // +2 when the Apple maker note contradicts the file
+    heifConversion: 2,            // +2 when the file was converted from HEIC
+    pngStructure: 2,              // +2 when the PNG chunk layout was patched
+    pngCameraExif: 2,             // +2 when a PNG carries camera EXIF
+    screenshot: 0,                // Screenshots get their own classification instead of points
+    pdfEditor: 2,                 // +2 when a PDF editor saved the document
+    pdfOnlineEditor: 3,           // +3 when an online PDF editor processed the document
+    pdfMetadataMismatch: 2,       // +2 when Info and XMP disagree
+    pdfIncrementalUpdates: 2,     // +2 when unsigned revisions were appended
+    pdfDateGap: 2,                // +2 when ModDate is far from CreationDate
+    videoDateMismatch: 2,         // +2 when the video creation dates disagree
+    videoReencoded: 3,            // +3 when a re-encoder or editor wrote the video
+    videoLocation: 2,             // +2 when the location atom is implausible
+    videoTiming: 2,               // +2 per implausible duration or frame rate
+    rawPreviewMismatch: 3,        // +3 when the RAW preview does not match the sensor data
+    rawFormatMismatch: 2,         // +2 when the RAW container belongs to another maker
+    rawOriginalName: 2,           // +2 when OriginalRawFileName points to another maker
   },
   thresholds: {
     level0Max: 1,
@@ -69,6 +250,28 @@ export const DEFAULT_CONFIG: ValidationConfig = {
   c2paStrongBump: 0,              // Disabled by default (can be set to 2)
 };
 
+export interface EditorDetection {
+  isEditor: boolean;
+  software: string | null;
+  confidence: 'high' | 'medium' | 'low';
+  source?: string;
+  evidence: SignalEvidence[];
+}
+
+export interface AIDetection {
+  hasAI: boolean;
+  indicators: DetectorSignal[];
+  hasStrongC2PA: boolean;
+}
+
+export interface ConsistencyCheck {
+  consistent: boolean;
+  hasData: boolean;
+  code: string | null;   // Signal code, null when there is nothing to report
+  params: Record<string, string | number>;
+  evidence: SignalEvidence[];
+}
+
 // Windows reprocessors (Photo Viewer, Photos app)
 const WINDOWS_REPROCESSORS = [
   /microsoft windows photo viewer/i,
@@ -109,73 +312,148 @@ const KNOWN_EDITORS = [
   /topaz/i,
 ];
 
+// HEIC/HEIF to JPEG converters (desktop apps, command-line tools and online services)
+const HEIF_CONVERTERS = [
+  /heic\s*(?:to|2)\s*jpe?g/i,
+  /imazing heic/i,
+  /copytrans heic/i,
+  /heif-convert/i,
+  /libheif/i,
+  /apowersoft heic/i,
+  /aiseesoft heic/i,
+  /heictojpg|freetoolonline|cloudconvert|convertio/i,
+];
+
+// PNG text keywords holding image generation settings (AUTOMATIC1111/Forge "parameters",
+// ComfyUI "prompt"/"workflow", InvokeAI "Dream"/"sd-metadata"/"invokeai_metadata")
+const PNG_GENERATION_KEYWORDS = /^(?:parameters|prompt|workflow|dream|sd-?metadata|invokeai_?metadata)$/i;
+
 // Firmware pattern - typically alphanumeric build strings
 const FIRMWARE_PATTERN = /^[A-Z0-9._-]{6,}$/;
 
+/**
+ * Evidence for keys that were checked and found absent
+ */
+function absentEvidence(keys: string[]): SignalEvidence[] {
+  return keys.map(key => ({ key, value: null }));
+}
+
+// EXIF offset ("+03:00", "-05:00")
+const EXIF_OFFSET_PATTERN = /[+-]\d{2}:\d{2}/;
+
+// Widest UTC offset in use (UTC+14): an offset-less time may be this far ahead of the instant it names
+const MAX_UTC_OFFSET_MS = 14 * 60 * 60 * 1000;
+
+const hasExifOffset = (offset?: string) => !!offset && EXIF_OFFSET_PATTERN.test(offset);
+
 /**
  * Parse EXIF date with optional timezone offset
  * @param raw - Date string in EXIF format "2025:09:02 16:57:47"
  * @param offset - Optional timezone offset like "+03:00" or "-05:00"
- * @returns Date object or null if invalid
+ * @returns Date object or null if invalid. Without an offset the wall-clock time is read as UTC,
+ * so the result does not depend on the host timezone
  */
 function parseExifDate(raw?: string, offset?: string): Date | null {
   if (!raw || typeof raw !== 'string') return null;
   
   // Convert "2025:09:02 16:57:47" to "2025-09-02T16:57:47"
   const normalized = raw.replace(/^(\d{4}):(\d{2}):(\d{2})\s+/, '$1-$2-$3T');
-  const tz = (offset && /[+-]\d{2}:\d{2}/.test(offset)) ? offset : '';
+  const tz = hasExifOffset(offset) ? offset : 'Z';
   const isoString = normalized + tz;
   
   const date = new Date(isoString);
   return isNaN(date.getTime()) ? null : date;
 }
 
+// Double compression probability from which the detector result becomes a signal
+const DOUBLE_JPEG_MIN_PROBABILITY = 0.5;
+
+// Apple ContentIdentifier (Live Photo pairing) is a UUID
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Screen captures: the file shows what was on screen, so the metadata cannot vouch for the content
+const SCREENSHOT_PLATFORM_LABELS: Record<ScreenPlatform, string> = { ios: 'iOS', android: 'Android', desktop: 'desktop' };
+const SCREENSHOT_RECOMMENDATION = 'Arquivo é uma captura de tela: registra o que era exibido na tela, não a cena ou o documento original. Solicite o arquivo original (foto ou documento) de onde a tela foi capturada.';
+
+// PDF documents (invoices, reports): recommendations by classification level
+const DOCUMENT_RECOMMENDATIONS = [
+  'Documento apresenta metadados consistentes com geração única pelo sistema emissor',
+  'Verificar sinais de edição identificados no documento',
+  'Documento alterado após a emissão - confirme o conteúdo junto ao emissor',
+  'Alta probabilidade de adulteração do documento - solicite a via original ao emissor',
+];
+const DOCUMENT_INSUFFICIENT_RECOMMENDATION = 'Documento sem metadados de geração (Producer, Creator, datas) — possível remoção deliberada. Solicite a via original ao emissor.';
+
+// Videos (MP4/MOV): recommendations by classification level
+const VIDEO_RECOMMENDATIONS = [
+  'Vídeo apresenta metadados consistentes com gravação original',
+  'Verificar sinais de edição identificados no vídeo',
+  'Vídeo processado após a gravação - solicite o arquivo original do dispositivo',
+  'Alta probabilidade de edição do vídeo - investigação forense recomendada',
+];
+const VIDEO_INSUFFICIENT_RECOMMENDATION = 'Vídeo sem datas, dispositivo ou software de gravação — possível remoção deliberada ou exportação. Solicite o arquivo original do dispositivo.';
+
+// Copy-move confidence from which the detector result becomes a signal
+const COPY_MOVE_MIN_CONFIDENCE = 0.5;
+
+// Minutes a later timestamp may trail the capture (normal camera processing)
+const TEMPORAL_TOLERANCE_MINUTES = 5;
+
 /**
- * Get canonical capture date with timezone information
- * Priority: ExifIFD:DateTimeOriginal → ExifIFD:CreateDate → EXIF:DateTimeOriginal → EXIF:CreateDate → IFD0:ModifyDate
+ * Elapsed time in pt-BR ("2 dias e 3h", "4h 12min", "17 minutos")
  */
-export function getCanonicalCaptureDate(exifData: any): string | null {
-  const priorities = [
-    'ExifIFD:DateTimeOriginal',
-    'ExifIFD:CreateDate', 
-    'EXIF:DateTimeOriginal',
-    'EXIF:CreateDate',
-    'IFD0:ModifyDate'
-  ];
+function describeElapsed(diffMs: number): string {
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+  const diffHours = Math.floor((diffMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  const diffMins = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
+
+  if (diffDays > 0) {
+    return `${diffDays} dia${diffDays > 1 ? 's' : ''}` + (diffHours > 0 ? ` e ${diffHours}h` : '');
+  }
+  if (diffHours > 0) {
+    return `${diffHours}h` + (diffMins > 0 ? ` ${diffMins}min` : '');
+  }
+  return `${diffMins} minutos`;
+}
+
+const MAKE_IDS = ['IFD0:Make'];
+const MODEL_IDS = ['IFD0:Model'];
+const DATE_TIME_ORIGINAL_IDS = ['ExifIFD:DateTimeOriginal'];
+const OFFSET_ORIGINAL_IDS = ['ExifIFD:OffsetTimeOriginal', 'ExifIFD:OffsetTime'];
+const CREATE_DATE_IDS = [
+  'ExifIFD:DateTimeOriginal',
+  'ExifIFD:CreateDate',
+  'Composite:SubSecDateTimeOriginal',
+];
 
-  for (const field of priorities) {
-    const dateValue = exifData[field];
-    if (dateValue) {
-      // Try to apply timezone offset if available
-      const offsetTime = exifData['ExifIFD:OffsetTime'] || 
-                        exifData['ExifIFD:OffsetTimeOriginal'] || 
-                        exifData['EXIF:OffsetTime'];
-      
-      if (offsetTime && !dateValue.includes('+') && !dateValue.includes('-')) {
-        return `${dateValue}${offsetTime}`;
-      }
-      return dateValue;
+/**
+ * Get canonical capture date with timezone information
+ * Priority: DateTimeOriginal → CreateDate → ModifyDate → Composite:SubSecDateTimeOriginal
+ */
+export function getCanonicalCaptureDate(exifData: MetadataInput): string | null {
+  const md = normalizeMetadata(exifData);
+  const dateValue = md.firstText(['ExifIFD:DateTimeOriginal', 'ExifIFD:CreateDate', 'IFD0:ModifyDate']);
+
+  if (dateValue) {
+    // Try to apply timezone offset if available
+    const offsetTime = md.firstText(['ExifIFD:OffsetTime', 'ExifIFD:OffsetTimeOriginal']);
+    if (offsetTime && !dateValue.includes('+') && !dateValue.includes('-')) {
+      return `${dateValue}${offsetTime}`;
     }
+    return dateValue;
   }
 
   // Fallback to composite if available
-  return exifData['Composite:SubSecDateTimeOriginal'] || null;
+  return md.text('Composite:SubSecDateTimeOriginal') || null;
 }
 
 /**
  * Check for EXIF capture dates only (not ModifyDate, not XMP)
  * Used to determine if dateTimeAbsent penalty should apply
  */
-export function hasAnyCreateDate(exifData: any): boolean {
-  const dateFields = [
-    'EXIF:DateTimeOriginal',
-    'EXIF:CreateDate',
-    'ExifIFD:DateTimeOriginal',
-    'ExifIFD:CreateDate',
-    'Composite:SubSecDateTimeOriginal',
-  ];
-
-  return dateFields.some(field => exifData[field]);
+export function hasAnyCreateDate(exifData: MetadataInput): boolean {
+  const md = normalizeMetadata(exifData);
+  return CREATE_DATE_IDS.some(id => md.has(id));
 }
 
 /**
@@ -184,47 +462,50 @@ export function hasAnyCreateDate(exifData: any): boolean {
  * 2. XMP-photoshop namespace
  * 3. Extended search in specific metadata fields (not URLs/comments)
  */
-export function detectRealEditor(exifData: any): { 
-  isEditor: boolean; 
-  software: string | null; 
-  confidence: 'high' | 'medium' | 'low';
-  source?: string;
-} {
+export function detectRealEditor(exifData: MetadataInput): EditorDetection {
+  const md = normalizeMetadata(exifData);
   const looksLikeFirmware = (s: string) => /^[A-Z0-9._-]{6,}$/i.test(s);
   
   // 1. Check canonical fields first
-  const softwareFields = ['EXIF:Software', 'IFD0:Software', 'XMP:CreatorTool'];
+  const softwareFields = ['IFD0:Software', 'XMP-xmp:CreatorTool', 'PNG:Software'];
   for (const field of softwareFields) {
-    const software = exifData[field];
+    const software = md.text(field);
     if (software && !looksLikeFirmware(software)) {
+      const evidence = md.evidence([field]);
       // Check Windows reprocessors first (high priority)
       if (WINDOWS_REPROCESSORS.some(p => p.test(software))) {
-        return { isEditor: true, software, confidence: 'high', source: 'windows-viewer' };
+        return { isEditor: true, software, confidence: 'high', source: 'windows-viewer', evidence };
       }
       for (const editorPattern of KNOWN_EDITORS) {
         if (editorPattern.test(software)) {
-          return { isEditor: true, software, confidence: 'high', source: 'canonical' };
+          return { isEditor: true, software, confidence: 'high', source: 'canonical', evidence };
         }
       }
       if (/edit|process|enhance|filter|adjust/i.test(software)) {
-        return { isEditor: true, software, confidence: 'medium', source: 'canonical' };
+        return { isEditor: true, software, confidence: 'medium', source: 'canonical', evidence };
       }
     }
   }
 
   // 2. Check XMP-photoshop namespace
-  const xmpPhotoshopFields = Object.keys(exifData).filter(key => 
-    key.startsWith('XMP-photoshop:') && !key.includes('DateCreated')
-  );
+  const xmpPhotoshopFields = md.inGroup('XMP-photoshop')
+    .filter(tag => !tag.name.includes('DateCreated'))
+    .map(tag => tag.id);
   if (xmpPhotoshopFields.length > 0) {
-    return { isEditor: true, software: 'Adobe Photoshop (XMP)', confidence: 'high', source: 'xmp-photoshop' };
+    return {
+      isEditor: true,
+      software: 'Adobe Photoshop (XMP)',
+      confidence: 'high',
+      source: 'xmp-photoshop',
+      evidence: md.evidence(xmpPhotoshopFields)
+    };
   }
 
   // 2b. Photoshop group signatures (APP13/IRB)
   // These are specific to Photoshop save/export process (high confidence)
-  const psQuality = exifData['Photoshop:PhotoshopQuality'];
-  const psFormat  = exifData['Photoshop:PhotoshopFormat'];
-  const psScans   = exifData['Photoshop:ProgressiveScans'];
+  const psQuality = md.text('Photoshop:PhotoshopQuality');
+  const psFormat  = md.text('Photoshop:PhotoshopFormat');
+  const psScans   = md.text('Photoshop:ProgressiveScans');
 
   if (psQuality || psFormat || psScans) {
     const parts: string[] = [];
@@ -235,20 +516,30 @@ export function detectRealEditor(exifData: any): {
       isEditor: true,
       software: `Adobe Photoshop (${parts.join(', ')})`,
       confidence: 'high',
-      source: 'photoshop-group'
+      source: 'photoshop-group',
+      evidence: md.evidence(['Photoshop:PhotoshopQuality', 'Photoshop:PhotoshopFormat', 'Photoshop:ProgressiveScans'])
     };
   }
 
+  // 2c. Software agents recorded in the XMP edit history (latest entry first)
+  const history = readXmpHistory(md);
+  for (const event of [...history.events].reverse()) {
+    const agent = event.softwareAgent;
+    if (agent && KNOWN_EDITORS.some(pattern => pattern.test(agent))) {
+      return { isEditor: true, software: agent, confidence: 'high', source: 'xmp-history', evidence: history.evidence };
+    }
+  }
+
   // 3. Extended search in specific metadata fields (not all values to avoid false positives)
   const extendedSearchFields = [
-    'XMP:Creator', 'XMP:Rights', 'XMP:Description',
+    'XMP-dc:Creator', 'XMP-dc:Rights', 'XMP-dc:Description',
     'IPTC:ObjectName', 'IPTC:Caption-Abstract',
-    'EXIF:ImageDescription', 'EXIF:UserComment',
-    'xmpMM:History', 'xmpMM:DerivedFrom', 'XMP-photoshop:History',
+    'IFD0:ImageDescription', 'ExifIFD:UserComment',
+    'XMP-xmpMM:History', 'XMP-xmpMM:DerivedFrom', 'XMP-photoshop:History',
   ];
   
   for (const field of extendedSearchFields) {
-    const value = exifData[field];
+    const value = md.value(field);
     if (value && typeof value === 'string') {
       const lowerValue = value.toLowerCase();
       // Skip URLs and paths
@@ -257,92 +548,129 @@ export function detectRealEditor(exifData: any): {
       }
       for (const editorPattern of KNOWN_EDITORS) {
         if (editorPattern.test(value)) {
-          return { isEditor: true, software: value, confidence: 'medium', source: `extended:${field}` };
+          return {
+            isEditor: true,
+            software: value,
+            confidence: 'medium',
+            source: `extended:${md.get(field).originalKey}`,
+            evidence: md.evidence([field])
+          };
         }
       }
     }
   }
 
-  return { isEditor: false, software: null, confidence: 'low' };
+  return { isEditor: false, software: null, confidence: 'low', evidence: md.evidence(softwareFields) };
 }
 
 /**
  * Detect weak signals of silent editing (editors that preserve EXIF)
  * Each signal adds a light penalty (+1) - multiple signals accumulate
  */
-export function detectSilentEditSignals(exifData: any): { 
+export function detectSilentEditSignals(exifData: MetadataInput): { 
   count: number; 
-  reasons: string[] 
+  reasons: DetectorSignal[] 
 } {
-  const reasons: string[] = [];
-
-  // Detectar smartphone pela marca OU modelo
-  const brandOrModel = String(
-    exifData['IFD0:Make']   || exifData['EXIF:Make']   ||
-    exifData['IFD0:Model']  || exifData['EXIF:Model']  || ''
-  ).toLowerCase();
+  const md = normalizeMetadata(exifData);
+  const reasons: DetectorSignal[] = [];
 
-  const isSmartphoneBrand = /\b(samsung|apple|iphone|google|pixel|motorola|xiaomi|redmi|huawei|oneplus|oppo|vivo|realme|asus)\b/i
-    .test(brandOrModel);
+  // Expectativas do modelo (ou da marca) segundo a base de dispositivos
+  const device = lookupDevice(md.text('IFD0:Make') || null, md.text('IFD0:Model') || null);
+  const isSmartphoneBrand = device.deviceType === 'smartphone';
 
   // Checar tipo do arquivo para o caso do IFD1
-  const fileType = String(exifData['File:FileType'] || '').toLowerCase();
-  const isJPEG = fileType === 'jpeg' || /jpe?g/.test(String(exifData['File:FileTypeExtension'] || ''));
+  const fileType = md.text('File:FileType').toLowerCase();
+  const isJPEG = fileType === 'jpeg' || /jpe?g/.test(md.text('File:FileTypeExtension'));
 
   // Signal 1: SceneType is not "Directly photographed"
-  const sceneType = String(
-    exifData['ExifIFD:SceneType'] || exifData['EXIF:SceneType'] || ''
-  );
+  const sceneType = md.text('ExifIFD:SceneType');
   if (sceneType && !/directly photographed/i.test(sceneType)) {
-    reasons.push(`SceneType não é "Directly photographed" (${sceneType})`);
+    reasons.push({
+      code: 'SILENT_EDIT_SCENE_TYPE',
+      params: { sceneType },
+      evidence: md.evidence(['ExifIFD:SceneType'])
+    });
   }
 
   // Signal 2: ComponentsConfiguration anomaly (ExifTool error parsing)
   // Ignorar em smartphones (comum/benigno)
   if (!isSmartphoneBrand) {
-    const components = String(
-      exifData['ExifIFD:ComponentsConfiguration'] || exifData['EXIF:ComponentsConfiguration'] || ''
-    );
+    const components = md.text('ExifIFD:ComponentsConfiguration');
     if (/(?:^|,)\s*err\s*\(63\)|\bundef\b/i.test(components)) {
-      if (!reasons.includes(`ComponentsConfiguration anômalo (${components})`)) {
-        reasons.push(`ComponentsConfiguration anômalo (${components})`);
-      }
+      reasons.push({
+        code: 'SILENT_EDIT_COMPONENTS_CONFIGURATION',
+        params: { components },
+        evidence: md.evidence(['ExifIFD:ComponentsConfiguration'])
+      });
     }
   }
 
-  // Signal 3: MakerNote absent despite Make/Model present (only for brands that usually have it)
-  const hasMake = !!(exifData['IFD0:Make'] || exifData['EXIF:Make']);
-  const hasModel = !!(exifData['IFD0:Model'] || exifData['EXIF:Model']);
-  const hasMakerNote = !!(
-    exifData['ExifIFD:MakerNote'] || exifData['EXIF:MakerNote'] || 
-    Object.keys(exifData).some(k => k.startsWith('MakerNote:'))
-  );
+  // Signal 3: MakerNote absent despite Make/Model present (only for models/brands that write it)
+  const hasMake = md.has('IFD0:Make');
+  const hasModel = md.has('IFD0:Model');
+  const hasMakerNote = md.has('ExifIFD:MakerNote') || md.hasFamily('MakerNotes');
   
-  if (hasMake && hasModel && !hasMakerNote) {
-    const make = String(exifData['IFD0:Make'] || exifData['EXIF:Make'] || '').toLowerCase();
-    const brandsWithMakerNote = ['canon', 'nikon', 'sony', 'fujifilm', 'panasonic', 'olympus'];
-    if (brandsWithMakerNote.some(brand => make.includes(brand))) {
-      reasons.push(`MakerNote ausente apesar de Make/Model (${make})`);
-    }
+  if (hasMake && hasModel && !hasMakerNote && device.makerNote) {
+    reasons.push({
+      code: 'SILENT_EDIT_MAKERNOTE_ABSENT',
+      params: { make: md.text('IFD0:Make').toLowerCase() },
+      evidence: [...md.evidence(['IFD0:Make', 'IFD0:Model']), ...absentEvidence(['ExifIFD:MakerNote'])]
+    });
   }
 
   // Signal 4: EXIF thumbnail absent
-  // Ignorar em smartphones e apenas para JPEG (comum/benigno)
-  if (!isSmartphoneBrand && isJPEG) {
-    const hasThumb = !!(
-      exifData['IFD1:ImageWidth'] ||
-      exifData['Thumbnail:ImageWidth'] ||
-      exifData['IFD1:ThumbnailImage']
-    );
-
-    const hasMake  = !!(exifData['IFD0:Make']  || exifData['EXIF:Make']);
-    const hasModel = !!(exifData['IFD0:Model'] || exifData['EXIF:Model']);
+  // Modelos conhecidos seguem a base; fora dela, ignorar em smartphones (comum/benigno). Apenas JPEG
+  const expectsThumb = device.model ? !!device.model.thumbnail : !isSmartphoneBrand;
+  const hasThumb = md.has('IFD1:ImageWidth') || md.has('IFD1:ThumbnailImage');
+  if (expectsThumb && isJPEG && hasMake && hasModel && !hasThumb) {
+    reasons.push({
+      code: 'SILENT_EDIT_THUMBNAIL_ABSENT',
+      params: {},
+      evidence: [
+        ...md.evidence(['IFD0:Make', 'IFD0:Model']),
+        ...absentEvidence(['IFD1:ImageWidth', 'IFD1:ThumbnailImage'])
+      ]
+    });
+  }
 
-    if (hasMake && hasModel && !hasThumb) {
-      if (!reasons.includes('Thumbnail EXIF (IFD1) ausente')) {
-        reasons.push('Thumbnail EXIF (IFD1) ausente');
+  // Signals 5-7: deviations from what this specific model writes
+  const profile = device.model;
+  if (profile && isJPEG) {
+    const model = md.text('IFD0:Model');
+
+    const thumbWidth = parseInt(md.text('IFD1:ImageWidth') || '0');
+    const thumbHeight = parseInt(md.text('IFD1:ImageHeight') || '0');
+    if (Array.isArray(profile.thumbnail) && thumbWidth > 0 && thumbHeight > 0) {
+      const [expectedWidth, expectedHeight] = profile.thumbnail;
+      const matches = (thumbWidth === expectedWidth && thumbHeight === expectedHeight) ||
+                      (thumbWidth === expectedHeight && thumbHeight === expectedWidth);
+      if (!matches) {
+        reasons.push({
+          code: 'SILENT_EDIT_THUMBNAIL_SIZE',
+          params: { model, thumbnail: `${thumbWidth}x${thumbHeight}`, expected: `${expectedWidth}x${expectedHeight}` },
+          evidence: md.evidence(['IFD1:ImageWidth', 'IFD1:ImageHeight', 'IFD0:Model'])
+        });
       }
     }
+
+    const subsampling = md.text('File:YCbCrSubSampling');
+    if (profile.subsampling && subsampling && !subsampling.includes(profile.subsampling)) {
+      reasons.push({
+        code: 'SILENT_EDIT_SUBSAMPLING',
+        params: { model, subsampling, expected: profile.subsampling },
+        evidence: md.evidence(['File:YCbCrSubSampling', 'IFD0:Model'])
+      });
+    }
+
+    // Most of the fields the model always writes are gone
+    const missing = (profile.exifFields ?? []).filter(id => !md.has(id));
+    if (missing.length > 0 && missing.length * 2 > (profile.exifFields ?? []).length) {
+      reasons.push({
+        code: 'SILENT_EDIT_EXIF_FIELDS_ABSENT',
+        params: { model, fields: missing.map(id => id.slice(id.indexOf(':') + 1)).join(', ') },
+        evidence: [...md.evidence(['IFD0:Model']), ...absentEvidence(missing)]
+      });
+    }
   }
 
   return { count: reasons.length, reasons };
@@ -352,206 +680,317 @@ export function detectSilentEditSignals(exifData: any): {
 /**
  * Check for AI generation indicators from XMP IPTC and C2PA/JUMBF/CBOR
  */
-export function detectAIIndicators(exifData: any): { 
-  hasAI: boolean; 
-  indicators: string[];
-  hasStrongC2PA: boolean;
-} {
-  const indicators: string[] = [];
+export function detectAIIndicators(exifData: MetadataInput): AIDetection {
+  const md = normalizeMetadata(exifData);
+  const indicators: DetectorSignal[] = [];
   let hasStrongC2PA = false;
   
   // === C2PA/JUMBF/CBOR Detection (Samsung native AI) ===
   
-  const jumbfType = String(exifData['JUMBF:JUMDType'] || '');
-  const jumbfLabel = String(exifData['JUMBF:JUMDLabel'] || '');
+  const jumbfType = md.text('JUMBF:JUMDType');
+  const jumbfLabel = md.text('JUMBF:JUMDLabel');
   const hasC2PAManifest = /c2pa/i.test(jumbfType + ' ' + jumbfLabel);
   
   if (hasC2PAManifest) {
-    indicators.push('C2PA manifest presente (JUMBF)');
+    indicators.push({
+      code: 'C2PA_MANIFEST_PRESENT',
+      params: {},
+      evidence: md.evidence(['JUMBF:JUMDType', 'JUMBF:JUMDLabel'])
+    });
   }
 
   // Mandatory Adjustment 1: Strong bump only with c2pa.edited + DigitalSourceType AI
-  const action = String(exifData['CBOR:ActionsAction'] || '').toLowerCase();
+  const action = md.text('CBOR:ActionsAction').toLowerCase();
   const actionEdited = /c2pa\.edited/.test(action);
   if (action && action.includes('c2pa')) {
-    indicators.push(`C2PA action: ${action}`);
+    indicators.push({
+      code: 'C2PA_ACTION',
+      params: { action },
+      evidence: md.evidence(['CBOR:ActionsAction'])
+    });
   }
 
-  const agent = String(exifData['CBOR:ActionsSoftwareAgent'] || '').trim();
+  const agent = md.text('CBOR:ActionsSoftwareAgent').trim();
   if (agent) {
-    indicators.push(`C2PA agent: ${agent}`);
+    indicators.push({
+      code: 'C2PA_AGENT',
+      params: { agent },
+      evidence: md.evidence(['CBOR:ActionsSoftwareAgent'])
+    });
   }
 
-  const dsrcCBOR = String(exifData['CBOR:ActionsDigitalSourceType'] || '').toLowerCase();
+  const dsrcCBOR = md.text('CBOR:ActionsDigitalSourceType').toLowerCase();
   const dsrcAI = /compositewithtrainedalgorithmicmedia|generatedbycomputeralgorithmicmedia/i.test(dsrcCBOR);
   if (dsrcCBOR && dsrcAI) {
-    indicators.push(`C2PA DigitalSourceType: ${dsrcCBOR}`);
+    indicators.push({
+      code: 'C2PA_DIGITAL_SOURCE_AI',
+      params: { digitalSourceType: dsrcCBOR },
+      evidence: md.evidence(['CBOR:ActionsDigitalSourceType'])
+    });
   }
 
   // Strong signal only if BOTH present
   hasStrongC2PA = actionEdited && dsrcAI;
 
-  const genAI = String(exifData['JSON:GenAIType'] || '').trim();
+  const genAI = md.text('JSON:GenAIType').trim();
   if (genAI === '1' || genAI === 'true') {
-    indicators.push('GenAIType flag ativada');
+    indicators.push({
+      code: 'GENAI_FLAG',
+      params: {},
+      evidence: md.evidence(['JSON:GenAIType'])
+    });
   }
 
   // === XMP IPTC Detection (existing logic) ===
   
   const aiFields = ['XMP-iptcExt:DigitalSourceType', 'XMP-iptcExt:DigitalSourceFileType'];
   for (const field of aiFields) {
-    const value = exifData[field];
+    const value = md.text(field);
     if (value && /compositeWithTrainedAlgorithmicMedia|artificiallyGenerated/i.test(value)) {
-      indicators.push(`AI indicator in ${field}: ${value}`);
+      indicators.push({
+        code: 'IPTC_DIGITAL_SOURCE_AI',
+        params: { field: md.get(field).originalKey, value },
+        evidence: md.evidence([field])
+      });
     }
   }
 
   // Mandatory Adjustment 2: Restrictive regex (closed list, word-boundary)
-  const AI_SOFTWARE_RE = /\b(midjourney|dall[\s-]?e|stable\s+diffusion|leonardo\.ai|firefly)\b/i;
-  const creatorFields = ['XMP:CreatorTool', 'XMP-photoshop:CreatorTool'];
+  const AI_SOFTWARE_RE = /\b(midjourney|dall[\s-]?e|stable\s+diffusion|leonardo\.ai|firefly|novelai)\b/i;
+  const creatorFields = ['XMP-xmp:CreatorTool', 'XMP-photoshop:CreatorTool', 'PNG:Software'];
   for (const field of creatorFields) {
-    const value = exifData[field];
+    const value = md.text(field);
     if (value && AI_SOFTWARE_RE.test(value)) {
-      indicators.push(`AI software detected in ${field}: ${value}`);
+      indicators.push({
+        code: 'AI_SOFTWARE',
+        params: { field: md.get(field).originalKey, value },
+        evidence: md.evidence([field])
+      });
     }
   }
 
+  // Generation parameters that diffusion front-ends write into PNG text chunks
+  const parameters = md.inGroup('PNG').find(tag => PNG_GENERATION_KEYWORDS.test(tag.name) && md.text(tag.id));
+  if (parameters) {
+    indicators.push({
+      code: 'PNG_GENERATION_PARAMETERS',
+      params: { keyword: parameters.name, value: md.text(parameters.id).slice(0, 80) },
+      evidence: md.evidence([parameters.id])
+    });
+  }
+
   return { hasAI: indicators.length > 0, indicators, hasStrongC2PA };
 }
 
 /**
  * Check dimension consistency between EXIF and File data
  */
-export function checkDimensionConsistency(exifData: any): { consistent: boolean; details: string; hasData: boolean } {
-  const exifWidth = parseInt(exifData['EXIF:ImageWidth'] || exifData['ExifIFD:ExifImageWidth'] || '0');
-  const exifHeight = parseInt(exifData['EXIF:ImageHeight'] || exifData['ExifIFD:ExifImageHeight'] || '0');
-  const fileWidth = parseInt(exifData['File:ImageWidth'] || '0');
-  const fileHeight = parseInt(exifData['File:ImageHeight'] || '0');
+export function checkDimensionConsistency(exifData: MetadataInput): ConsistencyCheck {
+  const md = normalizeMetadata(exifData);
+  const exifWidth = parseInt(md.text('ExifIFD:ExifImageWidth') || '0');
+  const exifHeight = parseInt(md.text('ExifIFD:ExifImageHeight') || '0');
+  const fileWidth = parseInt(md.text('File:ImageWidth') || '0');
+  const fileHeight = parseInt(md.text('File:ImageHeight') || '0');
 
   const hasData = exifWidth > 0 && exifHeight > 0 && fileWidth > 0 && fileHeight > 0;
+  const evidence = md.evidence(['ExifIFD:ExifImageWidth', 'ExifIFD:ExifImageHeight', 'File:ImageWidth', 'File:ImageHeight']);
 
-  if (hasData) {
-    if (exifWidth !== fileWidth || exifHeight !== fileHeight) {
+  if (hasData && (exifWidth !== fileWidth || exifHeight !== fileHeight)) {
+    return {
+      consistent: false,
+      hasData: true,
+      code: 'DIMENSION_MISMATCH',
+      params: { exifWidth, exifHeight, fileWidth, fileHeight },
+      evidence
+    };
+  }
+
+  // Size the declared model cannot produce (resized, cropped or upscaled)
+  const device = lookupDevice(md.text('IFD0:Make') || null, md.text('IFD0:Model') || null).model;
+  if (device && fileWidth > 0 && fileHeight > 0) {
+    const resolution = checkDeviceResolution(device, fileWidth, fileHeight);
+    if (!resolution.consistent) {
       return {
         consistent: false,
-        details: `Inconsistência de dimensões: EXIF ${exifWidth}x${exifHeight} vs Arquivo ${fileWidth}x${fileHeight}`,
-        hasData: true
+        hasData: true,
+        code: 'DEVICE_RESOLUTION_MISMATCH',
+        params: {
+          fileWidth,
+          fileHeight,
+          model: md.text('IFD0:Model'),
+          native: resolution.native,
+          aspectRatio: resolution.aspectRatio
+        },
+        evidence: [...evidence, ...md.evidence(['IFD0:Model'])]
       };
     }
-    return { consistent: true, details: 'Dimensões consistentes', hasData: true };
   }
 
-  return { consistent: true, details: 'Dados de dimensão não disponíveis', hasData: false };
+  if (hasData) {
+    return { consistent: true, hasData: true, code: 'DIMENSIONS_CONSISTENT', params: {}, evidence };
+  }
+
+  return { consistent: true, hasData: false, code: null, params: {}, evidence: [] };
 }
 
 /**
  * Check temporal consistency between dates
  */
-export function checkTemporalConsistency(exifData: any): { consistent: boolean; details: string; hasData: boolean } {
-  const dateTimeOriginal = exifData['ExifIFD:DateTimeOriginal'] || exifData['EXIF:DateTimeOriginal'];
-  const offsetOriginal = exifData['ExifIFD:OffsetTimeOriginal'] || 
-                        exifData['EXIF:OffsetTimeOriginal'] ||
-                        exifData['ExifIFD:OffsetTime'] || 
-                        exifData['EXIF:OffsetTime'];
-  
-  const modifyDate = exifData['IFD0:ModifyDate'] || exifData['EXIF:DateTime'];
+export function checkTemporalConsistency(exifData: MetadataInput): ConsistencyCheck {
+  const md = normalizeMetadata(exifData);
+  const dateTimeOriginal = md.firstText(DATE_TIME_ORIGINAL_IDS);
+  const offsetOriginal = md.firstText(OFFSET_ORIGINAL_IDS);
+  const modifyDate = md.text('IFD0:ModifyDate');
+  const offsetModify = md.text('ExifIFD:OffsetTime');
 
   const originalTime = parseExifDate(dateTimeOriginal, offsetOriginal);
-  const modifiedTime = parseExifDate(modifyDate, undefined);
+  const originalLocal = parseExifDate(dateTimeOriginal, undefined);
+  // ModifyDate is compared as an instant only when both dates carry an offset, else on the wall clock
+  const bothZoned = hasExifOffset(offsetOriginal) && hasExifOffset(offsetModify);
+  const modifiedTime = parseExifDate(modifyDate, bothZoned ? offsetModify : undefined);
+  const originalForModify = bothZoned ? originalTime : originalLocal;
+  const history = readXmpHistory(md);
+
+  const evidence = [
+    ...md.firstEvidence(DATE_TIME_ORIGINAL_IDS),
+    ...md.firstEvidence(OFFSET_ORIGINAL_IDS),
+    ...md.evidence(['IFD0:ModifyDate']),
+    ...(originalTime ? history.evidence : []),
+  ];
 
   // Check for modification before capture (pre-dating)
-  if (originalTime && modifiedTime && modifiedTime < originalTime) {
+  if (originalForModify && modifiedTime && modifiedTime < originalForModify) {
     return {
       consistent: false,
-      details: `Inconsistência temporal: ModifyDate (${modifyDate}) anterior a DateTimeOriginal (${dateTimeOriginal})`,
-      hasData: true
+      hasData: true,
+      code: 'MODIFIED_BEFORE_CAPTURE',
+      params: { modifyDate, dateTimeOriginal },
+      evidence
     };
   }
 
-  // Check for significant post-capture modification (>5 minutes)
-  if (originalTime && modifiedTime && modifiedTime > originalTime) {
-    const diffMs = modifiedTime.getTime() - originalTime.getTime();
-    const diffMinutes = diffMs / (1000 * 60);
-    const TOLERANCE_MINUTES = 5; // Allow up to 5 minutes for normal camera processing
-
-    if (diffMinutes > TOLERANCE_MINUTES) {
-      const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-      const diffHours = Math.floor((diffMs % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-      const diffMins = Math.floor((diffMs % (1000 * 60 * 60)) / (1000 * 60));
-
-      let timeDescription = '';
-      if (diffDays > 0) {
-        timeDescription = `${diffDays} dia${diffDays > 1 ? 's' : ''}`;
-        if (diffHours > 0) timeDescription += ` e ${diffHours}h`;
-      } else if (diffHours > 0) {
-        timeDescription = `${diffHours}h`;
-        if (diffMins > 0) timeDescription += ` ${diffMins}min`;
-      } else {
-        timeDescription = `${diffMins} minutos`;
+  // XMP history events are compared on the wall clock unless both sides carry an offset
+  const originalHasOffset = !!originalTime && hasExifOffset(offsetOriginal);
+  const timed = history.events.flatMap(event => (event.when && event.time ? [{ ...event, when: event.when }] : []));
+
+  if (originalTime && originalLocal) {
+    for (const event of timed) {
+      const [eventTime, captureTime] = originalHasOffset && hasUtcOffset(event.when)
+        ? [event.time, originalTime]
+        : [parseXmpLocalDate(event.when), originalLocal];
+      if (eventTime && eventTime.getTime() < captureTime.getTime() - TEMPORAL_TOLERANCE_MINUTES * 60000) {
+        return {
+          consistent: false,
+          hasData: true,
+          code: 'XMP_HISTORY_BEFORE_CAPTURE',
+          params: { action: event.action, when: event.when, dateTimeOriginal },
+          evidence
+        };
       }
+    }
+  }
 
+  // History entries are appended in order; an entry dated before its predecessor was rewritten
+  for (let i = 1; i < timed.length; i++) {
+    const previous = timed[i - 1];
+    const current = timed[i];
+    const [currentTime, previousTime] = hasUtcOffset(current.when) && hasUtcOffset(previous.when)
+      ? [current.time, previous.time]
+      : [parseXmpLocalDate(current.when), parseXmpLocalDate(previous.when)];
+    if (currentTime && previousTime && currentTime.getTime() < previousTime.getTime() - TEMPORAL_TOLERANCE_MINUTES * 60000) {
       return {
         consistent: false,
-        details: `Edição posterior detectada: modificado ${timeDescription} após captura (${dateTimeOriginal} → ${modifyDate})`,
-        hasData: true
+        hasData: true,
+        code: 'XMP_HISTORY_OUT_OF_ORDER',
+        params: { action: current.action, when: current.when, previousWhen: previous.when },
+        evidence: history.evidence
       };
     }
   }
-  
-  // Only give positive "temporal consistency verified" when we have DateTimeOriginal
-  if (originalTime && modifiedTime) {
-    // Both dates present and no inconsistency found above
-    return { consistent: true, details: 'Consistência temporal verificada', hasData: true };
-  }
 
-  if (originalTime && !modifiedTime) {
-    // Only DateTimeOriginal present - photo not edited, ok
-    return { consistent: true, details: 'Consistência temporal verificada', hasData: true };
+  // Check for significant post-capture modification (>5 minutes)
+  if (originalForModify && modifiedTime && modifiedTime > originalForModify) {
+    const diffMs = modifiedTime.getTime() - originalForModify.getTime();
+    const diffMinutes = diffMs / (1000 * 60);
+
+    if (diffMinutes > TEMPORAL_TOLERANCE_MINUTES) {
+      return {
+        consistent: false,
+        hasData: true,
+        code: 'EDITED_AFTER_CAPTURE',
+        params: { elapsed: describeElapsed(diffMs), elapsedMinutes: Math.floor(diffMinutes), dateTimeOriginal, modifyDate },
+        evidence
+      };
+    }
   }
 
-  if (!originalTime && modifiedTime) {
-    // Only ModifyDate present - insufficient data, no positive signal
-    return { 
-      consistent: true, 
-      details: 'Dados temporais insuficientes para verificar edição', 
-      hasData: false 
-    };
+  // Latest history entry other than the capture itself, when ModifyDate did not already show it
+  if (originalTime && originalLocal) {
+    const edits = timed.filter(event => event.action.toLowerCase() !== 'created');
+    const last = edits[edits.length - 1];
+    if (last) {
+      const [eventTime, captureTime] = originalHasOffset && hasUtcOffset(last.when)
+        ? [last.time, originalTime]
+        : [parseXmpLocalDate(last.when), originalLocal];
+      const diffMs = eventTime ? eventTime.getTime() - captureTime.getTime() : 0;
+      if (diffMs > TEMPORAL_TOLERANCE_MINUTES * 60000) {
+        return {
+          consistent: false,
+          hasData: true,
+          code: 'XMP_HISTORY_EDITED_AFTER_CAPTURE',
+          params: {
+            action: last.action,
+            software: last.softwareAgent ?? 'software não informado',
+            elapsed: describeElapsed(diffMs),
+            elapsedMinutes: Math.floor(diffMs / 60000),
+            when: last.when,
+            dateTimeOriginal,
+          },
+          evidence
+        };
+      }
+    }
+  }
+  
+  // Only give positive "temporal consistency verified" when we have DateTimeOriginal
+  if (originalTime) {
+    // DateTimeOriginal present (with or without ModifyDate) and no inconsistency found above
+    return { consistent: true, hasData: true, code: 'TEMPORAL_CONSISTENT', params: {}, evidence };
   }
 
-  return { consistent: true, details: 'Dados temporais não disponíveis', hasData: false };
+  // Only ModifyDate present, or no dates at all - insufficient data, no positive signal
+  return { consistent: true, hasData: false, code: null, params: {}, evidence };
 }
 
 /**
  * Detect digital transport (messenger apps) with conservative heuristic
  * Requires ≥3 signals to trigger
  */
-export function detectDigitalTransport(exif: Record<string, any>) {
-  const get = (k: string) => exif?.[k];
+export function detectDigitalTransport(exif: MetadataInput) {
+  const md = normalizeMetadata(exif);
 
   // 1) Ausência de EXIF de câmera
-  const hasMake  = !!get('IFD0:Make');
-  const hasModel = !!get('IFD0:Model');
+  const hasMake  = md.has('IFD0:Make');
+  const hasModel = md.has('IFD0:Model');
   const DATE_FIELDS = [
-    'EXIF:DateTime','EXIF:DateTimeOriginal','EXIF:CreateDate',
-    'ExifIFD:DateTime','ExifIFD:DateTimeOriginal','ExifIFD:CreateDate',
-    'IFD0:DateTime','IFD0:ModifyDate',
-    'XMP:CreateDate','XMP:ModifyDate','XMP-exif:DateTimeOriginal','XMP-photoshop:DateCreated'
+    'ExifIFD:DateTimeOriginal', 'ExifIFD:CreateDate', 'IFD0:ModifyDate',
+    'XMP-xmp:CreateDate', 'XMP-xmp:ModifyDate', 'XMP-exif:DateTimeOriginal', 'XMP-photoshop:DateCreated'
   ];
-  const hasAnyDate = DATE_FIELDS.some(k => !!get(k));
+  const hasAnyDate = DATE_FIELDS.some(id => md.has(id));
 
   // 2) Sinais típicos de mensageiros
-  const isJPEG = String(get('File:FileType') || '').toLowerCase() === 'jpeg';
-  const jfif   = !!get('JFIF:JFIFVersion');
-  const sub420 = /4:2:0/.test(String(get('File:YCbCrSubSampling') || ''));
+  const isJPEG = md.text('File:FileType').toLowerCase() === 'jpeg';
+  const jfif   = md.has('JFIF:JFIFVersion');
+  const sub420 = /4:2:0/.test(md.text('File:YCbCrSubSampling'));
 
-  const w = parseInt(get('File:ImageWidth')  || '0', 10);
-  const h = parseInt(get('File:ImageHeight') || '0', 10);
+  const w = parseInt(md.text('File:ImageWidth')  || '0', 10);
+  const h = parseInt(md.text('File:ImageHeight') || '0', 10);
   const longSide = Math.max(w, h);
   const longSideIsMessenger =
     (longSide >= 1580 && longSide <= 1620) || [2048, 1280, 960].includes(longSide);
 
-  const iccDesc      = String(get('ICC_Profile:ProfileDescription')  || '');
-  const iccCopyright = String(get('ICC_Profile:ProfileCopyright')    || '');
+  const iccDesc      = md.text('ICC_Profile:ProfileDescription');
+  const iccCopyright = md.text('ICC_Profile:ProfileCopyright');
   const iccGoogle    = /srgb/i.test(iccDesc) && /google/i.test(iccCopyright);
 
   // Votação conservadora: precisa de ≥3 sinais
@@ -565,118 +1004,1231 @@ export function detectDigitalTransport(exif: Record<string, any>) {
   const isDigitalTransport = votes >= 3;
 
   const reasons: string[] = [];
-  if (isJPEG && !hasMake && !hasModel && !hasAnyDate) reasons.push('Sem EXIF de câmera (Make/Model/Date)');
-  if (isJPEG && jfif && sub420)                      reasons.push('JPEG + JFIF + 4:2:0');
-  if (longSideIsMessenger)                           reasons.push(`Lado maior ${longSide}px típico de mensageiro`);
-  if (iccGoogle)                                     reasons.push('Perfil ICC sRGB (Google)');
+  const evidence: SignalEvidence[] = [];
+  if (isJPEG && !hasMake && !hasModel && !hasAnyDate) {
+    reasons.push('Sem EXIF de câmera (Make/Model/Date)');
+    evidence.push(...md.evidence(['File:FileType']), ...absentEvidence(['IFD0:Make', 'IFD0:Model']));
+  }
+  if (isJPEG && jfif && sub420) {
+    reasons.push('JPEG + JFIF + 4:2:0');
+    evidence.push(...md.evidence(['JFIF:JFIFVersion', 'File:YCbCrSubSampling']));
+  }
+  if (longSideIsMessenger) {
+    reasons.push(`Lado maior ${longSide}px típico de mensageiro`);
+    evidence.push(...md.evidence(['File:ImageWidth', 'File:ImageHeight']));
+  }
+  if (iccGoogle) {
+    reasons.push('Perfil ICC sRGB (Google)');
+    evidence.push(...md.evidence(['ICC_Profile:ProfileDescription', 'ICC_Profile:ProfileCopyright']));
+  }
+
+  return { isDigitalTransport, reasons, evidence };
+}
+
+// === Built-in rules ===
+// Registered in evaluation order; signal order in the result follows this order
+
+type FindingSpec = Omit<RuleFinding, 'kind' | 'weight'>;
+
+const risk = (spec: FindingSpec, weight: number): RuleFinding => ({ kind: 'risk', weight, ...spec });
+const positive = (spec: FindingSpec, credit = 0): RuleFinding => ({ kind: 'positive', weight: credit, ...spec });
+
+// JPEG encoding rules; files of unknown kind are treated as JPEG, as before file kinds were resolved
+const isJpegLike = (ctx: RuleContext) => ctx.fileKind === 'jpeg' || ctx.fileKind === 'unknown';
+
+// Digital transport strips camera EXIF and screen captures never had it: absence is not penalized
+const cameraExifNotExpected = (ctx: RuleContext) => ctx.isDigitalTransport || ctx.screenshot.isScreenshot;
+
+// Individual camera EXIF penalties apply unless the combined penalty does
+const usesIndividualCameraPenalties = (ctx: RuleContext) =>
+  cameraExifNotExpected(ctx) || !(ctx.cameraExifMissing && !ctx.hasHardSignals);
+
+// Editor, AI and C2PA metadata is written the same way in videos (XMP, C2PA manifests)
+const VIDEO_AND_IMAGE_KINDS: FileKind[] = [...DEFAULT_RULE_FILE_KINDS, 'video'];
+
+// Recorders write the capture start (Keys:CreationDate) and the header dates when the file is closed
+const videoDateTolerance = (ctx: RuleContext) =>
+  TEMPORAL_TOLERANCE_MINUTES * 60000 + (ctx.video?.duration ?? 0) * 1000;
+
+// Longest duration a phone or camera writes into one file
+const MAX_VIDEO_DURATION_SECONDS = 24 * 3600;
+
+// Converters that rewrap RAW data as DNG without developing it
+const DNG_CONVERTERS = [/adobe dng converter/i, /dnglab/i];
+
+// Aspect ratio difference (relative) still treated as the same framing: sensors keep a few
+// masked rows and columns around the area the camera renders
+const RAW_ASPECT_TOLERANCE = 0.03;
+
+// Aspect ratios cameras can crop their previews to (1:1, 4:3, 3:2, 16:9)
+const CAMERA_ASPECT_RATIOS = [1, 4 / 3, 3 / 2, 16 / 9];
+
+const aspectRatio = (width: number, height: number) => Math.max(width, height) / Math.min(width, height);
+const sameAspect = (a: number, b: number) => Math.abs(a - b) / b <= RAW_ASPECT_TOLERANCE;
+const isDngConverter = (software: string) => DNG_CONVERTERS.some(pattern => pattern.test(software));
+const largestImage = (images: RawImage[], role: RawImage['role']) =>
+  images
+    .filter(image => image.role === role && image.width && image.height)
+    .sort((a, b) => (b.width ?? 0) * (b.height ?? 0) - (a.width ?? 0) * (a.height ?? 0))[0];
+
+const BUILTIN_RULES: ValidationRule[] = [
+  {
+    id: 'camera-exif-combined',
+    weightKey: 'cameraExifAbsentCombined',
+    defaultWeight: 1,
+    applies: ctx => !cameraExifNotExpected(ctx) && ctx.cameraExifMissing && !ctx.hasHardSignals,
+    evaluate: (ctx, weight) => [
+      risk({
+        code: 'CAMERA_EXIF_ABSENT',
+        category: 'camera',
+        evidence: absentEvidence([...MAKE_IDS, ...MODEL_IDS, ...CREATE_DATE_IDS])
+      }, weight)
+    ],
+  },
+  {
+    id: 'make-absent',
+    weightKey: 'makeAbsent',
+    applies: usesIndividualCameraPenalties,
+    evaluate: (ctx, weight) => {
+      if (ctx.make) {
+        return [positive({ code: 'MAKE_PRESENT', category: 'camera', params: { make: ctx.make }, evidence: ctx.metadata.evidence(MAKE_IDS) })];
+      }
+      // Digital transport and screenshots block missing EXIF penalties
+      return cameraExifNotExpected(ctx) ? [] : [risk({ code: 'MAKE_ABSENT', category: 'camera', evidence: absentEvidence(MAKE_IDS) }, weight)];
+    },
+  },
+  {
+    id: 'model-absent',
+    weightKey: 'modelAbsent',
+    applies: usesIndividualCameraPenalties,
+    evaluate: (ctx, weight) => {
+      if (ctx.model) {
+        return [positive({ code: 'MODEL_PRESENT', category: 'camera', params: { model: ctx.model }, evidence: ctx.metadata.evidence(MODEL_IDS) })];
+      }
+      return cameraExifNotExpected(ctx) ? [] : [risk({ code: 'MODEL_ABSENT', category: 'camera', evidence: absentEvidence(MODEL_IDS) }, weight)];
+    },
+  },
+  {
+    id: 'datetime-absent',
+    weightKey: 'dateTimeAbsent',
+    applies: usesIndividualCameraPenalties,
+    evaluate: (ctx, weight) => {
+      if (!cameraExifNotExpected(ctx) && !hasAnyCreateDate(ctx.metadata)) {
+        return [risk({ code: 'CAPTURE_DATE_ABSENT', category: 'temporal', evidence: absentEvidence(CREATE_DATE_IDS) }, weight)];
+      }
+      if (!ctx.canonicalCaptureDate) return [];
+      return [positive({
+        code: 'CAPTURE_DATE_PRESENT',
+        category: 'temporal',
+        params: { date: ctx.canonicalCaptureDate },
+        evidence: ctx.metadata.firstEvidence([
+          'ExifIFD:DateTimeOriginal', 'ExifIFD:CreateDate', 'IFD0:ModifyDate', 'Composite:SubSecDateTimeOriginal'
+        ])
+      })];
+    },
+  },
+  {
+    id: 'editor',
+    weightKey: 'editorDetected',
+    fileKinds: VIDEO_AND_IMAGE_KINDS,
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      if (!ctx.editor.isEditor) {
+        return [positive({ code: 'NO_EDITOR_DECLARED', category: 'software', evidence: ctx.editor.evidence })];
+      }
+      return [risk({
+        code: 'EDITOR_DETECTED',
+        category: 'software',
+        params: { software: ctx.editor.software, source: ctx.editor.source },
+        evidence: ctx.editor.evidence
+      }, weight)];
+    },
+  },
+  {
+    id: 'silent-edit',
+    weightKey: 'silentEditSignal',
+    applies: ctx => ctx.features.silentEdit && !ctx.editor.isEditor,
+    evaluate: (ctx, weight) => {
+      const silentEdit = detectSilentEditSignals(ctx.metadata);
+      // Extractors that do not decode HEIF maker notes miss one the file structure shows;
+      // DNG converters move the maker note into DNGPrivateData
+      const makerNoteElsewhere = !!ctx.file?.heif?.appleMakerNote ||
+        (ctx.fileKind === 'raw' && isDngConverter(ctx.file?.raw?.software ?? ctx.metadata.text('IFD0:Software')));
+      const reasons = makerNoteElsewhere
+        ? silentEdit.reasons.filter(reason => reason.code !== 'SILENT_EDIT_MAKERNOTE_ABSENT')
+        : silentEdit.reasons;
+      const maxSilent = ctx.config.silentEditMax ?? 2;
+      const applied = Math.min(reasons.length, maxSilent);
+      if (ctx.debug && reasons.length > maxSilent) {
+        ctx.debug.silentEditCapped = `${reasons.length - maxSilent} sinais não aplicados (cap=${maxSilent})`;
+      }
+      return reasons
+        .slice(0, applied)
+        .map(reason => risk({ ...reason, category: 'software' }, weight));
+    },
+  },
+  {
+    id: 'ai-indicators',
+    weightKey: 'aiIndicators',
+    fileKinds: VIDEO_AND_IMAGE_KINDS,
+    applies: ctx => ctx.ai.hasAI,
+    evaluate: (ctx, weight) => {
+      // One penalty per indicator detected
+      const findings = ctx.ai.indicators.map(indicator => risk({ ...indicator, category: 'ai' }, weight));
+
+      // Strong bump only with edited + DigitalSourceType AI
+      const bump = ctx.config.c2paStrongBump ?? 0;
+      if (ctx.ai.hasStrongC2PA && bump > 0) {
+        findings.push(risk({
+          code: 'C2PA_STRONG_AI',
+          category: 'ai',
+          severity: 'high',
+          evidence: ctx.metadata.evidence(['CBOR:ActionsAction', 'CBOR:ActionsDigitalSourceType'])
+        }, bump));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'c2pa-signature',
+    weightKey: 'c2paInvalid',
+    defaultWeight: 4,
+    // Manifests are only read from JPEG APP11 segments
+    fileKinds: ['jpeg'],
+    applies: ctx => !!ctx.file?.c2pa,
+    evaluate: (ctx, weight) => {
+      const c2pa = ctx.file?.c2pa;
+      const active = c2pa?.manifests[c2pa.manifests.length - 1];
+      if (!c2pa || !active) return [];
+      const params = {
+        signer: active.signer?.organization ?? active.signer?.commonName ?? 'desconhecido',
+        reason: active.errors[0] ?? '',
+      };
+      const evidence = [
+        { key: 'C2PA:ActiveManifest', value: c2pa.activeManifest },
+        { key: 'C2PA:Status', value: c2pa.status },
+      ];
+      switch (c2pa.status) {
+        case 'invalid':
+          return [risk({ code: 'C2PA_SIGNATURE_INVALID', category: 'ai', severity: 'high', params, evidence }, weight)];
+        case 'tampered':
+          return [risk({ code: 'C2PA_MANIFEST_TAMPERED', category: 'ai', severity: 'high', params, evidence }, weight)];
+        case 'untrusted':
+          return [positive({ code: 'C2PA_SIGNATURE_UNTRUSTED', category: 'ai', params, evidence })];
+        default:
+          return [];
+      }
+    },
+  },
+  {
+    id: 'c2pa-trusted-capture',
+    weightKey: 'c2paTrustedCapture',
+    defaultWeight: 3,
+    fileKinds: ['jpeg'],
+    applies: ctx => ctx.file?.c2pa?.status === 'valid',
+    evaluate: (ctx, credit) => {
+      const c2pa = ctx.file?.c2pa;
+      const active = c2pa?.manifests[c2pa.manifests.length - 1];
+      if (!c2pa?.cameraCapture || !active) return [];
+      return [positive({
+        code: 'C2PA_TRUSTED_CAPTURE',
+        category: 'ai',
+        params: { signer: active.signer?.organization ?? active.signer?.commonName ?? 'desconhecido' },
+        evidence: [
+          { key: 'C2PA:ActiveManifest', value: c2pa.activeManifest },
+          { key: 'C2PA:DigitalSourceType', value: active.actions.find(a => a.digitalSourceType)?.digitalSourceType ?? null },
+        ],
+      }, credit)];
+    },
+  },
+  {
+    id: 'dimension-consistency',
+    weightKey: 'dimensionMismatch',
+    // RAW files have no developed image size; raw-preview compares their images instead
+    fileKinds: DEFAULT_RULE_FILE_KINDS.filter(kind => kind !== 'raw'),
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const check = checkDimensionConsistency(ctx.metadata);
+      if (!check.code) return [];
+      const spec = { code: check.code, category: 'consistency' as const, params: check.params, evidence: check.evidence };
+      return [check.consistent ? positive(spec) : risk(spec, weight)];
+    },
+  },
+  {
+    id: 'temporal-consistency',
+    weightKey: 'temporalInconsistency',
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const check = checkTemporalConsistency(ctx.metadata);
+      if (!check.code) return [];
+      const spec = { code: check.code, category: 'temporal' as const, params: check.params, evidence: check.evidence };
+      return [check.consistent ? positive(spec) : risk(spec, weight)];
+    },
+  },
+  {
+    id: 'future-date',
+    weightKey: 'impossibleDate',
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const [dto] = ctx.metadata.firstEvidence(DATE_TIME_ORIGINAL_IDS);
+      const [dtoOffset] = ctx.metadata.firstEvidence(OFFSET_ORIGINAL_IDS);
+
+      const captureDate = parseExifDate(dto?.value as string, dtoOffset?.value as string);
+      if (!captureDate) return [];
+
+      // More than 10 minutes in the future; an offset-less (UTC wall-clock) date may be up to UTC+14 ahead
+      const diffMs = captureDate.getTime() - ctx.referenceTime.getTime();
+      const slackMs = hasExifOffset(dtoOffset?.value as string) ? 0 : MAX_UTC_OFFSET_MS;
+      if (diffMs <= 10 * 60 * 1000 + slackMs) return [];
+      return [risk({
+        code: 'FUTURE_CAPTURE_DATE',
+        category: 'temporal',
+        params: { dateTimeOriginal: String(dto.value) },
+        evidence: [dto, ...(dtoOffset ? [dtoOffset] : [])]
+      }, weight)];
+    },
+  },
+  {
+    id: 'gps-time-consistency',
+    weightKey: 'gpsTimeMismatch',
+    defaultWeight: 2,
+    applies: ctx => ctx.metadata.inGroup('GPS').length > 0,
+    evaluate: (ctx, weight) => {
+      const [dto] = ctx.metadata.firstEvidence(DATE_TIME_ORIGINAL_IDS);
+      const [dtoOffset] = ctx.metadata.firstEvidence(OFFSET_ORIGINAL_IDS);
+      return [
+        checkGpsTimeConsistency(ctx.metadata, dto, dtoOffset),
+        checkTimezonePlausibility(ctx.metadata, dto, dtoOffset),
+      ].flatMap(check => {
+        if (!check.code) return [];
+        const spec = { code: check.code, category: 'temporal' as const, params: check.params, evidence: check.evidence };
+        return [check.consistent ? positive(spec) : risk(spec, weight)];
+      });
+    },
+  },
+  {
+    id: 'gps-sanity',
+    weightKey: 'gpsImplausible',
+    defaultWeight: 1,
+    applies: ctx => ctx.metadata.inGroup('GPS').length > 0,
+    evaluate: (ctx, weight) =>
+      checkGpsSanity(ctx.metadata).flatMap(check =>
+        check.code ? [risk({ code: check.code, category: 'consistency', params: check.params, evidence: check.evidence }, weight)] : []
+      ),
+  },
+  {
+    id: 'progressive-dct',
+    weightKey: 'progressiveDCT',
+    applies: ctx => !ctx.isDigitalTransport && isJpegLike(ctx),
+    evaluate: (ctx, weight) =>
+      ctx.metadata.text('File:EncodingProcess').includes('Progressive')
+        ? [risk({ code: 'PROGRESSIVE_DCT', category: 'encoding', evidence: ctx.metadata.evidence(['File:EncodingProcess']) }, weight)]
+        : [],
+  },
+  {
+    id: 'subsampling-444',
+    weightKey: 'subsampling444',
+    applies: ctx => !ctx.isDigitalTransport && isJpegLike(ctx),
+    evaluate: (ctx, weight) =>
+      ctx.metadata.text('File:YCbCrSubSampling').includes('4:4:4')
+        ? [risk({ code: 'SUBSAMPLING_444', category: 'encoding', evidence: ctx.metadata.evidence(['File:YCbCrSubSampling']) }, weight)]
+        : [],
+  },
+  {
+    id: 'quantization-fingerprint',
+    weightKey: 'quantizationMismatch',
+    defaultWeight: 2,
+    applies: ctx => !ctx.isDigitalTransport && !!ctx.file?.jpeg?.quantizationTables.length,
+    evaluate: (ctx, weight) => {
+      const check = checkQuantizationConsistency(
+        ctx.file?.jpeg ?? { quantizationTables: [] },
+        ctx.make,
+        ctx.model,
+        ctx.metadata.evidence([...MAKE_IDS, ...MODEL_IDS])
+      );
+      if (!check.code) return [];
+      const spec = { code: check.code, category: 'encoding' as const, params: check.params, evidence: check.evidence };
+      return [check.consistent ? positive(spec) : risk(spec, weight)];
+    },
+  },
+  {
+    id: 'thumbnail-consistency',
+    weightKey: 'thumbnailMismatch',
+    defaultWeight: 3,
+    applies: ctx => !!ctx.file?.thumbnail,
+    evaluate: (ctx, weight) => {
+      const thumbnail = ctx.file?.thumbnail;
+      if (!thumbnail) return [];
+      const comparison = compareThumbnail(thumbnail);
+      const params = {
+        thumbnail: `${thumbnail.width}x${thumbnail.height}`,
+        main: `${thumbnail.mainWidth}x${thumbnail.mainHeight}`,
+        similarity: Math.round(comparison.similarity * 100),
+      };
+      const evidence = [
+        ...ctx.metadata.evidence(['IFD1:ThumbnailImage', 'IFD1:ThumbnailLength']),
+        { key: 'Thumbnail:Similarity', value: `${params.similarity}%` },
+      ];
+      if (comparison.consistent) {
+        return [positive({ code: 'THUMBNAIL_CONSISTENT', category: 'consistency', params, evidence })];
+      }
+      const code = comparison.reason === 'aspect' ? 'THUMBNAIL_ASPECT_MISMATCH' : 'THUMBNAIL_CONTENT_MISMATCH';
+      return [risk({ code, category: 'consistency', params, evidence }, weight)];
+    },
+  },
+  {
+    id: 'heif-structure',
+    weightKey: 'heifStructure',
+    defaultWeight: 2,
+    applies: ctx => ctx.fileKind === 'heif' && !!ctx.file?.heif?.primary,
+    evaluate: (ctx, weight) => {
+      const heif = ctx.file?.heif;
+      const primary = heif?.primary;
+      if (!heif || !primary) return [];
+      const findings: RuleFinding[] = [];
+      const encoded = `${primary.width ?? '?'}x${primary.height ?? '?'}`;
+      const evidence: SignalEvidence[] = [
+        { key: 'HEIF:PrimaryItemType', value: primary.type },
+        { key: 'HEIF:PrimaryImageSize', value: encoded },
+        { key: 'HEIF:Thumbnails', value: heif.thumbnails },
+        { key: 'HEIF:ExifItems', value: heif.exifItems },
+      ];
+
+      // Encoded size vs the size recorded in EXIF at capture (either orientation)
+      const exifWidth = parseInt(ctx.metadata.text('ExifIFD:ExifImageWidth') || '0');
+      const exifHeight = parseInt(ctx.metadata.text('ExifIFD:ExifImageHeight') || '0');
+      if (exifWidth > 0 && exifHeight > 0 && primary.width && primary.height) {
+        const sameSize = (exifWidth === primary.width && exifHeight === primary.height) ||
+                         (exifWidth === primary.height && exifHeight === primary.width);
+        if (!sameSize) {
+          findings.push(risk({
+            code: 'HEIF_DIMENSION_MISMATCH',
+            category: 'consistency',
+            params: { exif: `${exifWidth}x${exifHeight}`, encoded },
+            evidence: [...evidence.slice(0, 2), ...ctx.metadata.evidence(['ExifIFD:ExifImageWidth', 'ExifIFD:ExifImageHeight'])],
+          }, weight));
+        }
+      }
+
+      // iPhones write the image as a grid of tiles, with a thumbnail item and an Exif item
+      if (/apple/i.test(ctx.make ?? '')) {
+        const missing = [
+          primary.type !== 'grid' && 'grid',
+          !heif.thumbnails && 'thumbnail',
+          !heif.exifItems && 'Exif',
+        ].filter((part): part is string => !!part);
+        if (missing.length) {
+          findings.push(risk({
+            code: 'HEIF_STRUCTURE_REENCODED',
+            category: 'encoding',
+            params: { make: ctx.make ?? '', missing: missing.join(', ') },
+            evidence: [...evidence, ...ctx.metadata.evidence(MAKE_IDS)],
+          }, weight));
+        }
+      }
+
+      if (!findings.length && primary.type === 'grid' && heif.thumbnails && heif.exifItems) {
+        findings.push(positive({
+          code: 'HEIF_CAMERA_STRUCTURE',
+          category: 'encoding',
+          params: { tiles: primary.tiles, size: encoded },
+          evidence,
+        }));
+      }
+
+      // Depth maps, HDR gain maps and portrait mattes come from the camera pipeline
+      const kinds = [...new Set(heif.auxiliary.map(image => image.kind))].filter(kind => kind !== 'alpha' && kind !== 'other');
+      if (kinds.length) {
+        findings.push(positive({
+          code: 'HEIF_AUXILIARY_IMAGES',
+          category: 'camera',
+          params: { images: kinds.join(', ') },
+          evidence: heif.auxiliary.map(image => ({ key: 'HEIF:AuxiliaryType', value: image.type })),
+        }));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'apple-makernote',
+    weightKey: 'appleMakerNoteMismatch',
+    defaultWeight: 2,
+    applies: ctx => !!ctx.file?.heif?.appleMakerNote || ctx.metadata.inGroup('Apple').length > 0,
+    evaluate: (ctx, weight) => {
+      const note = ctx.file?.heif?.appleMakerNote;
+      const tags = note?.tags ?? ctx.metadata.inGroup('Apple').length;
+      const contentIdentifier = note?.contentIdentifier ?? (ctx.metadata.text('Apple:ContentIdentifier') || null);
+      const evidence: SignalEvidence[] = [
+        { key: 'Apple:MakerNoteTags', value: tags },
+        ...ctx.metadata.evidence(MAKE_IDS),
+      ];
+
+      // Maker notes are written by the camera firmware; Apple's in another brand's file was transplanted
+      if (!/apple/i.test(ctx.make ?? '')) {
+        return [risk({ code: 'APPLE_MAKERNOTE_FOREIGN', category: 'consistency', params: { make: ctx.make ?? '—' }, evidence }, weight)];
+      }
+
+      const findings: RuleFinding[] = [positive({ code: 'APPLE_MAKERNOTE_PRESENT', category: 'camera', params: { tags }, evidence })];
+      if (contentIdentifier) {
+        const spec = {
+          category: 'camera' as const,
+          params: { id: contentIdentifier },
+          evidence: [{ key: 'Apple:ContentIdentifier', value: contentIdentifier }],
+        };
+        findings.push(UUID_PATTERN.test(contentIdentifier)
+          ? positive({ code: 'APPLE_CONTENT_IDENTIFIER', ...spec })
+          : risk({ code: 'APPLE_CONTENT_IDENTIFIER_INVALID', ...spec }, weight));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'heif-conversion',
+    weightKey: 'heifConversion',
+    defaultWeight: 2,
+    applies: ctx => ctx.fileKind !== 'heif',
+    evaluate: (ctx, weight) => {
+      const traces: string[] = [];
+      const evidence: SignalEvidence[] = [];
+
+      const converted = readXmpHistory(ctx.metadata).events.find(event => /from image\/hei[cf]/i.test(event.parameters ?? ''));
+      if (converted) {
+        traces.push('xmp-history');
+        evidence.push({ key: 'XMP-xmpMM:HistoryParameters', value: converted.parameters });
+      }
+
+      const converterId = ['IFD0:Software', 'IFD0:ProcessingSoftware', 'XMP-xmp:CreatorTool']
+        .find(id => HEIF_CONVERTERS.some(pattern => pattern.test(ctx.metadata.text(id))));
+      if (converterId) {
+        traces.push('software');
+        evidence.push(...ctx.metadata.evidence([converterId]));
+      }
+
+      // Bytes are not HEIF but the name still is (converted, then renamed back or served as .heic)
+      const declared = `${ctx.metadata.text('File:FileTypeExtension')} ${ctx.metadata.text('File:FileName')}`;
+      if (ctx.file && /(?:^|\.)hei[cf]\b/i.test(declared)) {
+        traces.push('extension');
+        evidence.push(...ctx.metadata.evidence(['File:FileName', 'File:FileTypeExtension']));
+      }
+
+      if (!traces.length) return [];
+      return [risk({
+        code: 'HEIF_CONVERTED',
+        category: 'encoding',
+        params: { traces: traces.join(', '), kind: ctx.fileKind },
+        evidence,
+      }, weight)];
+    },
+  },
+  {
+    id: 'png-structure',
+    weightKey: 'pngStructure',
+    defaultWeight: 2,
+    applies: ctx => ctx.fileKind === 'png' && !!ctx.file?.png,
+    evaluate: (ctx, weight) => {
+      const png = ctx.file?.png;
+      if (!png) return [];
+      const findings: RuleFinding[] = [];
+      const evidence: SignalEvidence[] = [{ key: 'PNG:Chunks', value: png.chunks.join(' ') }];
+
+      // Encoders write chunks in order with valid CRCs; in-place patching breaks one or the other
+      if (png.anomalies.length) {
+        findings.push(risk({
+          code: 'PNG_CHUNK_ANOMALY',
+          category: 'encoding',
+          params: { anomalies: png.anomalies.join(', ') },
+          evidence,
+        }, weight));
+      }
+      if (png.trailingBytes > 0) {
+        findings.push(risk({
+          code: 'PNG_TRAILING_DATA',
+          category: 'encoding',
+          params: { bytes: png.trailingBytes },
+          evidence: [...evidence, { key: 'PNG:TrailingBytes', value: png.trailingBytes }],
+        }, weight));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'png-exif',
+    weightKey: 'pngCameraExif',
+    defaultWeight: 2,
+    applies: ctx => ctx.fileKind === 'png' && !!(ctx.make || ctx.model || ctx.file?.png?.exif?.make),
+    evaluate: (ctx, weight) => {
+      // Cameras and phone cameras do not write PNG: camera EXIF here was carried over by an export or conversion
+      const exif = ctx.file?.png?.exif;
+      const camera = [ctx.make ?? exif?.make, ctx.model ?? exif?.model].filter(Boolean).join(' ');
+      const evidence: SignalEvidence[] = ctx.metadata.evidence([...MAKE_IDS, ...MODEL_IDS]);
+      if (exif) evidence.push({ key: 'PNG:eXIf', value: [exif.make, exif.model].filter(Boolean).join(' ') });
+      return [risk({ code: 'PNG_CAMERA_EXIF', category: 'encoding', params: { camera }, evidence }, weight)];
+    },
+  },
+  {
+    id: 'pdf-tools',
+    weightKey: 'pdfEditor',
+    defaultWeight: 2,
+    fileKinds: ['pdf'],
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const tools = detectPdfTools(ctx.metadata);
+      const findings: RuleFinding[] = [];
+      if (tools.producer || tools.creator) {
+        findings.push(positive({
+          code: 'PDF_TOOLS',
+          category: 'software',
+          params: { producer: tools.producer ?? '—', creator: tools.creator ?? '—' },
+          evidence: tools.evidence,
+        }));
+      }
+      // Online editors are scored by pdf-online-editor
+      if (tools.editor && !tools.editor.online) {
+        findings.push(risk({
+          code: 'PDF_EDITOR_DETECTED',
+          category: 'software',
+          params: { software: tools.editor.software, field: tools.editor.field },
+          evidence: tools.evidence,
+        }, weight));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'pdf-online-editor',
+    weightKey: 'pdfOnlineEditor',
+    defaultWeight: 3,
+    fileKinds: ['pdf'],
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const editor = detectPdfTools(ctx.metadata).editor;
+      if (editor?.online) {
+        return [risk({
+          code: 'PDF_ONLINE_EDITOR',
+          category: 'software',
+          params: { software: editor.software, field: editor.field },
+          evidence: ctx.metadata.evidence(['PDF:Producer', 'XMP-pdf:Producer', 'PDF:Creator', 'XMP-xmp:CreatorTool']),
+        }, weight)];
+      }
+      // Producers of earlier revisions stay in the file after an incremental update
+      const earlier = ctx.file?.pdf?.producers.find(isOnlinePdfEditor);
+      if (!earlier) return [];
+      return [risk({
+        code: 'PDF_ONLINE_EDITOR',
+        category: 'software',
+        params: { software: earlier, field: 'PDF:Producer' },
+        evidence: [{ key: 'PDF:Producers', value: ctx.file?.pdf?.producers ?? [] }],
+      }, weight)];
+    },
+  },
+  {
+    id: 'pdf-info-xmp',
+    weightKey: 'pdfMetadataMismatch',
+    defaultWeight: 2,
+    fileKinds: ['pdf'],
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const comparison = compareInfoXmp(ctx.metadata);
+      if (comparison.mismatched.length) {
+        return [risk({
+          code: 'PDF_INFO_XMP_MISMATCH',
+          category: 'consistency',
+          params: { fields: comparison.mismatched.join(', ') },
+          evidence: comparison.evidence,
+        }, weight)];
+      }
+      if (!comparison.compared.length) return [];
+      return [positive({ code: 'PDF_INFO_XMP_CONSISTENT', category: 'consistency', params: { fields: comparison.compared.join(', ') } })];
+    },
+  },
+  {
+    id: 'pdf-incremental-updates',
+    weightKey: 'pdfIncrementalUpdates',
+    defaultWeight: 2,
+    fileKinds: ['pdf'],
+    applies: ctx => !!ctx.file?.pdf,
+    evaluate: (ctx, weight) => {
+      const pdf = ctx.file?.pdf;
+      if (!pdf) return [];
+      const findings: RuleFinding[] = [];
+      const evidence: SignalEvidence[] = [
+        { key: 'PDF:Revisions', value: pdf.revisions },
+        { key: 'PDF:Signatures', value: pdf.signatures },
+        { key: 'PDF:Producers', value: pdf.producers },
+      ];
+      if (pdf.signatures > 0) {
+        findings.push(positive({ code: 'PDF_SIGNED', category: 'document', params: { signatures: pdf.signatures }, evidence }));
+      }
+      // Each signature is saved as an update; the rest were edits after the original was written
+      const unsigned = Math.max(0, pdf.incrementalUpdates - pdf.signatures);
+      if (unsigned > 0) {
+        findings.push(risk({
+          code: 'PDF_INCREMENTAL_UPDATES',
+          category: 'document',
+          params: { updates: unsigned, signatures: pdf.signatures, producers: pdf.producers.join(' → ') || '—' },
+          evidence,
+        }, weight));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'pdf-dates',
+    weightKey: 'pdfDateGap',
+    defaultWeight: 2,
+    fileKinds: ['pdf'],
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const createId = ['PDF:CreateDate', 'XMP-xmp:CreateDate'].find(id => ctx.metadata.text(id));
+      const modifyId = ['PDF:ModifyDate', 'XMP-xmp:ModifyDate'].find(id => ctx.metadata.text(id));
+      if (!createId || !modifyId) return [];
+      const createDate = ctx.metadata.text(createId);
+      const modifyDate = ctx.metadata.text(modifyId);
+      const created = parsePdfDate(createDate);
+      const modified = parsePdfDate(modifyDate);
+      if (!created || !modified) return [];
+
+      const diffMs = pdfDateDifference(created, modified);
+      const evidence = ctx.metadata.evidence([createId, modifyId]);
+      if (diffMs < 0) {
+        return [risk({ code: 'PDF_MODIFIED_BEFORE_CREATION', category: 'temporal', params: { createDate, modifyDate }, evidence }, weight)];
+      }
+      // Generators write both dates in the same save; a later ModDate means the document was re-saved
+      if (diffMs > TEMPORAL_TOLERANCE_MINUTES * 60 * 1000) {
+        return [risk({
+          code: 'PDF_MODIFIED_AFTER_CREATION',
+          category: 'temporal',
+          params: { elapsed: describeElapsed(diffMs), elapsedMinutes: Math.floor(diffMs / 60000), createDate, modifyDate },
+          evidence,
+        }, weight)];
+      }
+      return [];
+    },
+  },
+  {
+    id: 'video-dates',
+    weightKey: 'videoDateMismatch',
+    defaultWeight: 2,
+    fileKinds: ['video'],
+    applies: ctx => !!ctx.video,
+    evaluate: (ctx, weight) => {
+      const video = ctx.video;
+      if (!video) return [];
+      const findings: RuleFinding[] = [];
+      // FFmpeg and some editors leave the header dates unset
+      if (video.zeroedDates.length) {
+        findings.push(risk({
+          code: 'VIDEO_DATES_ZEROED',
+          category: 'temporal',
+          params: { fields: video.zeroedDates.join(', ') },
+          evidence: video.evidence.filter(e => video.zeroedDates.includes(e.key)),
+        }, weight));
+      }
+      if (video.dates.length < 2) return findings;
+
+      const sorted = [...video.dates].sort((a, b) => a.date.getTime() - b.date.getTime());
+      const earliest = sorted[0];
+      const latest = sorted[sorted.length - 1];
+      const diffMs = latest.date.getTime() - earliest.date.getTime();
+      const evidence = video.dates.map(d => ({ key: d.key, value: d.value }));
+      if (diffMs > videoDateTolerance(ctx)) {
+        findings.push(risk({
+          code: 'VIDEO_DATE_MISMATCH',
+          category: 'temporal',
+          params: {
+            earliest: `${earliest.field} ${earliest.value}`,
+            latest: `${latest.field} ${latest.value}`,
+            elapsed: describeElapsed(diffMs),
+            elapsedMinutes: Math.floor(diffMs / 60000),
+          },
+          evidence,
+        }, weight));
+      } else {
+        findings.push(positive({ code: 'VIDEO_DATES_CONSISTENT', category: 'temporal', params: { fields: video.dates.map(d => d.field).join(', ') }, evidence }));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'video-encoder',
+    weightKey: 'videoReencoded',
+    defaultWeight: 3,
+    fileKinds: ['video'],
+    applies: ctx => !!ctx.video?.software.length,
+    evaluate: (ctx, weight) => {
+      const video = ctx.video;
+      if (!video) return [];
+      const evidence = video.evidence.filter(e => video.software.includes(String(e.value)));
+      if (video.reencoder) {
+        return [risk({
+          code: 'VIDEO_REENCODED',
+          category: 'software',
+          params: { software: video.reencoder.software, field: video.reencoder.field },
+          evidence,
+        }, weight)];
+      }
+      return [positive({ code: 'VIDEO_SOFTWARE', category: 'software', params: { software: [...new Set(video.software)].join(', ') }, evidence })];
+    },
+  },
+  {
+    id: 'video-location',
+    weightKey: 'videoLocation',
+    defaultWeight: 2,
+    fileKinds: ['video'],
+    applies: ctx => !!ctx.video?.location,
+    evaluate: (ctx, weight) => {
+      const location = ctx.video?.location;
+      if (!location) return [];
+      const { latitude, longitude } = location;
+      const evidence = [{ key: location.key, value: location.value }];
+      const source = location.source === 'apple' ? 'Apple' : 'Android';
+      // 0,0 is what a tool writes when it fills the atom without a fix
+      if (
+        latitude === null || longitude === null ||
+        Math.abs(latitude) > 90 || Math.abs(longitude) > 180 ||
+        (latitude === 0 && longitude === 0)
+      ) {
+        return [risk({ code: 'VIDEO_LOCATION_IMPLAUSIBLE', category: 'consistency', params: { coordinates: location.value, source }, evidence }, weight)];
+      }
+      return [positive({
+        code: 'VIDEO_LOCATION',
+        category: 'consistency',
+        params: { coordinates: `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`, source },
+        evidence,
+      })];
+    },
+  },
+  {
+    id: 'video-timing',
+    weightKey: 'videoTiming',
+    defaultWeight: 2,
+    fileKinds: ['video'],
+    applies: ctx => !!ctx.video,
+    evaluate: (ctx, weight) => {
+      const video = ctx.video;
+      if (!video) return [];
+      const findings: RuleFinding[] = [];
+      const { duration, frameRate } = video;
+
+      if (duration !== null && (duration <= 0 || duration > MAX_VIDEO_DURATION_SECONDS)) {
+        findings.push(risk({ code: 'VIDEO_DURATION_IMPLAUSIBLE', category: 'consistency', params: { duration: duration.toFixed(1) } }, weight));
+      }
+      // A track longer than the movie was cut or joined without rewriting the movie header
+      const longest = Math.max(0, ...video.trackDurations);
+      if (duration !== null && duration > 0 && longest > duration + 1) {
+        findings.push(risk({
+          code: 'VIDEO_TRACK_DURATION_MISMATCH',
+          category: 'consistency',
+          params: { track: longest.toFixed(1), duration: duration.toFixed(1) },
+        }, weight));
+      }
+      if (frameRate !== null && (frameRate < 1 || frameRate > 1000)) {
+        findings.push(risk({ code: 'VIDEO_FRAME_RATE_IMPLAUSIBLE', category: 'consistency', params: { frameRate } }, weight));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'raw-preview',
+    weightKey: 'rawPreviewMismatch',
+    defaultWeight: 3,
+    fileKinds: ['raw'],
+    applies: ctx => !!ctx.file?.raw?.images.length,
+    evaluate: (ctx, weight) => {
+      const raw = ctx.file?.raw;
+      const sensor = raw?.activeArea ?? (raw && largestImage(raw.images, 'raw'));
+      const preview = raw && largestImage(raw.images, 'preview');
+      if (!sensor?.width || !sensor.height || !preview?.width || !preview.height) return [];
+
+      const sensorAspect = aspectRatio(sensor.width, sensor.height);
+      const previewAspect = aspectRatio(preview.width, preview.height);
+      const params = {
+        preview: `${preview.width}x${preview.height}`,
+        raw: `${sensor.width}x${sensor.height}`,
+      };
+      const evidence = [
+        { key: 'RAW:SensorSize', value: params.raw },
+        { key: 'RAW:PreviewSize', value: params.preview },
+      ];
+      // Larger than the sensor data: the preview was not rendered from it
+      const larger = Math.max(preview.width, preview.height) > Math.max(sensor.width, sensor.height) * (1 + RAW_ASPECT_TOLERANCE);
+      if (!larger && sameAspect(previewAspect, sensorAspect)) {
+        return [positive({ code: 'RAW_PREVIEW_CONSISTENT', category: 'consistency', params, evidence })];
+      }
+      // In-camera aspect ratio settings crop the preview, not the sensor data
+      if (!larger && CAMERA_ASPECT_RATIOS.some(ratio => sameAspect(previewAspect, ratio))) return [];
+      return [risk({ code: 'RAW_PREVIEW_MISMATCH', category: 'consistency', params, evidence }, weight)];
+    },
+  },
+  {
+    id: 'raw-format',
+    weightKey: 'rawFormatMismatch',
+    defaultWeight: 2,
+    fileKinds: ['raw'],
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const raw = ctx.file?.raw;
+      const format = raw?.format ?? ctx.metadata.text('File:FileType').toLowerCase();
+      const make = ctx.make ?? raw?.make ?? null;
+      const software = raw?.software ?? ctx.metadata.text('IFD0:Software');
+      const evidence: SignalEvidence[] = [
+        { key: 'RAW:Format', value: format || null },
+        ...ctx.metadata.evidence([...MAKE_IDS, 'IFD0:Software']),
+      ];
+      const findings: RuleFinding[] = [];
+
+      if (make && format && rawFormatMatchesMake(format, make) === false) {
+        findings.push(risk({ code: 'RAW_FORMAT_MISMATCH', category: 'camera', params: { format: format.toUpperCase(), make }, evidence }, weight));
+      } else if (format) {
+        findings.push(positive({ code: 'RAW_FORMAT', category: 'camera', params: { format: format.toUpperCase(), camera: [make, ctx.model ?? raw?.model].filter(Boolean).join(' ') || '—' }, evidence }));
+      }
+      // Rewrapping as DNG keeps the sensor data as recorded
+      if (software && isDngConverter(software)) {
+        findings.push(positive({ code: 'RAW_DNG_CONVERTER', category: 'software', params: { software }, evidence: ctx.metadata.evidence(['IFD0:Software']) }));
+      }
+      return findings;
+    },
+  },
+  {
+    id: 'raw-original-name',
+    weightKey: 'rawOriginalName',
+    defaultWeight: 2,
+    fileKinds: ['raw'],
+    applies: ctx => !!(ctx.file?.raw?.originalRawFileName || ctx.metadata.has('IFD0:OriginalRawFileName')),
+    evaluate: (ctx, weight) => {
+      const name = ctx.file?.raw?.originalRawFileName || ctx.metadata.text('IFD0:OriginalRawFileName');
+      const extension = name.split('.').pop()?.toLowerCase() ?? '';
+      const make = ctx.make ?? ctx.file?.raw?.make ?? null;
+      const evidence = [{ key: 'IFD0:OriginalRawFileName', value: name }, ...ctx.metadata.evidence(MAKE_IDS)];
+      if (make && rawFormatMatchesMake(extension, make) === false) {
+        return [risk({ code: 'RAW_ORIGINAL_NAME_MISMATCH', category: 'camera', params: { name, make }, evidence }, weight)];
+      }
+      return [positive({ code: 'RAW_ORIGINAL_NAME', category: 'camera', params: { name }, evidence })];
+    },
+  },
+  {
+    id: 'ela-anomaly',
+    weightKey: 'elaAnomaly',
+    defaultWeight: 0,
+    applies: ctx => !!ctx.file?.ela && (ctx.config.weights.elaAnomaly ?? 0) > 0,
+    evaluate: (ctx, weight) => {
+      const ela = ctx.file?.ela;
+      if (!ela || !isElaAnomalous(ela)) return [];
+      return [risk({
+        code: 'ELA_ANOMALY',
+        category: 'pixels',
+        params: {
+          outliers: `${Math.round(ela.outlierRatio * 1000) / 10}%`,
+          quality: ela.quality,
+          maxError: ela.maxBlockError,
+          medianError: ela.medianBlockError,
+        },
+        evidence: [
+          { key: 'ELA:OutlierRatio', value: ela.outlierRatio },
+          { key: 'ELA:MaxBlockError', value: ela.maxBlockError },
+          { key: 'ELA:MedianBlockError', value: ela.medianBlockError },
+        ],
+      }, weight)];
+    },
+  },
+  {
+    id: 'noise-inconsistency',
+    weightKey: 'noiseInconsistency',
+    defaultWeight: 0,
+    applies: ctx => !!ctx.file?.noise && (ctx.config.weights.noiseInconsistency ?? 0) > 0,
+    evaluate: (ctx, weight) => {
+      const noise = ctx.file?.noise;
+      if (!noise || !isNoiseInconsistent(noise)) return [];
+      return [risk({
+        code: 'NOISE_INCONSISTENCY',
+        category: 'pixels',
+        params: {
+          blocks: `${Math.round(noise.inconsistency * 1000) / 10}%`,
+          median: noise.medianNoise,
+          low: noise.lowNoise,
+          high: noise.highNoise,
+        },
+        evidence: [
+          { key: 'Noise:Inconsistency', value: noise.inconsistency },
+          { key: 'Noise:MedianSigma', value: noise.medianNoise },
+          { key: 'Noise:Range', value: `${noise.lowNoise}-${noise.highNoise}` },
+        ],
+      }, weight)];
+    },
+  },
+  {
+    id: 'double-jpeg',
+    weightKey: 'doubleJpeg',
+    defaultWeight: 0,
+    // Messengers always recompress; the digital transport signal already covers that
+    applies: ctx => !!ctx.file?.doubleJpeg && !ctx.isDigitalTransport && (ctx.config.weights.doubleJpeg ?? 0) > 0,
+    evaluate: (ctx, weight) => {
+      const result = ctx.file?.doubleJpeg;
+      if (!result || result.probability < DOUBLE_JPEG_MIN_PROBABILITY) return [];
+      const aligned = result.aligned.probability >= result.nonAligned.probability;
+      const [sx, sy] = result.nonAligned.shift ?? [0, 0];
+      return [risk({
+        code: aligned ? 'DOUBLE_JPEG_ALIGNED' : 'DOUBLE_JPEG_NON_ALIGNED',
+        category: 'pixels',
+        params: {
+          probability: Math.round(result.probability * 100),
+          shift: `${sx},${sy}`,
+          step: result.nonAligned.step ?? 0,
+        },
+        evidence: [
+          { key: 'DoubleJPEG:AlignedProbability', value: result.aligned.probability },
+          { key: 'DoubleJPEG:NonAlignedProbability', value: result.nonAligned.probability },
+          ...ctx.metadata.evidence(['File:EncodingProcess', 'File:YCbCrSubSampling']),
+        ],
+      }, weight)];
+    },
+  },
+  {
+    id: 'copy-move',
+    weightKey: 'copyMove',
+    defaultWeight: 3,
+    // Recompression does not create clones: applies to transported files too
+    applies: ctx => !!ctx.file?.copyMove,
+    evaluate: (ctx, weight) => {
+      const result = ctx.file?.copyMove;
+      if (!result || result.confidence < COPY_MOVE_MIN_CONFIDENCE || !result.regions.length) return [];
+      const [strongest] = result.regions;
+      return [risk({
+        code: 'COPY_MOVE_DETECTED',
+        category: 'cloning',
+        params: {
+          matches: result.matches,
+          regions: result.regions.length,
+          confidence: Math.round(result.confidence * 100),
+          source: `${strongest.source.x},${strongest.source.y}`,
+          target: `${strongest.target.x},${strongest.target.y}`,
+        },
+        evidence: [
+          { key: 'CopyMove:Matches', value: result.matches },
+          { key: 'CopyMove:Confidence', value: result.confidence },
+          { key: 'CopyMove:Offset', value: strongest.offset.join(',') },
+        ],
+      }, weight)];
+    },
+  },
+  {
+    id: 'digital-transport',
+    weightKey: 'digitalTransport',
+    defaultWeight: 2,
+    applies: ctx => ctx.isDigitalTransport,
+    evaluate: (ctx, weight) => [
+      risk({ code: 'DIGITAL_TRANSPORT', category: 'transport', evidence: ctx.transportEvidence }, weight)
+    ],
+  },
+  {
+    id: 'screenshot',
+    weightKey: 'screenshot',
+    defaultWeight: 0,
+    applies: ctx => ctx.screenshot.isScreenshot,
+    evaluate: (ctx, weight) => [
+      risk({
+        code: 'SCREENSHOT_DETECTED',
+        category: 'screenshot',
+        severity: weight > 0 ? undefined : 'info',
+        params: {
+          platform: SCREENSHOT_PLATFORM_LABELS[ctx.screenshot.platform ?? 'desktop'],
+          markers: ctx.screenshot.markers.join(', '),
+        },
+        evidence: ctx.screenshot.evidence,
+      }, weight)
+    ],
+  },
+  {
+    id: 'specific-icc',
+    weightKey: 'specificICC',
+    applies: () => true,
+    evaluate: (ctx, weight) => {
+      const iccProfile = ctx.metadata.text('ICC_Profile:ProfileDescription');
+      if (iccProfile && !['sRGB', 'Adobe RGB', 'ProPhoto RGB', 'Display P3', 'DCI-P3 D65 Gamut with sRGB Transfer'].includes(iccProfile)) {
+        return [risk({
+          code: 'SPECIFIC_ICC',
+          category: 'color',
+          params: { profile: iccProfile },
+          evidence: ctx.metadata.evidence(['ICC_Profile:ProfileDescription'])
+        }, weight)];
+      }
+      return [];
+    },
+  },
+];
+
+BUILTIN_RULES.forEach(rule => registerValidationRule(rule));
+
+/**
+ * Turn a rule finding into a signal with rendered message and severity
+ */
+function toSignal(finding: RuleFinding, rule?: string): ValidationSignal {
+  const params = finding.params ?? {};
+  const severity: SignalSeverity = finding.severity ?? (
+    finding.kind === 'positive' ? 'info' :
+    finding.weight >= 3 ? 'high' :
+    finding.weight >= 2 ? 'medium' : 'low'
+  );
+  return {
+    code: finding.code,
+    kind: finding.kind,
+    category: finding.category,
+    severity,
+    weight: finding.weight,
+    evidence: finding.evidence ?? [],
+    params,
+    message: formatSignalMessage(finding.code, params),
+    ...(rule && { rule }),
+  };
+}
+
+function dedupeSignals(signals: ValidationSignal[]): ValidationSignal[] {
+  const seen = new Set<string>();
+  return signals.filter(signal => {
+    const key = `${signal.code}|${signal.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
 
-  return { isDigitalTransport, reasons };
+/**
+ * Environment read from Vite env vars; all features enabled when import.meta.env is
+ * unavailable (e.g. scripts running under Node)
+ */
+export function getDefaultEnvironment(): ValidationEnvironment {
+  const env: Record<string, string | undefined> = import.meta.env ?? {};
+  return {
+    debug: env.VITE_DEBUG_EXIF === 'true',
+    features: {
+      digitalTransport: env.VITE_FEATURE_DIGITAL_TRANSPORT !== 'false',
+      silentEdit: env.VITE_FEATURE_SILENT_EDIT !== 'false',
+    },
+  };
+}
+
+function resolveReferenceTime(value: ValidationOptions['referenceTime']): Date {
+  if (value === undefined) return new Date();
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    console.warn('Invalid validation reference time, using current time:', value);
+    return new Date();
+  }
+  return date;
 }
 
 /**
- * Main validation function implementing proportional scoring
+ * Main validation function implementing proportional scoring.
+ * Runs every registered rule (see validationRules.ts) that applies and is not disabled.
+ * Deterministic for a given input, config, ruleset version, reference time and environment.
  */
-export function validateImageMetadata(exifData: any, config: ValidationConfig = DEFAULT_CONFIG): ValidationResult {
-  const debugEnabled = import.meta.env.VITE_DEBUG_EXIF === 'true';
+export function validateImageMetadata(
+  exifData: MetadataInput,
+  config: ValidationConfig = DEFAULT_CONFIG,
+  options: ValidationOptions = {}
+): ValidationResult {
+  const environment = options.environment ?? getDefaultEnvironment();
+  const referenceTime = resolveReferenceTime(options.referenceTime);
+  const debugEnabled = environment.debug;
   const debugInfo: any = {};
-  
-  let score = 0;
-  const positiveSignals: string[] = [];
-  const riskSignals: string[] = [];
+
+  const md = normalizeMetadata(exifData);
+  const fileKind = resolveFileKind(md, options.fileAnalysis ?? null);
+  const pdf = options.fileAnalysis?.pdf;
+  const video = fileKind === 'video' ? readVideoMetadata(md, options.fileAnalysis?.video ?? null) : null;
 
   // Get basic info
-  const make = exifData['EXIF:Make'] || exifData['IFD0:Make'] || null;
-  const model = exifData['EXIF:Model'] || exifData['IFD0:Model'] || null;
-  const canonicalCaptureDate = getCanonicalCaptureDate(exifData);
+  const make = md.text('IFD0:Make') || null;
+  const model = md.text('IFD0:Model') || null;
+  const canonicalCaptureDate = getCanonicalCaptureDate(md);
 
   if (debugEnabled) {
     debugInfo.basicInfo = { make, model, canonicalCaptureDate };
   }
 
-  // 1. Check for missing critical EXIF data with combined penalty
-  const hasMake = !!make;
-  const hasModel = !!model;
-  const hasCreateDate = hasAnyCreateDate(exifData);
+  const hasCreateDate = hasAnyCreateDate(md);
 
   // Detect editor and AI early for combined penalty logic
-  const editorResult = detectRealEditor(exifData);
-  const aiResult = detectAIIndicators(exifData);
+  const editorResult = detectRealEditor(md);
+  const aiResult = detectAIIndicators(md);
 
   // Detect digital transport BEFORE scoring
-  const digitalTransportEnabled = import.meta.env.VITE_FEATURE_DIGITAL_TRANSPORT !== 'false';
-  const dt = digitalTransportEnabled ? detectDigitalTransport(exifData) : { isDigitalTransport: false, reasons: [] };
+  const digitalTransportEnabled = environment.features.digitalTransport;
+  const dt = digitalTransportEnabled
+    ? detectDigitalTransport(md)
+    : { isDigitalTransport: false, reasons: [], evidence: [] };
   const isDigitalTransport = dt.isDigitalTransport;
+  const screenshot = detectScreenshot(md, options.fileAnalysis?.png ?? null);
 
   // Detect hard signals for combined penalty
-  const photoshopGroupDetected = !!(
-    exifData['Photoshop:PhotoshopQuality'] ||
-    exifData['Photoshop:PhotoshopFormat'] ||
-    exifData['Photoshop:ProgressiveScans']
-  );
-  const isProgressiveJPEG = String(exifData['File:EncodingProcess'] || '')
-    .toLowerCase()
-    .includes('progressive');
-  const isSubsampling444 = /4:4:4/.test(String(exifData['File:YCbCrSubSampling'] || ''));
+  const photoshopGroupDetected =
+    md.has('Photoshop:PhotoshopQuality') ||
+    md.has('Photoshop:PhotoshopFormat') ||
+    md.has('Photoshop:ProgressiveScans');
+  const isSubsampling444 = /4:4:4/.test(md.text('File:YCbCrSubSampling'));
 
-  const cameraExifMissing = !hasMake && !hasModel && !hasCreateDate;
+  const cameraExifMissing = !make && !model && !hasCreateDate;
   
   // Hard signals = real indicators of manipulation (NOT progressive JPEG)
   const hasHardSignals = 
     editorResult.isEditor ||
     aiResult.hasAI ||
     photoshopGroupDetected ||
-    isSubsampling444;
+    isSubsampling444 ||
+    !!options.fileAnalysis?.png?.anomalies.length ||
+    (!!pdf && pdf.incrementalUpdates > pdf.signatures) ||
+    !!video?.reencoder;
 
   // === Insufficient Metadata Detection (EARLY) ===
   // Detect images with completely stripped metadata (deliberate removal or basic export)
   // This is checked early to allow early exit and avoid false positives
 
-  // 1. No camera EXIF (Make, Model, DateTime)
-  const noCameraExif = 
-    !exifData['IFD0:Make'] && 
-    !exifData['IFD0:Model'] && 
-    !exifData['EXIF:DateTimeOriginal'] && 
-    !exifData['IFD0:DateTime'] && 
-    !exifData['EXIF:DateTime'] && 
-    !exifData['ExifIFD:DateTimeOriginal'] && 
-    !exifData['EXIF:CreateDate'] && 
-    !exifData['IFD0:CreateDate'] && 
-    !exifData['ExifIFD:CreateDate'];
+  // 1. No camera EXIF (Make, Model, capture date)
+  const noCameraExif = ![...MAKE_IDS, ...MODEL_IDS, 'ExifIFD:DateTimeOriginal', 'ExifIFD:CreateDate'].some(id => md.has(id));
 
   // 2. No software signatures (editing/processing indicators)
-  const allKeys = Object.keys(exifData);
-  const noSoftwareSignature = !allKeys.some(k => 
-    k.startsWith('XMP:') || 
-    k.startsWith('Photoshop:') || 
-    k.startsWith('APP14:') || 
-    k.includes('Adobe') ||
-    k.startsWith('ICC_Profile:') || 
-    k.startsWith('ICC-header:') ||
-    k === 'EXIF:Software' ||
-    k === 'IFD0:Software' ||
-    k === 'EXIF:ProcessingSoftware'
+  const tags = md.tags();
+  const noSoftwareSignature = !tags.some(t =>
+    t.family === 'XMP' ||
+    t.group === 'Photoshop' ||
+    t.group === 'APP14' ||
+    t.originalKey.includes('Adobe') ||
+    t.family === 'ICC_Profile' ||
+    t.id === 'IFD0:Software' ||
+    t.id === 'IFD0:ProcessingSoftware'
   );
 
   // 3. Only container metadata present (basic file info)
-  const hasOnlyContainer = allKeys
-    .filter(k => k !== 'SourceFile' && !k.startsWith('System:'))
-    .every(k => 
-      k.startsWith('File:') || 
-      k.startsWith('JFIF:') ||
-      /^PNG:(ImageWidth|ImageHeight|BitDepth|ColorType|Compression|Filter|Interlace|SamplesPerPixel|Gamma|Chromaticities|SRGBRendering(?:Intent)?)$/.test(k) ||
-      /^PNG-pHYs:(PixelsPerUnitX|PixelsPerUnitY|PixelUnits)$/.test(k) ||
-      (k.startsWith('IFD0:') && /^IFD0:(Orientation|XResolution|YResolution|ResolutionUnit|YCbCrPositioning)$/.test(k)) ||
-      k.startsWith('IFD1:') ||
-      k.startsWith('Composite:') ||
-      k.startsWith('ExifTool:')
+  const hasOnlyContainer = tags
+    .filter(t => t.id !== 'File:SourceFile' && t.group !== 'System')
+    .every(t =>
+      t.group === 'File' ||
+      t.group === 'JFIF' ||
+      /^PNG:(ImageWidth|ImageHeight|BitDepth|ColorType|Compression|Filter|Interlace|SamplesPerPixel|Gamma|Chromaticities|SRGBRendering(?:Intent)?)$/.test(t.id) ||
+      /^PNG-pHYs:(PixelsPerUnitX|PixelsPerUnitY|PixelUnits)$/.test(t.id) ||
+      /^IFD0:(Orientation|XResolution|YResolution|ResolutionUnit|YCbCrPositioning)$/.test(t.id) ||
+      t.group === 'IFD1' ||
+      t.group === 'Composite' ||
+      t.group === 'ExifTool'
     );
 
-  const insufficientMetadata = noCameraExif && noSoftwareSignature && hasOnlyContainer;
+  // Documents carry no camera EXIF; they are insufficient when the generation metadata is missing
+  // and videos when no recording date, device or software is left
+  const insufficientMetadata = fileKind === 'pdf'
+    ? !tags.some(t => /^(?:PDF|XMP-pdf|XMP-xmp):(?:Producer|Creator|CreatorTool|CreateDate|ModifyDate)$/.test(t.id))
+    : video
+      ? !video.dates.length && !video.make && !video.model && !video.software.length
+      : noCameraExif && noSoftwareSignature && hasOnlyContainer;
+  const insufficientRecommendation = fileKind === 'pdf'
+    ? DOCUMENT_INSUFFICIENT_RECOMMENDATION
+    : video ? VIDEO_INSUFFICIENT_RECOMMENDATION : null;
+  const completeness = computeCompleteness(md, fileKind);
 
   // === EARLY EXIT for Insufficient Metadata ===
   // When metadata is insufficient AND no hard manipulation signals detected,
-  // return "Inconclusivo" instead of applying individual penalties (avoids false positives)
-  if (insufficientMetadata && !hasHardSignals && !isDigitalTransport) {
+  // return "Inconclusivo" instead of applying individual penalties (avoids false positives).
+  // Screenshots are classified as such below rather than as insufficient metadata.
+  if (insufficientMetadata && !hasHardSignals && !isDigitalTransport && !screenshot.isScreenshot) {
     return {
       level: 0,
       label: 'Inconclusivo',
@@ -684,161 +2236,76 @@ export function validateImageMetadata(exifData: any, config: ValidationConfig =
       canonicalCaptureDate: null,
       make: null,
       model: null,
-      positiveSignals: ['Nenhum software de edição declarado'],
-      riskSignals: ['Metadados insuficientes para validação'],
-      recommendation: 'Metadados insuficientes para validação — possível imagem da web, screenshot ou exportação sem EXIF. Solicite o arquivo original do dispositivo.',
+      positiveSignals: [toSignal(positive({ code: 'NO_EDITOR_DECLARED', category: 'software' }))],
+      riskSignals: [toSignal(risk({ code: 'INSUFFICIENT_METADATA', category: 'coverage', severity: 'info' }, 0))],
+      recommendation: insufficientRecommendation ??
+        'Metadados insuficientes para validação — possível imagem da web, screenshot ou exportação sem EXIF. Solicite o arquivo original do dispositivo.',
       isDigitalTransport: false,
       insufficientMetadata: true,
       hasStrongC2PA: false,
+      ...(config.profile && { profile: config.profile }),
+      rulesetVersion: RULESET_VERSION,
+      referenceTime: referenceTime.toISOString(),
+      environment,
+      explanation: explainVerdict({ score: 0, level: 0, riskSignals: [] }, config.thresholds),
+      completeness,
+      confidence: computeConfidence({ score: 0, level: 0, insufficientMetadata: true }, completeness, config.thresholds),
       ...(debugEnabled && { debugInfo: { earlyExit: 'insufficientMetadata', basicInfo: { make, model, canonicalCaptureDate } } })
     };
   }
 
-  // Block missing EXIF penalties when digital transport detected
-  if (!isDigitalTransport) {
-    // Apply combined penalty if all camera EXIF missing and no hard signals
-    if (cameraExifMissing && !hasHardSignals) {
-      const w = config.weights.cameraExifAbsentCombined ?? 1;
-      score += w;
-      riskSignals.push(`EXIF de câmera ausente (Make/Model/Data) (+${w})`);
-    } else {
-      // Otherwise apply individual penalties
-      if (!hasMake) {
-        score += config.weights.makeAbsent;
-        riskSignals.push(`Marca da câmera ausente (+${config.weights.makeAbsent})`);
-      } else {
-        positiveSignals.push(`Marca da câmera presente: ${make}`);
-      }
-
-      if (!hasModel) {
-        score += config.weights.modelAbsent;
-        riskSignals.push(`Modelo da câmera ausente (+${config.weights.modelAbsent})`);
-      } else {
-        positiveSignals.push(`Modelo da câmera presente: ${model}`);
-      }
-
-      if (!hasCreateDate) {
-        score += config.weights.dateTimeAbsent;
-        riskSignals.push(`📅 Data de criação ausente (+${config.weights.dateTimeAbsent})`);
-      } else if (canonicalCaptureDate) {
-        positiveSignals.push(`📅 Data de criação presente: ${canonicalCaptureDate}`);
-      }
-    }
-  } else {
-    // Digital transport detected - add positive signals but no penalties
-    if (hasMake) positiveSignals.push(`Marca da câmera presente: ${make}`);
-    if (hasModel) positiveSignals.push(`Modelo da câmera presente: ${model}`);
-    if (canonicalCaptureDate) positiveSignals.push(`📅 Data de criação presente: ${canonicalCaptureDate}`);
-  }
-
-  // 2. Editor detection (now with fallback)
-  if (editorResult.isEditor) {
-    score += config.weights.editorDetected;
-    const source = editorResult.source ? ` [${editorResult.source}]` : '';
-    riskSignals.push(`Software de edição detectado: ${editorResult.software}${source} (+${config.weights.editorDetected})`);
-  } else {
-    positiveSignals.push('Nenhum software de edição declarado');
-  }
-
-  // 2.5. Silent edit signals (feature toggle + cap)
-  const silentEditEnabled = import.meta.env.VITE_FEATURE_SILENT_EDIT !== 'false';
-  if (silentEditEnabled && !editorResult.isEditor) {
-    const silentEdit = detectSilentEditSignals(exifData);
-    if (silentEdit.count > 0) {
-      const maxSilent = config.silentEditMax ?? 2;
-      const applied = Math.min(silentEdit.count, maxSilent);
-      score += applied * config.weights.silentEditSignal;
-      for (let i = 0; i < applied; i++) {
-        riskSignals.push(`Indício de edição silenciosa: ${silentEdit.reasons[i]} (+${config.weights.silentEditSignal})`);
-      }
-      if (debugEnabled && silentEdit.count > maxSilent) {
-        debugInfo.silentEditCapped = `${silentEdit.count - maxSilent} sinais não aplicados (cap=${maxSilent})`;
-      }
-    }
-  }
-
-  // 3. AI indicators (now includes C2PA) - sum each indicator individually
-  if (aiResult.hasAI) {
-    // Add points for EACH indicator detected
-    for (const indicator of aiResult.indicators) {
-      score += config.weights.aiIndicators; // Add 2 points per indicator
-      riskSignals.push(`${indicator} (+${config.weights.aiIndicators})`);
-    }
-    
-    // Mandatory Adjustment 1: Strong bump only with edited + DigitalSourceType AI
-    if (aiResult.hasStrongC2PA && (config.c2paStrongBump ?? 0) > 0) {
-      score += config.c2paStrongBump!;
-      riskSignals.push(`Sinal C2PA forte de IA (+${config.c2paStrongBump})`);
-    }
-  }
-
-  // 4. Technical consistencies
-  const dimensionCheck = checkDimensionConsistency(exifData);
-  if (!dimensionCheck.consistent) {
-    score += config.weights.dimensionMismatch;
-    riskSignals.push(`${dimensionCheck.details} (+${config.weights.dimensionMismatch})`);
-  } else if (dimensionCheck.hasData) {
-    positiveSignals.push(dimensionCheck.details);
-  }
-
-  const temporalCheck = checkTemporalConsistency(exifData);
-  if (!temporalCheck.consistent) {
-    score += config.weights.temporalInconsistency;
-    riskSignals.push(`📅 ${temporalCheck.details} (+${config.weights.temporalInconsistency})`);
-  } else if (temporalCheck.hasData) {
-    positiveSignals.push(`📅 ${temporalCheck.details}`);
-  }
+  const ctx: RuleContext = {
+    exifData: md.raw,
+    metadata: md,
+    config,
+    make,
+    model,
+    canonicalCaptureDate,
+    editor: editorResult,
+    ai: aiResult,
+    isDigitalTransport,
+    transportEvidence: dt.evidence,
+    screenshot,
+    video,
+    cameraExifMissing,
+    hasHardSignals,
+    features: {
+      silentEdit: environment.features.silentEdit,
+    },
+    debug: debugEnabled ? debugInfo : null,
+    referenceTime,
+    file: options.fileAnalysis ?? null,
+    fileKind,
+  };
 
-  // Check for impossible dates (future)
-  try {
-    const dto = exifData['ExifIFD:DateTimeOriginal'] || exifData['EXIF:DateTimeOriginal'];
-    const dtoOffset = exifData['ExifIFD:OffsetTimeOriginal'] || 
-                     exifData['EXIF:OffsetTimeOriginal'] ||
-                     exifData['ExifIFD:OffsetTime'] || 
-                     exifData['EXIF:OffsetTime'];
-    
-    const captureDate = parseExifDate(dto, dtoOffset);
-    
-    if (captureDate) {
-      const now = new Date();
-      const diffMs = captureDate.getTime() - now.getTime();
-      
-      // More than 10 minutes in the future
-      if (diffMs > 10 * 60 * 1000) {
-        score += config.weights.impossibleDate;
-        riskSignals.push(`📅 Data de captura no futuro: ${dto} (+${config.weights.impossibleDate})`);
-      }
+  // Run registered rules; a rule that throws on unusual metadata is skipped, not the validation
+  const signals: ValidationSignal[] = [];
+  const ruleErrors: Record<string, string> = {};
+  const disabled = new Set(config.disabledRules ?? []);
+  const rules = options.rules ?? getValidationRules();
+
+  for (const rule of rules) {
+    if (disabled.has(rule.id) || !ruleCoversFileKind(rule, ctx.fileKind)) continue;
+    try {
+      if (!rule.applies(ctx)) continue;
+      signals.push(...rule.evaluate(ctx, resolveRuleWeight(rule, config)).map(finding => toSignal(finding, rule.id)));
+    } catch (error) {
+      ruleErrors[rule.id] = error instanceof Error ? error.message : String(error);
+      console.warn(`Validation rule ${rule.id} failed:`, error);
     }
-  } catch (e) {
-    // Silently ignore parsing errors
   }
 
-  // 5. Technical indicators (blocked when digital transport detected)
-  if (!isDigitalTransport && exifData['File:EncodingProcess']?.includes('Progressive')) {
-    score += config.weights.progressiveDCT;
-    riskSignals.push(`Codificação JPEG progressiva (+${config.weights.progressiveDCT})`);
-  }
+  // Deduplicate before scoring so a finding repeated by several rules counts once
+  const uniqueRiskSignals = dedupeSignals(signals.filter(signal => signal.kind === 'risk'));
+  const uniquePositiveSignals = dedupeSignals(signals.filter(signal => signal.kind === 'positive'));
+  const credit = uniquePositiveSignals.reduce((sum, signal) => sum + signal.weight, 0);
 
-  if (!isDigitalTransport && exifData['File:YCbCrSubSampling']?.includes('4:4:4')) {
-    score += config.weights.subsampling444;
-    riskSignals.push(`Subamostragem YCbCr 4:4:4 incomum (+${config.weights.subsampling444})`);
-  }
-
-  // Add consolidated signal for digital transport (+2 points)
-  if (isDigitalTransport) {
-    const transportWeight = 2;
-    score += transportWeight;
-    riskSignals.push(`🚚 Transporte digital: metadados insuficientes — avaliação limitada (+${transportWeight})`);
-  }
-
-  const iccProfile = exifData['ICC_Profile:ProfileDescription'];
-  if (iccProfile && !['sRGB', 'Adobe RGB', 'ProPhoto RGB', 'Display P3', 'DCI-P3 D65 Gamut with sRGB Transfer'].includes(iccProfile)) {
-    score += config.weights.specificICC;
-    riskSignals.push(`Perfil ICC específico: ${iccProfile} (+${config.weights.specificICC})`);
-  }
+  // Positive findings with a credit offset risk, never below zero
+  const score = Math.max(0, uniqueRiskSignals.reduce((sum, signal) => sum + signal.weight, 0) - credit);
 
   if (debugEnabled) {
-    debugInfo.scoring = { score, positiveSignals, riskSignals };
+    debugInfo.scoring = { score, positiveSignals: uniquePositiveSignals, riskSignals: uniqueRiskSignals };
+    if (Object.keys(ruleErrors).length) debugInfo.ruleErrors = ruleErrors;
   }
 
 
@@ -854,9 +2321,13 @@ export function validateImageMetadata(exifData: any, config: ValidationConfig =
     if (isDigitalTransport) {
       label = 'Baixo (Transporte Digital)';
       recommendation = 'Metadados insuficientes - provável transporte digital (avaliação limitada)';
+    } else if (screenshot.isScreenshot) {
+      label = 'Captura de Tela';
+      recommendation = SCREENSHOT_RECOMMENDATION;
     } else if (insufficientMetadata) {
       label = 'Baixo (Inconclusivo)';
-      recommendation = 'Metadados insuficientes para validação — possível remoção deliberada ou exportação sem EXIF. Solicite o original do dispositivo.';
+      recommendation = insufficientRecommendation ??
+        'Metadados insuficientes para validação — possível remoção deliberada ou exportação sem EXIF. Solicite o original do dispositivo.';
     } else {
       label = 'Baixo';
       recommendation = 'Imagem apresenta características consistentes com captura original';
@@ -866,7 +2337,9 @@ export function validateImageMetadata(exifData: any, config: ValidationConfig =
     label = 'Moderado';
     recommendation = isDigitalTransport
       ? 'Metadados insuficientes - provável transporte digital (avaliação limitada)'
-      : 'Verificar sinais de manipulação identificados';
+      : screenshot.isScreenshot
+        ? `Captura de tela com sinais a verificar. ${SCREENSHOT_RECOMMENDATION}`
+        : 'Verificar sinais de manipulação identificados';
   } else if (score <= config.thresholds.level2Max) {
     level = 2;
     label = 'Forte';
@@ -877,9 +2350,10 @@ export function validateImageMetadata(exifData: any, config: ValidationConfig =
     recommendation = 'Alta probabilidade de manipulação - investigação forense recomendada';
   }
 
-  // Deduplicate signals (digital transport already added as consolidated signal above)
-  const uniqueRiskSignals = Array.from(new Set(riskSignals));
-  const uniquePositiveSignals = Array.from(new Set(positiveSignals));
+  if (!(level === 0 && insufficientMetadata)) {
+    if (fileKind === 'pdf') recommendation = DOCUMENT_RECOMMENDATIONS[level];
+    if (video) recommendation = VIDEO_RECOMMENDATIONS[level];
+  }
 
   return {
     level,
@@ -892,8 +2366,16 @@ export function validateImageMetadata(exifData: any, config: ValidationConfig =
     riskSignals: uniqueRiskSignals,
     recommendation,
     isDigitalTransport: isDigitalTransport,
+    isScreenshot: screenshot.isScreenshot,
     insufficientMetadata: insufficientMetadata,
     hasStrongC2PA: aiResult?.hasStrongC2PA || false,
+    ...(config.profile && { profile: config.profile }),
+    rulesetVersion: RULESET_VERSION,
+    referenceTime: referenceTime.toISOString(),
+    environment,
+    explanation: explainVerdict({ score, level, riskSignals: uniqueRiskSignals }, config.thresholds),
+    completeness,
+    confidence: computeConfidence({ score, level, insufficientMetadata, isDigitalTransport, isScreenshot: screenshot.isScreenshot }, completeness, config.thresholds),
     ...(debugEnabled && { debugInfo })
   };
-}
\ No newline at end of file
+}
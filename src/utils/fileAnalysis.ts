@@ -0,0 +1,130 @@
+// Analysis of the file bytes (structures ExifTool/ExifReader do not report)
+// Computed once when the file is available and stored with the validation result,
+// so stored records can be re-validated without downloading the file again
+
+import { extractQuantizationTables, isJpeg, type QuantizationTable } from './jpegStructure';
+import { readQuantizationDigest, type QuantizationDigest } from './jpegQuantization';
+import type { ThumbnailAnalysis } from './thumbnailComparison';
+import type { C2paSummary } from './c2pa';
+import type { ElaSummary } from './ela';
+import type { DoubleJpegSummary } from './doubleJpeg';
+import type { CopyMoveSummary } from './copyMove';
+import type { NoiseSummary } from './noiseMap';
+import { readHeifStructure, type HeifStructure } from './heifStructure';
+import { readPngStructure, type PngStructure } from './pngStructure';
+import { readPdfStructure, type PdfStructure } from './pdfStructure';
+import { readVideoStructure, type VideoStructure } from './videoStructure';
+import { readRawStructure, type RawStructure } from './rawStructure';
+
+/**
+ * Bump when fields are added or their meaning changes
+ */
+export const FILE_ANALYSIS_VERSION = 14;
+
+export interface JpegAnalysis {
+  quantizationTables: QuantizationTable[];
+  quantizationDigest?: QuantizationDigest;  // ExifTool JPEGDigest of the DQT segments (absent before version 13)
+}
+
+export interface FileAnalysis {
+  version: number;
+  jpeg?: JpegAnalysis;
+  heif?: HeifStructure;            // HEIF/HEIC item structure and Apple maker note
+  png?: PngStructure;              // PNG chunk layout, text chunks and eXIf
+  pdf?: PdfStructure;              // PDF revisions, signatures and producers
+  video?: VideoStructure;          // MP4/MOV movie and track headers, encoder and location
+  raw?: RawStructure;              // Camera RAW/DNG images (sensor data, previews) and DNG fields
+  thumbnail?: ThumbnailAnalysis;   // EXIF thumbnail vs main image (needs image decoding, browser only)
+  c2pa?: C2paSummary;              // Verified C2PA manifests (needs WebCrypto, added by the caller)
+  ela?: ElaSummary;                // Error level statistics (JPEG, computed in a worker; the heat map is not stored)
+  doubleJpeg?: DoubleJpegSummary;  // Double compression probability (JPEG, worker; the localization map is not stored)
+  copyMove?: CopyMoveSummary;      // Cloned regions (any decodable image, worker; the region mask is not stored)
+  noise?: NoiseSummary;            // Local noise levels (any decodable image, worker; the heat map is not stored)
+}
+
+/**
+ * Byte-level structures; checks that need decoded pixels are added by FileAnalysisService
+ */
+export function analyzeFileBytes(bytes: Uint8Array): FileAnalysis {
+  const analysis: FileAnalysis = { version: FILE_ANALYSIS_VERSION };
+  if (isJpeg(bytes)) {
+    const quantizationDigest = readQuantizationDigest(bytes);
+    analysis.jpeg = { quantizationTables: extractQuantizationTables(bytes), ...(quantizationDigest && { quantizationDigest }) };
+  }
+  const heif = readHeifStructure(bytes);
+  if (heif) analysis.heif = heif;
+  const png = readPngStructure(bytes);
+  if (png) analysis.png = png;
+  const pdf = readPdfStructure(bytes);
+  if (pdf) analysis.pdf = pdf;
+  const video = readVideoStructure(bytes);
+  if (video) analysis.video = video;
+  const raw = readRawStructure(bytes);
+  if (raw) analysis.raw = raw;
+  return analysis;
+}
+
+/**
+ * Read a stored file analysis; returns null for empty or unrecognized values
+ */
+export function parseFileAnalysis(raw: unknown): FileAnalysis | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const analysis = raw as Partial<FileAnalysis>;
+  if (typeof analysis.version !== 'number') return null;
+  if (analysis.jpeg && !Array.isArray(analysis.jpeg.quantizationTables)) return null;
+
+  // Drop a malformed thumbnail comparison or pixel-analysis summary rather than the whole analysis
+  const parsed = { ...analysis } as FileAnalysis;
+  if (analysis.jpeg?.quantizationDigest && typeof analysis.jpeg.quantizationDigest.md5 !== 'string') {
+    parsed.jpeg = { quantizationTables: analysis.jpeg.quantizationTables };
+  }
+  const thumbnail = analysis.thumbnail;
+  if (thumbnail && (
+    ![thumbnail.width, thumbnail.height, thumbnail.mainWidth, thumbnail.mainHeight].every(n => typeof n === 'number' && n > 0) ||
+    typeof thumbnail.thumbnailHash !== 'string' ||
+    typeof thumbnail.mainHash !== 'string'
+  )) {
+    parsed.thumbnail = undefined;
+  }
+  const heif = analysis.heif;
+  if (heif && (typeof heif.majorBrand !== 'string' || !Array.isArray(heif.auxiliary) || typeof heif.itemTypes !== 'object')) {
+    parsed.heif = undefined;
+  }
+  const png = analysis.png;
+  if (png && ![png.chunks, png.text, png.privateChunks, png.anomalies].every(Array.isArray)) {
+    parsed.png = undefined;
+  }
+  const pdf = analysis.pdf;
+  if (pdf && (![pdf.revisions, pdf.incrementalUpdates, pdf.signatures].every(n => typeof n === 'number') || !Array.isArray(pdf.producers))) {
+    parsed.pdf = undefined;
+  }
+  const video = analysis.video;
+  if (video && (!Array.isArray(video.tracks) || !video.keys || typeof video.keys !== 'object')) {
+    parsed.video = undefined;
+  }
+  const rawStructure = analysis.raw;
+  if (rawStructure && (typeof rawStructure.format !== 'string' || !Array.isArray(rawStructure.images))) {
+    parsed.raw = undefined;
+  }
+  const c2pa = analysis.c2pa;
+  if (c2pa && (typeof c2pa.status !== 'string' || !Array.isArray(c2pa.manifests))) {
+    parsed.c2pa = undefined;
+  }
+  const ela = analysis.ela;
+  if (ela && ![ela.quality, ela.outlierRatio, ela.meanError].every(n => typeof n === 'number')) {
+    parsed.ela = undefined;
+  }
+  const doubleJpeg = analysis.doubleJpeg;
+  if (doubleJpeg && (typeof doubleJpeg.probability !== 'number' || !doubleJpeg.aligned || !doubleJpeg.nonAligned)) {
+    parsed.doubleJpeg = undefined;
+  }
+  const copyMove = analysis.copyMove;
+  if (copyMove && (typeof copyMove.confidence !== 'number' || typeof copyMove.matches !== 'number' || !Array.isArray(copyMove.regions))) {
+    parsed.copyMove = undefined;
+  }
+  const noise = analysis.noise;
+  if (noise && ![noise.inconsistency, noise.medianNoise, noise.blocksAnalyzed].every(n => typeof n === 'number')) {
+    parsed.noise = undefined;
+  }
+  return parsed;
+}
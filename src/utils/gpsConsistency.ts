@@ -0,0 +1,267 @@
+// GPS consistency checks
+// GPS time is UTC: with DateTimeOriginal (local) and OffsetTimeOriginal it must describe the
+// same instant, and the offset must be one used where the coordinates point. Re-dated photos
+// usually have the capture date changed but not the GPS stamps.
+
+import type { ConsistencyCheck, SignalEvidence } from './exifValidation';
+import type { NormalizedMetadata } from './tagNormalization';
+import { TIMEZONE_REGIONS } from '../data/timezoneRegions';
+
+export interface GpsPosition {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;    // Meters above sea level
+}
+
+// Minutes the GPS stamp may differ from the capture time (last fix can lag the shutter)
+export const GPS_TIME_TOLERANCE_MINUTES = 30;
+// Degrees sampled around a point so coarse region boxes accept both sides of a border
+export const TIMEZONE_MARGIN_DEGREES = 1;
+const MIN_ALTITUDE = -450;      // Dead Sea shore
+const MAX_ALTITUDE = 15000;     // Above cruising altitude
+
+const LATITUDE_IDS = ['GPS:GPSLatitude', 'Composite:GPSLatitude'];
+const LONGITUDE_IDS = ['GPS:GPSLongitude', 'Composite:GPSLongitude'];
+
+/**
+ * Decimal degrees from ExifTool ("23 deg 33' 1.20\" S"), numeric (-n) or ExifReader values.
+ * The sign comes from the value, or from the ref ("South"/"S", "West"/"W") when given.
+ */
+export function parseGpsCoordinate(value: unknown, ref?: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  let degrees: number;
+  if (typeof value === 'number') {
+    degrees = value;
+  } else {
+    const text = String(value);
+    const numbers = (text.match(/-?\d+(?:\.\d+)?/g) ?? []).map(Number);
+    if (!numbers.length) return null;
+    const [d, m = 0, s = 0] = numbers;
+    degrees = Math.sign(d || 1) * (Math.abs(d) + m / 60 + s / 3600);
+    if (/[SW]\s*$/i.test(text)) degrees = -Math.abs(degrees);
+  }
+  if (/^\s*[SW]/i.test(String(ref ?? ''))) degrees = -Math.abs(degrees);
+  return Number.isFinite(degrees) ? degrees : null;
+}
+
+export function readGpsPosition(md: NormalizedMetadata): GpsPosition | null {
+  const latitude = parseGpsCoordinate(md.first(LATITUDE_IDS)?.value, md.value('GPS:GPSLatitudeRef'));
+  const longitude = parseGpsCoordinate(md.first(LONGITUDE_IDS)?.value, md.value('GPS:GPSLongitudeRef'));
+  if (latitude === null || longitude === null) return null;
+
+  const rawAltitude = md.first(['GPS:GPSAltitude', 'Composite:GPSAltitude'])?.value;
+  let altitude: number | null = null;
+  if (rawAltitude !== undefined) {
+    const text = String(rawAltitude);
+    const value = parseFloat(text);
+    if (Number.isFinite(value)) {
+      const below = /below/i.test(text) || /below|^1$/i.test(md.text('GPS:GPSAltitudeRef'));
+      altitude = below ? -Math.abs(value) : value;
+    }
+  }
+  return { latitude, longitude, altitude };
+}
+
+/**
+ * "+05:30" / "-03:00" -> minutes east of UTC
+ */
+export function parseUtcOffset(text: string): number | null {
+  const match = /^([+-])(\d{1,2}):?(\d{2})$/.exec(text.trim());
+  if (!match) return null;
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+export function formatUtcOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+';
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, '0')}:${String(abs % 60).padStart(2, '0')}`;
+}
+
+/**
+ * "YYYY:MM:DD HH:MM:SS" read as if it were UTC (ms), ignoring any zone suffix
+ */
+function exifDateAsUtc(text: string): number | null {
+  const match = /^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?/.exec(text.trim());
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s = '0'] = match;
+  const time = Date.UTC(+y, +mo - 1, +d, +h, +mi, +s);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * GPS UTC time from GPSDateStamp + GPSTimeStamp, or the ExifTool Composite:GPSDateTime
+ */
+export function readGpsTime(md: NormalizedMetadata): { time: number; evidence: SignalEvidence[] } | null {
+  const date = md.text('GPS:GPSDateStamp');
+  const time = md.text('GPS:GPSTimeStamp');
+  if (date && time) {
+    const parsed = exifDateAsUtc(`${date} ${time}`);
+    if (parsed !== null) return { time: parsed, evidence: md.evidence(['GPS:GPSDateStamp', 'GPS:GPSTimeStamp']) };
+  }
+  const composite = md.text('Composite:GPSDateTime');
+  const parsed = composite ? exifDateAsUtc(composite) : null;
+  return parsed !== null ? { time: parsed, evidence: md.evidence(['Composite:GPSDateTime']) } : null;
+}
+
+/**
+ * Offsets used around a point (zones within the margin), or null when no region covers it
+ */
+export function plausibleOffsets(
+  latitude: number,
+  longitude: number,
+  margin = TIMEZONE_MARGIN_DEGREES
+): { offsets: number[]; zones: string[] } | null {
+  const inside = (lat: number, lon: number) =>
+    TIMEZONE_REGIONS.filter(r => lon >= r.box[0] && lat >= r.box[1] && lon <= r.box[2] && lat <= r.box[3]);
+
+  if (!inside(latitude, longitude).length) return null;
+
+  const offsets = new Set<number>();
+  const zones = new Set<string>();
+  for (const dLat of [-margin, 0, margin]) {
+    for (const dLon of [-margin, 0, margin]) {
+      for (const region of inside(latitude + dLat, longitude + dLon)) {
+        region.offsets.forEach(offset => offsets.add(offset));
+        zones.add(region.zone);
+      }
+    }
+  }
+  return { offsets: [...offsets].sort((a, b) => a - b), zones: [...zones] };
+}
+
+const noData: ConsistencyCheck = { consistent: true, hasData: false, code: null, params: {}, evidence: [] };
+
+/**
+ * GPS UTC time vs DateTimeOriginal (+ OffsetTimeOriginal).
+ * Without an offset, only differences no timezone can explain are flagged.
+ */
+export function checkGpsTimeConsistency(
+  md: NormalizedMetadata,
+  dateTimeOriginal?: SignalEvidence,
+  offsetOriginal?: SignalEvidence
+): ConsistencyCheck {
+  const gps = readGpsTime(md);
+  const local = dateTimeOriginal ? exifDateAsUtc(String(dateTimeOriginal.value)) : null;
+  if (!gps || local === null || !dateTimeOriginal) return noData;
+
+  const offset = offsetOriginal ? parseUtcOffset(String(offsetOriginal.value)) : null;
+  const evidence = [dateTimeOriginal, ...(offsetOriginal ? [offsetOriginal] : []), ...gps.evidence];
+  const gpsTime = new Date(gps.time).toISOString().replace('T', ' ').slice(0, 19) + 'Z';
+  const diffMinutes = (local - gps.time) / 60000;
+
+  const mismatch = offset !== null
+    ? Math.abs(diffMinutes - offset) > GPS_TIME_TOLERANCE_MINUTES
+    : Math.abs(diffMinutes) > 14 * 60 + GPS_TIME_TOLERANCE_MINUTES;
+
+  if (mismatch) {
+    return {
+      consistent: false,
+      hasData: true,
+      code: 'GPS_TIME_MISMATCH',
+      params: {
+        dateTimeOriginal: String(dateTimeOriginal.value),
+        offset: offset !== null ? formatUtcOffset(offset) : '—',
+        gpsTime,
+        difference: Math.round(Math.abs(offset !== null ? diffMinutes - offset : diffMinutes)),
+      },
+      evidence,
+    };
+  }
+  // Without an offset the agreement cannot be confirmed (the timezone check covers it)
+  if (offset === null) return { ...noData, hasData: true };
+  return { consistent: true, hasData: true, code: 'GPS_TIME_CONSISTENT', params: { gpsTime }, evidence };
+}
+
+/**
+ * Declared offset (or the one implied by GPS time) vs the offsets used at the coordinates
+ */
+export function checkTimezonePlausibility(
+  md: NormalizedMetadata,
+  dateTimeOriginal?: SignalEvidence,
+  offsetOriginal?: SignalEvidence
+): ConsistencyCheck {
+  const position = readGpsPosition(md);
+  if (!position) return noData;
+  const region = plausibleOffsets(position.latitude, position.longitude);
+  if (!region) return noData;
+
+  let offset = offsetOriginal ? parseUtcOffset(String(offsetOriginal.value)) : null;
+  let source = 'OffsetTimeOriginal';
+  const evidence = [...md.firstEvidence(LATITUDE_IDS), ...md.firstEvidence(LONGITUDE_IDS)];
+  if (offset !== null && offsetOriginal) {
+    evidence.push(offsetOriginal);
+  } else {
+    // Offset implied by local capture time minus GPS UTC time
+    const gps = readGpsTime(md);
+    const local = dateTimeOriginal ? exifDateAsUtc(String(dateTimeOriginal.value)) : null;
+    if (!gps || local === null || !dateTimeOriginal) return noData;
+    offset = Math.round((local - gps.time) / 60000 / 15) * 15;
+    source = 'GPS';
+    evidence.push(dateTimeOriginal, ...gps.evidence);
+  }
+
+  const tolerance = source === 'GPS' ? GPS_TIME_TOLERANCE_MINUTES : 0;
+  if (region.offsets.some(o => Math.abs(o - offset) <= tolerance)) return { ...noData, hasData: true };
+
+  return {
+    consistent: false,
+    hasData: true,
+    code: 'TIMEZONE_OFFSET_MISMATCH',
+    params: {
+      offset: formatUtcOffset(offset),
+      source,
+      zones: region.zones.join(', '),
+      expected: region.offsets.map(formatUtcOffset).join(', '),
+      coordinates: `${position.latitude.toFixed(4)}, ${position.longitude.toFixed(4)}`,
+    },
+    evidence,
+  };
+}
+
+/**
+ * Values no receiver produces: coordinates out of range or exactly 0,0,
+ * altitude outside the inhabited range, non-positive DOP or positioning error
+ */
+export function checkGpsSanity(md: NormalizedMetadata): ConsistencyCheck[] {
+  const checks: ConsistencyCheck[] = [];
+  const position = readGpsPosition(md);
+
+  if (position) {
+    const { latitude, longitude, altitude } = position;
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || (latitude === 0 && longitude === 0)) {
+      checks.push({
+        consistent: false,
+        hasData: true,
+        code: 'GPS_COORDINATES_INVALID',
+        params: { coordinates: `${latitude}, ${longitude}` },
+        evidence: md.evidence([...LATITUDE_IDS, ...LONGITUDE_IDS]),
+      });
+    }
+    if (altitude !== null && (altitude < MIN_ALTITUDE || altitude > MAX_ALTITUDE)) {
+      checks.push({
+        consistent: false,
+        hasData: true,
+        code: 'GPS_ALTITUDE_IMPLAUSIBLE',
+        params: { altitude: Math.round(altitude) },
+        evidence: md.evidence(['GPS:GPSAltitude', 'GPS:GPSAltitudeRef', 'Composite:GPSAltitude']),
+      });
+    }
+  }
+
+  for (const id of ['GPS:GPSDOP', 'GPS:GPSHPositioningError']) {
+    const raw = md.text(id);
+    const value = parseFloat(raw);
+    if (raw && Number.isFinite(value) && value <= 0) {
+      checks.push({
+        consistent: false,
+        hasData: true,
+        code: 'GPS_PRECISION_INVALID',
+        params: { field: id.slice(id.indexOf(':') + 1), value: raw },
+        evidence: md.evidence([id]),
+      });
+    }
+  }
+
+  return checks;
+}
@@ -0,0 +1,348 @@
+// HEIF/HEIC item structure (ISO/IEC 23008-12)
+// A HEIF file is a set of items described in the top-level "meta" box: coded images, grids
+// assembling tiles, thumbnails, auxiliary images (depth, alpha, gain maps, mattes) and
+// metadata items (Exif, XMP). Cameras write a characteristic layout; converters and editors
+// usually write a single image with fewer items.
+
+import {
+  childBoxes,
+  findBox,
+  fourCC,
+  fullBoxHeader,
+  readBoxes,
+  readCString,
+  readFileType,
+  view,
+  type IsoBox,
+} from './isoBmff';
+import { EXIF_IFD_POINTER, MAKER_NOTE, TiffReader } from './tiffStructure';
+
+// Brands declaring HEIF image content (HEVC, AVIF and the generic MIAF/HEIF brands)
+const HEIF_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'hevm', 'hevs', 'mif1', 'msf1', 'avif', 'avis']);
+
+const APPLE_MAKER_NOTE_HEADER = 'Apple iOS\0';
+const APPLE_CONTENT_IDENTIFIER = 0x0011;
+
+export type HeifAuxiliaryKind = 'depth' | 'alpha' | 'hdr-gain-map' | 'matte' | 'other';
+
+export interface HeifAuxiliaryImage {
+  type: string;               // auxC URN (e.g. "urn:com:apple:photo:2020:aux:hdrgainmap")
+  kind: HeifAuxiliaryKind;
+  width: number | null;
+  height: number | null;
+}
+
+export interface HeifPrimaryImage {
+  id: number;
+  type: string;               // Item type: "hvc1", "av01", "grid", "iden"...
+  width: number | null;       // From the "ispe" property (before rotation)
+  height: number | null;
+  rotation: number;           // Degrees counter-clockwise ("irot")
+  tiles: number;              // Coded tiles of a grid (0 when not a grid)
+}
+
+export interface AppleMakerNote {
+  tags: number;
+  contentIdentifier: string | null;   // Pairs the photo with its Live Photo video
+}
+
+export interface HeifStructure {
+  majorBrand: string;
+  compatibleBrands: string[];
+  handler: string | null;     // "pict" for image collections
+  primary: HeifPrimaryImage | null;
+  itemTypes: Record<string, number>;  // Item count by type
+  hiddenItems: number;
+  thumbnails: number;         // Images referencing the primary image as its thumbnail
+  exifItems: number;
+  xmpItems: number;
+  auxiliary: HeifAuxiliaryImage[];
+  appleMakerNote: AppleMakerNote | null;
+}
+
+interface ItemInfo {
+  id: number;
+  type: string;
+  hidden: boolean;
+  contentType: string | null;
+}
+
+interface ItemLocation {
+  constructionMethod: number;
+  baseOffset: number;
+  extents: { offset: number; length: number }[];
+}
+
+/**
+ * Whether the file declares a HEIF brand
+ */
+export function isHeif(bytes: Uint8Array): boolean {
+  const ftyp = readFileType(bytes);
+  return !!ftyp && [ftyp.majorBrand, ...ftyp.compatibleBrands].some(brand => HEIF_BRANDS.has(brand));
+}
+
+export function classifyAuxiliary(type: string): HeifAuxiliaryKind {
+  if (/depth|disparity|auxid:2$/i.test(type)) return 'depth';
+  if (/alpha|auxid:1$/i.test(type)) return 'alpha';
+  if (/gainmap/i.test(type)) return 'hdr-gain-map';
+  if (/matte/i.test(type)) return 'matte';
+  return 'other';
+}
+
+function readItemInfos(iinf: IsoBox): ItemInfo[] {
+  const { version } = fullBoxHeader(iinf.data);
+  const infos: ItemInfo[] = [];
+  for (const infe of childBoxes(iinf, { fullBox: true, skip: version === 0 ? 2 : 4 })) {
+    if (infe.type !== 'infe') continue;
+    const { version: infeVersion, flags } = fullBoxHeader(infe.data);
+    if (infeVersion < 2) continue;     // Versions 0/1 carry no item type
+    const dv = view(infe.data);
+    const idSize = infeVersion === 2 ? 2 : 4;
+    if (infe.data.length < 4 + idSize + 6) continue;
+    const id = idSize === 2 ? dv.getUint16(4) : dv.getUint32(4);
+    const typeOffset = 4 + idSize + 2;     // After the protection index
+    const type = fourCC(infe.data, typeOffset);
+    const name = readCString(infe.data, typeOffset + 4);
+    const contentType = type === 'mime' ? readCString(infe.data, name.next).value : null;
+    infos.push({ id, type, hidden: (flags & 1) === 1, contentType });
+  }
+  return infos;
+}
+
+/**
+ * Item references by type: from item id -> referenced item ids
+ */
+function readReferences(iref: IsoBox): Map<string, Map<number, number[]>> {
+  const { version } = fullBoxHeader(iref.data);
+  const idSize = version === 0 ? 2 : 4;
+  const references = new Map<string, Map<number, number[]>>();
+  for (const ref of childBoxes(iref, { fullBox: true })) {
+    const dv = view(ref.data);
+    const read = (offset: number) => (idSize === 2 ? dv.getUint16(offset) : dv.getUint32(offset));
+    if (ref.data.length < idSize + 2) continue;
+    const from = read(0);
+    const count = dv.getUint16(idSize);
+    const to: number[] = [];
+    for (let i = 0; i < count && idSize + 2 + (i + 1) * idSize <= ref.data.length; i++) {
+      to.push(read(idSize + 2 + i * idSize));
+    }
+    const byType = references.get(ref.type) ?? new Map<number, number[]>();
+    byType.set(from, [...(byType.get(from) ?? []), ...to]);
+    references.set(ref.type, byType);
+  }
+  return references;
+}
+
+/**
+ * Properties associated with each item ("ipco" boxes by "ipma" 1-based index)
+ */
+function readItemProperties(iprp: IsoBox): Map<number, IsoBox[]> {
+  const children = childBoxes(iprp);
+  const ipco = findBox(children, 'ipco');
+  const ipma = findBox(children, 'ipma');
+  const byItem = new Map<number, IsoBox[]>();
+  if (!ipco || !ipma) return byItem;
+
+  const properties = childBoxes(ipco);
+  const { version, flags } = fullBoxHeader(ipma.data);
+  const dv = view(ipma.data);
+  let offset = 4;
+  if (offset + 4 > ipma.data.length) return byItem;
+  const entries = dv.getUint32(offset);
+  offset += 4;
+
+  for (let i = 0; i < entries; i++) {
+    const idSize = version < 1 ? 2 : 4;
+    if (offset + idSize + 1 > ipma.data.length) break;
+    const id = idSize === 2 ? dv.getUint16(offset) : dv.getUint32(offset);
+    offset += idSize;
+    const associations = ipma.data[offset++];
+    const list: IsoBox[] = [];
+    for (let a = 0; a < associations; a++) {
+      const large = (flags & 1) === 1;
+      if (offset + (large ? 2 : 1) > ipma.data.length) break;
+      const index = large ? dv.getUint16(offset) & 0x7fff : ipma.data[offset] & 0x7f;
+      offset += large ? 2 : 1;
+      const property = properties[index - 1];
+      if (property) list.push(property);
+    }
+    byItem.set(id, list);
+  }
+  return byItem;
+}
+
+function readItemLocations(iloc: IsoBox): Map<number, ItemLocation> {
+  const locations = new Map<number, ItemLocation>();
+  const data = iloc.data;
+  const { version } = fullBoxHeader(data);
+  const dv = view(data);
+  if (data.length < 8) return locations;
+
+  const offsetSize = data[4] >> 4;
+  const lengthSize = data[4] & 0x0f;
+  const baseOffsetSize = data[5] >> 4;
+  const indexSize = version === 1 || version === 2 ? data[5] & 0x0f : 0;
+  const readSized = (offset: number, size: number) =>
+    size === 0 ? 0 : size === 2 ? dv.getUint16(offset) : size === 4 ? dv.getUint32(offset) : Number(dv.getBigUint64(offset));
+
+  let offset = 6;
+  const itemCount = version < 2 ? dv.getUint16(offset) : dv.getUint32(offset);
+  offset += version < 2 ? 2 : 4;
+
+  try {
+    for (let i = 0; i < itemCount; i++) {
+      const id = version < 2 ? dv.getUint16(offset) : dv.getUint32(offset);
+      offset += version < 2 ? 2 : 4;
+      let constructionMethod = 0;
+      if (version === 1 || version === 2) {
+        constructionMethod = dv.getUint16(offset) & 0x0f;
+        offset += 2;
+      }
+      offset += 2;   // Data reference index
+      const baseOffset = readSized(offset, baseOffsetSize);
+      offset += baseOffsetSize;
+      const extentCount = dv.getUint16(offset);
+      offset += 2;
+      const extents: ItemLocation['extents'] = [];
+      for (let e = 0; e < extentCount; e++) {
+        offset += indexSize;
+        const extentOffset = readSized(offset, offsetSize);
+        offset += offsetSize;
+        const length = readSized(offset, lengthSize);
+        offset += lengthSize;
+        extents.push({ offset: extentOffset, length });
+      }
+      locations.set(id, { constructionMethod, baseOffset, extents });
+    }
+  } catch {
+    // Truncated table: keep the items read so far
+  }
+  return locations;
+}
+
+/**
+ * Item payload from the file (construction method 0) or the "idat" box (method 1)
+ */
+function readItemData(bytes: Uint8Array, location: ItemLocation | undefined, idat: IsoBox | undefined): Uint8Array | null {
+  if (!location) return null;
+  const source = location.constructionMethod === 0 ? bytes : location.constructionMethod === 1 ? idat?.data : undefined;
+  if (!source) return null;
+
+  const parts = location.extents.map(extent => {
+    const start = location.baseOffset + extent.offset;
+    const length = extent.length || source.length - start;
+    return start >= 0 && start + length <= source.length ? source.subarray(start, start + length) : null;
+  });
+  if (parts.some(part => !part)) return null;
+  if (parts.length === 1) return parts[0];
+  const joined = new Uint8Array(parts.reduce((total, part) => total + (part?.length ?? 0), 0));
+  let offset = 0;
+  for (const part of parts) {
+    if (!part) continue;
+    joined.set(part, offset);
+    offset += part.length;
+  }
+  return joined;
+}
+
+/**
+ * Apple maker note from a HEIF Exif item ("Apple iOS" header, big-endian IFD at offset 14)
+ */
+function readAppleMakerNote(exifItem: Uint8Array): AppleMakerNote | null {
+  if (exifItem.length < 8) return null;
+  const tiffStart = 4 + view(exifItem).getUint32(0);   // exif_tiff_header_offset
+  const tiff = tiffStart < exifItem.length ? TiffReader.open(exifItem.subarray(tiffStart)) : null;
+  if (!tiff) return null;
+
+  const ifd0 = tiff.readIfd(tiff.firstIfdOffset);
+  const exifIfd = ifd0 && tiff.readIfd(tiff.number(ifd0.entries.get(EXIF_IFD_POINTER)) ?? 0);
+  const makerNote = exifIfd && tiff.data(exifIfd.entries.get(MAKER_NOTE));
+  if (!makerNote || makerNote.length < 16) return null;
+  if (String.fromCharCode(...makerNote.subarray(0, APPLE_MAKER_NOTE_HEADER.length)) !== APPLE_MAKER_NOTE_HEADER) return null;
+
+  const reader = TiffReader.raw(makerNote, makerNote[12] === 0x49);
+  const ifd = reader.readIfd(14);
+  if (!ifd) return null;
+  return {
+    tags: ifd.entries.size,
+    contentIdentifier: reader.string(ifd.entries.get(APPLE_CONTENT_IDENTIFIER)),
+  };
+}
+
+/**
+ * Item structure of a HEIF file, or null when the file is not HEIF
+ */
+export function readHeifStructure(bytes: Uint8Array): HeifStructure | null {
+  const ftyp = readFileType(bytes);
+  if (!ftyp || !isHeif(bytes)) return null;
+
+  const meta = findBox(readBoxes(bytes), 'meta');
+  const metaChildren = meta ? childBoxes(meta, { fullBox: true }) : [];
+  const hdlr = findBox(metaChildren, 'hdlr');
+  const pitm = findBox(metaChildren, 'pitm');
+  const iinf = findBox(metaChildren, 'iinf');
+  const iref = findBox(metaChildren, 'iref');
+  const iprp = findBox(metaChildren, 'iprp');
+  const iloc = findBox(metaChildren, 'iloc');
+  const idat = findBox(metaChildren, 'idat');
+
+  const items = iinf ? readItemInfos(iinf) : [];
+  const references = iref ? readReferences(iref) : new Map<string, Map<number, number[]>>();
+  const properties = iprp ? readItemProperties(iprp) : new Map<number, IsoBox[]>();
+  const locations = iloc ? readItemLocations(iloc) : new Map<number, ItemLocation>();
+
+  const dimensions = (id: number) => {
+    const ispe = properties.get(id)?.find(p => p.type === 'ispe');
+    if (!ispe || ispe.data.length < 12) return { width: null, height: null };
+    const dv = view(ispe.data);
+    return { width: dv.getUint32(4), height: dv.getUint32(8) };
+  };
+  // References point from the derived item to its source ("thmb": thumbnail -> master)
+  const referencing = (type: string, target: number) =>
+    [...(references.get(type) ?? new Map<number, number[]>()).entries()]
+      .filter(([, to]) => to.includes(target))
+      .map(([from]) => from);
+
+  let primary: HeifPrimaryImage | null = null;
+  if (pitm && pitm.data.length >= 6) {
+    const { version } = fullBoxHeader(pitm.data);
+    const id = version === 0 ? view(pitm.data).getUint16(4) : view(pitm.data).getUint32(4);
+    const item = items.find(i => i.id === id);
+    const irot = properties.get(id)?.find(p => p.type === 'irot');
+    primary = {
+      id,
+      type: item?.type ?? 'unknown',
+      ...dimensions(id),
+      rotation: irot && irot.data.length ? (irot.data[0] & 0x03) * 90 : 0,
+      tiles: item?.type === 'grid' ? (references.get('dimg')?.get(id)?.length ?? 0) : 0,
+    };
+  }
+
+  const itemTypes: Record<string, number> = {};
+  for (const item of items) itemTypes[item.type] = (itemTypes[item.type] ?? 0) + 1;
+
+  const auxiliary = primary
+    ? referencing('auxl', primary.id).map(id => {
+        const auxC = properties.get(id)?.find(p => p.type === 'auxC');
+        const type = auxC ? readCString(auxC.data, 4).value : '';
+        return { type, kind: classifyAuxiliary(type), ...dimensions(id) };
+      })
+    : [];
+
+  const exifItem = items.find(i => i.type === 'Exif');
+  const exifData = exifItem ? readItemData(bytes, locations.get(exifItem.id), idat) : null;
+
+  return {
+    majorBrand: ftyp.majorBrand,
+    compatibleBrands: ftyp.compatibleBrands,
+    handler: hdlr && hdlr.data.length >= 12 ? fourCC(hdlr.data, 8) : null,
+    primary,
+    itemTypes,
+    hiddenItems: items.filter(i => i.hidden).length,
+    thumbnails: primary ? referencing('thmb', primary.id).length : 0,
+    exifItems: itemTypes.Exif ?? 0,
+    xmpItems: items.filter(i => i.type === 'mime' && /rdf\+xml/i.test(i.contentType ?? '')).length,
+    auxiliary,
+    appleMakerNote: exifData ? readAppleMakerNote(exifData) : null,
+  };
+}
@@ -0,0 +1,81 @@
+// Browser-side image decoding helpers (canvas based; not available under Node)
+
+export interface Crop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Decode a blob; EXIF orientation is applied for images that carry it
+ */
+export function decodeImage(blob: Blob): Promise<ImageBitmap> {
+  return createImageBitmap(blob);
+}
+
+/**
+ * Draw a bitmap rotated/mirrored per an EXIF Orientation value (1-8)
+ */
+export function orientedCanvas(bitmap: ImageBitmap, orientation: number): HTMLCanvasElement {
+  const swap = orientation >= 5 && orientation <= 8;
+  const canvas = createCanvas(swap ? bitmap.height : bitmap.width, swap ? bitmap.width : bitmap.height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D indisponível');
+
+  const w = bitmap.width;
+  const h = bitmap.height;
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, w, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, w, h); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, h); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, h, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, h, w); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, w); break;
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  return canvas;
+}
+
+/**
+ * Luma (BT.601) of a region resampled to width x height
+ */
+export function grayscale(source: CanvasImageSource, width: number, height: number, crop?: Crop): Uint8ClampedArray {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D indisponível');
+  if (crop) {
+    ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height);
+  } else {
+    ctx.drawImage(source, 0, 0, width, height);
+  }
+
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return gray;
+}
+
+/**
+ * Small JPEG data URL (long edge at most maxSize)
+ */
+export function previewDataUrl(source: CanvasImageSource & { width: number; height: number }, maxSize = 160, crop?: Crop): string {
+  const sw = crop?.width ?? source.width;
+  const sh = crop?.height ?? source.height;
+  const scale = Math.min(1, maxSize / Math.max(sw, sh));
+  const canvas = createCanvas(Math.max(1, Math.round(sw * scale)), Math.max(1, Math.round(sh * scale)));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D indisponível');
+  ctx.drawImage(source, crop?.x ?? 0, crop?.y ?? 0, sw, sh, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+}
@@ -0,0 +1,112 @@
+// ISO base media file format (ISO/IEC 14496-12) box parsing
+// Shared by the HEIF/AVIF and MP4/MOV readers. Boxes are read lazily from the file bytes;
+// payloads are subarrays, nothing is copied.
+
+export interface IsoBox {
+  type: string;         // Four-character code (e.g. "ftyp", "meta")
+  offset: number;       // Offset of the box header in the buffer it was read from
+  size: number;         // Whole box, header included
+  data: Uint8Array;     // Payload after the header (and after the user type for "uuid" boxes)
+}
+
+export interface FileTypeBox {
+  majorBrand: string;
+  minorVersion: number;
+  compatibleBrands: string[];
+}
+
+export const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+export const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+/**
+ * Sibling boxes in bytes[start, end); stops at the first malformed header
+ */
+export function readBoxes(bytes: Uint8Array, start = 0, end = bytes.length): IsoBox[] {
+  const boxes: IsoBox[] = [];
+  const dv = view(bytes);
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = dv.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(dv.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;     // Box extends to the end of its container
+    }
+    if (type === 'uuid') header += 16;
+    if (size < header || offset + size > end) break;
+
+    boxes.push({ type, offset, size, data: bytes.subarray(offset + header, offset + size) });
+    offset += size;
+  }
+  return boxes;
+}
+
+/**
+ * Version and flags of a full box payload
+ */
+export function fullBoxHeader(data: Uint8Array): { version: number; flags: number } {
+  if (data.length < 4) return { version: 0, flags: 0 };
+  return { version: data[0], flags: (data[1] << 16) | (data[2] << 8) | data[3] };
+}
+
+/**
+ * Children of a container box; full boxes (e.g. "meta", "iinf") skip their version/flags
+ * and `skip` extra bytes (e.g. the entry count of "iinf")
+ */
+export function childBoxes(box: IsoBox, options: { fullBox?: boolean; skip?: number } = {}): IsoBox[] {
+  const start = (options.fullBox ? 4 : 0) + (options.skip ?? 0);
+  return readBoxes(box.data, start);
+}
+
+export function findBox(boxes: IsoBox[], type: string): IsoBox | undefined {
+  return boxes.find(box => box.type === type);
+}
+
+/**
+ * Follow a path of container boxes ("moov/trak/mdia"); `fullBoxes` lists the types that are full boxes
+ */
+export function findPath(boxes: IsoBox[], path: string, fullBoxes: string[] = ['meta']): IsoBox | undefined {
+  let current: IsoBox | undefined;
+  let level = boxes;
+  for (const type of path.split('/')) {
+    current = findBox(level, type);
+    if (!current) return undefined;
+    level = childBoxes(current, { fullBox: fullBoxes.includes(type) });
+  }
+  return current;
+}
+
+/**
+ * Null-terminated UTF-8 string at offset; returns the string and the offset after the terminator
+ */
+export function readCString(bytes: Uint8Array, offset: number): { value: string; next: number } {
+  let end = offset;
+  while (end < bytes.length && bytes[end] !== 0) end++;
+  return { value: new TextDecoder().decode(bytes.subarray(offset, end)), next: end + 1 };
+}
+
+/**
+ * The "ftyp" box at the start of the file, or null when the file is not ISO-BMFF
+ */
+export function readFileType(bytes: Uint8Array): FileTypeBox | null {
+  if (bytes.length < 16 || fourCC(bytes, 4) !== 'ftyp') return null;
+  const [ftyp] = readBoxes(bytes, 0, Math.min(bytes.length, 4096));
+  if (!ftyp || ftyp.type !== 'ftyp' || ftyp.data.length < 8) return null;
+
+  const compatibleBrands: string[] = [];
+  for (let offset = 8; offset + 4 <= ftyp.data.length; offset += 4) {
+    compatibleBrands.push(fourCC(ftyp.data, offset).trim());
+  }
+  return {
+    majorBrand: fourCC(ftyp.data, 0).trim(),
+    minorVersion: view(ftyp.data).getUint32(4),
+    compatibleBrands: compatibleBrands.filter(Boolean),
+  };
+}
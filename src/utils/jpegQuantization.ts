@@ -0,0 +1,203 @@
+// JPEG quantization table fingerprinting
+// Estimates the encoder quality from the DQT tables and compares their digest with the reference
+// library in src/data/jpegQuantizationTables.ts. A camera file re-saved by an editor or messenger
+// keeps its Make/Model but gets the re-encoder's tables.
+
+import type { ConsistencyCheck, SignalEvidence } from './exifValidation';
+import type { JpegAnalysis } from './fileAnalysis';
+import { DQT, isFrameHeader, parseJpegSegments, type QuantizationTable } from './jpegStructure';
+import { lookupDevice } from './deviceProfiles';
+import { md5 } from './hash';
+import {
+  CAMERA_QUANTIZATION_TABLES,
+  EDITOR_QUANTIZATION_TABLES,
+  MESSENGER_QUANTIZATION_TABLES,
+  QUANTIZATION_LIBRARY_VERSION,
+  type QuantizationLibraryEntry,
+} from '../data/jpegQuantizationTables';
+
+// ITU-T T.81 Annex K base tables (natural order), scaled by libjpeg's jpeg_quality_scaling
+const IJG_LUMINANCE = [
+  16, 11, 10, 16, 24, 40, 51, 61,
+  12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56,
+  14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77,
+  24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101,
+  72, 92, 95, 98, 112, 100, 103, 99,
+];
+
+const IJG_CHROMINANCE = [
+  17, 18, 24, 47, 99, 99, 99, 99,
+  18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99,
+  47, 66, 99, 99, 99, 99, 99, 99,
+  ...new Array<number>(32).fill(99),
+];
+
+export interface QualityEstimate {
+  quality: number;          // 1-100 on the libjpeg scale
+  standardTables: boolean;  // Tables are exactly libjpeg's at this quality
+}
+
+// ExifTool JPEGDigest of the DQT segments (see the library file)
+export interface QuantizationDigest {
+  md5: string;
+  sampling: string | null;  // SOF sampling factors per component, e.g. "221111" ("11" for grayscale)
+}
+
+export interface QuantizationMatch {
+  entry: QuantizationLibraryEntry;
+  libraryVersion: string;
+}
+
+/**
+ * libjpeg table for a quality (baseline, values clamped to 1-255)
+ */
+export function ijgTable(base: number[], quality: number): number[] {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? Math.floor(5000 / q) : 200 - q * 2;
+  return base.map(value => Math.min(255, Math.max(1, Math.floor((value * scale + 50) / 100))));
+}
+
+const sameValues = (a: number[], b: number[]) => a.length === b.length && a.every((v, i) => v === b[i]);
+
+/**
+ * Digest as ExifTool computes it: the DQT segments keyed by their first table id (a later segment
+ * replaces an earlier one), in id order, joined by a zero byte
+ */
+export function readQuantizationDigest(bytes: Uint8Array): QuantizationDigest | null {
+  const segments: Uint8Array[] = [];
+  let sampling: string | null = null;
+  for (const segment of parseJpegSegments(bytes)) {
+    if (segment.marker === DQT && segment.data.length) {
+      const id = segment.data[0] & 0x0f;
+      if (id < 4) segments[id] = segment.data;
+    }
+    // First SOF: the component count is at byte 5, then 3 bytes (id, sampling, table) per component
+    if (sampling === null && isFrameHeader(segment.marker) && segment.data.length >= 6 + 3 * segment.data[5]) {
+      sampling = Array.from({ length: segment.data[5] }, (_, i) => segment.data[7 + 3 * i].toString(16).padStart(2, '0')).join('') || null;
+    }
+  }
+  const present = segments.filter(Boolean);
+  if (!present.length) return null;
+
+  const joined = new Uint8Array(present.reduce((sum, data) => sum + data.length, 0) + present.length - 1);
+  let offset = 0;
+  for (const data of present) {
+    joined.set(data, offset);
+    offset += data.length + 1;
+  }
+  return { md5: md5(joined), sampling };
+}
+
+/**
+ * Digest as shown in evidence, with the sampling factors when known
+ */
+const digestText = (digest: QuantizationDigest) => digest.sampling ? `${digest.md5}:${digest.sampling}` : digest.md5;
+
+/**
+ * Quality on the libjpeg scale. Exact when the tables are libjpeg's; otherwise estimated
+ * from the average luminance scaling against the Annex K table.
+ */
+export function estimateJpegQuality(tables: QuantizationTable[]): QualityEstimate | null {
+  const luminance = tables.find(t => t.id === 0) ?? tables[0];
+  if (!luminance) return null;
+  const chrominance = tables.find(t => t.id === 1);
+
+  for (let quality = 1; quality <= 100; quality++) {
+    if (!sameValues(luminance.values, ijgTable(IJG_LUMINANCE, quality))) continue;
+    if (chrominance && !sameValues(chrominance.values, ijgTable(IJG_CHROMINANCE, quality))) continue;
+    return { quality, standardTables: true };
+  }
+
+  const scale = luminance.values.reduce((sum, value, i) => sum + (value * 100) / IJG_LUMINANCE[i], 0) / 64;
+  const quality = scale <= 100 ? (200 - scale) / 2 : 5000 / scale;
+  return { quality: Math.min(100, Math.max(1, Math.round(quality))), standardTables: false };
+}
+
+const hasWord = (text: string, word: string) => new RegExp(`\\b${word}\\b`, 'i').test(text);
+
+/**
+ * Whether a camera entry covers the declared Make/Model
+ */
+function coversCamera(entry: QuantizationLibraryEntry, make: string, model: string | null): boolean {
+  if (!entry.make || !hasWord(make, entry.make)) return false;
+  if (!entry.models) return true;
+  const key = (model ?? '').trim().toLowerCase().replace(new RegExp(`^${entry.make}\\s+`), '');
+  return entry.models.some(m => m.toLowerCase() === key);
+}
+
+/**
+ * Reference library entries with the same digest. ExifTool lists some digests with the sampling
+ * factors appended, so both forms are looked up.
+ */
+export function matchQuantizationTables(digest: QuantizationDigest | undefined): QuantizationMatch[] {
+  if (!digest) return [];
+  const keys = [digest.md5, ...(digest.sampling ? [`${digest.md5}:${digest.sampling}`] : [])];
+  return [...CAMERA_QUANTIZATION_TABLES, ...EDITOR_QUANTIZATION_TABLES, ...MESSENGER_QUANTIZATION_TABLES]
+    .filter(entry => keys.includes(entry.digest))
+    .map(entry => ({ entry, libraryVersion: QUANTIZATION_LIBRARY_VERSION }));
+}
+
+const describeMatch = (match: QuantizationMatch) => `${match.entry.source} (${match.entry.label})`;
+
+/**
+ * Short description of the encoder that wrote the tables, for messages and the display
+ */
+export function describeQuantization(jpeg: JpegAnalysis): string {
+  const [match] = matchQuantizationTables(jpeg.quantizationDigest);
+  if (match) return describeMatch(match);
+  const estimate = estimateJpegQuality(jpeg.quantizationTables);
+  if (!estimate) return 'desconhecida';
+  return estimate.standardTables
+    ? `libjpeg padrão (Q${estimate.quality})`
+    : `tabela personalizada (~Q${estimate.quality})`;
+}
+
+/**
+ * Compare the DQT tables with the declared camera.
+ * Consistent when they match a firmware entry for the camera. Inconsistent when they match an
+ * editor/messenger encoder, or when they are the standard libjpeg tables and the make's firmware
+ * writes its own. Library entries are per setting and not exhaustive, so tables the library does
+ * not know are not evidence either way.
+ */
+export function checkQuantizationConsistency(
+  jpeg: JpegAnalysis,
+  make: string | null,
+  model: string | null,
+  cameraEvidence: SignalEvidence[] = []
+): ConsistencyCheck {
+  const tables = jpeg.quantizationTables;
+  const none: ConsistencyCheck = { consistent: true, hasData: tables.length > 0, code: null, params: {}, evidence: [] };
+  if (!tables.length || !make) return none;
+
+  const estimate = estimateJpegQuality(tables);
+  const digest = jpeg.quantizationDigest;
+  const evidence: SignalEvidence[] = [
+    { key: 'JPEG:QuantizationTables', value: `${digest ? `${digestText(digest)} ` : ''}(Q${estimate?.quality ?? '?'})` },
+    ...cameraEvidence,
+  ];
+  // Many models already start with the make ("Canon EOS R5")
+  const camera = !model ? make : model.toLowerCase().startsWith(make.toLowerCase()) ? model : `${make} ${model}`;
+
+  const matches = matchQuantizationTables(digest);
+  if (matches.some(m => m.entry.kind === 'camera' && coversCamera(m.entry, make, model))) {
+    return { consistent: true, hasData: true, code: 'QUANTIZATION_CAMERA_MATCH', params: { camera }, evidence };
+  }
+
+  const software = matches.find(m => m.entry.kind !== 'camera');
+  const standardOnCamera = !!estimate?.standardTables && !!lookupDevice(make, model).brand?.customQuantization;
+  if (software || standardOnCamera) {
+    return {
+      consistent: false,
+      hasData: true,
+      code: 'QUANTIZATION_MISMATCH',
+      params: { camera, encoder: software ? describeMatch(software) : `libjpeg padrão (Q${estimate?.quality})` },
+      evidence,
+    };
+  }
+
+  return none;
+}
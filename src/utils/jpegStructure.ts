@@ -0,0 +1,165 @@
+// JPEG marker segment parsing
+// Reads the segments before the first SOS (scan data is not decoded here)
+
+export interface JpegSegment {
+  marker: number;       // e.g. 0xFFDB for DQT
+  offset: number;       // Offset of the marker in the file
+  length: number;       // Segment length including the 2 length bytes (0 for standalone markers)
+  data: Uint8Array;     // Payload after the length bytes
+}
+
+export interface QuantizationTable {
+  id: number;           // Tq (0 = luminance, 1 = chrominance in typical files)
+  precision: 8 | 16;
+  values: number[];     // 64 values in natural (row-major) order
+}
+
+export const SOI = 0xffd8;
+export const SOS = 0xffda;
+export const DQT = 0xffdb;
+
+// Zigzag index -> natural (row-major) index
+export const ZIGZAG_TO_NATURAL = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+];
+
+export function isJpeg(bytes: Uint8Array): boolean {
+  return bytes.length > 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff;
+}
+
+/**
+ * Marker segments from SOI up to and including the first SOS
+ */
+export function parseJpegSegments(bytes: Uint8Array): JpegSegment[] {
+  if (!isJpeg(bytes)) return [];
+
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;   // Corrupt stream
+    const marker = (bytes[offset] << 8) | bytes[offset + 1];
+
+    // Fill bytes and standalone markers (RSTn, TEM) carry no length
+    if (marker === 0xffff) { offset++; continue; }
+    if ((marker >= 0xffd0 && marker <= 0xffd7) || marker === 0xff01) {
+      segments.push({ marker, offset, length: 0, data: new Uint8Array(0) });
+      offset += 2;
+      continue;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2 || offset + 2 + length > bytes.length) break;
+    segments.push({ marker, offset, length, data: bytes.subarray(offset + 4, offset + 2 + length) });
+    offset += 2 + length;
+
+    if (marker === SOS) break;
+  }
+  return segments;
+}
+
+/**
+ * SOF0-SOF15 (DHT, JPG and DAC share the range)
+ */
+export const isFrameHeader = (marker: number) =>
+  marker >= 0xffc0 && marker <= 0xffcf && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc;
+
+/**
+ * Frame size and component count from the first SOF segment (any coding process, lossless included)
+ */
+export function readJpegFrame(bytes: Uint8Array): { width: number; height: number; components: number } | null {
+  const sof = parseJpegSegments(bytes).find(s => isFrameHeader(s.marker));
+  if (!sof || sof.data.length < 6) return null;
+  return {
+    height: (sof.data[1] << 8) | sof.data[2],
+    width: (sof.data[3] << 8) | sof.data[4],
+    components: sof.data[5],
+  };
+}
+
+/**
+ * Quantization tables from every DQT segment (later definitions of an id replace earlier ones)
+ */
+export function extractQuantizationTables(bytes: Uint8Array): QuantizationTable[] {
+  const tables = new Map<number, QuantizationTable>();
+
+  for (const segment of parseJpegSegments(bytes)) {
+    if (segment.marker !== DQT) continue;
+    const data = segment.data;
+    let pos = 0;
+    while (pos < data.length) {
+      const precision = data[pos] >> 4 ? 16 : 8;
+      const id = data[pos] & 0x0f;
+      pos++;
+      const size = precision === 16 ? 128 : 64;
+      if (pos + size > data.length) break;
+
+      const values = new Array<number>(64);
+      for (let i = 0; i < 64; i++) {
+        const value = precision === 16 ? (data[pos + 2 * i] << 8) | data[pos + 2 * i + 1] : data[pos + i];
+        values[ZIGZAG_TO_NATURAL[i]] = value;
+      }
+      tables.set(id, { id, precision, values });
+      pos += size;
+    }
+  }
+
+  return Array.from(tables.values()).sort((a, b) => a.id - b.id);
+}
+
+export const APP1 = 0xffe1;
+
+export interface ExifThumbnail {
+  data: Uint8Array;       // JPEG stream of the IFD1 thumbnail
+  orientation: number;    // IFD0 Orientation of the main image (1 when absent)
+}
+
+/**
+ * Embedded IFD1 JPEG thumbnail from the EXIF APP1 segment
+ */
+export function extractExifThumbnail(bytes: Uint8Array): ExifThumbnail | null {
+  const app1 = parseJpegSegments(bytes).find(s =>
+    s.marker === APP1 &&
+    s.data.length > 14 &&
+    String.fromCharCode(...s.data.subarray(0, 4)) === 'Exif'
+  );
+  if (!app1) return null;
+
+  const tiff = app1.data.subarray(6);
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const little = tiff[0] === 0x49;   // "II" vs "MM"
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  // IFD entries: tag, type, count, value/offset (12 bytes each)
+  const readIfd = (offset: number) => {
+    if (offset <= 0 || offset + 2 > tiff.length) return null;
+    const count = u16(offset);
+    if (offset + 2 + count * 12 + 4 > tiff.length) return null;
+    const entries = new Map<number, number>();
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = u16(entry + 2);
+      entries.set(u16(entry), type === 3 ? u16(entry + 8) : u32(entry + 8));
+    }
+    return { entries, next: u32(offset + 2 + count * 12) };
+  };
+
+  try {
+    const ifd0 = readIfd(u32(4));
+    const ifd1 = ifd0 && readIfd(ifd0.next);
+    if (!ifd0 || !ifd1) return null;
+
+    const start = ifd1.entries.get(0x0201);    // JPEGInterchangeFormat
+    const length = ifd1.entries.get(0x0202);   // JPEGInterchangeFormatLength
+    if (!start || !length || start + length > tiff.length) return null;
+
+    const data = tiff.subarray(start, start + length);
+    if (!isJpeg(data)) return null;
+    return { data, orientation: ifd0.entries.get(0x0112) ?? 1 };
+  } catch {
+    return null;   // Truncated TIFF structure
+  }
+}
@@ -0,0 +1,113 @@
+// JUMBF (ISO/IEC 19566-5) box parsing and JPEG APP11 reassembly
+
+import { parseJpegSegments } from './jpegStructure';
+
+export interface JumbfBox {
+  type: string;             // e.g. "jumb", "jumd", "cbor", "json"
+  data: Uint8Array;         // Payload (after the box header)
+  payloadStart: number;     // Offset of the payload in the parsed buffer
+}
+
+export interface JumbfSuperbox {
+  label: string | null;     // From the description box
+  uuid: string;             // Content type UUID (hex)
+  payload: Uint8Array;      // Superbox contents without its header (description + content boxes)
+  children: JumbfSuperbox[];
+  content: JumbfBox[];      // Non-superbox content boxes
+}
+
+export const APP11 = 0xffeb;
+
+/**
+ * Boxes in a buffer (LBox, TBox, optional XLBox)
+ */
+export function parseBoxes(bytes: Uint8Array): JumbfBox[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const boxes: JumbfBox[] = [];
+  let pos = 0;
+  while (pos + 8 <= bytes.length) {
+    let length = view.getUint32(pos);
+    const type = String.fromCharCode(...bytes.subarray(pos + 4, pos + 8));
+    let header = 8;
+    if (length === 1) {
+      if (pos + 16 > bytes.length) break;
+      length = view.getUint32(pos + 8) * 2 ** 32 + view.getUint32(pos + 12);
+      header = 16;
+    } else if (length === 0) {
+      length = bytes.length - pos;   // Box extends to the end
+    }
+    if (length < header || pos + length > bytes.length) break;
+    boxes.push({ type, data: bytes.subarray(pos + header, pos + length), payloadStart: pos + header });
+    pos += length;
+  }
+  return boxes;
+}
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Parse a "jumb" superbox payload into its description and children
+ */
+export function parseSuperbox(payload: Uint8Array): JumbfSuperbox | null {
+  const boxes = parseBoxes(payload);
+  const description = boxes[0];
+  if (!description || description.type !== 'jumd' || description.data.length < 17) return null;
+
+  const uuid = hex(description.data.subarray(0, 16));
+  const toggles = description.data[16];
+  let label: string | null = null;
+  if (toggles & 0x02) {
+    const end = description.data.indexOf(0, 17);
+    label = new TextDecoder().decode(description.data.subarray(17, end < 0 ? undefined : end));
+  }
+
+  const children: JumbfSuperbox[] = [];
+  const content: JumbfBox[] = [];
+  for (const box of boxes.slice(1)) {
+    if (box.type === 'jumb') {
+      const child = parseSuperbox(box.data);
+      if (child) children.push(child);
+    } else {
+      content.push(box);
+    }
+  }
+  return { label, uuid, payload, children, content };
+}
+
+/**
+ * JUMBF superboxes carried in JPEG APP11 segments, reassembled per box instance.
+ * Continuation segments repeat the superbox header, which is dropped.
+ */
+export function extractJpegJumbf(bytes: Uint8Array): JumbfSuperbox[] {
+  const instances = new Map<number, { sequence: number; data: Uint8Array }[]>();
+  for (const segment of parseJpegSegments(bytes)) {
+    const data = segment.data;
+    if (segment.marker !== APP11 || data.length < 16 || data[0] !== 0x4a || data[1] !== 0x50) continue;
+    const instance = (data[2] << 8) | data[3];
+    const sequence = ((data[4] << 24) | (data[5] << 16) | (data[6] << 8) | data[7]) >>> 0;
+    const list = instances.get(instance) ?? [];
+    list.push({ sequence, data: data.subarray(8) });
+    instances.set(instance, list);
+  }
+
+  const superboxes: JumbfSuperbox[] = [];
+  for (const parts of instances.values()) {
+    parts.sort((a, b) => a.sequence - b.sequence);
+    const header = parts[0].data.subarray(0, 8);
+    const extended = new DataView(header.buffer, header.byteOffset, 8).getUint32(0) === 1;
+    const repeated = extended ? 16 : 8;
+    const chunks = parts.map((part, i) => (i === 0 ? part.data : part.data.subarray(repeated)));
+
+    const joined = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      joined.set(chunk, offset);
+      offset += chunk.length;
+    }
+
+    const [box] = parseBoxes(joined);
+    const superbox = box?.type === 'jumb' ? parseSuperbox(box.data) : null;
+    if (superbox) superboxes.push(superbox);
+  }
+  return superboxes;
+}
@@ -0,0 +1,186 @@
+// Metadata completeness and verdict confidence
+// Completeness: share of the metadata groups expected for this file kind and device that are present.
+// Confidence: how much the verdict can be trusted given completeness and the distance to a level boundary.
+
+import type { ValidationConfig, ValidationResult } from './exifValidation';
+import { normalizeMetadata, type MetadataInput, type NormalizedMetadata } from './tagNormalization';
+import { lookupDevice } from './deviceProfiles';
+import type { FileAnalysis } from './fileAnalysis';
+
+export type FileKind = 'jpeg' | 'heif' | 'png' | 'webp' | 'gif' | 'tiff' | 'raw' | 'pdf' | 'video' | 'unknown';
+
+export type DeviceClass = 'smartphone' | 'camera' | 'unknown';
+
+export interface CompletenessGroup {
+  id: string;
+  label: string;        // pt-BR label for the display
+  weight: number;       // Relative importance within the file kind
+  present: boolean;
+}
+
+export interface MetadataCompleteness {
+  score: number;        // 0-100
+  fileKind: FileKind;
+  deviceClass: DeviceClass;
+  groups: CompletenessGroup[];
+}
+
+export interface VerdictConfidence {
+  score: number;        // 0-100
+  label: 'alta' | 'média' | 'baixa';
+  margin: number;       // Points between the score and the nearest level boundary
+}
+
+const RAW_EXTENSIONS = ['cr2', 'cr3', 'nef', 'nrw', 'arw', 'srf', 'sr2', 'orf', 'rw2', 'raf', 'pef', 'dng', 'srw', 'x3f', 'rwl', '3fr', 'iiq'];
+
+/**
+ * File kind from ExifTool FileType/MIMEType or the ExifReader MIME type and extension
+ */
+export function getFileKind(exifData: MetadataInput): FileKind {
+  const md = normalizeMetadata(exifData);
+  const type = `${md.text('File:FileType')} ${md.text('File:MIMEType')}`.toLowerCase();
+  const ext = md.text('File:FileTypeExtension').toLowerCase();
+
+  if (RAW_EXTENSIONS.includes(ext) || /\b(cr2|cr3|nef|arw|orf|rw2|raf|pef|dng|srw)\b|image\/x-(canon|nikon|sony|adobe-dng)/.test(type)) return 'raw';
+  if (/jpe?g/.test(type) || ext === 'jpg' || ext === 'jpeg') return 'jpeg';
+  if (/hei[cf]|avif/.test(type) || ext === 'heic' || ext === 'heif') return 'heif';
+  if (/png/.test(type) || ext === 'png') return 'png';
+  if (/webp/.test(type) || ext === 'webp') return 'webp';
+  if (/gif/.test(type) || ext === 'gif') return 'gif';
+  if (/tiff?/.test(type) || ext === 'tif' || ext === 'tiff') return 'tiff';
+  if (/pdf/.test(type) || ext === 'pdf') return 'pdf';
+  if (/mp4|mov|quicktime|video|m4v|3gp/.test(type) || ['mp4', 'mov', 'm4v', '3gp'].includes(ext)) return 'video';
+  return 'unknown';
+}
+
+/**
+ * File kind from the analyzed bytes when available (a HEIC renamed to .jpg is still HEIF),
+ * else from the declared type and extension
+ */
+export function resolveFileKind(exifData: MetadataInput, file: FileAnalysis | null | undefined): FileKind {
+  if (file?.jpeg) return 'jpeg';
+  if (file?.heif) return 'heif';
+  if (file?.png) return 'png';
+  if (file?.pdf) return 'pdf';
+  if (file?.video) return 'video';
+  if (file?.raw) return 'raw';
+  return getFileKind(exifData);
+}
+
+export function getDeviceClass(exifData: MetadataInput): DeviceClass {
+  const md = normalizeMetadata(exifData);
+  const make = md.text('IFD0:Make');
+  const model = md.text('IFD0:Model');
+  if (!make && !model) return 'unknown';
+  // Unlisted brands are assumed to be cameras
+  return lookupDevice(make, model).deviceType === 'smartphone' ? 'smartphone' : 'camera';
+}
+
+type GroupSpec = Omit<CompletenessGroup, 'present'> & { test: (md: NormalizedMetadata) => boolean };
+
+const anyOf = (ids: string[]) => (md: NormalizedMetadata) => ids.some(id => md.has(id));
+const inGroup = (group: string) => (md: NormalizedMetadata) => md.inGroup(group).length > 0;
+
+const PHOTO_GROUPS: GroupSpec[] = [
+  { id: 'camera', label: 'Marca/Modelo', weight: 3, test: anyOf(['IFD0:Make', 'IFD0:Model']) },
+  { id: 'capture-date', label: 'Data de captura', weight: 3, test: anyOf(['ExifIFD:DateTimeOriginal', 'ExifIFD:CreateDate']) },
+  { id: 'exposure', label: 'Exposição', weight: 2, test: anyOf(['ExifIFD:ExposureTime', 'ExifIFD:FNumber', 'ExifIFD:ISO']) },
+  { id: 'makernotes', label: 'MakerNote', weight: 2, test: md => md.has('ExifIFD:MakerNote') || md.hasFamily('MakerNotes') },
+  { id: 'icc', label: 'Perfil ICC', weight: 1, test: md => md.hasFamily('ICC_Profile') },
+  { id: 'gps', label: 'GPS', weight: 1, test: inGroup('GPS') },
+];
+
+const SMARTPHONE_GROUPS: GroupSpec[] = [
+  { id: 'offset-time', label: 'Fuso horário', weight: 1, test: anyOf(['ExifIFD:OffsetTimeOriginal', 'ExifIFD:OffsetTime']) },
+];
+
+const THUMBNAIL_GROUP: GroupSpec =
+  { id: 'thumbnail', label: 'Miniatura EXIF', weight: 1, test: anyOf(['IFD1:ImageWidth', 'IFD1:ThumbnailImage']) };
+
+const GROUPS_BY_KIND: Record<FileKind, GroupSpec[]> = {
+  jpeg: [...PHOTO_GROUPS, THUMBNAIL_GROUP],
+  heif: PHOTO_GROUPS,
+  tiff: PHOTO_GROUPS,
+  raw: [...PHOTO_GROUPS, { id: 'preview', label: 'Pré-visualização', weight: 1, test: anyOf(['IFD1:ImageWidth', 'IFD1:ThumbnailImage', 'Composite:PreviewImage', 'IFD0:PreviewImage']) }],
+  png: [
+    { id: 'dimensions', label: 'Dimensões', weight: 1, test: anyOf(['PNG:ImageWidth', 'File:ImageWidth']) },
+    { id: 'text', label: 'Texto/Software', weight: 1, test: md => md.inGroup('PNG*').some(t => !['ImageWidth', 'ImageHeight', 'BitDepth', 'ColorType', 'Compression', 'Filter', 'Interlace'].includes(t.name)) },
+    { id: 'exif', label: 'EXIF', weight: 2, test: md => md.hasFamily('EXIF') },
+    { id: 'icc', label: 'Perfil ICC', weight: 1, test: md => md.hasFamily('ICC_Profile') },
+  ],
+  webp: [
+    { id: 'dimensions', label: 'Dimensões', weight: 1, test: anyOf(['File:ImageWidth', 'RIFF:ImageWidth']) },
+    { id: 'exif', label: 'EXIF', weight: 2, test: md => md.hasFamily('EXIF') },
+    { id: 'xmp', label: 'XMP', weight: 1, test: md => md.hasFamily('XMP') },
+  ],
+  gif: [
+    { id: 'dimensions', label: 'Dimensões', weight: 1, test: anyOf(['GIF:ImageWidth', 'File:ImageWidth']) },
+    { id: 'xmp', label: 'XMP', weight: 1, test: md => md.hasFamily('XMP') },
+  ],
+  pdf: [
+    { id: 'producer', label: 'Produtor/Criador', weight: 2, test: anyOf(['PDF:Producer', 'PDF:Creator', 'XMP-pdf:Producer', 'XMP-xmp:CreatorTool']) },
+    { id: 'dates', label: 'Datas do documento', weight: 2, test: anyOf(['PDF:CreateDate', 'PDF:ModifyDate', 'XMP-xmp:CreateDate']) },
+    { id: 'xmp', label: 'XMP', weight: 1, test: md => md.hasFamily('XMP') },
+  ],
+  video: [
+    { id: 'dates', label: 'Datas de criação', weight: 3, test: anyOf(['QuickTime:CreateDate', 'QuickTime:MediaCreateDate', 'QuickTime:TrackCreateDate']) },
+    { id: 'device', label: 'Dispositivo', weight: 2, test: anyOf(['QuickTime:Make', 'QuickTime:Model', 'Keys:Make', 'Keys:Model', 'UserData:Make', 'UserData:Model']) },
+    { id: 'location', label: 'Localização', weight: 1, test: anyOf(['QuickTime:GPSCoordinates', 'Keys:GPSCoordinates', 'UserData:GPSCoordinates']) },
+  ],
+  unknown: PHOTO_GROUPS,
+};
+
+/**
+ * Completeness of the metadata expected for this file kind and device class.
+ * Pass the kind detected from the file bytes (resolveFileKind); the metadata is only a fallback.
+ */
+export function computeCompleteness(exifData: MetadataInput, fileKind: FileKind = getFileKind(exifData)): MetadataCompleteness {
+  const md = normalizeMetadata(exifData);
+  const deviceClass = getDeviceClass(md);
+
+  const specs = [
+    ...GROUPS_BY_KIND[fileKind],
+    ...(deviceClass === 'smartphone' && ['jpeg', 'heif'].includes(fileKind) ? SMARTPHONE_GROUPS : []),
+  ];
+  const groups = specs.map(({ test, ...group }) => ({ ...group, present: test(md) }));
+
+  const total = groups.reduce((sum, g) => sum + g.weight, 0);
+  const present = groups.reduce((sum, g) => sum + (g.present ? g.weight : 0), 0);
+
+  return {
+    score: total > 0 ? Math.round((present / total) * 100) : 0,
+    fileKind,
+    deviceClass,
+    groups,
+  };
+}
+
+/**
+ * Confidence in a verdict: 60% completeness, 40% distance from the nearest level boundary,
+ * reduced when the result is flagged as insufficient metadata, digital transport or screenshot
+ */
+export function computeConfidence(
+  result: Pick<ValidationResult, 'score' | 'level' | 'insufficientMetadata' | 'isDigitalTransport' | 'isScreenshot'>,
+  completeness: MetadataCompleteness,
+  thresholds: ValidationConfig['thresholds']
+): VerdictConfidence {
+  const ceilings = [thresholds.level0Max, thresholds.level1Max, thresholds.level2Max];
+  const upper = result.level < ceilings.length ? ceilings[result.level] : Infinity;
+  const lower = result.level > 0 ? ceilings[result.level - 1] : -Infinity;
+
+  // Points of change needed to cross into a neighbouring level
+  const margin = Math.min(upper - result.score + 1, result.score - lower);
+  const marginFactor = Math.min(1, margin / 3);
+
+  let score = 0.6 * (completeness.score / 100) + 0.4 * marginFactor;
+  if (result.insufficientMetadata) score *= 0.5;
+  if (result.isDigitalTransport) score *= 0.6;
+  if (result.isScreenshot) score *= 0.6;
+
+  const rounded = Math.round(score * 100);
+  return {
+    score: rounded,
+    label: rounded >= 70 ? 'alta' : rounded >= 40 ? 'média' : 'baixa',
+    margin: Number.isFinite(margin) ? margin : 0,
+  };
+}
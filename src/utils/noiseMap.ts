@@ -0,0 +1,143 @@
+// Local noise level analysis
+// A camera leaves a fairly uniform sensor noise across the frame; a region pasted from another
+// photo (or smoothed/retouched) carries a different noise level. The noise is estimated per block
+// from a high-pass residual (3x3 Laplacian-of-Laplacian kernel) with a median-based estimator,
+// which ignores most edges.
+// Pure functions over a luma plane, called from the noise worker.
+
+export const NOISE_BLOCK_SIZE = 32;
+
+// Residual kernel [1 -2 1; -2 4 -2; 1 -2 1]: its response to white noise σ has std 6σ
+const KERNEL_GAIN = 6;
+const MAD_TO_SIGMA = 1 / 0.6745;
+const HISTOGRAM_STEP = 0.25;        // Residual histogram resolution (gray levels)
+const HISTOGRAM_BINS = 1024;
+// Clipped blocks have no measurable noise
+const MIN_BLOCK_MEAN = 16;
+const MAX_BLOCK_MEAN = 240;
+const MIN_NOISE = 0.1;
+// A block is inconsistent when its noise is this many times above or below the median
+const INCONSISTENT_RATIO = 2;
+// Localized inconsistency: some blocks differ, but not a large part of the image
+const MIN_INCONSISTENCY = 0.02;
+const MAX_INCONSISTENCY = 0.3;
+
+export interface NoiseSummary {
+  blockSize: number;
+  blocksX: number;
+  blocksY: number;
+  blocksAnalyzed: number;       // Blocks that are not clipped
+  medianNoise: number;          // Median block noise σ (gray levels)
+  lowNoise: number;             // 5th percentile
+  highNoise: number;            // 95th percentile
+  inconsistency: number;        // Fraction of blocks with a noise level ≥2x off the median (0-1)
+}
+
+export interface NoiseLevels {
+  sigma: Float32Array;          // Row-major blocksX x blocksY, NaN for clipped blocks
+  blocksX: number;
+  blocksY: number;
+}
+
+const round = (n: number, digits = 2) => Math.round(n * 10 ** digits) / 10 ** digits;
+
+function percentile(sorted: number[], p: number): number {
+  if (!sorted.length) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+/**
+ * Noise σ per block, from the median absolute residual
+ */
+export function computeNoiseLevels(
+  luma: Float32Array,
+  width: number,
+  height: number,
+  blockSize = NOISE_BLOCK_SIZE
+): NoiseLevels {
+  const blocksX = Math.floor(width / blockSize);
+  const blocksY = Math.floor(height / blockSize);
+  const sigma = new Float32Array(blocksX * blocksY).fill(NaN);
+  const histogram = new Uint32Array(HISTOGRAM_BINS);
+
+  for (let by = 0; by < blocksY; by++) {
+    for (let bx = 0; bx < blocksX; bx++) {
+      histogram.fill(0);
+      let count = 0;
+      let sum = 0;
+      // Interior pixels only, so the kernel never leaves the image
+      const top = Math.max(1, by * blockSize);
+      const bottom = Math.min(height - 1, (by + 1) * blockSize);
+      const left = Math.max(1, bx * blockSize);
+      const right = Math.min(width - 1, (bx + 1) * blockSize);
+      for (let y = top; y < bottom; y++) {
+        const row = y * width;
+        for (let x = left; x < right; x++) {
+          const i = row + x;
+          const residual =
+            luma[i - width - 1] - 2 * luma[i - width] + luma[i - width + 1]
+            - 2 * luma[i - 1] + 4 * luma[i] - 2 * luma[i + 1]
+            + luma[i + width - 1] - 2 * luma[i + width] + luma[i + width + 1];
+          histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor(Math.abs(residual) / HISTOGRAM_STEP))]++;
+          sum += luma[i];
+          count++;
+        }
+      }
+      const mean = count ? sum / count : 0;
+      if (!count || mean < MIN_BLOCK_MEAN || mean > MAX_BLOCK_MEAN) continue;
+
+      let seen = 0;
+      let bin = 0;
+      while (bin < HISTOGRAM_BINS - 1 && seen + histogram[bin] < count / 2) seen += histogram[bin++];
+      // Interpolate inside the median bin
+      const within = histogram[bin] ? (count / 2 - seen) / histogram[bin] : 0;
+      const mad = (bin + within) * HISTOGRAM_STEP;
+      sigma[by * blocksX + bx] = (mad * MAD_TO_SIGMA) / KERNEL_GAIN;
+    }
+  }
+  return { sigma, blocksX, blocksY };
+}
+
+export function summarizeNoiseLevels(levels: NoiseLevels, blockSize = NOISE_BLOCK_SIZE): NoiseSummary {
+  const values = Array.from(levels.sigma).filter(v => !isNaN(v)).sort((a, b) => a - b);
+  const median = Math.max(percentile(values, 0.5), MIN_NOISE);
+  const inconsistent = values.filter(v => {
+    const level = Math.max(v, MIN_NOISE);
+    return level >= median * INCONSISTENT_RATIO || level <= median / INCONSISTENT_RATIO;
+  }).length;
+
+  return {
+    blockSize,
+    blocksX: levels.blocksX,
+    blocksY: levels.blocksY,
+    blocksAnalyzed: values.length,
+    medianNoise: round(percentile(values, 0.5)),
+    lowNoise: round(percentile(values, 0.05)),
+    highNoise: round(percentile(values, 0.95)),
+    inconsistency: values.length ? round(inconsistent / values.length, 4) : 0,
+  };
+}
+
+/**
+ * Heat map at block resolution (RGBA, blocksX x blocksY): blue below the median noise,
+ * red above it, transparent where the noise matches the median or the block is clipped
+ */
+export function noiseHeatmap(levels: NoiseLevels, medianNoise: number): Uint8ClampedArray {
+  const heatmap = new Uint8ClampedArray(levels.sigma.length * 4);
+  const median = Math.max(medianNoise, MIN_NOISE);
+  levels.sigma.forEach((value, i) => {
+    if (isNaN(value)) return;
+    const deviation = Math.log2(Math.max(value, MIN_NOISE) / median);
+    const strength = Math.min(1, Math.abs(deviation) / Math.log2(INCONSISTENT_RATIO * 2));
+    heatmap.set(deviation > 0 ? [255, 40, 0] : [0, 90, 255], i * 4);
+    heatmap[i * 4 + 3] = Math.round(strength * 255);
+  });
+  return heatmap;
+}
+
+/**
+ * Whether the noise levels point to a localized inconsistency
+ */
+export function isNoiseInconsistent(summary: NoiseSummary): boolean {
+  return summary.inconsistency >= MIN_INCONSISTENCY && summary.inconsistency <= MAX_INCONSISTENCY;
+}
@@ -0,0 +1,164 @@
+// PDF document metadata checks
+// A PDF records its creating application twice: in the Info dictionary (Producer, Creator,
+// CreationDate, ModDate) and in the XMP packet (pdf:Producer, xmp:CreatorTool, xmp:CreateDate,
+// xmp:ModifyDate). Generators write both consistently; tools that change one and not the other,
+// and editors that re-save the document, leave the traces checked here.
+
+import type { SignalEvidence } from './exifValidation';
+import type { NormalizedMetadata } from './tagNormalization';
+
+export interface PdfTools {
+  producer: string | null;
+  creator: string | null;
+  editor: {
+    software: string;
+    field: string;              // Metadata key the editor was found in
+    online: boolean;            // Web service rather than a desktop application
+  } | null;
+  evidence: SignalEvidence[];
+}
+
+export interface PdfInfoXmpComparison {
+  compared: string[];           // Fields present in both the Info dictionary and XMP
+  mismatched: string[];
+  evidence: SignalEvidence[];
+}
+
+export interface PdfDate {
+  date: Date;
+  hasZone: boolean;
+  wallClock: number;            // Local date and time as if it were UTC (ms), for comparing against zoneless dates
+}
+
+const PRODUCER_IDS = ['PDF:Producer', 'XMP-pdf:Producer'];
+const CREATOR_IDS = ['PDF:Creator', 'XMP-xmp:CreatorTool'];
+
+// Info dictionary key vs XMP property holding the same value
+const INFO_XMP_PAIRS: { field: string; info: string; xmp: string; date?: boolean }[] = [
+  { field: 'Producer', info: 'PDF:Producer', xmp: 'XMP-pdf:Producer' },
+  { field: 'Creator', info: 'PDF:Creator', xmp: 'XMP-xmp:CreatorTool' },
+  { field: 'CreateDate', info: 'PDF:CreateDate', xmp: 'XMP-xmp:CreateDate', date: true },
+  { field: 'ModifyDate', info: 'PDF:ModifyDate', xmp: 'XMP-xmp:ModifyDate', date: true },
+];
+
+// Online PDF editors and converters (including design tools used to rebuild documents)
+const ONLINE_PDF_EDITORS = [
+  /ilovepdf/i,
+  /smallpdf/i,
+  /sejda/i,
+  /pdfescape/i,
+  /pdf24/i,
+  /docfly/i,
+  /pdffiller/i,
+  /soda ?pdf/i,
+  /pdf ?candy/i,
+  /hipdf/i,
+  /pdf2go/i,
+  /online2pdf/i,
+  /lightpdf/i,
+  /dochub/i,
+  /formswift/i,
+  /pdfsimpli/i,
+  /canva/i,
+];
+
+// Desktop PDF editors and graphics applications that open and re-save existing PDFs
+const PDF_EDITORS = [
+  /acrobat (?:pro|standard)/i,
+  /foxit (?:phantompdf|pdf editor)/i,
+  /pdf-xchange/i,
+  /nitro (?:pro|pdf)/i,
+  /pdfelement|wondershare/i,
+  /master pdf editor/i,
+  /pdf expert/i,
+  /infix/i,
+  /^draw$/i,                    // LibreOffice Draw (Creator), used to edit imported PDFs
+  /inkscape/i,
+  /illustrator/i,
+  /photoshop/i,
+  /gimp/i,
+  /coreldraw/i,
+];
+
+// Seconds two timestamps of the same save may differ (rounding, writer delays)
+const DATE_TOLERANCE_SECONDS = 2;
+
+/**
+ * PDF date as read by ExifTool ("2024:01:31 10:15:00-03:00"); the zone is optional
+ */
+export function parsePdfDate(raw: string): PdfDate | null {
+  const match = raw.trim().match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second = '00', zone] = match;
+  // Without a zone the wall-clock time is read as UTC, independent of the host timezone
+  const offset = !zone || zone === 'Z' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(-2)}`;
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  if (isNaN(date.getTime())) return null;
+  const wallClock = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+  return { date, hasZone: !!zone, wallClock };
+}
+
+/**
+ * Milliseconds from a to b; when only one side has a time zone both are compared as wall-clock time
+ */
+export function pdfDateDifference(a: PdfDate, b: PdfDate): number {
+  if (a.hasZone !== b.hasZone) return b.wallClock - a.wallClock;
+  return b.date.getTime() - a.date.getTime();
+}
+
+export function isOnlinePdfEditor(software: string): boolean {
+  return ONLINE_PDF_EDITORS.some(pattern => pattern.test(software));
+}
+
+/**
+ * Producer and Creator, and the editing application among them
+ */
+export function detectPdfTools(md: NormalizedMetadata): PdfTools {
+  const producer = PRODUCER_IDS.map(id => md.text(id)).find(Boolean) || null;
+  const creator = CREATOR_IDS.map(id => md.text(id)).find(Boolean) || null;
+  const ids = [...PRODUCER_IDS, ...CREATOR_IDS];
+  let editor: PdfTools['editor'] = null;
+
+  for (const id of ids) {
+    const software = md.text(id);
+    if (!software) continue;
+    if (isOnlinePdfEditor(software)) {
+      editor = { software, field: md.get(id).originalKey, online: true };
+      break;
+    }
+    if (!editor && PDF_EDITORS.some(pattern => pattern.test(software))) {
+      editor = { software, field: md.get(id).originalKey, online: false };
+    }
+  }
+  return { producer, creator, editor, evidence: md.evidence(ids) };
+}
+
+/**
+ * Info dictionary values against their XMP counterparts
+ */
+export function compareInfoXmp(md: NormalizedMetadata): PdfInfoXmpComparison {
+  const compared: string[] = [];
+  const mismatched: string[] = [];
+  const evidence: SignalEvidence[] = [];
+
+  for (const pair of INFO_XMP_PAIRS) {
+    const info = md.text(pair.info).trim();
+    const xmp = md.text(pair.xmp).trim();
+    if (!info || !xmp) continue;
+    compared.push(pair.field);
+
+    let same: boolean;
+    if (pair.date) {
+      const a = parsePdfDate(info);
+      const b = parsePdfDate(xmp);
+      same = !a || !b || Math.abs(pdfDateDifference(a, b)) <= DATE_TOLERANCE_SECONDS * 1000;
+    } else {
+      same = info.replace(/\s+/g, ' ') === xmp.replace(/\s+/g, ' ');
+    }
+    if (!same) {
+      mismatched.push(pair.field);
+      evidence.push(...md.evidence([pair.info, pair.xmp]));
+    }
+  }
+  return { compared, mismatched, evidence };
+}
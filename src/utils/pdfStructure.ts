@@ -0,0 +1,110 @@
+// PDF revision structure (ISO 32000)
+// A PDF is saved either in full or as an incremental update: the changed objects, a new
+// cross-reference section and a new "%%EOF" are appended, so every revision stays in the file.
+// Digital signatures are applied as updates too; anything appended beyond them is a later edit.
+// The bytes are scanned for markers, objects are not parsed (object streams are not inflated).
+
+const EOF_MARKER = '%%EOF';
+const LINEARIZED_WINDOW = 1024;   // The linearization dictionary is the first object
+const MAX_PRODUCER_LENGTH = 200;
+// Escapes of literal strings that stand for control characters (\n, \r, \t, \b, \f)
+const ESCAPES: Record<number, number> = { 0x6e: 0x0a, 0x72: 0x0d, 0x74: 0x09, 0x62: 0x08, 0x66: 0x0c };
+
+export interface PdfStructure {
+  version: string | null;         // Header version ("1.7")
+  linearized: boolean;            // Fast web view; adds one "%%EOF" of its own
+  revisions: number;              // Saved revisions ("%%EOF" markers, the linearization one excluded)
+  incrementalUpdates: number;     // Revisions appended after the original
+  signatures: number;             // Signature dictionaries (/ByteRange)
+  producers: string[];            // Distinct /Producer values of uncompressed Info dictionaries, in file order
+}
+
+const encode = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+export function isPdf(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && String.fromCharCode(...bytes.subarray(0, 5)) === '%PDF-';
+}
+
+/**
+ * Offsets of every occurrence of an ASCII pattern
+ */
+function findAll(bytes: Uint8Array, text: string, start = 0, end = bytes.length): number[] {
+  const pattern = encode(text);
+  const offsets: number[] = [];
+  let offset = bytes.indexOf(pattern[0], start);
+  while (offset >= 0 && offset + pattern.length <= end) {
+    let match = true;
+    for (let i = 1; i < pattern.length && match; i++) match = bytes[offset + i] === pattern[i];
+    if (match) offsets.push(offset);
+    offset = bytes.indexOf(pattern[0], offset + 1);
+  }
+  return offsets;
+}
+
+/**
+ * Literal "(...)" or hex "<...>" string starting at offset; UTF-16BE when it has a byte order mark
+ */
+function readPdfString(bytes: Uint8Array, offset: number): string | null {
+  while (offset < bytes.length && /\s/.test(String.fromCharCode(bytes[offset]))) offset++;
+  const raw: number[] = [];
+
+  if (bytes[offset] === 0x28) {           // (
+    let depth = 1;
+    for (let i = offset + 1; i < bytes.length && raw.length < MAX_PRODUCER_LENGTH * 2; i++) {
+      const byte = bytes[i];
+      if (byte === 0x5c) {                // Backslash escape: keep the escaped byte, octal codes as values
+        const next = bytes[++i];
+        const octal = String.fromCharCode(next, bytes[i + 1], bytes[i + 2]).match(/^[0-7]{1,3}/)?.[0];
+        if (octal) {
+          raw.push(parseInt(octal, 8));
+          i += octal.length - 1;
+        } else {
+          raw.push(ESCAPES[next] ?? next);
+        }
+        continue;
+      }
+      if (byte === 0x28) depth++;
+      if (byte === 0x29 && --depth === 0) break;
+      raw.push(byte);
+    }
+  } else if (bytes[offset] === 0x3c && bytes[offset + 1] !== 0x3c) {   // < but not <<
+    const end = bytes.indexOf(0x3e, offset);
+    const hex = String.fromCharCode(...bytes.subarray(offset + 1, end < 0 ? offset + 1 : Math.min(end, offset + 1 + MAX_PRODUCER_LENGTH * 4)))
+      .replace(/[^0-9a-f]/gi, '');
+    for (let i = 0; i + 1 < hex.length; i += 2) raw.push(parseInt(hex.slice(i, i + 2), 16));
+  } else {
+    return null;
+  }
+
+  const text = raw[0] === 0xfe && raw[1] === 0xff
+    ? new TextDecoder('utf-16be').decode(Uint8Array.from(raw.slice(2)))
+    : String.fromCharCode(...raw);
+  return text.replace(/\0/g, '').trim().slice(0, MAX_PRODUCER_LENGTH) || null;
+}
+
+/**
+ * Revisions, signatures and producers of a PDF file, or null when the bytes are not a PDF
+ */
+export function readPdfStructure(bytes: Uint8Array): PdfStructure | null {
+  if (!isPdf(bytes)) return null;
+
+  const header = String.fromCharCode(...bytes.subarray(0, 16)).match(/^%PDF-(\d\.\d)/);
+  const linearized = findAll(bytes, '/Linearized', 0, Math.min(bytes.length, LINEARIZED_WINDOW)).length > 0;
+  const eofMarkers = findAll(bytes, EOF_MARKER).length;
+  const revisions = Math.max(1, eofMarkers - (linearized && eofMarkers > 1 ? 1 : 0));
+
+  const producers: string[] = [];
+  for (const offset of findAll(bytes, '/Producer')) {
+    const producer = readPdfString(bytes, offset + '/Producer'.length);
+    if (producer && !producers.includes(producer)) producers.push(producer);
+  }
+
+  return {
+    version: header?.[1] ?? null,
+    linearized,
+    revisions,
+    incrementalUpdates: revisions - 1,
+    signatures: findAll(bytes, '/ByteRange').length,
+    producers,
+  };
+}
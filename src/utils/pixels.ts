@@ -0,0 +1,43 @@
+// Pixel buffer helpers shared by the analysis workers (no DOM access)
+
+/**
+ * BT.601 luma of an RGBA buffer (same weights JPEG uses for Y)
+ */
+export function lumaFromRgba(rgba: Uint8ClampedArray, width: number, height: number): Float32Array {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return luma;
+}
+
+// DCT_BASIS[u * 8 + x] = C(u) / 2 * cos((2x + 1) u π / 16), the JPEG 8x8 DCT-II basis
+export const DCT_BASIS = (() => {
+  const basis = new Float64Array(64);
+  for (let u = 0; u < 8; u++) {
+    const c = u === 0 ? Math.SQRT1_2 : 1;
+    for (let x = 0; x < 8; x++) {
+      basis[u * 8 + x] = (c / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+    }
+  }
+  return basis;
+})();
+
+/**
+ * One DCT coefficient (natural-order index) of the 8x8 block at (left, top), level-shifted by 128
+ */
+export function dctCoefficient(luma: Float32Array, width: number, left: number, top: number, index: number): number {
+  const v = index >> 3;
+  const u = index & 7;
+  let sum = 0;
+  for (let y = 0; y < 8; y++) {
+    const row = (top + y) * width + left;
+    const by = DCT_BASIS[v * 8 + y];
+    let rowSum = 0;
+    for (let x = 0; x < 8; x++) {
+      rowSum += (luma[row + x] - 128) * DCT_BASIS[u * 8 + x];
+    }
+    sum += rowSum * by;
+  }
+  return sum;
+}
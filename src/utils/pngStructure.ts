@@ -0,0 +1,174 @@
+// PNG chunk structure (ISO/IEC 15948, PNG Third Edition for eXIf)
+// A PNG is a signature followed by chunks (length, type, data, CRC). Encoders write them in
+// a fixed order; tools that patch a file in place leave chunks out of order, with bad CRCs or
+// with data after IEND. Text chunks carry the Software keyword and generator parameters.
+
+import { crc32 } from './hash';
+import { TiffReader } from './tiffStructure';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// Chunks the specification requires before the first IDAT
+const BEFORE_IDAT = new Set(['PLTE', 'iCCP', 'sRGB', 'gAMA', 'cHRM', 'sBIT', 'pHYs', 'sPLT', 'tRNS', 'bKGD', 'hIST', 'cICP', 'mDCV', 'cLLI']);
+
+// Chunk types defined by the specification and its registered extensions; anything else is private
+const KNOWN_CHUNKS = new Set([
+  'IHDR', 'PLTE', 'IDAT', 'IEND', 'tRNS', 'cHRM', 'gAMA', 'iCCP', 'sBIT', 'sRGB', 'cICP', 'mDCV', 'cLLI',
+  'tEXt', 'zTXt', 'iTXt', 'bKGD', 'hIST', 'pHYs', 'sPLT', 'eXIf', 'tIME', 'acTL', 'fcTL', 'fdAT',
+  'oFFs', 'pCAL', 'sCAL', 'gIFg', 'gIFx', 'sTER', 'dSIG',
+]);
+
+const TEXT_PREVIEW = 200;     // Characters of each text chunk kept in the stored analysis
+
+const IFD0_MAKE = 0x010f;
+const IFD0_MODEL = 0x0110;
+const IFD0_SOFTWARE = 0x0131;
+
+export type PngAnomaly =
+  | 'ihdr-not-first'    // IHDR missing or not the first chunk
+  | 'iend-missing'      // File ends without IEND
+  | 'split-idat'        // Image data interrupted by other chunks
+  | 'late-ancillary'    // Chunk required before IDAT (e.g. iCCP, pHYs) found after it
+  | 'crc-mismatch'      // Chunk bytes changed without updating the CRC
+  | 'truncated';        // Chunk extends past the end of the file
+
+export interface PngTextChunk {
+  type: 'tEXt' | 'zTXt' | 'iTXt';
+  keyword: string;
+  text: string | null;      // First characters; null when the text is compressed
+  length: number;           // Chunk data length
+}
+
+export interface PngExif {
+  make: string | null;
+  model: string | null;
+  software: string | null;
+}
+
+export interface PngStructure {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlaced: boolean;
+  chunks: string[];           // Chunk types in file order, consecutive repeats collapsed
+  text: PngTextChunk[];
+  exif: PngExif | null;       // IFD0 of the eXIf chunk
+  privateChunks: string[];    // Non-standard chunk types (e.g. Apple "iDOT", Fireworks "mkBF")
+  anomalies: PngAnomaly[];
+  trailingBytes: number;      // Bytes after IEND
+}
+
+export function isPng(bytes: Uint8Array): boolean {
+  return bytes.length >= 8 && SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+const LATIN1 = new TextDecoder('latin1');
+const latin1 = (bytes: Uint8Array) => LATIN1.decode(bytes);
+
+// Keywords are 1-79 bytes; a chunk without the separator is not read past that
+const MAX_KEYWORD_LENGTH = 79;
+
+function readText(type: PngTextChunk['type'], data: Uint8Array): PngTextChunk {
+  const separator = data.indexOf(0);
+  const keyword = latin1(data.subarray(0, Math.min(separator < 0 ? data.length : separator, MAX_KEYWORD_LENGTH)));
+  let text: string | null = null;
+
+  if (separator >= 0 && type === 'tEXt') {
+    text = latin1(data.subarray(separator + 1, separator + 1 + TEXT_PREVIEW));
+  } else if (separator >= 0 && type === 'iTXt' && data[separator + 1] === 0) {
+    // Keyword, compression flag and method, language tag and translated keyword precede the text
+    const language = data.indexOf(0, separator + 3);
+    const translated = language < 0 ? -1 : data.indexOf(0, language + 1);
+    if (translated >= 0) {
+      text = new TextDecoder().decode(data.subarray(translated + 1, translated + 1 + TEXT_PREVIEW * 4)).slice(0, TEXT_PREVIEW);
+    }
+  }
+  return { type, keyword, text, length: data.length };
+}
+
+function readExif(data: Uint8Array): PngExif | null {
+  const tiff = TiffReader.open(data);
+  const ifd0 = tiff?.readIfd(tiff.firstIfdOffset);
+  if (!tiff || !ifd0) return null;
+  return {
+    make: tiff.string(ifd0.entries.get(IFD0_MAKE)) || null,
+    model: tiff.string(ifd0.entries.get(IFD0_MODEL)) || null,
+    software: tiff.string(ifd0.entries.get(IFD0_SOFTWARE)) || null,
+  };
+}
+
+/**
+ * Chunk layout, text chunks and eXIf of a PNG file, or null when the bytes are not a PNG
+ */
+export function readPngStructure(bytes: Uint8Array): PngStructure | null {
+  if (!isPng(bytes)) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const structure: PngStructure = {
+    width: 0,
+    height: 0,
+    bitDepth: 0,
+    colorType: 0,
+    interlaced: false,
+    chunks: [],
+    text: [],
+    exif: null,
+    privateChunks: [],
+    anomalies: [],
+    trailingBytes: 0,
+  };
+  const anomalies = new Set<PngAnomaly>();
+  let offset = 8;
+  let ended = false;
+  let seenIdat = false;
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1(bytes.subarray(offset + 4, offset + 8));
+    const end = offset + 12 + length;
+    if (end > bytes.length) {
+      anomalies.add('truncated');
+      break;
+    }
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (crc32(bytes, offset + 4, offset + 8 + length) !== view.getUint32(offset + 8 + length)) {
+      anomalies.add('crc-mismatch');
+    }
+    if (structure.chunks[structure.chunks.length - 1] !== type) {
+      if (type === 'IDAT' && seenIdat) anomalies.add('split-idat');
+      structure.chunks.push(type);
+    }
+    if (!KNOWN_CHUNKS.has(type) && !structure.privateChunks.includes(type)) {
+      structure.privateChunks.push(type);
+    }
+    if (seenIdat && BEFORE_IDAT.has(type)) anomalies.add('late-ancillary');
+
+    if (type === 'IHDR' && length >= 13) {
+      if (offset !== 8) anomalies.add('ihdr-not-first');
+      structure.width = view.getUint32(offset + 8);
+      structure.height = view.getUint32(offset + 12);
+      structure.bitDepth = data[8];
+      structure.colorType = data[9];
+      structure.interlaced = data[12] === 1;
+    } else if (type === 'IDAT') {
+      seenIdat = true;
+    } else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+      structure.text.push(readText(type, data));
+    } else if (type === 'eXIf') {
+      structure.exif = readExif(data);
+    }
+
+    offset = end;
+    if (type === 'IEND') {
+      ended = true;
+      break;
+    }
+  }
+
+  if (structure.chunks[0] !== 'IHDR') anomalies.add('ihdr-not-first');
+  if (!ended && !anomalies.has('truncated')) anomalies.add('iend-missing');
+  structure.trailingBytes = ended ? bytes.length - offset : 0;
+  structure.anomalies = [...anomalies];
+  return structure;
+}
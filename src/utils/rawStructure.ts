@@ -0,0 +1,215 @@
+// Camera RAW containers (CR2, NEF, ARW, DNG and other TIFF-based formats)
+// A RAW file stores the sensor data next to one or more JPEG previews rendered by the camera,
+// in a chain of IFDs and SubIFDs. Both come from the same capture, so the previews have the
+// aspect ratio of the sensor's active area; a preview replaced after the fact usually does not.
+// DNG adds the converting software and the name of the original RAW file.
+
+import { TiffReader, type TiffIfd } from './tiffStructure';
+import { readJpegFrame } from './jpegStructure';
+import { readFileType } from './isoBmff';
+
+export type RawFormat = 'cr2' | 'cr3' | 'nef' | 'arw' | 'dng' | 'orf' | 'rw2' | 'raf' | 'pef' | 'srw' | 'raw';
+
+export type RawImageRole = 'raw' | 'preview' | 'thumbnail';
+
+export interface RawImage {
+  role: RawImageRole;
+  width: number | null;
+  height: number | null;
+  compression: number | null;   // TIFF Compression (1 none, 6/7 JPEG, 34892 lossy DNG...)
+}
+
+export interface RawStructure {
+  format: RawFormat;
+  make: string | null;
+  model: string | null;
+  software: string | null;
+  dngVersion: string | null;        // "1.6.0.0"
+  originalRawFileName: string | null;
+  activeArea: { width: number; height: number } | null;   // DNG DefaultCropSize
+  images: RawImage[];
+}
+
+const TAG = {
+  IMAGE_WIDTH: 0x0100,
+  IMAGE_HEIGHT: 0x0101,
+  COMPRESSION: 0x0103,
+  PHOTOMETRIC: 0x0106,
+  MAKE: 0x010f,
+  MODEL: 0x0110,
+  STRIP_OFFSETS: 0x0111,
+  SOFTWARE: 0x0131,
+  SUB_IFDS: 0x014a,
+  JPEG_OFFSET: 0x0201,
+  JPEG_LENGTH: 0x0202,
+  DNG_VERSION: 0xc612,
+  DEFAULT_CROP_SIZE: 0xc620,
+  CR2_SLICE: 0xc640,
+  ORIGINAL_RAW_FILE_NAME: 0xc68b,
+};
+
+const CFA = 32803;
+const LINEAR_RAW = 34892;
+const MAX_IFDS = 16;
+const THUMBNAIL_MAX_SIDE = 400;
+
+// TIFF variants with their own header magic (Olympus "IIRO"/"IIRS", Panasonic "IIU")
+const RAW_MAGIC: Record<number, RawFormat> = { 0x4f52: 'orf', 0x5352: 'orf', 0x0055: 'rw2' };
+
+// Format by maker for TIFF-based files without a format signature
+const FORMAT_BY_MAKE: [RegExp, RawFormat][] = [
+  [/nikon/i, 'nef'],
+  [/sony/i, 'arw'],
+  [/pentax|ricoh/i, 'pef'],
+  [/samsung/i, 'srw'],
+];
+
+// Makers that write each RAW format (by format or file extension)
+const RAW_FORMAT_MAKES: Record<string, RegExp> = {
+  cr2: /canon/i,
+  cr3: /canon/i,
+  crw: /canon/i,
+  nef: /nikon/i,
+  nrw: /nikon/i,
+  arw: /sony/i,
+  srf: /sony/i,
+  sr2: /sony/i,
+  orf: /olympus|om digital/i,
+  rw2: /panasonic|leica/i,
+  raf: /fujifilm/i,
+  pef: /pentax|ricoh/i,
+  srw: /samsung/i,
+  x3f: /sigma/i,
+  '3fr': /hasselblad/i,
+  iiq: /phase one/i,
+  rwl: /leica/i,
+};
+
+function openTiff(bytes: Uint8Array): { reader: TiffReader; format: RawFormat | null } | null {
+  const tiff = TiffReader.open(bytes);
+  if (tiff) return { reader: tiff, format: bytes[8] === 0x43 && bytes[9] === 0x52 ? 'cr2' : null };   // "CR"
+  if (bytes.length < 8) return null;
+  const order = String.fromCharCode(bytes[0], bytes[1]);
+  if (order !== 'II' && order !== 'MM') return null;
+  const reader = TiffReader.raw(bytes, order === 'II');
+  const format = RAW_MAGIC[reader.u16(2)];
+  return format ? { reader, format } : null;
+}
+
+/**
+ * IFD0 and the IFDs chained after it, each followed by its SubIFDs
+ */
+function readIfdTree(reader: TiffReader): TiffIfd[] {
+  const ifds: TiffIfd[] = [];
+  const seen = new Set<number>();
+  const visit = (offset: number) => {
+    if (ifds.length >= MAX_IFDS || seen.has(offset)) return;
+    seen.add(offset);
+    const ifd = reader.readIfd(offset);
+    if (!ifd) return;
+    ifds.push(ifd);
+    for (const sub of reader.numbers(ifd.entries.get(TAG.SUB_IFDS))) visit(sub);
+  };
+
+  let offset = reader.firstIfdOffset;
+  while (offset && ifds.length < MAX_IFDS && !seen.has(offset)) {
+    const before = ifds.length;
+    visit(offset);
+    if (ifds.length === before) break;
+    offset = ifds[before].next;
+  }
+  return ifds;
+}
+
+function readImage(reader: TiffReader, ifd: TiffIfd): RawImage | null {
+  const { entries } = ifd;
+  const compression = reader.number(entries.get(TAG.COMPRESSION));
+  const photometric = reader.number(entries.get(TAG.PHOTOMETRIC));
+  let width = reader.number(entries.get(TAG.IMAGE_WIDTH));
+  let height = reader.number(entries.get(TAG.IMAGE_HEIGHT));
+
+  // Canon stores the raw data as sliced lossless JPEG with no size tags
+  const isRaw = photometric === CFA || photometric === LINEAR_RAW || entries.has(TAG.CR2_SLICE);
+  if (isRaw && (!width || !height)) {
+    const start = reader.number(entries.get(TAG.STRIP_OFFSETS));
+    const frame = start ? readJpegFrame(reader.bytes.subarray(start, start + 1024)) : null;
+    if (frame) {
+      width = frame.width * frame.components;
+      height = frame.height;
+    }
+  }
+
+  // Previews stored as a JPEG stream carry their size in the stream
+  const jpegOffset = reader.number(entries.get(TAG.JPEG_OFFSET));
+  const jpegLength = reader.number(entries.get(TAG.JPEG_LENGTH));
+  if (!isRaw && (!width || !height) && jpegOffset && jpegLength) {
+    const frame = readJpegFrame(reader.bytes.subarray(jpegOffset, jpegOffset + jpegLength));
+    width = frame?.width ?? null;
+    height = frame?.height ?? null;
+  }
+  if (!isRaw && !width && !jpegOffset) return null;
+
+  const role: RawImageRole = isRaw
+    ? 'raw'
+    : Math.max(width ?? 0, height ?? 0) <= THUMBNAIL_MAX_SIDE ? 'thumbnail' : 'preview';
+  return { role, width: width || null, height: height || null, compression };
+}
+
+export function isCr3(bytes: Uint8Array): boolean {
+  return readFileType(bytes)?.majorBrand === 'crx';
+}
+
+/**
+ * Images and DNG fields of a RAW file, or null when the bytes are not a RAW container
+ * (a plain TIFF has no sensor data and is not one)
+ */
+export function readRawStructure(bytes: Uint8Array): RawStructure | null {
+  const empty = { make: null, model: null, software: null, dngVersion: null, originalRawFileName: null, activeArea: null, images: [] };
+  if (isCr3(bytes)) return { format: 'cr3', ...empty };
+  if (String.fromCharCode(...bytes.subarray(0, 15)) === 'FUJIFILMCCD-RAW') return { format: 'raf', ...empty };
+
+  const opened = openTiff(bytes);
+  if (!opened) return null;
+  const { reader } = opened;
+  const ifds = readIfdTree(reader);
+  const ifd0 = ifds[0];
+  if (!ifd0) return null;
+
+  const images = ifds
+    .map(ifd => readImage(reader, ifd))
+    .filter((image): image is RawImage => image !== null);
+  const dngBytes = reader.data(ifd0.entries.get(TAG.DNG_VERSION));
+  const make = reader.string(ifd0.entries.get(TAG.MAKE)) || null;
+
+  let format = opened.format;
+  if (!format && dngBytes) format = 'dng';
+  if (!format && images.some(image => image.role === 'raw')) {
+    format = FORMAT_BY_MAKE.find(([pattern]) => pattern.test(make ?? ''))?.[1] ?? 'raw';
+  }
+  if (!format) return null;
+
+  // OriginalRawFileName is BYTE in the specification, some writers use ASCII
+  const originalRawFileName = reader.string(ifd0.entries.get(TAG.ORIGINAL_RAW_FILE_NAME)) || null;
+  const [cropWidth, cropHeight] = ifds
+    .map(ifd => reader.numbers(ifd.entries.get(TAG.DEFAULT_CROP_SIZE)))
+    .find(values => values.length === 2) ?? [];
+
+  return {
+    format,
+    make,
+    model: reader.string(ifd0.entries.get(TAG.MODEL)) || null,
+    software: reader.string(ifd0.entries.get(TAG.SOFTWARE)) || null,
+    dngVersion: dngBytes ? Array.from(dngBytes.subarray(0, 4)).join('.') : null,
+    originalRawFileName,
+    activeArea: cropWidth && cropHeight ? { width: Math.round(cropWidth), height: Math.round(cropHeight) } : null,
+    images,
+  };
+}
+
+/**
+ * Whether a maker writes this RAW format or extension; null when the format is not tied to one maker (DNG)
+ */
+export function rawFormatMatchesMake(format: string, make: string): boolean | null {
+  const pattern = RAW_FORMAT_MAKES[format.toLowerCase()];
+  return pattern ? pattern.test(make) : null;
+}
@@ -0,0 +1,117 @@
+// Screenshot detection
+// A screen capture records what was displayed, not a scene: it has no camera EXIF, and the
+// capture tools leave their own markers (iOS/macOS "Screenshot" user comment and "iDOT" chunk,
+// Android and desktop file names, capture software). The pixel size matching a screen supports
+// the other markers but is not enough on its own.
+
+import type { SignalEvidence } from './exifValidation';
+import type { NormalizedMetadata } from './tagNormalization';
+import type { PngStructure } from './pngStructure';
+import { SCREEN_RESOLUTIONS, type ScreenPlatform } from '../data/screenResolutions';
+
+export type ScreenshotMarker =
+  | 'user-comment'        // EXIF/XMP UserComment "Screenshot" (iOS, macOS)
+  | 'apple-chunk'         // Apple "iDOT" PNG chunk (iOS, macOS)
+  | 'file-name'           // Default screenshot file name
+  | 'software'            // Screen capture tool
+  | 'screen-resolution';  // Pixel size of a known screen
+
+export interface ScreenshotDetection {
+  isScreenshot: boolean;
+  platform: ScreenPlatform | null;
+  markers: ScreenshotMarker[];
+  evidence: SignalEvidence[];
+}
+
+// Android: "Screenshot_20240131-101500.png", "Screenshot_2024-01-31-10-15-00-123_com.whatsapp.jpg"
+const ANDROID_FILE_NAME = /^screenshot_\d{4}-?\d{2}-?\d{2}/i;
+// macOS, Windows and Linux defaults (English and localized), iOS Simulator
+const SCREENSHOT_FILE_NAME = /^(?:screenshot|screen shot|simulator screen shot|captura de tela|captura de ecrã|captura de pantalla|bildschirmfoto|schermata|capture d[’']écran)\b/i;
+
+const SCREENSHOT_SOFTWARE = [
+  /gnome-screenshot/i,
+  /spectacle/i,
+  /greenshot/i,
+  /sharex/i,
+  /snipping tool|screensketch|ferramenta de captura/i,
+  /flameshot/i,
+  /lightshot/i,
+  /snagit/i,
+  /\bscreen ?shot\b/i,
+];
+
+const SOFTWARE_IDS = ['PNG:Software', 'IFD0:Software', 'XMP-xmp:CreatorTool'];
+const USER_COMMENT_IDS = ['XMP-exif:UserComment', 'ExifIFD:UserComment'];
+
+/**
+ * Platforms with a screen of exactly this size (either orientation)
+ */
+export function matchScreenResolution(width: number, height: number): ScreenPlatform[] {
+  if (!width || !height) return [];
+  return (Object.keys(SCREEN_RESOLUTIONS) as ScreenPlatform[]).filter(platform =>
+    SCREEN_RESOLUTIONS[platform].some(([w, h]) => (w === width && h === height) || (w === height && h === width))
+  );
+}
+
+/**
+ * Screenshot markers in the metadata and PNG structure. One capture marker is enough;
+ * the Apple chunk and the screen size only count together.
+ */
+export function detectScreenshot(md: NormalizedMetadata, png: PngStructure | null): ScreenshotDetection {
+  const markers: ScreenshotMarker[] = [];
+  const evidence: SignalEvidence[] = [];
+
+  // Cameras do not take screenshots
+  if (md.has('IFD0:Make') || md.has('IFD0:Model') || png?.exif?.make) {
+    return { isScreenshot: false, platform: null, markers, evidence };
+  }
+
+  const commentId = USER_COMMENT_IDS.find(id => /^screenshot$/i.test(md.text(id).trim()));
+  if (commentId) {
+    markers.push('user-comment');
+    evidence.push(...md.evidence([commentId]));
+  }
+
+  const fileName = md.text('File:FileName');
+  const androidName = ANDROID_FILE_NAME.test(fileName);
+  if (androidName || SCREENSHOT_FILE_NAME.test(fileName)) {
+    markers.push('file-name');
+    evidence.push(...md.evidence(['File:FileName']));
+  }
+
+  const softwareId = SOFTWARE_IDS.find(id => SCREENSHOT_SOFTWARE.some(pattern => pattern.test(md.text(id))));
+  if (softwareId) {
+    markers.push('software');
+    evidence.push(...md.evidence([softwareId]));
+  }
+
+  const appleChunk = !!png?.privateChunks.includes('iDOT');
+  if (appleChunk) {
+    markers.push('apple-chunk');
+    evidence.push({ key: 'PNG:Chunks', value: 'iDOT' });
+  }
+
+  const width = png?.width || parseInt(md.text('File:ImageWidth') || md.text('PNG:ImageWidth') || '0');
+  const height = png?.height || parseInt(md.text('File:ImageHeight') || md.text('PNG:ImageHeight') || '0');
+  const screens = matchScreenResolution(width, height);
+  if (screens.length) {
+    markers.push('screen-resolution');
+    evidence.push({ key: 'File:ImageSize', value: `${width}x${height}` });
+  }
+
+  const captureMarkers = markers.filter(marker => marker !== 'apple-chunk' && marker !== 'screen-resolution').length;
+  const isScreenshot = captureMarkers > 0 || (appleChunk && screens.length > 0);
+  if (!isScreenshot) return { isScreenshot, platform: null, markers, evidence };
+
+  let platform: ScreenPlatform | null;
+  if (commentId || appleChunk) {
+    platform = screens.includes('desktop') ? 'desktop' : 'ios';
+  } else if (androidName) {
+    platform = 'android';
+  } else if (softwareId) {
+    platform = 'desktop';
+  } else {
+    platform = screens[0] ?? 'desktop';
+  }
+  return { isScreenshot, platform, markers, evidence };
+}
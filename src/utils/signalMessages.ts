@@ -0,0 +1,253 @@
+// Localizable messages for validation signals
+// Templates use {param} placeholders filled from ValidationSignal.params
+
+import type { ValidationSignal } from './exifValidation';
+
+export type SignalLocale = 'pt-BR' | 'en';
+
+export const DEFAULT_SIGNAL_LOCALE: SignalLocale = 'pt-BR';
+
+const MESSAGES: Record<SignalLocale, Record<string, string>> = {
+  'pt-BR': {
+    // Camera
+    CAMERA_EXIF_ABSENT: 'EXIF de câmera ausente (Make/Model/Data)',
+    MAKE_ABSENT: 'Marca da câmera ausente',
+    MAKE_PRESENT: 'Marca da câmera presente: {make}',
+    MODEL_ABSENT: 'Modelo da câmera ausente',
+    MODEL_PRESENT: 'Modelo da câmera presente: {model}',
+    // Temporal
+    CAPTURE_DATE_ABSENT: '📅 Data de criação ausente',
+    CAPTURE_DATE_PRESENT: '📅 Data de criação presente: {date}',
+    MODIFIED_BEFORE_CAPTURE: '📅 Inconsistência temporal: ModifyDate ({modifyDate}) anterior a DateTimeOriginal ({dateTimeOriginal})',
+    EDITED_AFTER_CAPTURE: '📅 Edição posterior detectada: modificado {elapsed} após captura ({dateTimeOriginal} → {modifyDate})',
+    TEMPORAL_CONSISTENT: '📅 Consistência temporal verificada',
+    FUTURE_CAPTURE_DATE: '📅 Data de captura no futuro: {dateTimeOriginal}',
+    XMP_HISTORY_BEFORE_CAPTURE: '📅 Histórico XMP registra "{action}" em {when}, antes da captura ({dateTimeOriginal})',
+    XMP_HISTORY_OUT_OF_ORDER: '📅 Histórico XMP fora de ordem: "{action}" em {when} é anterior ao evento precedente ({previousWhen})',
+    XMP_HISTORY_EDITED_AFTER_CAPTURE: '📅 Histórico XMP: "{action}" por {software} {elapsed} após a captura ({when})',
+    GPS_TIME_MISMATCH: '📅 Horário GPS ({gpsTime}) não corresponde à captura ({dateTimeOriginal}, {offset}): diferença de {difference} min',
+    GPS_TIME_CONSISTENT: '📅 Horário GPS consistente com a captura ({gpsTime})',
+    TIMEZONE_OFFSET_MISMATCH: '📅 Fuso {offset} ({source}) incompatível com as coordenadas {coordinates} (esperado: {expected})',
+    // Software
+    EDITOR_DETECTED: 'Software de edição detectado: {software} [{source}]',
+    NO_EDITOR_DECLARED: 'Nenhum software de edição declarado',
+    SILENT_EDIT_SCENE_TYPE: 'Indício de edição silenciosa: SceneType não é "Directly photographed" ({sceneType})',
+    SILENT_EDIT_COMPONENTS_CONFIGURATION: 'Indício de edição silenciosa: ComponentsConfiguration anômalo ({components})',
+    SILENT_EDIT_MAKERNOTE_ABSENT: 'Indício de edição silenciosa: MakerNote ausente apesar de Make/Model ({make})',
+    SILENT_EDIT_THUMBNAIL_ABSENT: 'Indício de edição silenciosa: Thumbnail EXIF (IFD1) ausente',
+    SILENT_EDIT_THUMBNAIL_SIZE: 'Indício de edição silenciosa: thumbnail {thumbnail} difere do padrão do {model} ({expected})',
+    SILENT_EDIT_SUBSAMPLING: 'Indício de edição silenciosa: subamostragem {subsampling} difere do padrão do {model} ({expected})',
+    SILENT_EDIT_EXIF_FIELDS_ABSENT: 'Indício de edição silenciosa: campos EXIF que o {model} sempre grava estão ausentes ({fields})',
+    // AI / C2PA
+    C2PA_MANIFEST_PRESENT: 'C2PA manifest presente (JUMBF)',
+    C2PA_ACTION: 'C2PA action: {action}',
+    C2PA_AGENT: 'C2PA agent: {agent}',
+    C2PA_DIGITAL_SOURCE_AI: 'C2PA DigitalSourceType: {digitalSourceType}',
+    C2PA_STRONG_AI: 'Sinal C2PA forte de IA',
+    C2PA_SIGNATURE_INVALID: 'Credencial C2PA inválida (assinante: {signer}): {reason}',
+    C2PA_MANIFEST_TAMPERED: 'Credencial C2PA violada — arquivo ou asserções alterados após a assinatura: {reason}',
+    C2PA_SIGNATURE_UNTRUSTED: 'Credencial C2PA íntegra, mas assinante fora da lista de confiança ({signer})',
+    C2PA_TRUSTED_CAPTURE: 'Credencial C2PA de captura assinada por câmera confiável ({signer})',
+    GENAI_FLAG: 'GenAIType flag ativada',
+    IPTC_DIGITAL_SOURCE_AI: 'AI indicator in {field}: {value}',
+    AI_SOFTWARE: 'AI software detected in {field}: {value}',
+    PNG_GENERATION_PARAMETERS: 'Parâmetros de geração de imagem por IA no PNG ({keyword}): {value}',
+    // Consistency
+    DIMENSION_MISMATCH: 'Inconsistência de dimensões: EXIF {exifWidth}x{exifHeight} vs Arquivo {fileWidth}x{fileHeight}',
+    DIMENSIONS_CONSISTENT: 'Dimensões consistentes',
+    GPS_COORDINATES_INVALID: 'Coordenadas GPS inválidas: {coordinates}',
+    GPS_ALTITUDE_IMPLAUSIBLE: 'Altitude GPS implausível: {altitude} m',
+    GPS_PRECISION_INVALID: 'Precisão GPS inválida: {field} = {value}',
+    DEVICE_RESOLUTION_MISMATCH: 'Dimensões {fileWidth}x{fileHeight} ({aspectRatio}) não produzidas pelo {model} (nativo: {native})',
+    THUMBNAIL_ASPECT_MISMATCH: 'Thumbnail EXIF com enquadramento diferente da imagem: {thumbnail} vs {main} (possível recorte após a captura)',
+    THUMBNAIL_CONTENT_MISMATCH: 'Thumbnail EXIF com conteúdo diferente da imagem (similaridade {similarity}%)',
+    THUMBNAIL_CONSISTENT: 'Thumbnail EXIF consistente com a imagem (similaridade {similarity}%)',
+    // Encoding / color / transport
+    PROGRESSIVE_DCT: 'Codificação JPEG progressiva',
+    SUBSAMPLING_444: 'Subamostragem YCbCr 4:4:4 incomum',
+    QUANTIZATION_MISMATCH: 'Tabelas de quantização JPEG não correspondem à câmera declarada ({camera}): {encoder}',
+    QUANTIZATION_CAMERA_MATCH: 'Tabelas de quantização JPEG correspondem à câmera declarada ({camera})',
+    SPECIFIC_ICC: 'Perfil ICC específico: {profile}',
+    // HEIF
+    HEIF_DIMENSION_MISMATCH: 'Imagem HEIF codificada em {encoded}, mas o EXIF registra {exif}: redimensionada ou recodificada',
+    HEIF_STRUCTURE_REENCODED: 'Estrutura HEIF diferente da gerada por {make} (ausente: {missing}): arquivo recodificado',
+    HEIF_CAMERA_STRUCTURE: 'Estrutura HEIF típica de câmera: grade de {tiles} tiles ({size}) com miniatura e item Exif',
+    HEIF_AUXILIARY_IMAGES: 'Imagens auxiliares geradas na captura: {images}',
+    APPLE_MAKERNOTE_FOREIGN: 'MakerNote da Apple em arquivo com fabricante "{make}": EXIF transplantado ou alterado',
+    APPLE_MAKERNOTE_PRESENT: 'MakerNote da Apple presente ({tags} campos)',
+    APPLE_CONTENT_IDENTIFIER: 'Identificador de conteúdo Apple (Live Photo): {id}',
+    APPLE_CONTENT_IDENTIFIER_INVALID: 'Identificador de conteúdo Apple malformado: {id}',
+    HEIF_CONVERTED: 'Arquivo {kind} convertido de HEIC (indícios: {traces})',
+    // PNG
+    PNG_CHUNK_ANOMALY: 'Estrutura PNG alterada após a gravação ({anomalies})',
+    PNG_TRAILING_DATA: 'PNG com {bytes} bytes após o fim da imagem (IEND): dados anexados ao arquivo',
+    PNG_CAMERA_EXIF: 'PNG com EXIF de câmera ({camera}): câmeras não gravam PNG, arquivo exportado ou convertido de uma foto',
+    // PDF
+    PDF_TOOLS: 'Documento gerado por: {producer} (Creator: {creator})',
+    PDF_EDITOR_DETECTED: 'Documento salvo por editor de PDF: {software} ({field})',
+    PDF_ONLINE_EDITOR: 'Documento processado por editor de PDF online: {software} ({field})',
+    PDF_INFO_XMP_MISMATCH: 'Dicionário Info e XMP do PDF divergem ({fields}): metadados alterados por outra ferramenta',
+    PDF_INFO_XMP_CONSISTENT: 'Dicionário Info e XMP do PDF consistentes ({fields})',
+    PDF_INCREMENTAL_UPDATES: '{updates} atualização(ões) incremental(is) após a geração do documento (assinaturas: {signatures}; produtores: {producers})',
+    PDF_SIGNED: 'Documento com {signatures} assinatura(s) digital(is)',
+    PDF_MODIFIED_AFTER_CREATION: 'Documento modificado {elapsed} após a criação ({createDate} → {modifyDate})',
+    PDF_MODIFIED_BEFORE_CREATION: 'Data de modificação do documento anterior à criação ({modifyDate} < {createDate})',
+    // Video
+    VIDEO_DATE_MISMATCH: 'Datas de criação do vídeo divergem em {elapsed} ({earliest} → {latest}): arquivo regravado após a gravação',
+    VIDEO_DATES_ZEROED: 'Datas de criação do vídeo zeradas ({fields}): arquivo gerado por ferramenta que não preserva as datas',
+    VIDEO_DATES_CONSISTENT: 'Datas de criação do vídeo consistentes ({fields})',
+    VIDEO_REENCODED: 'Vídeo gravado por reencoder ou editor: {software} ({field})',
+    VIDEO_SOFTWARE: 'Software de gravação do vídeo: {software}',
+    VIDEO_LOCATION: 'Localização do vídeo ({source}): {coordinates}',
+    VIDEO_LOCATION_IMPLAUSIBLE: 'Localização do vídeo implausível ({source}): {coordinates}',
+    VIDEO_DURATION_IMPLAUSIBLE: 'Duração do vídeo implausível: {duration} s',
+    VIDEO_TRACK_DURATION_MISMATCH: 'Faixa com {track} s em vídeo de {duration} s: cortado ou unido sem regravar o cabeçalho',
+    VIDEO_FRAME_RATE_IMPLAUSIBLE: 'Taxa de quadros implausível: {frameRate} fps',
+    // RAW
+    RAW_PREVIEW_MISMATCH: 'Prévia do RAW ({preview}) não corresponde aos dados do sensor ({raw}): prévia substituída',
+    RAW_PREVIEW_CONSISTENT: 'Prévia do RAW ({preview}) consistente com os dados do sensor ({raw})',
+    RAW_FORMAT_MISMATCH: 'Formato {format} não é gravado por câmeras {make}',
+    RAW_FORMAT: 'Arquivo RAW {format} da câmera {camera}',
+    RAW_DNG_CONVERTER: 'DNG gerado por conversor ({software}): mudança de formato, não edição',
+    RAW_ORIGINAL_NAME_MISMATCH: 'DNG convertido de {name}, formato que câmeras {make} não gravam',
+    RAW_ORIGINAL_NAME: 'DNG convertido do arquivo original {name}',
+    // Pixels
+    DOUBLE_JPEG_ALIGNED: 'Dupla compressão JPEG detectada nos coeficientes DCT ({probability}%): imagem salva novamente após a compressão original',
+    DOUBLE_JPEG_NON_ALIGNED: 'Dupla compressão JPEG com grade deslocada ({shift}) detectada ({probability}%): imagem recortada e salva novamente',
+    COPY_MOVE_DETECTED: 'Região clonada dentro da imagem ({confidence}%): {matches} blocos coincidentes, de ({source}) para ({target})',
+    NOISE_INCONSISTENCY: 'Ruído inconsistente: {blocks} dos blocos têm nível de ruído muito diferente do restante (σ {low}–{high}, mediana {median})',
+    ELA_ANOMALY: 'Análise de nível de erro (ELA, Q{quality}): {outliers} dos blocos destoam do restante (máx. {maxError} vs mediana {medianError})',
+    DIGITAL_TRANSPORT: '🚚 Transporte digital: metadados insuficientes — avaliação limitada',
+    SCREENSHOT_DETECTED: '📱 Captura de tela ({platform}; indícios: {markers})',
+    // Coverage
+    INSUFFICIENT_METADATA: 'Metadados insuficientes para validação',
+  },
+  en: {
+    CAMERA_EXIF_ABSENT: 'Camera EXIF missing (Make/Model/Date)',
+    MAKE_ABSENT: 'Camera make missing',
+    MAKE_PRESENT: 'Camera make present: {make}',
+    MODEL_ABSENT: 'Camera model missing',
+    MODEL_PRESENT: 'Camera model present: {model}',
+    CAPTURE_DATE_ABSENT: '📅 Capture date missing',
+    CAPTURE_DATE_PRESENT: '📅 Capture date present: {date}',
+    MODIFIED_BEFORE_CAPTURE: '📅 Temporal inconsistency: ModifyDate ({modifyDate}) before DateTimeOriginal ({dateTimeOriginal})',
+    EDITED_AFTER_CAPTURE: '📅 Later edit detected: modified {elapsedMinutes} min after capture ({dateTimeOriginal} → {modifyDate})',
+    TEMPORAL_CONSISTENT: '📅 Temporal consistency verified',
+    FUTURE_CAPTURE_DATE: '📅 Capture date in the future: {dateTimeOriginal}',
+    XMP_HISTORY_BEFORE_CAPTURE: '📅 XMP history records "{action}" at {when}, before the capture ({dateTimeOriginal})',
+    XMP_HISTORY_OUT_OF_ORDER: '📅 XMP history out of order: "{action}" at {when} precedes the previous entry ({previousWhen})',
+    XMP_HISTORY_EDITED_AFTER_CAPTURE: '📅 XMP history: "{action}" by {software} {elapsedMinutes} min after capture ({when})',
+    GPS_TIME_MISMATCH: '📅 GPS time ({gpsTime}) does not match the capture ({dateTimeOriginal}, {offset}): {difference} min apart',
+    GPS_TIME_CONSISTENT: '📅 GPS time consistent with the capture ({gpsTime})',
+    TIMEZONE_OFFSET_MISMATCH: '📅 Offset {offset} ({source}) incompatible with coordinates {coordinates} (expected: {expected})',
+    EDITOR_DETECTED: 'Editing software detected: {software} [{source}]',
+    NO_EDITOR_DECLARED: 'No editing software declared',
+    SILENT_EDIT_SCENE_TYPE: 'Silent edit trace: SceneType is not "Directly photographed" ({sceneType})',
+    SILENT_EDIT_COMPONENTS_CONFIGURATION: 'Silent edit trace: anomalous ComponentsConfiguration ({components})',
+    SILENT_EDIT_MAKERNOTE_ABSENT: 'Silent edit trace: MakerNote missing despite Make/Model ({make})',
+    SILENT_EDIT_THUMBNAIL_ABSENT: 'Silent edit trace: EXIF thumbnail (IFD1) missing',
+    SILENT_EDIT_THUMBNAIL_SIZE: 'Silent edit trace: thumbnail {thumbnail} differs from the {model} default ({expected})',
+    SILENT_EDIT_SUBSAMPLING: 'Silent edit trace: subsampling {subsampling} differs from the {model} default ({expected})',
+    SILENT_EDIT_EXIF_FIELDS_ABSENT: 'Silent edit trace: EXIF fields the {model} always writes are missing ({fields})',
+    C2PA_MANIFEST_PRESENT: 'C2PA manifest present (JUMBF)',
+    C2PA_ACTION: 'C2PA action: {action}',
+    C2PA_AGENT: 'C2PA agent: {agent}',
+    C2PA_DIGITAL_SOURCE_AI: 'C2PA DigitalSourceType: {digitalSourceType}',
+    C2PA_STRONG_AI: 'Strong C2PA AI signal',
+    C2PA_SIGNATURE_INVALID: 'Invalid C2PA credential (signer: {signer}): {reason}',
+    C2PA_MANIFEST_TAMPERED: 'C2PA credential tampered — file or assertions changed after signing: {reason}',
+    C2PA_SIGNATURE_UNTRUSTED: 'C2PA credential intact, but the signer is not on the trust list ({signer})',
+    C2PA_TRUSTED_CAPTURE: 'C2PA capture credential signed by a trusted camera ({signer})',
+    GENAI_FLAG: 'GenAIType flag set',
+    IPTC_DIGITAL_SOURCE_AI: 'AI indicator in {field}: {value}',
+    AI_SOFTWARE: 'AI software detected in {field}: {value}',
+    PNG_GENERATION_PARAMETERS: 'AI image generation parameters in the PNG ({keyword}): {value}',
+    DIMENSION_MISMATCH: 'Dimension mismatch: EXIF {exifWidth}x{exifHeight} vs file {fileWidth}x{fileHeight}',
+    DIMENSIONS_CONSISTENT: 'Dimensions consistent',
+    GPS_COORDINATES_INVALID: 'Invalid GPS coordinates: {coordinates}',
+    GPS_ALTITUDE_IMPLAUSIBLE: 'Implausible GPS altitude: {altitude} m',
+    GPS_PRECISION_INVALID: 'Invalid GPS precision: {field} = {value}',
+    DEVICE_RESOLUTION_MISMATCH: 'Dimensions {fileWidth}x{fileHeight} ({aspectRatio}) not produced by the {model} (native: {native})',
+    THUMBNAIL_ASPECT_MISMATCH: 'EXIF thumbnail framing differs from the image: {thumbnail} vs {main} (possible crop after capture)',
+    THUMBNAIL_CONTENT_MISMATCH: 'EXIF thumbnail content differs from the image ({similarity}% similar)',
+    THUMBNAIL_CONSISTENT: 'EXIF thumbnail consistent with the image ({similarity}% similar)',
+    PROGRESSIVE_DCT: 'Progressive JPEG encoding',
+    SUBSAMPLING_444: 'Unusual YCbCr 4:4:4 subsampling',
+    QUANTIZATION_MISMATCH: 'JPEG quantization tables do not match the declared camera ({camera}): {encoder}',
+    QUANTIZATION_CAMERA_MATCH: 'JPEG quantization tables match the declared camera ({camera})',
+    SPECIFIC_ICC: 'Specific ICC profile: {profile}',
+    HEIF_DIMENSION_MISMATCH: 'HEIF image encoded at {encoded}, but EXIF records {exif}: resized or re-encoded',
+    HEIF_STRUCTURE_REENCODED: 'HEIF structure differs from what {make} writes (missing: {missing}): file re-encoded',
+    HEIF_CAMERA_STRUCTURE: 'Camera-like HEIF structure: grid of {tiles} tiles ({size}) with thumbnail and Exif item',
+    HEIF_AUXILIARY_IMAGES: 'Auxiliary images produced at capture: {images}',
+    APPLE_MAKERNOTE_FOREIGN: 'Apple MakerNote in a file whose make is "{make}": EXIF transplanted or altered',
+    APPLE_MAKERNOTE_PRESENT: 'Apple MakerNote present ({tags} fields)',
+    APPLE_CONTENT_IDENTIFIER: 'Apple content identifier (Live Photo): {id}',
+    APPLE_CONTENT_IDENTIFIER_INVALID: 'Malformed Apple content identifier: {id}',
+    HEIF_CONVERTED: '{kind} file converted from HEIC (traces: {traces})',
+    PNG_CHUNK_ANOMALY: 'PNG structure altered after it was written ({anomalies})',
+    PNG_TRAILING_DATA: 'PNG with {bytes} bytes after the end of the image (IEND): data appended to the file',
+    PNG_CAMERA_EXIF: 'PNG with camera EXIF ({camera}): cameras do not write PNG, file exported or converted from a photo',
+    PDF_TOOLS: 'Document produced by: {producer} (Creator: {creator})',
+    PDF_EDITOR_DETECTED: 'Document saved by a PDF editor: {software} ({field})',
+    PDF_ONLINE_EDITOR: 'Document processed by an online PDF editor: {software} ({field})',
+    PDF_INFO_XMP_MISMATCH: 'PDF Info dictionary and XMP disagree ({fields}): metadata altered by another tool',
+    PDF_INFO_XMP_CONSISTENT: 'PDF Info dictionary and XMP consistent ({fields})',
+    PDF_INCREMENTAL_UPDATES: '{updates} incremental update(s) after the document was produced (signatures: {signatures}; producers: {producers})',
+    PDF_SIGNED: 'Document with {signatures} digital signature(s)',
+    PDF_MODIFIED_AFTER_CREATION: 'Document modified {elapsedMinutes} min after creation ({createDate} → {modifyDate})',
+    PDF_MODIFIED_BEFORE_CREATION: 'Document modification date earlier than its creation ({modifyDate} < {createDate})',
+    VIDEO_DATE_MISMATCH: 'Video creation dates differ by {elapsedMinutes} min ({earliest} → {latest}): file rewritten after recording',
+    VIDEO_DATES_ZEROED: 'Video creation dates zeroed ({fields}): file produced by a tool that does not keep the dates',
+    VIDEO_DATES_CONSISTENT: 'Video creation dates consistent ({fields})',
+    VIDEO_REENCODED: 'Video written by a re-encoder or editor: {software} ({field})',
+    VIDEO_SOFTWARE: 'Video recording software: {software}',
+    VIDEO_LOCATION: 'Video location ({source}): {coordinates}',
+    VIDEO_LOCATION_IMPLAUSIBLE: 'Implausible video location ({source}): {coordinates}',
+    VIDEO_DURATION_IMPLAUSIBLE: 'Implausible video duration: {duration} s',
+    VIDEO_TRACK_DURATION_MISMATCH: 'Track of {track} s in a {duration} s video: cut or joined without rewriting the header',
+    VIDEO_FRAME_RATE_IMPLAUSIBLE: 'Implausible frame rate: {frameRate} fps',
+    // RAW
+    RAW_PREVIEW_MISMATCH: 'RAW preview ({preview}) does not match the sensor data ({raw}): preview replaced',
+    RAW_PREVIEW_CONSISTENT: 'RAW preview ({preview}) consistent with the sensor data ({raw})',
+    RAW_FORMAT_MISMATCH: '{format} format is not written by {make} cameras',
+    RAW_FORMAT: '{format} RAW file from camera {camera}',
+    RAW_DNG_CONVERTER: 'DNG produced by a converter ({software}): format change, not an edit',
+    RAW_ORIGINAL_NAME_MISMATCH: 'DNG converted from {name}, a format {make} cameras do not write',
+    RAW_ORIGINAL_NAME: 'DNG converted from the original file {name}',
+    DOUBLE_JPEG_ALIGNED: 'Double JPEG compression detected in the DCT coefficients ({probability}%): image re-saved after the original compression',
+    DOUBLE_JPEG_NON_ALIGNED: 'Double JPEG compression on a shifted grid ({shift}) detected ({probability}%): image cropped and re-saved',
+    COPY_MOVE_DETECTED: 'Region cloned within the image ({confidence}%): {matches} matching blocks, from ({source}) to ({target})',
+    NOISE_INCONSISTENCY: 'Inconsistent noise: {blocks} of the blocks have a noise level far from the rest (σ {low}–{high}, median {median})',
+    ELA_ANOMALY: 'Error level analysis (ELA, Q{quality}): {outliers} of the blocks stand out (max {maxError} vs median {medianError})',
+    DIGITAL_TRANSPORT: '🚚 Digital transport: insufficient metadata — limited assessment',
+    SCREENSHOT_DETECTED: '📱 Screenshot ({platform}; markers: {markers})',
+    INSUFFICIENT_METADATA: 'Insufficient metadata for validation',
+  },
+};
+
+/**
+ * Render a signal message for the given locale.
+ * Falls back to pt-BR, then to the code itself, when no template exists.
+ */
+export function formatSignalMessage(
+  code: string,
+  params: Record<string, string | number> = {},
+  locale: SignalLocale = DEFAULT_SIGNAL_LOCALE
+): string {
+  const template = MESSAGES[locale]?.[code] ?? MESSAGES[DEFAULT_SIGNAL_LOCALE][code] ?? code;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Single-line text for a signal, with the applied weight when it moves the score (e.g. "... (+2)" or "... (−3)")
+ */
+export function formatSignalText(signal: ValidationSignal, locale: SignalLocale = DEFAULT_SIGNAL_LOCALE): string {
+  const message = locale === DEFAULT_SIGNAL_LOCALE
+    ? signal.message
+    : formatSignalMessage(signal.code, signal.params, locale);
+  if (signal.weight <= 0) return message;
+  return signal.kind === 'risk' ? `${message} (+${signal.weight})` : `${message} (−${signal.weight})`;
+}
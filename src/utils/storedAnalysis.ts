@@ -0,0 +1,93 @@
+// Stored validation results (file_metadata.analysis_results)
+// The verdict is computed once at analysis time and read back by the display and reports;
+// recomputing with the current rules is an explicit action
+
+import {
+  validateImageMetadata,
+  RULESET_VERSION,
+  type ValidationConfig,
+  type ValidationOptions,
+  type ValidationResult,
+} from './exifValidation';
+import type { MetadataInput } from './tagNormalization';
+import { fnv1a } from './hash';
+import { parseFileAnalysis, type FileAnalysis } from './fileAnalysis';
+
+export interface StoredAnalysis {
+  result: ValidationResult;
+  rulesetVersion: string;   // RULESET_VERSION at analysis time
+  configHash: string;       // hashValidationConfig of the config used
+  referenceTime: string;    // ISO reference time passed to the engine
+  analyzedAt: string;       // ISO time the analysis ran
+  fileAnalysis?: FileAnalysis;  // File structures used by the rules (reused when recomputing)
+}
+
+/**
+ * JSON with object keys sorted, so equal configs always serialize the same way
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * FNV-1a (32-bit) hash of the scoring-relevant part of a config.
+ * The profile reference is excluded: two profiles with identical values hash the same.
+ */
+export function hashValidationConfig(config: ValidationConfig): string {
+  const { profile: _profile, ...scoring } = config;
+  return fnv1a(stableStringify(scoring));
+}
+
+/**
+ * Run the engine and wrap the result with the data needed to reproduce it
+ */
+export function analyzeForStorage(
+  exifData: MetadataInput,
+  config: ValidationConfig,
+  options: ValidationOptions = {}
+): StoredAnalysis {
+  const result = validateImageMetadata(exifData, config, options);
+  return {
+    result,
+    rulesetVersion: result.rulesetVersion ?? RULESET_VERSION,
+    configHash: hashValidationConfig(config),
+    referenceTime: result.referenceTime ?? new Date().toISOString(),
+    analyzedAt: new Date().toISOString(),
+    ...(options.fileAnalysis && { fileAnalysis: options.fileAnalysis }),
+  };
+}
+
+/**
+ * Read a stored analysis; returns null for empty or unrecognized values
+ */
+export function parseStoredAnalysis(raw: unknown): StoredAnalysis | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const stored = raw as Partial<StoredAnalysis>;
+  const result = stored.result;
+  if (
+    !result ||
+    typeof result.level !== 'number' ||
+    !Array.isArray(result.riskSignals) ||
+    !Array.isArray(result.positiveSignals) ||
+    typeof stored.rulesetVersion !== 'string' ||
+    typeof stored.configHash !== 'string'
+  ) {
+    return null;
+  }
+  const fileAnalysis = parseFileAnalysis(stored.fileAnalysis);
+  return { ...stored, fileAnalysis: fileAnalysis ?? undefined } as StoredAnalysis;
+}
+
+/**
+ * Whether a stored analysis was produced by the current rules and the given config
+ */
+export function isStoredAnalysisCurrent(stored: StoredAnalysis, config: ValidationConfig): boolean {
+  return stored.rulesetVersion === RULESET_VERSION && stored.configHash === hashValidationConfig(config);
+}
@@ -0,0 +1,273 @@
+// Canonical tag normalization
+// Maps ExifTool (Group:Tag, family 1) and ExifReader (EXIF:/XMP:/ICC:/IPTC:/File:) keys
+// into one model keyed by ExifTool family-1 ids such as "IFD0:Make" or "ICC_Profile:ProfileDescription"
+
+import type { SignalEvidence } from './exifValidation';
+
+export type MetadataSource = 'exiftool' | 'exifreader';
+
+export interface CanonicalTag {
+  id: string;           // Canonical "Group:Tag" id
+  group: string;        // Family-1 group (e.g. "ExifIFD", "XMP-photoshop", "Canon")
+  family: string;       // Family-0 group (e.g. "EXIF", "XMP", "MakerNotes")
+  name: string;         // Tag name without group
+  value: unknown;
+  originalKey: string;  // Key as emitted by the extractor (e.g. "EXIF:DateTime")
+  source: MetadataSource;
+}
+
+// EXIF tags stored in IFD0 (everything else from a flat EXIF: group lands in ExifIFD)
+const IFD0_TAGS = new Set([
+  'Make', 'Model', 'Software', 'ModifyDate', 'Orientation', 'XResolution', 'YResolution',
+  'ResolutionUnit', 'YCbCrPositioning', 'Artist', 'Copyright', 'ImageDescription', 'HostComputer',
+  'ProcessingSoftware', 'ImageWidth', 'ImageHeight', 'BitsPerSample', 'Compression',
+  'PhotometricInterpretation', 'SamplesPerPixel', 'PlanarConfiguration', 'DNGVersion',
+  'DNGBackwardVersion', 'UniqueCameraModel', 'OriginalRawFileName',
+]);
+
+// ExifReader uses EXIF specification names where ExifTool has its own
+const EXIF_RENAMES: Record<string, string> = {
+  DateTime: 'ModifyDate',
+  DateTimeDigitized: 'CreateDate',
+  PixelXDimension: 'ExifImageWidth',
+  PixelYDimension: 'ExifImageHeight',
+  ImageLength: 'ImageHeight',
+  ISOSpeedRatings: 'ISO',
+  ExposureBiasValue: 'ExposureCompensation',
+  FocalLengthIn35mmFilm: 'FocalLengthIn35mmFormat',
+};
+
+// ExifReader ICC names -> ExifTool ICC_Profile / ICC-header tags
+const ICC_RENAMES: Record<string, string> = {
+  'ICC Description': 'ICC_Profile:ProfileDescription',
+  'ICC Copyright': 'ICC_Profile:ProfileCopyright',
+  'ICC Device Model Description': 'ICC_Profile:DeviceModelDesc',
+  'ICC Device Manufacturer for Display': 'ICC_Profile:DeviceMfgDesc',
+  'ICC Viewing Conditions Description': 'ICC_Profile:ViewingCondDesc',
+  'Technology': 'ICC_Profile:Technology',
+  'Preferred CMM type': 'ICC-header:ProfileCMMType',
+  'Profile Version': 'ICC-header:ProfileVersion',
+  'Profile/Device class': 'ICC-header:ProfileClass',
+  'Color Space': 'ICC-header:ColorSpaceData',
+  'Connection Space': 'ICC-header:ProfileConnectionSpace',
+  'ICC Profile Date': 'ICC-header:ProfileDateTime',
+  'ICC Signature': 'ICC-header:ProfileFileSignature',
+  'Primary Platform': 'ICC-header:PrimaryPlatform',
+  'Device Manufacturer': 'ICC-header:DeviceManufacturer',
+  'Device Model Number': 'ICC-header:DeviceModel',
+  'Rendering Intent': 'ICC-header:RenderingIntent',
+  'Profile Creator': 'ICC-header:ProfileCreator',
+};
+
+// ExifReader file/frame names -> ExifTool File tags
+const FILE_RENAMES: Record<string, string> = {
+  'Image Width': 'ImageWidth',
+  'Image Height': 'ImageHeight',
+  'Bits Per Sample': 'BitsPerSample',
+  'Color Components': 'ColorComponents',
+  'Subsampling': 'YCbCrSubSampling',
+};
+
+// XMP tag name -> namespace prefix, for sources that drop the namespace (ExifReader, ExifTool -G0)
+const XMP_NAMESPACES: Record<string, string> = {
+  CreatorTool: 'xmp', CreateDate: 'xmp', ModifyDate: 'xmp', MetadataDate: 'xmp', Rating: 'xmp',
+  History: 'xmpMM', DerivedFrom: 'xmpMM', DocumentID: 'xmpMM', InstanceID: 'xmpMM',
+  OriginalDocumentID: 'xmpMM',
+  Creator: 'dc', Rights: 'dc', Description: 'dc', Title: 'dc', Subject: 'dc', Format: 'dc',
+  DigitalSourceType: 'iptcExt', DigitalSourceFileType: 'iptcExt',
+  DateCreated: 'photoshop', ColorMode: 'photoshop', ICCProfileName: 'photoshop',
+  DateTimeOriginal: 'exif', UserComment: 'exif',
+};
+
+// Known XMP namespace prefixes that appear bare in some keys (e.g. "xmpMM:History")
+const XMP_PREFIXES = new Set(['xmp', 'xmpMM', 'dc', 'photoshop', 'iptcExt', 'iptcCore', 'exif', 'tiff', 'crs', 'aux', 'pdf', 'GCamera', 'GImage']);
+
+// ExifTool family-1 groups that hold decoded maker notes
+const MAKER_NOTE_GROUPS = new Set([
+  'MakerNotes', 'Canon', 'CanonCustom', 'CanonCameraSettings', 'CanonShotInfo', 'Nikon', 'NikonCustom',
+  'Sony', 'FujiFilm', 'Panasonic', 'Olympus', 'Pentax', 'Apple', 'Samsung', 'Minolta', 'Sigma',
+  'Leica', 'Ricoh', 'Kodak', 'Casio', 'Sanyo', 'GE', 'Google', 'Huawei', 'DJI', 'GoPro',
+]);
+
+const EXIF_GROUPS = new Set(['IFD0', 'IFD1', 'ExifIFD', 'InteropIFD', 'SubIFD', 'GPS']);
+
+/**
+ * Family-0 group for a family-1 group
+ */
+function familyOf(group: string): string {
+  if (EXIF_GROUPS.has(group)) return 'EXIF';
+  if (MAKER_NOTE_GROUPS.has(group)) return 'MakerNotes';
+  if (group.startsWith('XMP')) return 'XMP';
+  if (group.startsWith('ICC')) return 'ICC_Profile';
+  if (group.startsWith('PNG')) return 'PNG';
+  if (group === 'System') return 'File';
+  return group;
+}
+
+/**
+ * Map one extractor key to its canonical id
+ */
+function canonicalId(key: string): { id: string; source: MetadataSource } {
+  const separator = key.indexOf(':');
+  if (separator < 0) return { id: `File:${key}`, source: 'exiftool' };   // e.g. SourceFile
+
+  const group = key.slice(0, separator);
+  const name = key.slice(separator + 1);
+
+  switch (group) {
+    case 'EXIF': {
+      const tag = EXIF_RENAMES[name] ?? name;
+      const ifd = tag.startsWith('GPS') ? 'GPS' :
+                  tag === 'InteroperabilityIndex' ? 'InteropIFD' :
+                  IFD0_TAGS.has(tag) ? 'IFD0' : 'ExifIFD';
+      return { id: `${ifd}:${tag}`, source: 'exifreader' };
+    }
+    case 'XMP': {
+      const ns = XMP_NAMESPACES[name];
+      return { id: ns ? `XMP-${ns}:${name}` : `XMP:${name}`, source: 'exifreader' };
+    }
+    case 'ICC':
+      return { id: ICC_RENAMES[name] ?? `ICC_Profile:${name.replace(/\s+/g, '')}`, source: 'exifreader' };
+    case 'IPTC':
+      return { id: `IPTC:${name.replace('/', '-').replace(/\s+/g, '')}`, source: 'exifreader' };
+    case 'File':
+      return FILE_RENAMES[name]
+        ? { id: `File:${FILE_RENAMES[name]}`, source: 'exifreader' }
+        : { id: key, source: 'exiftool' };
+    case 'Thumbnail':
+      return { id: `IFD1:${name}`, source: 'exifreader' };
+    case 'MakerNote':
+      return { id: `MakerNotes:${name}`, source: 'exiftool' };
+    default:
+      if (XMP_PREFIXES.has(group)) return { id: `XMP-${group}:${name}`, source: 'exiftool' };
+      return { id: key, source: 'exiftool' };
+  }
+}
+
+const isPresent = (value: unknown) => value !== undefined && value !== null && value !== '';
+
+/**
+ * Metadata from any extractor, indexed by canonical id
+ */
+export class NormalizedMetadata {
+  readonly raw: Record<string, unknown>;
+  private readonly byId = new Map<string, CanonicalTag>();
+  private readonly byKey = new Map<string, CanonicalTag>();
+
+  constructor(raw: Record<string, unknown>) {
+    this.raw = raw;
+
+    for (const [originalKey, value] of Object.entries(raw)) {
+      const { id, source } = canonicalId(originalKey);
+      const separator = id.indexOf(':');
+      const group = id.slice(0, separator);
+      const tag: CanonicalTag = {
+        id,
+        group,
+        family: familyOf(group),
+        name: id.slice(separator + 1),
+        value,
+        originalKey,
+        source,
+      };
+      this.byKey.set(originalKey, tag);
+
+      // ExifTool keys win over ExifReader keys mapping to the same id
+      const existing = this.byId.get(id);
+      if (existing && (existing.source === 'exiftool' || !isPresent(value))) continue;
+      this.byId.set(id, tag);
+    }
+  }
+
+  get(id: string): CanonicalTag | undefined {
+    return this.byId.get(id);
+  }
+
+  /**
+   * Canonical tag for an original extractor key, including keys shadowed by another source
+   */
+  forKey(originalKey: string): CanonicalTag | undefined {
+    return this.byKey.get(originalKey);
+  }
+
+  has(id: string): boolean {
+    return isPresent(this.byId.get(id)?.value);
+  }
+
+  /**
+   * Value of the tag, or undefined when absent
+   */
+  value(id: string): unknown {
+    return this.byId.get(id)?.value;
+  }
+
+  /**
+   * Value as a string ('' when absent)
+   */
+  text(id: string): string {
+    const value = this.byId.get(id)?.value;
+    return isPresent(value) ? String(value) : '';
+  }
+
+  /**
+   * First present tag among the ids (mirrors `a || b || c` fallbacks)
+   */
+  first(ids: string[]): CanonicalTag | undefined {
+    for (const id of ids) {
+      const tag = this.byId.get(id);
+      if (tag && isPresent(tag.value) && tag.value !== 0) return tag;
+    }
+    return undefined;
+  }
+
+  firstText(ids: string[]): string {
+    const value = this.first(ids)?.value;
+    return isPresent(value) ? String(value) : '';
+  }
+
+  tags(): CanonicalTag[] {
+    return Array.from(this.byId.values());
+  }
+
+  /**
+   * Tags in a family-1 group, or in any group starting with the prefix when it ends with "*"
+   */
+  inGroup(group: string): CanonicalTag[] {
+    const prefix = group.endsWith('*') ? group.slice(0, -1) : null;
+    return this.tags().filter(t => prefix !== null ? t.group.startsWith(prefix) : t.group === group);
+  }
+
+  hasFamily(family: string): boolean {
+    return this.tags().some(t => t.family === family && isPresent(t.value));
+  }
+
+  /**
+   * Evidence (original keys) for every present tag among the ids
+   */
+  evidence(ids: string[]): SignalEvidence[] {
+    return ids
+      .map(id => this.byId.get(id))
+      .filter(tag => tag && isPresent(tag.value))
+      .map(tag => ({ key: tag.originalKey, value: tag.value }));
+  }
+
+  /**
+   * Evidence for the first present tag among the ids
+   */
+  firstEvidence(ids: string[]): SignalEvidence[] {
+    const tag = this.first(ids);
+    return tag ? [{ key: tag.originalKey, value: tag.value }] : [];
+  }
+}
+
+export type MetadataInput = Record<string, unknown> | NormalizedMetadata;
+
+/**
+ * Normalize extractor output; already-normalized input is returned as is.
+ * Raw input is read on every call (not cached, so later edits to the object are seen):
+ * normalize once and pass the result to the checks.
+ */
+export function normalizeMetadata(input: MetadataInput): NormalizedMetadata {
+  if (input instanceof NormalizedMetadata) return input;
+  return new NormalizedMetadata(input ?? {});
+}
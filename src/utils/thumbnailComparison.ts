@@ -0,0 +1,105 @@
+// EXIF thumbnail versus main image
+// Editors often rewrite the main image but keep the camera's IFD1 thumbnail, which then
+// still shows the original framing or content. Hashes are computed in the browser at upload
+// (see FileAnalysisService) and compared here, so thresholds can change without re-decoding.
+
+export interface ThumbnailAnalysis {
+  width: number;            // Thumbnail content size after orientation, black bands removed
+  height: number;
+  mainWidth: number;        // Main image size after orientation
+  mainHeight: number;
+  thumbnailHash: string;    // 64-bit difference hash (hex)
+  mainHash: string;
+  thumbnailPreview?: string;  // Data URLs for the side-by-side view
+  mainPreview?: string;
+}
+
+export interface ThumbnailComparison {
+  aspectRatioDelta: number;   // Relative difference between the aspect ratios
+  similarity: number;         // 0-1 (1 - Hamming distance / 64)
+  consistent: boolean;
+  reason: 'aspect' | 'content' | null;
+}
+
+export const HASH_WIDTH = 9;    // dHash samples: 9x8 grayscale -> 8x8 horizontal gradients
+export const HASH_HEIGHT = 8;
+export const THUMBNAIL_ASPECT_TOLERANCE = 0.03;
+export const THUMBNAIL_MIN_SIMILARITY = 0.75;
+
+/**
+ * Difference hash of a 9x8 grayscale sample (one bit per adjacent pixel pair)
+ */
+export function differenceHash(gray: ArrayLike<number>): string {
+  let hex = '';
+  let nibble = 0;
+  let bits = 0;
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const i = y * HASH_WIDTH + x;
+      nibble = (nibble << 1) | (gray[i] < gray[i + 1] ? 1 : 0);
+      if (++bits === 4) {
+        hex += nibble.toString(16);
+        nibble = 0;
+        bits = 0;
+      }
+    }
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance + Math.abs(a.length - b.length) * 4;
+}
+
+/**
+ * Bounding box of the picture inside a thumbnail, without the black bands cameras add to
+ * fit a fixed 160x120 thumbnail. `luma` is one byte per pixel.
+ */
+export function findContentBox(
+  luma: ArrayLike<number>,
+  width: number,
+  height: number,
+  threshold = 16
+): { x: number; y: number; width: number; height: number } {
+  const rowDark = (y: number) => {
+    for (let x = 0; x < width; x++) if (luma[y * width + x] > threshold) return false;
+    return true;
+  };
+  const colDark = (x: number, top: number, bottom: number) => {
+    for (let y = top; y <= bottom; y++) if (luma[y * width + x] > threshold) return false;
+    return true;
+  };
+
+  let top = 0;
+  let bottom = height - 1;
+  while (top < bottom && rowDark(top)) top++;
+  while (bottom > top && rowDark(bottom)) bottom--;
+  let left = 0;
+  let right = width - 1;
+  while (left < right && colDark(left, top, bottom)) left++;
+  while (right > left && colDark(right, top, bottom)) right--;
+
+  // An all-dark thumbnail has no bands to remove
+  if (right - left < 2 || bottom - top < 2) return { x: 0, y: 0, width, height };
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+export function compareThumbnail(analysis: ThumbnailAnalysis): ThumbnailComparison {
+  const thumbRatio = analysis.width / analysis.height;
+  const mainRatio = analysis.mainWidth / analysis.mainHeight;
+  const aspectRatioDelta = Math.abs(thumbRatio - mainRatio) / mainRatio;
+  const similarity = 1 - hammingDistance(analysis.thumbnailHash, analysis.mainHash) / 64;
+
+  const reason = aspectRatioDelta > THUMBNAIL_ASPECT_TOLERANCE ? 'aspect'
+    : similarity < THUMBNAIL_MIN_SIMILARITY ? 'content'
+    : null;
+  return { aspectRatioDelta, similarity, consistent: reason === null, reason };
+}
@@ -0,0 +1,137 @@
+// TIFF/EXIF IFD reading
+// Used where the EXIF block is read straight from the file bytes (HEIF Exif items, maker notes,
+// TIFF-based RAW files).
+
+export interface TiffEntry {
+  tag: number;
+  type: number;
+  count: number;
+  valueOffset: number;    // Offset of the value in the TIFF buffer (inline values point into the entry)
+}
+
+export interface TiffIfd {
+  entries: Map<number, TiffEntry>;
+  next: number;           // Offset of the next IFD, 0 when none
+}
+
+// Bytes per value by TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+
+// Longest text value read from an entry; counts come from the file and may be bogus
+const MAX_STRING_LENGTH = 4096;
+const LATIN1 = new TextDecoder('latin1');
+
+export const EXIF_IFD_POINTER = 0x8769;
+export const MAKER_NOTE = 0x927c;
+
+export class TiffReader {
+  readonly bytes: Uint8Array;
+  readonly little: boolean;
+  private readonly view: DataView;
+
+  private constructor(bytes: Uint8Array, little: boolean) {
+    this.bytes = bytes;
+    this.little = little;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  /**
+   * Reader over a TIFF header ("II*\0" or "MM\0*"), or null
+   */
+  static open(bytes: Uint8Array): TiffReader | null {
+    if (bytes.length < 8) return null;
+    const order = String.fromCharCode(bytes[0], bytes[1]);
+    if (order !== 'II' && order !== 'MM') return null;
+    const reader = new TiffReader(bytes, order === 'II');
+    return reader.u16(2) === 42 ? reader : null;
+  }
+
+  /**
+   * Reader over an IFD stored without a TIFF header (e.g. maker notes), with a known byte order
+   */
+  static raw(bytes: Uint8Array, little: boolean): TiffReader {
+    return new TiffReader(bytes, little);
+  }
+
+  get firstIfdOffset(): number {
+    return this.u32(4);
+  }
+
+  u16(offset: number): number {
+    return this.view.getUint16(offset, this.little);
+  }
+
+  u32(offset: number): number {
+    return this.view.getUint32(offset, this.little);
+  }
+
+  readIfd(offset: number): TiffIfd | null {
+    if (offset <= 0 || offset + 2 > this.bytes.length) return null;
+    const count = this.u16(offset);
+    if (offset + 2 + count * 12 > this.bytes.length) return null;
+
+    const entries = new Map<number, TiffEntry>();
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const type = this.u16(entry + 2);
+      const valueCount = this.u32(entry + 4);
+      const size = (TYPE_SIZES[type] ?? 1) * valueCount;
+      entries.set(this.u16(entry), {
+        tag: this.u16(entry),
+        type,
+        count: valueCount,
+        valueOffset: size <= 4 ? entry + 8 : this.u32(entry + 8),
+      });
+    }
+    const nextOffset = offset + 2 + count * 12;
+    return { entries, next: nextOffset + 4 <= this.bytes.length ? this.u32(nextOffset) : 0 };
+  }
+
+  /**
+   * First value of a SHORT or LONG entry
+   */
+  number(entry: TiffEntry | undefined): number | null {
+    if (!entry || entry.valueOffset + 4 > this.bytes.length) return null;
+    if (entry.type === 3) return this.u16(entry.valueOffset);
+    if (entry.type === 4 || entry.type === 13) return this.u32(entry.valueOffset);
+    return null;
+  }
+
+  /**
+   * Every value of a SHORT, LONG or RATIONAL entry (rationals as numbers)
+   */
+  numbers(entry: TiffEntry | undefined): number[] {
+    if (!entry) return [];
+    const size = TYPE_SIZES[entry.type] ?? 1;
+    if (entry.valueOffset + size * entry.count > this.bytes.length) return [];
+    const values: number[] = [];
+    for (let i = 0; i < entry.count; i++) {
+      const offset = entry.valueOffset + i * size;
+      if (entry.type === 3) values.push(this.u16(offset));
+      else if (entry.type === 4 || entry.type === 13) values.push(this.u32(offset));
+      else if (entry.type === 5) values.push(this.u32(offset) / (this.u32(offset + 4) || 1));
+      else return [];
+    }
+    return values;
+  }
+
+  /**
+   * ASCII (or BYTE) entry without the trailing NULs, truncated to MAX_STRING_LENGTH
+   */
+  string(entry: TiffEntry | undefined): string | null {
+    if (!entry || (entry.type !== 2 && entry.type !== 1)) return null;
+    const end = Math.min(this.bytes.length, entry.valueOffset + Math.min(entry.count, MAX_STRING_LENGTH));
+    if (entry.valueOffset >= end) return null;
+    return LATIN1.decode(this.bytes.subarray(entry.valueOffset, end)).replace(/\0+$/, '').trim();
+  }
+
+  /**
+   * Raw bytes of an entry (e.g. UNDEFINED maker note data)
+   */
+  data(entry: TiffEntry | undefined): Uint8Array | null {
+    if (!entry) return null;
+    const size = (TYPE_SIZES[entry.type] ?? 1) * entry.count;
+    if (entry.valueOffset + size > this.bytes.length) return null;
+    return this.bytes.subarray(entry.valueOffset, entry.valueOffset + size);
+  }
+}
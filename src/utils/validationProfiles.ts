@@ -0,0 +1,78 @@
+// Validation profiles
+// A profile stores only the values that differ from DEFAULT_CONFIG, so weights added
+// later fall back to their defaults instead of breaking stored profiles
+
+import { DEFAULT_CONFIG, type ValidationConfig, type ValidationProfileRef } from './exifValidation';
+
+export interface ValidationConfigOverrides {
+  weights?: Partial<ValidationConfig['weights']>;
+  thresholds?: Partial<ValidationConfig['thresholds']>;
+  silentEditMax?: number;
+  c2paStrongBump?: number;
+  disabledRules?: string[];
+}
+
+export interface ValidationProfile extends ValidationProfileRef {
+  description: string | null;
+  isDefault: boolean;
+  overrides: ValidationConfigOverrides;
+  config: ValidationConfig;       // DEFAULT_CONFIG merged with overrides
+}
+
+export const BUILTIN_DEFAULT_PROFILE: ValidationProfileRef = {
+  id: null,
+  slug: 'padrao',
+  name: 'Padrão',
+  version: 1,
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Keep only numeric entries whose key exists in the reference object
+ */
+function pickNumbers<T extends object>(source: unknown, reference: T): Partial<T> {
+  if (!source || typeof source !== 'object') return {};
+  const picked: Record<string, number> = {};
+  for (const [key, value] of Object.entries(source as Record<string, unknown>)) {
+    if (key in reference && isNumber(value)) picked[key] = value;
+  }
+  return picked as Partial<T>;
+}
+
+/**
+ * Validate overrides read from the database; unknown keys and non-numeric values are dropped
+ */
+export function parseConfigOverrides(raw: unknown): ValidationConfigOverrides {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const source = raw as Record<string, unknown>;
+  const overrides: ValidationConfigOverrides = {
+    weights: pickNumbers(source.weights, { ...DEFAULT_CONFIG.weights }),
+    thresholds: pickNumbers(source.thresholds, DEFAULT_CONFIG.thresholds),
+  };
+  if (isNumber(source.silentEditMax)) overrides.silentEditMax = source.silentEditMax;
+  if (isNumber(source.c2paStrongBump)) overrides.c2paStrongBump = source.c2paStrongBump;
+  if (Array.isArray(source.disabledRules)) {
+    overrides.disabledRules = source.disabledRules.filter((id): id is string => typeof id === 'string');
+  }
+  return overrides;
+}
+
+/**
+ * Build a full config from a profile's overrides
+ */
+export function buildValidationConfig(
+  overrides: ValidationConfigOverrides,
+  profile: ValidationProfileRef = BUILTIN_DEFAULT_PROFILE,
+  base: ValidationConfig = DEFAULT_CONFIG
+): ValidationConfig {
+  return {
+    ...base,
+    weights: { ...base.weights, ...overrides.weights },
+    thresholds: { ...base.thresholds, ...overrides.thresholds },
+    silentEditMax: overrides.silentEditMax ?? base.silentEditMax,
+    c2paStrongBump: overrides.c2paStrongBump ?? base.c2paStrongBump,
+    disabledRules: overrides.disabledRules ?? base.disabledRules,
+    profile: { id: profile.id, slug: profile.slug, name: profile.name, version: profile.version },
+  };
+}
@@ -0,0 +1,117 @@
+// Validation rule registry
+// Each check run by validateImageMetadata is a self-contained rule registered here
+
+import type {
+  ValidationConfig,
+  EditorDetection,
+  AIDetection,
+  SignalCategory,
+  SignalEvidence,
+  SignalSeverity,
+} from './exifValidation';
+import type { NormalizedMetadata } from './tagNormalization';
+import type { FileAnalysis } from './fileAnalysis';
+import type { FileKind } from './metadataCompleteness';
+import type { ScreenshotDetection } from './screenshot';
+import type { VideoMetadata } from './videoMetadata';
+
+/**
+ * Shared facts computed once per validation run and handed to every rule
+ */
+export interface RuleContext {
+  exifData: Record<string, unknown>;   // Raw extractor output
+  metadata: NormalizedMetadata;         // Same data keyed by canonical id; prefer this in rules
+  config: ValidationConfig;
+  make: string | null;
+  model: string | null;
+  canonicalCaptureDate: string | null;
+  editor: EditorDetection;
+  ai: AIDetection;
+  isDigitalTransport: boolean;
+  transportEvidence: SignalEvidence[];
+  screenshot: ScreenshotDetection;
+  video: VideoMetadata | null;  // Dates, software and timing of MP4/MOV files (null for other kinds)
+  cameraExifMissing: boolean;   // Make, Model and capture date all absent
+  hasHardSignals: boolean;      // Editor, AI, Photoshop group, 4:4:4, PNG chunk anomalies, PDF or video edits present
+  features: {
+    silentEdit: boolean;
+  };
+  debug: Record<string, unknown> | null;  // Only set when debug is enabled in the environment
+  referenceTime: Date;          // "Now" for time-based checks (see ValidationOptions)
+  file: FileAnalysis | null;    // Structures read from the file bytes, when available
+  fileKind: FileKind;           // From the file bytes when analyzed, else from the declared type/extension
+}
+
+/**
+ * Rule output; the engine renders the message and turns it into a ValidationSignal
+ */
+export interface RuleFinding {
+  kind: 'positive' | 'risk';
+  code: string;
+  category: SignalCategory;
+  weight: number;               // Points added to the score; for positive findings, points subtracted (usually 0)
+  severity?: SignalSeverity;    // Derived from weight when omitted
+  params?: Record<string, string | number>;
+  evidence?: SignalEvidence[];
+}
+
+export interface ValidationRule {
+  id: string;
+  weightKey: keyof ValidationConfig['weights'];
+  defaultWeight?: number;   // Used when the config does not define weightKey
+  fileKinds?: FileKind[];   // File kinds the rule checks (default: DEFAULT_RULE_FILE_KINDS)
+  applies: (ctx: RuleContext) => boolean;
+  evaluate: (ctx: RuleContext, weight: number) => RuleFinding[];
+}
+
+// Kinds checked by rules that do not list their own: images, not documents or videos
+export const DEFAULT_RULE_FILE_KINDS: FileKind[] = ['jpeg', 'heif', 'png', 'webp', 'gif', 'tiff', 'raw', 'unknown'];
+
+const registry: ValidationRule[] = [];
+
+/**
+ * Register a rule. A rule with the same id is replaced in place;
+ * otherwise it is appended, or inserted before the rule named in `before`.
+ */
+export function registerValidationRule(rule: ValidationRule, options: { before?: string } = {}): void {
+  const existing = registry.findIndex(r => r.id === rule.id);
+  if (existing >= 0) {
+    registry[existing] = rule;
+    return;
+  }
+
+  const beforeIndex = options.before ? registry.findIndex(r => r.id === options.before) : -1;
+  if (beforeIndex >= 0) {
+    registry.splice(beforeIndex, 0, rule);
+  } else {
+    registry.push(rule);
+  }
+}
+
+export function unregisterValidationRule(id: string): boolean {
+  const index = registry.findIndex(r => r.id === id);
+  if (index < 0) return false;
+  registry.splice(index, 1);
+  return true;
+}
+
+/**
+ * Registered rules in evaluation order
+ */
+export function getValidationRules(): ValidationRule[] {
+  return [...registry];
+}
+
+/**
+ * Resolve the weight a rule should apply under the given config
+ */
+export function resolveRuleWeight(rule: ValidationRule, config: ValidationConfig): number {
+  return config.weights[rule.weightKey] ?? rule.defaultWeight ?? 0;
+}
+
+/**
+ * Whether a rule checks files of this kind
+ */
+export function ruleCoversFileKind(rule: ValidationRule, kind: FileKind): boolean {
+  return (rule.fileKinds ?? DEFAULT_RULE_FILE_KINDS).includes(kind);
+}
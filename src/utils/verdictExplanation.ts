@@ -0,0 +1,82 @@
+// Counterfactual explanation of a verdict
+// Ranks the risk signals by score impact and finds the fewest signals whose absence
+// would move the file to each lower level
+
+import type { ValidationConfig, ValidationResult, ValidationSignal } from './exifValidation';
+
+export interface SignalImpact {
+  code: string;
+  message: string;
+  weight: number;
+  share: number;          // Fraction of the risk points (0-1)
+}
+
+export interface LevelCounterfactual {
+  level: number;
+  maxScore: number;       // Highest score still classified at this level
+  reduction: number;      // Points that must go away to reach this level
+  signals: SignalImpact[];  // Fewest signals whose absence reaches the level
+  reachable: boolean;     // False when removing every signal is not enough
+}
+
+export interface VerdictExplanation {
+  contributions: SignalImpact[];          // Scored risk signals, highest impact first
+  counterfactuals: LevelCounterfactual[]; // One entry per lower level, nearest level first
+  fragility: number | null;               // Signals that must go to drop one level (null at level 0)
+}
+
+/**
+ * Highest score per level; level 3 is unbounded
+ */
+function levelCeilings(thresholds: ValidationConfig['thresholds']): number[] {
+  return [thresholds.level0Max, thresholds.level1Max, thresholds.level2Max];
+}
+
+/**
+ * Explain a verdict under the thresholds it was scored with.
+ * Signals are treated as independent: removing one does not re-run rules that depend
+ * on others (e.g. the combined camera EXIF penalty), so the sets are an estimate.
+ */
+export function explainVerdict(
+  result: Pick<ValidationResult, 'score' | 'level' | 'riskSignals'>,
+  thresholds: ValidationConfig['thresholds']
+): VerdictExplanation {
+  const score = result.score;
+  const scored = result.riskSignals.filter(signal => signal.weight > 0);
+  // Share of the risk points, which exceed the score when positive credit applies
+  const riskTotal = scored.reduce((sum, signal) => sum + signal.weight, 0);
+  const contributions = scored
+    .map((signal: ValidationSignal): SignalImpact => ({
+      code: signal.code,
+      message: signal.message,
+      weight: signal.weight,
+      share: score > 0 ? signal.weight / riskTotal : 0,
+    }))
+    .sort((a, b) => b.weight - a.weight);
+
+  const ceilings = levelCeilings(thresholds);
+  const counterfactuals: LevelCounterfactual[] = [];
+
+  for (let level = result.level - 1; level >= 0; level--) {
+    const maxScore = ceilings[level];
+    const reduction = Math.max(0, score - maxScore);
+
+    // Taking the heaviest signals first gives the smallest set covering the reduction
+    const signals: SignalImpact[] = [];
+    let removed = 0;
+    for (const contribution of contributions) {
+      if (removed >= reduction) break;
+      signals.push(contribution);
+      removed += contribution.weight;
+    }
+
+    counterfactuals.push({ level, maxScore, reduction, signals, reachable: removed >= reduction });
+  }
+
+  const nearest = counterfactuals[0];
+  return {
+    contributions,
+    counterfactuals,
+    fragility: nearest && nearest.reachable ? nearest.signals.length : null,
+  };
+}
@@ -0,0 +1,214 @@
+// Video (MP4/MOV) metadata checks
+// ExifTool reports the movie header as QuickTime:*, each track as Track1:*, Track2:*..., Apple
+// metadata as Keys:* and user data as UserData:*/ItemList:*. When a tag is missing (browser
+// extraction, stripped output) the value read from the file structure is used instead.
+
+import type { SignalEvidence } from './exifValidation';
+import type { NormalizedMetadata } from './tagNormalization';
+import type { VideoLocationSource, VideoStructure } from './videoStructure';
+import { hasUtcOffset, parseXmpDate } from './xmpHistory';
+import { parseGpsCoordinate } from './gpsConsistency';
+
+export type VideoDateField = 'CreateDate' | 'TrackCreateDate' | 'MediaCreateDate' | 'CreationDate';
+
+export interface VideoDate {
+  field: VideoDateField;
+  key: string;                  // Metadata key, or "moov/..." when read from the file structure
+  value: string;
+  date: Date;
+}
+
+export interface VideoLocation {
+  source: VideoLocationSource;
+  key: string;
+  value: string;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface VideoMetadata {
+  dates: VideoDate[];
+  zeroedDates: string[];        // Keys holding the QuickTime epoch or 0000:00:00 (date never set)
+  make: string | null;
+  model: string | null;
+  software: string[];           // Encoder and handler names, with their keys
+  reencoder: { software: string; field: string } | null;
+  location: VideoLocation | null;
+  duration: number | null;      // Movie duration (s)
+  trackDurations: number[];     // Media duration of each track (s)
+  frameRate: number | null;
+  evidence: SignalEvidence[];
+}
+
+// Re-encoders, editing apps and muxers; FFmpeg names its handlers "VideoHandler"/"SoundHandler"
+const VIDEO_REENCODERS: { pattern: RegExp; name: string }[] = [
+  { pattern: /handbrake/i, name: 'HandBrake' },
+  { pattern: /^lav[fc]\d|ffmpeg|^(?:video|sound)handler$/i, name: 'FFmpeg' },
+  { pattern: /capcut|jianying/i, name: 'CapCut' },
+  { pattern: /inshot/i, name: 'InShot' },
+  { pattern: /kinemaster/i, name: 'KineMaster' },
+  { pattern: /videoleap/i, name: 'Videoleap' },
+  { pattern: /filmora|wondershare/i, name: 'Filmora' },
+  { pattern: /premiere|adobe media encoder/i, name: 'Adobe Premiere' },
+  { pattern: /final cut|compressor/i, name: 'Final Cut Pro' },
+  { pattern: /imovie/i, name: 'iMovie' },
+  { pattern: /davinci|resolve/i, name: 'DaVinci Resolve' },
+  { pattern: /shotcut/i, name: 'Shotcut' },
+  { pattern: /clipchamp/i, name: 'Clipchamp' },
+  { pattern: /movavi/i, name: 'Movavi' },
+  { pattern: /vn video editor|^vlognow/i, name: 'VN' },
+  { pattern: /l-smash/i, name: 'L-SMASH' },
+  { pattern: /mp4box|gpac/i, name: 'MP4Box' },
+];
+
+const DATE_TAGS: { field: VideoDateField; names: string[] }[] = [
+  { field: 'CreateDate', names: ['QuickTime:CreateDate'] },
+  { field: 'TrackCreateDate', names: ['TrackCreateDate'] },
+  { field: 'MediaCreateDate', names: ['MediaCreateDate'] },
+  { field: 'CreationDate', names: ['Keys:CreationDate', 'UserData:CreationDate'] },
+];
+
+const MAKE_IDS = ['Keys:Make', 'UserData:Make', 'QuickTime:Make', 'ItemList:Make'];
+const MODEL_IDS = ['Keys:Model', 'UserData:Model', 'QuickTime:Model', 'ItemList:Model'];
+const ENCODER_IDS = ['ItemList:Encoder', 'UserData:Encoder', 'QuickTime:Encoder', 'Keys:Encoder', 'UserData:Software', 'ItemList:EncodingTool', 'UserData:EncodingTool'];
+const LOCATION_IDS: { id: string; source: VideoLocationSource }[] = [
+  { id: 'Keys:GPSCoordinates', source: 'apple' },
+  { id: 'UserData:GPSCoordinates', source: 'android' },
+  { id: 'QuickTime:GPSCoordinates', source: 'android' },
+  { id: 'ItemList:GPSCoordinates', source: 'android' },
+];
+
+/**
+ * Tag by "Group:Name" id, or by name in any track group ("Track1:MediaCreateDate", also as "QuickTime:")
+ */
+function findTag(md: NormalizedMetadata, name: string) {
+  if (name.includes(':')) return md.has(name) ? md.get(name) : undefined;
+  return md.first([`QuickTime:${name}`]) ?? md.inGroup('Track*').find(t => t.name === name && md.has(t.id));
+}
+
+/**
+ * QuickTime header dates are UTC; ExifTool prints them without a zone
+ */
+function parseQuickTimeDate(value: string): Date | null {
+  const text = value.trim();
+  return parseXmpDate(hasUtcOffset(text) ? text : `${text}Z`);
+}
+
+const isZeroDate = (value: string) => /^0000:00:00|^1904:01:01 00:00:00/.test(value.trim());
+
+/**
+ * Seconds from ExifTool ("12.5 s", "0:01:02"), numeric (-n) or structure values
+ */
+export function parseDuration(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return value;
+  const text = String(value).trim();
+  const clock = /^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/.exec(text);
+  if (clock) return +clock[1] * 3600 + +clock[2] * 60 + +clock[3];
+  const seconds = parseFloat(text);
+  return Number.isFinite(seconds) ? seconds : null;
+}
+
+/**
+ * Latitude and longitude of an ISO 6709 string ("+37.7749-122.4194+010.5/"),
+ * an ExifTool coordinate pair ("37 deg 46' 29.64\" N, 122 deg 25' 9.84\" W") or numeric pair
+ */
+export function parseVideoLocation(value: string): { latitude: number | null; longitude: number | null } {
+  const iso = /^([+-]\d+(?:\.\d+)?)([+-]\d+(?:\.\d+)?)/.exec(value.trim());
+  if (iso) return { latitude: +iso[1], longitude: +iso[2] };
+
+  const parts = value.includes(',') ? value.split(',') : value.trim().split(/\s+/);
+  return { latitude: parseGpsCoordinate(parts[0]?.trim()), longitude: parseGpsCoordinate(parts[1]?.trim()) };
+}
+
+export function matchVideoReencoder(software: string): string | null {
+  return VIDEO_REENCODERS.find(entry => entry.pattern.test(software.trim()))?.name ?? null;
+}
+
+/**
+ * Dates, device, software, location and timing of a video from its tags and structure
+ */
+export function readVideoMetadata(md: NormalizedMetadata, structure: VideoStructure | null): VideoMetadata {
+  const evidence: SignalEvidence[] = [];
+  const dates: VideoDate[] = [];
+  const zeroedDates: string[] = [];
+
+  const firstTrack = structure?.tracks.find(track => track.handlerType === 'vide') ?? structure?.tracks[0];
+  const structureDates: Record<VideoDateField, { key: string; value: string | null | undefined }> = {
+    CreateDate: { key: 'moov/mvhd', value: structure?.createDate },
+    TrackCreateDate: { key: 'moov/trak/tkhd', value: firstTrack?.createDate },
+    MediaCreateDate: { key: 'moov/trak/mdia/mdhd', value: firstTrack?.mediaCreateDate },
+    CreationDate: { key: 'moov/meta/keys', value: structure?.keys['com.apple.quicktime.creationdate'] },
+  };
+
+  for (const { field, names } of DATE_TAGS) {
+    const tag = names.map(name => findTag(md, name)).find(Boolean);
+    const value = tag ? String(tag.value) : structureDates[field].value;
+    const key = tag ? tag.originalKey : structureDates[field].key;
+    if (!value) continue;
+    evidence.push({ key, value });
+    if (isZeroDate(value)) {
+      zeroedDates.push(key);
+      continue;
+    }
+    const date = field === 'CreationDate' ? parseXmpDate(value) : parseQuickTimeDate(value);
+    if (date) dates.push({ field, key, value, date });
+  }
+
+  const make = md.firstText(MAKE_IDS) || structure?.keys['com.apple.quicktime.make'] || null;
+  const model = md.firstText(MODEL_IDS) || structure?.keys['com.apple.quicktime.model'] || null;
+  evidence.push(...md.evidence([...MAKE_IDS, ...MODEL_IDS]));
+
+  // Encoder tags first, then the handler names of each track
+  const software: { value: string; key: string }[] = [
+    ...md.evidence(ENCODER_IDS).map(e => ({ value: String(e.value), key: e.key })),
+    ...md.tags()
+      .filter(t => t.name === 'HandlerDescription' && (t.group === 'QuickTime' || t.group.startsWith('Track')) && md.has(t.id))
+      .map(t => ({ value: String(t.value), key: t.originalKey })),
+  ];
+  if (!software.length && structure) {
+    if (structure.encoder) software.push({ value: structure.encoder, key: 'moov/udta' });
+    for (const track of structure.tracks) {
+      if (track.handlerName) software.push({ value: track.handlerName, key: `moov/trak/hdlr (${track.handlerType})` });
+    }
+  }
+  evidence.push(...software.map(s => ({ key: s.key, value: s.value })));
+  const reencoderEntry = software
+    .map(s => ({ name: matchVideoReencoder(s.value), s }))
+    .find(entry => entry.name);
+  const reencoder = reencoderEntry?.name ? { software: `${reencoderEntry.name} (${reencoderEntry.s.value})`, field: reencoderEntry.s.key } : null;
+
+  let location: VideoLocation | null = null;
+  const locationTag = LOCATION_IDS.find(entry => md.has(entry.id));
+  if (locationTag) {
+    const value = md.text(locationTag.id);
+    location = { source: locationTag.source, key: md.get(locationTag.id)?.originalKey ?? locationTag.id, value, ...parseVideoLocation(value) };
+  } else if (structure?.location) {
+    const { source, value } = structure.location;
+    location = { source, key: source === 'apple' ? 'moov/meta/keys' : 'moov/udta/©xyz', value, ...parseVideoLocation(value) };
+  }
+
+  const duration = parseDuration(findTag(md, 'QuickTime:Duration')?.value) ?? structure?.duration ?? null;
+  const taggedTrackDurations = md.inGroup('Track*')
+    .filter(t => t.name === 'MediaDuration' && md.has(t.id))
+    .map(t => parseDuration(t.value))
+    .filter((value): value is number => value !== null);
+  const trackDurations = taggedTrackDurations.length
+    ? taggedTrackDurations
+    : (structure?.tracks ?? []).map(track => track.duration).filter((value): value is number => value !== null);
+  const frameRate = parseDuration(findTag(md, 'VideoFrameRate')?.value) ?? firstTrack?.frameRate ?? null;
+
+  return {
+    dates,
+    zeroedDates,
+    make,
+    model,
+    software: software.map(s => s.value),
+    reencoder,
+    location,
+    duration,
+    trackDurations,
+    frameRate,
+    evidence,
+  };
+}
@@ -0,0 +1,232 @@
+// MP4/MOV movie structure (ISO/IEC 14496-12, QuickTime File Format)
+// The "moov" box describes the movie and each track: creation dates and durations in the
+// movie, track and media headers, the handler that wrote each track, the sample timing that
+// gives the frame rate, and user data with the encoder and location. Recorders fill these in
+// one pass; re-encoders and editors rewrite them with their own handler names and dates.
+
+import {
+  childBoxes,
+  findBox,
+  findPath,
+  fourCC,
+  fullBoxHeader,
+  readBoxes,
+  readFileType,
+  view,
+  type IsoBox,
+} from './isoBmff';
+
+// Seconds between the QuickTime epoch (1904-01-01) and the Unix epoch
+const QUICKTIME_EPOCH_OFFSET = 2082844800;
+
+// Brands of image files that share the box format (HEIF/AVIF, read by heifStructure.ts; Canon CR3 RAW)
+const IMAGE_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'mif1', 'msf1', 'avif', 'avis', 'crx']);
+
+// Apple and Android metadata keys ("mdta" namespace) kept in the summary
+const APPLE_KEYS = [
+  'com.apple.quicktime.make',
+  'com.apple.quicktime.model',
+  'com.apple.quicktime.software',
+  'com.apple.quicktime.creationdate',
+  'com.apple.quicktime.location.ISO6709',
+  'com.android.version',
+  'com.android.capture.fps',
+];
+
+export type VideoLocationSource = 'apple' | 'android';
+
+export interface VideoTrack {
+  handlerType: string;          // "vide", "soun", "meta"...
+  handlerName: string | null;   // Writer-specific name ("Core Media Video", "VideoHandler")
+  codec: string | null;         // First sample entry ("avc1", "hvc1")
+  createDate: string | null;    // Track header (ISO 8601, UTC; null when unset)
+  mediaCreateDate: string | null;
+  duration: number | null;      // Media duration (s)
+  frameRate: number | null;     // Average samples per second (video tracks)
+}
+
+export interface VideoStructure {
+  majorBrand: string;
+  compatibleBrands: string[];
+  createDate: string | null;    // Movie header (ISO 8601, UTC; null when unset)
+  modifyDate: string | null;
+  duration: number | null;      // Movie duration (s)
+  tracks: VideoTrack[];
+  encoder: string | null;       // "©too"/"©swr" user data (FFmpeg, HandBrake...)
+  keys: Record<string, string>; // Apple/Android metadata keys with text values
+  location: { source: VideoLocationSource; value: string } | null;  // ISO 6709 string
+}
+
+/**
+ * Seconds since 1904 to ISO 8601; 0 means the writer left the date unset
+ */
+function quickTimeDate(seconds: number): string | null {
+  if (!seconds) return null;
+  return new Date((seconds - QUICKTIME_EPOCH_OFFSET) * 1000).toISOString();
+}
+
+/**
+ * Creation and modification time, timescale and duration of a "mvhd"/"mdhd" box
+ * ("tkhd" has the track id where the others have the timescale)
+ */
+function readHeader(box: IsoBox): { created: number; modified: number; timescale: number; duration: number } | null {
+  const { version } = fullBoxHeader(box.data);
+  const dv = view(box.data);
+  const long = version === 1;
+  const size = long ? 32 : 20;
+  if (box.data.length < size) return null;
+  const read = (offset: number) => (long ? Number(dv.getBigUint64(offset)) : dv.getUint32(offset));
+  const created = read(4);
+  const modified = read(long ? 12 : 8);
+  const timescale = dv.getUint32(long ? 20 : 12);
+  const duration = long ? Number(dv.getBigUint64(24)) : dv.getUint32(16);
+  return { created, modified, timescale, duration };
+}
+
+/**
+ * Handler type and name; QuickTime writes the name as a Pascal string, MP4 as a C string
+ */
+function readHandler(hdlr: IsoBox): { type: string; name: string | null } {
+  if (hdlr.data.length < 12) return { type: '', name: null };
+  const type = fourCC(hdlr.data, 8);
+  let name = hdlr.data.subarray(24);
+  if (name.length && name[0] === name.length - 1) name = name.subarray(1);
+  const text = new TextDecoder().decode(name).replace(/\0/g, '').trim();
+  return { type, name: text || null };
+}
+
+/**
+ * Average frame rate from the decoding time-to-sample table
+ */
+function readFrameRate(stts: IsoBox, timescale: number): number | null {
+  const dv = view(stts.data);
+  if (stts.data.length < 8 || !timescale) return null;
+  const entries = dv.getUint32(4);
+  let samples = 0;
+  let duration = 0;
+  for (let i = 0; i < entries && 8 + (i + 1) * 8 <= stts.data.length; i++) {
+    samples += dv.getUint32(8 + i * 8);
+    duration += dv.getUint32(12 + i * 8) * dv.getUint32(8 + i * 8);
+  }
+  return duration ? Math.round((samples * timescale / duration) * 1000) / 1000 : null;
+}
+
+function readTrack(trak: IsoBox): VideoTrack {
+  const children = childBoxes(trak);
+  const tkhd = findBox(children, 'tkhd');
+  const mdia = findBox(children, 'mdia');
+  const mdiaChildren = mdia ? childBoxes(mdia) : [];
+  const mdhd = findBox(mdiaChildren, 'mdhd');
+  const hdlr = findBox(mdiaChildren, 'hdlr');
+  const stbl = findPath(mdiaChildren, 'minf/stbl');
+  const stblChildren = stbl ? childBoxes(stbl) : [];
+  const stsd = findBox(stblChildren, 'stsd');
+  const stts = findBox(stblChildren, 'stts');
+
+  const trackHeader = tkhd ? readHeader(tkhd) : null;
+  const mediaHeader = mdhd ? readHeader(mdhd) : null;
+  const handler = hdlr ? readHandler(hdlr) : { type: '', name: null };
+  const timescale = mediaHeader?.timescale ?? 0;
+
+  return {
+    handlerType: handler.type,
+    handlerName: handler.name,
+    codec: stsd && stsd.data.length >= 16 ? fourCC(stsd.data, 12) : null,
+    createDate: trackHeader ? quickTimeDate(trackHeader.created) : null,
+    mediaCreateDate: mediaHeader ? quickTimeDate(mediaHeader.created) : null,
+    duration: mediaHeader && timescale ? mediaHeader.duration / timescale : null,
+    frameRate: handler.type === 'vide' && stts ? readFrameRate(stts, timescale) : null,
+  };
+}
+
+/**
+ * Text of a user data item: QuickTime "©xyz" style (length, language, text) or an "ilst" item with a "data" box
+ */
+function readUserText(box: IsoBox): string | null {
+  const data = findBox(readBoxes(box.data), 'data');
+  let bytes: Uint8Array;
+  if (data && data.data.length >= 8) {
+    bytes = data.data.subarray(8);     // After the type indicator and locale
+  } else if (box.data.length >= 4) {
+    const length = view(box.data).getUint16(0);
+    bytes = box.data.subarray(4, 4 + length);
+  } else {
+    return null;
+  }
+  return new TextDecoder().decode(bytes).replace(/\0/g, '').trim() || null;
+}
+
+/**
+ * Apple "mdta" metadata: "keys" names the entries, "ilst" items are their 1-based indexes
+ */
+function readMetadataKeys(meta: IsoBox): Record<string, string> {
+  // QuickTime writes "meta" as a plain container, MP4 as a full box
+  const plain = childBoxes(meta);
+  const children = findBox(plain, 'keys') ? plain : childBoxes(meta, { fullBox: true });
+  const keysBox = findBox(children, 'keys');
+  const ilst = findBox(children, 'ilst');
+  const values: Record<string, string> = {};
+  if (!keysBox || !ilst) return values;
+
+  const names = readBoxes(keysBox.data, 8).map(entry => new TextDecoder().decode(entry.data));
+  for (const item of readBoxes(ilst.data)) {
+    const index = view(ilst.data).getUint32(item.offset + 4);    // The item type is the key index
+    const name = names[index - 1];
+    if (!name || !APPLE_KEYS.includes(name)) continue;
+    const text = readUserText(item);
+    if (text) values[name] = text;
+  }
+  return values;
+}
+
+/**
+ * Whether the file is a movie (ISO-BMFF with a "moov" box), not a HEIF/AVIF image
+ */
+export function isVideo(bytes: Uint8Array): boolean {
+  const ftyp = readFileType(bytes);
+  const isImage = !!ftyp && IMAGE_BRANDS.has(ftyp.majorBrand);
+  // QuickTime files may start with "wide"/"mdat" instead of "ftyp"
+  return !isImage && !!findBox(readBoxes(bytes), 'moov');
+}
+
+/**
+ * Movie and track headers, encoder and location of an MP4/MOV file, or null when it is not one
+ */
+export function readVideoStructure(bytes: Uint8Array): VideoStructure | null {
+  if (!isVideo(bytes)) return null;
+  const ftyp = readFileType(bytes);
+  const moov = findBox(readBoxes(bytes), 'moov');
+  if (!moov) return null;
+
+  const children = childBoxes(moov);
+  const mvhd = findBox(children, 'mvhd');
+  const header = mvhd ? readHeader(mvhd) : null;
+  const tracks = children.filter(box => box.type === 'trak').map(readTrack);
+
+  const udta = findBox(children, 'udta');
+  const udtaChildren = udta ? childBoxes(udta) : [];
+  const udtaMeta = findBox(udtaChildren, 'meta');
+  const ilst = udtaMeta ? findBox(childBoxes(udtaMeta, { fullBox: true }), 'ilst') : undefined;
+  const userItems = [...udtaChildren, ...(ilst ? childBoxes(ilst) : [])];
+  const encoderBox = userItems.find(box => box.type === '©too' || box.type === '©swr');
+  const androidLocation = findBox(udtaChildren, '©xyz');
+
+  const meta = findBox(children, 'meta');
+  const keys = meta ? readMetadataKeys(meta) : {};
+  const appleLocation = keys['com.apple.quicktime.location.ISO6709'];
+  const androidValue = androidLocation ? readUserText(androidLocation) : null;
+
+  return {
+    majorBrand: ftyp?.majorBrand ?? 'qt',
+    compatibleBrands: ftyp?.compatibleBrands ?? [],
+    createDate: header ? quickTimeDate(header.created) : null,
+    modifyDate: header ? quickTimeDate(header.modified) : null,
+    duration: header && header.timescale ? header.duration / header.timescale : null,
+    tracks,
+    encoder: encoderBox ? readUserText(encoderBox) : null,
+    keys,
+    location: appleLocation
+      ? { source: 'apple', value: appleLocation }
+      : androidValue ? { source: 'android', value: androidValue } : null,
+  };
+}
@@ -0,0 +1,260 @@
+// X.509 certificate parsing (DER) and signature checks with WebCrypto
+// Enough of RFC 5280 to read C2PA signer chains: names, validity, public key, signature
+
+export interface Asn1Node {
+  tag: number;
+  content: Uint8Array;
+  raw: Uint8Array;          // Header + content
+  children: Asn1Node[];     // Parsed for constructed nodes
+}
+
+export interface Certificate {
+  raw: Uint8Array;
+  tbs: Uint8Array;                  // TBSCertificate DER (signed part)
+  signatureAlgorithm: string;       // OID
+  signatureParams: Asn1Node | null;
+  signature: Uint8Array;
+  spki: Uint8Array;                 // SubjectPublicKeyInfo DER
+  publicKeyAlgorithm: string;       // OID
+  namedCurve: string | null;        // WebCrypto curve for EC keys
+  subject: Record<string, string>;  // CN, O, OU, C
+  issuer: Record<string, string>;
+  subjectRaw: Uint8Array;
+  issuerRaw: Uint8Array;
+  notBefore: Date | null;
+  notAfter: Date | null;
+}
+
+export class X509Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'X509Error';
+  }
+}
+
+export const OID = {
+  ecPublicKey: '1.2.840.10045.2.1',
+  rsaEncryption: '1.2.840.113549.1.1.1',
+  rsaPss: '1.2.840.113549.1.1.10',
+  ed25519: '1.3.101.112',
+  ecdsaSha256: '1.2.840.10045.4.3.2',
+  ecdsaSha384: '1.2.840.10045.4.3.3',
+  ecdsaSha512: '1.2.840.10045.4.3.4',
+  rsaSha256: '1.2.840.113549.1.1.11',
+  rsaSha384: '1.2.840.113549.1.1.12',
+  rsaSha512: '1.2.840.113549.1.1.13',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  sha384: '2.16.840.1.101.3.4.2.2',
+  sha512: '2.16.840.1.101.3.4.2.3',
+} as const;
+
+const CURVES: Record<string, string> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521',
+};
+
+const NAME_ATTRIBUTES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '2.5.4.6': 'C',
+};
+
+const HASHES: Record<string, string> = {
+  [OID.sha256]: 'SHA-256',
+  [OID.sha384]: 'SHA-384',
+  [OID.sha512]: 'SHA-512',
+};
+
+export function parseDer(bytes: Uint8Array, offset = 0): Asn1Node {
+  if (offset + 2 > bytes.length) throw new X509Error('DER truncado');
+  const tag = bytes[offset];
+  let length = bytes[offset + 1];
+  let header = 2;
+  if (length & 0x80) {
+    const count = length & 0x7f;
+    if (count === 0 || count > 4 || offset + 2 + count > bytes.length) throw new X509Error('Comprimento DER inválido');
+    length = 0;
+    for (let i = 0; i < count; i++) length = length * 256 + bytes[offset + 2 + i];
+    header += count;
+  }
+  const end = offset + header + length;
+  if (end > bytes.length) throw new X509Error('DER truncado');
+
+  const content = bytes.subarray(offset + header, end);
+  const children: Asn1Node[] = [];
+  if (tag & 0x20) {
+    let pos = 0;
+    while (pos < content.length) {
+      const child = parseDer(content, pos);
+      children.push(child);
+      pos += child.raw.length;
+    }
+  }
+  return { tag, content, raw: bytes.subarray(offset, end), children };
+}
+
+export function decodeOid(content: Uint8Array): string {
+  const parts = [Math.floor(content[0] / 40), content[0] % 40];
+  let value = 0;
+  for (const byte of content.subarray(1)) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+}
+
+function decodeName(node: Asn1Node): Record<string, string> {
+  const name: Record<string, string> = {};
+  for (const rdn of node.children) {
+    for (const attribute of rdn.children) {
+      const [type, value] = attribute.children;
+      const key = type && NAME_ATTRIBUTES[decodeOid(type.content)];
+      if (key && value) name[key] = new TextDecoder().decode(value.content);
+    }
+  }
+  return name;
+}
+
+function decodeTime(node: Asn1Node | undefined): Date | null {
+  if (!node) return null;
+  const text = new TextDecoder().decode(node.content);
+  const match = node.tag === 0x17
+    ? /^(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/.exec(text)
+    : /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})?Z$/.exec(text);
+  if (!match) return null;
+  let year = Number(match[1]);
+  if (node.tag === 0x17) year += year < 50 ? 2000 : 1900;
+  return new Date(Date.UTC(year, Number(match[2]) - 1, Number(match[3]), Number(match[4]), Number(match[5]), Number(match[6] ?? 0)));
+}
+
+export function parseCertificate(der: Uint8Array): Certificate {
+  const certificate = parseDer(der);
+  const [tbs, algorithm, signature] = certificate.children;
+  if (!tbs || !algorithm || !signature) throw new X509Error('Certificado inválido');
+
+  // Optional [0] version precedes the serial number
+  const fields = tbs.children[0]?.tag === 0xa0 ? tbs.children.slice(1) : tbs.children;
+  const [, , issuer, validity, subject, spki] = fields;
+  if (!issuer || !validity || !subject || !spki) throw new X509Error('TBSCertificate incompleto');
+
+  const [keyAlgorithm] = spki.children;
+  const keyParams = keyAlgorithm?.children[1];
+
+  return {
+    raw: certificate.raw,
+    tbs: tbs.raw,
+    signatureAlgorithm: decodeOid(algorithm.children[0].content),
+    signatureParams: algorithm.children[1] ?? null,
+    signature: signature.content.subarray(1),   // Drop the BIT STRING unused-bits byte
+    spki: spki.raw,
+    publicKeyAlgorithm: decodeOid(keyAlgorithm.children[0].content),
+    namedCurve: keyParams?.tag === 0x06 ? CURVES[decodeOid(keyParams.content)] ?? null : null,
+    subject: decodeName(subject),
+    issuer: decodeName(issuer),
+    subjectRaw: subject.raw,
+    issuerRaw: issuer.raw,
+    notBefore: decodeTime(validity.children[0]),
+    notAfter: decodeTime(validity.children[1]),
+  };
+}
+
+export function pemToDer(pem: string): Uint8Array {
+  const base64 = pem.replace(/-----(BEGIN|END) CERTIFICATE-----/g, '').replace(/\s+/g, '');
+  return Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+}
+
+export function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+const CURVE_SIZES: Record<string, number> = { 'P-256': 32, 'P-384': 48, 'P-521': 66 };
+
+/**
+ * ECDSA DER signature (SEQUENCE of r, s) -> raw r||s as WebCrypto expects
+ */
+export function ecdsaDerToRaw(der: Uint8Array, curve: string): Uint8Array {
+  const size = CURVE_SIZES[curve];
+  const [r, s] = parseDer(der).children;
+  const raw = new Uint8Array(size * 2);
+  const place = (value: Uint8Array, offset: number) => {
+    const trimmed = value.subarray(Math.max(0, value.length - size));
+    raw.set(trimmed, offset + size - trimmed.length);
+  };
+  place(r.content, 0);
+  place(s.content, size);
+  return raw;
+}
+
+export type VerifyAlgorithm =
+  | { name: 'ECDSA'; hash: string; curve: string }
+  | { name: 'RSASSA-PKCS1-v1_5'; hash: string }
+  | { name: 'RSA-PSS'; hash: string; saltLength: number }
+  | { name: 'Ed25519' };
+
+/**
+ * Import a certificate's public key for the algorithm
+ */
+export function importPublicKey(cert: Certificate, algorithm: VerifyAlgorithm): Promise<CryptoKey> {
+  const params =
+    algorithm.name === 'ECDSA' ? { name: 'ECDSA', namedCurve: algorithm.curve } :
+    algorithm.name === 'Ed25519' ? { name: 'Ed25519' } :
+    { name: algorithm.name, hash: algorithm.hash };
+  return crypto.subtle.importKey('spki', cert.spki, params, false, ['verify']);
+}
+
+export async function verifySignature(
+  cert: Certificate,
+  algorithm: VerifyAlgorithm,
+  signature: Uint8Array,
+  data: Uint8Array
+): Promise<boolean> {
+  const key = await importPublicKey(cert, algorithm);
+  const params =
+    algorithm.name === 'ECDSA' ? { name: 'ECDSA', hash: algorithm.hash } :
+    algorithm.name === 'RSA-PSS' ? { name: 'RSA-PSS', saltLength: algorithm.saltLength } :
+    { name: algorithm.name };
+  return crypto.subtle.verify(params, key, signature, data);
+}
+
+/**
+ * Whether `cert` was signed by `issuer`'s key
+ */
+export async function verifyIssuedBy(cert: Certificate, issuer: Certificate): Promise<boolean> {
+  const oid = cert.signatureAlgorithm;
+  let algorithm: VerifyAlgorithm;
+  let signature = cert.signature;
+
+  if (oid === OID.ecdsaSha256 || oid === OID.ecdsaSha384 || oid === OID.ecdsaSha512) {
+    const curve = issuer.namedCurve;
+    if (!curve) return false;
+    const hash = oid === OID.ecdsaSha256 ? 'SHA-256' : oid === OID.ecdsaSha384 ? 'SHA-384' : 'SHA-512';
+    algorithm = { name: 'ECDSA', hash, curve };
+    signature = ecdsaDerToRaw(signature, curve);
+  } else if (oid === OID.rsaSha256 || oid === OID.rsaSha384 || oid === OID.rsaSha512) {
+    const hash = oid === OID.rsaSha256 ? 'SHA-256' : oid === OID.rsaSha384 ? 'SHA-384' : 'SHA-512';
+    algorithm = { name: 'RSASSA-PKCS1-v1_5', hash };
+  } else if (oid === OID.rsaPss) {
+    // RSASSA-PSS-params: [0] hashAlgorithm, [1] maskGenAlgorithm, [2] saltLength
+    const params = cert.signatureParams?.children ?? [];
+    const hashNode = params.find(p => p.tag === 0xa0)?.children[0]?.children[0];
+    const saltNode = params.find(p => p.tag === 0xa2)?.children[0];
+    const hash = (hashNode && HASHES[decodeOid(hashNode.content)]) ?? 'SHA-1';
+    const saltLength = saltNode ? saltNode.content.reduce((v, b) => v * 256 + b, 0) : 20;
+    algorithm = { name: 'RSA-PSS', hash, saltLength };
+  } else if (oid === OID.ed25519) {
+    algorithm = { name: 'Ed25519' };
+  } else {
+    return false;
+  }
+
+  try {
+    return await verifySignature(issuer, algorithm, signature, cert.tbs);
+  } catch {
+    return false;   // Key/algorithm not supported by this WebCrypto
+  }
+}
@@ -0,0 +1,206 @@
+// XMP edit history (xmpMM:History) and document lineage (xmpMM:DerivedFrom, DocumentID/InstanceID)
+// ExifTool reports the history either flattened (HistoryAction, HistoryWhen... as parallel lists)
+// or as structures (-struct); ExifReader reports it as text ("stEvt:action: saved; stEvt:when: ...").
+
+import type { SignalEvidence } from './exifValidation';
+import type { NormalizedMetadata } from './tagNormalization';
+
+export interface XmpHistoryEvent {
+  action: string;                 // stEvt:action (created, saved, converted, derived...)
+  when: string | null;            // As written (ISO 8601 or ExifTool "YYYY:MM:DD HH:MM:SS±HH:MM")
+  time: Date | null;              // Parsed `when`
+  softwareAgent: string | null;
+  changed: string | null;         // Changed parts ("/", "/metadata", "/;/metadata")
+  parameters: string | null;      // e.g. "converted from image/png to image/jpeg"
+  instanceId: string | null;
+}
+
+export interface XmpDocumentRef {
+  documentId: string | null;
+  instanceId: string | null;
+  originalDocumentId: string | null;
+}
+
+export interface XmpHistory {
+  events: XmpHistoryEvent[];          // In xmpMM:History sequence order
+  document: XmpDocumentRef;           // This file
+  derivedFrom: XmpDocumentRef | null; // Source document when saved as / exported from another
+  evidence: SignalEvidence[];
+}
+
+const HISTORY_ID = 'XMP-xmpMM:History';
+const DERIVED_FROM_ID = 'XMP-xmpMM:DerivedFrom';
+
+// Flattened ExifTool tags, keyed by event field
+const FLAT_HISTORY_IDS = {
+  action: 'XMP-xmpMM:HistoryAction',
+  when: 'XMP-xmpMM:HistoryWhen',
+  softwareAgent: 'XMP-xmpMM:HistorySoftwareAgent',
+  changed: 'XMP-xmpMM:HistoryChanged',
+  parameters: 'XMP-xmpMM:HistoryParameters',
+  instanceId: 'XMP-xmpMM:HistoryInstanceID',
+} as const;
+
+type EventField = keyof typeof FLAT_HISTORY_IDS;
+
+// Structure/text field names (stEvt:*, stRef:*) -> event fields
+const FIELD_NAMES: Record<string, EventField | 'documentId' | 'originalDocumentId'> = {
+  action: 'action',
+  when: 'when',
+  softwareagent: 'softwareAgent',
+  changed: 'changed',
+  parameters: 'parameters',
+  instanceid: 'instanceId',
+  documentid: 'documentId',
+  originaldocumentid: 'originalDocumentId',
+};
+
+type RawFields = Partial<Record<EventField | 'documentId' | 'originalDocumentId', string>>;
+
+const OFFSET_SUFFIX = /(?:Z|[+-]\d{2}:?\d{2})$/;
+
+/**
+ * XMP date ("2023-05-10T14:22:31-03:00") or ExifTool-formatted date ("2023:05:10 14:22:31-03:00").
+ * A date without an offset is read as UTC wall-clock time, independent of the host timezone.
+ */
+export function parseXmpDate(value: string | null): Date | null {
+  if (!value) return null;
+  const normalized = value.trim()
+    .replace(/^(\d{4}):(\d{2}):(\d{2})[ T]/, '$1-$2-$3T')
+    .replace(/([+-]\d{2})(\d{2})$/, '$1:$2');
+  if (!/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(normalized)) return null;
+  const date = new Date(OFFSET_SUFFIX.test(normalized) ? normalized : `${normalized}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function hasUtcOffset(value: string): boolean {
+  return OFFSET_SUFFIX.test(value.trim());
+}
+
+/**
+ * Wall-clock time of an XMP date, ignoring its offset (for comparing with offset-less EXIF dates)
+ */
+export function parseXmpLocalDate(value: string): Date | null {
+  return parseXmpDate(value.trim().replace(OFFSET_SUFFIX, ''));
+}
+
+const fieldName = (key: string) => FIELD_NAMES[key.replace(/^\w+:/, '').toLowerCase()];
+
+function fromObject(value: Record<string, unknown>): RawFields {
+  const fields: RawFields = {};
+  for (const [key, raw] of Object.entries(value)) {
+    const name = fieldName(key);
+    // ExifReader nests values as { value, attributes }
+    const inner = raw && typeof raw === 'object' && 'value' in raw ? (raw as { value: unknown }).value : raw;
+    if (name && inner !== undefined && inner !== null && inner !== '') fields[name] = String(inner);
+  }
+  return fields;
+}
+
+/**
+ * "stEvt:action: saved; stEvt:when: 2023-05-10T14:22:31-03:00" (items joined with ", ")
+ */
+function fromText(text: string): RawFields[] {
+  const items = text.split(/,\s*(?=(?:\w+:)?action:\s)/i);
+  return items.map(item => {
+    const fields: RawFields = {};
+    for (const part of item.split(/;\s*(?=(?:\w+:)?\w+:\s)/)) {
+      const match = part.match(/^\s*((?:\w+:)?\w+):\s(.*)$/s);
+      const name = match && fieldName(match[1]);
+      if (name && match[2].trim()) fields[name] = match[2].trim();
+    }
+    return fields;
+  }).filter(fields => Object.keys(fields).length > 0);
+}
+
+function readStructured(value: unknown): RawFields[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(item =>
+      item && typeof item === 'object' ? [fromObject(item as Record<string, unknown>)] :
+      typeof item === 'string' ? fromText(item) : []
+    );
+  }
+  if (value && typeof value === 'object') return [fromObject(value as Record<string, unknown>)];
+  if (typeof value === 'string') return fromText(value);
+  return [];
+}
+
+const asList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(v => String(v ?? '')) :
+  value === undefined || value === null || value === '' ? [] : [String(value)];
+
+/**
+ * Parallel HistoryAction/HistoryWhen/... lists; a scalar action with ", " holds several events
+ */
+function readFlattened(md: NormalizedMetadata): RawFields[] {
+  const actionValue = md.value(FLAT_HISTORY_IDS.action);
+  const joined = typeof actionValue === 'string' && actionValue.includes(', ');
+  const lists = Object.fromEntries(
+    (Object.entries(FLAT_HISTORY_IDS) as [EventField, string][]).map(([field, id]) => {
+      const value = md.value(id);
+      return [field, joined && typeof value === 'string' ? value.split(', ') : asList(value)];
+    })
+  ) as Record<EventField, string[]>;
+
+  return lists.action.map((action, i) => {
+    const fields: RawFields = { action };
+    for (const field of Object.keys(FLAT_HISTORY_IDS) as EventField[]) {
+      const value = lists[field][i];
+      if (field !== 'action' && value) fields[field] = value;
+    }
+    return fields;
+  });
+}
+
+function readDocumentRef(md: NormalizedMetadata, prefix: string): XmpDocumentRef {
+  return {
+    documentId: md.text(`${prefix}DocumentID`) || null,
+    instanceId: md.text(`${prefix}InstanceID`) || null,
+    originalDocumentId: md.text(`${prefix}OriginalDocumentID`) || null,
+  };
+}
+
+/**
+ * Edit history events and document lineage from the XMP Media Management namespace
+ */
+export function readXmpHistory(md: NormalizedMetadata): XmpHistory {
+  const structured = readStructured(md.value(HISTORY_ID));
+  const raw = structured.length ? structured : readFlattened(md);
+
+  const events: XmpHistoryEvent[] = raw
+    .filter(fields => fields.action)
+    .map(fields => ({
+      action: fields.action ?? '',
+      when: fields.when ?? null,
+      time: parseXmpDate(fields.when ?? null),
+      softwareAgent: fields.softwareAgent ?? null,
+      changed: fields.changed ?? null,
+      parameters: fields.parameters ?? null,
+      instanceId: fields.instanceId ?? null,
+    }));
+
+  let derivedFrom: XmpDocumentRef | null = readDocumentRef(md, 'XMP-xmpMM:DerivedFrom');
+  const derivedValue = md.value(DERIVED_FROM_ID);
+  if (derivedValue !== undefined) {
+    const [fields = {}] = readStructured(derivedValue);
+    derivedFrom = {
+      documentId: fields.documentId ?? null,
+      instanceId: fields.instanceId ?? null,
+      originalDocumentId: fields.originalDocumentId ?? null,
+    };
+  }
+  if (!derivedFrom.documentId && !derivedFrom.instanceId && !derivedFrom.originalDocumentId) derivedFrom = null;
+
+  return {
+    events,
+    document: readDocumentRef(md, 'XMP-xmpMM:'),
+    derivedFrom,
+    evidence: md.evidence([
+      HISTORY_ID,
+      ...Object.values(FLAT_HISTORY_IDS),
+      DERIVED_FROM_ID,
+      'XMP-xmpMM:DerivedFromDocumentID',
+      'XMP-xmpMM:DerivedFromInstanceID',
+    ]),
+  };
+}
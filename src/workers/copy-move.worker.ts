@@ -0,0 +1,39 @@
+// Copy-move worker: decodes and downscales the image, then looks for duplicated regions
+
+import { handleRequests } from './protocol';
+import { detectCopyMove, COPY_MOVE_MAX_SIDE, type CopyMoveSummary } from '../utils/copyMove';
+import { lumaFromRgba } from '../utils/pixels';
+
+export interface CopyMoveRequest {
+  image: Blob;
+  mask: boolean;
+}
+
+export interface CopyMoveResult {
+  summary: CopyMoveSummary;
+  mask: { width: number; height: number; values: ArrayBuffer } | null;   // Uint8 per analysis pixel
+}
+
+handleRequests<CopyMoveRequest, CopyMoveResult>(async ({ image, mask: withMask }) => {
+  // Stored orientation, like the other pixel analyses and the preview the mask is drawn over
+  const bitmap = await createImageBitmap(image, { imageOrientation: 'none' });
+  const scale = Math.min(1, COPY_MOVE_MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+  const width = Math.max(1, Math.round(bitmap.width * scale));
+  const height = Math.max(1, Math.round(bitmap.height * scale));
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D indisponível no worker');
+  }
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  bitmap.close();
+
+  const luma = lumaFromRgba(ctx.getImageData(0, 0, width, height).data, width, height);
+  const { summary, mask } = detectCopyMove(luma, width, height, { scale, mask: withMask });
+  const values = mask ? (mask.values.buffer as ArrayBuffer) : null;
+  return {
+    result: { summary, mask: mask && values ? { width: mask.width, height: mask.height, values } : null },
+    transfer: values ? [values] : [],
+  };
+});
@@ -0,0 +1,46 @@
+// Double JPEG compression worker: decodes the image and analyzes its DCT statistics
+
+import { handleRequests } from './protocol';
+import { detectDoubleJpeg, type DoubleJpegSummary } from '../utils/doubleJpeg';
+import { extractQuantizationTables, isJpeg } from '../utils/jpegStructure';
+import { lumaFromRgba } from '../utils/pixels';
+import { ELA_MAX_PIXELS } from '../utils/ela';
+
+export interface DoubleJpegRequest {
+  image: Blob;
+  localize: boolean;
+}
+
+export interface DoubleJpegResult {
+  summary: DoubleJpegSummary;
+  map: { blocksX: number; blocksY: number; values: ArrayBuffer } | null;   // Float32 per 8x8 block
+}
+
+handleRequests<DoubleJpegRequest, DoubleJpegResult>(async ({ image, localize }) => {
+  const bytes = new Uint8Array(await image.arrayBuffer());
+  if (!isJpeg(bytes)) throw new Error('Arquivo não é JPEG');
+  const tables = extractQuantizationTables(bytes);
+  const luminance = tables.find(t => t.id === 0) ?? tables[0];
+  if (!luminance) throw new Error('Tabelas de quantização ausentes');
+
+  // Pixels as stored, so the block grid and DCT axes match the quantization table
+  const bitmap = await createImageBitmap(image, { imageOrientation: 'none' });
+  const { width, height } = bitmap;
+  if (width * height > ELA_MAX_PIXELS) {
+    bitmap.close();
+    throw new Error(`Imagem grande demais para a análise (${width}x${height})`);
+  }
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Canvas 2D indisponível no worker');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const luma = lumaFromRgba(ctx.getImageData(0, 0, width, height).data, width, height);
+  const { summary, map } = detectDoubleJpeg(luma, width, height, luminance.values, { localize });
+  const values = map ? (map.values.buffer as ArrayBuffer) : null;
+  return {
+    result: { summary, map: map && values ? { blocksX: map.blocksX, blocksY: map.blocksY, values } : null },
+    transfer: values ? [values] : [],
+  };
+});
@@ -0,0 +1,58 @@
+// Error Level Analysis worker: re-compresses the image and returns the heat map and its summary
+
+import { handleRequests } from './protocol';
+import {
+  computeErrorLevels,
+  summarizeErrorLevels,
+  ELA_MAX_PIXELS,
+  type ElaSummary,
+} from '../utils/ela';
+
+export interface ElaRequest {
+  image: Blob;
+  quality: number;    // 1-100
+  scale: number;
+}
+
+export interface ElaResult {
+  width: number;
+  height: number;
+  heatmap: ArrayBuffer;   // RGBA pixels
+  summary: ElaSummary;
+}
+
+// Pixels as stored: EXIF rotation would move the 8x8 grid away from the file's JPEG blocks
+const DECODE_OPTIONS: ImageBitmapOptions = { imageOrientation: 'none' };
+
+async function readPixels(canvas: OffscreenCanvas, image: ImageBitmapSource): Promise<Uint8ClampedArray> {
+  const bitmap = await createImageBitmap(image, DECODE_OPTIONS);
+  try {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Canvas 2D indisponível no worker');
+    ctx.drawImage(bitmap, 0, 0);
+    return ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+  } finally {
+    bitmap.close();
+  }
+}
+
+handleRequests<ElaRequest, ElaResult>(async ({ image, quality, scale }) => {
+  const probe = await createImageBitmap(image, DECODE_OPTIONS);
+  const { width, height } = probe;
+  probe.close();
+  if (width * height > ELA_MAX_PIXELS) {
+    throw new Error(`Imagem grande demais para ELA (${width}x${height})`);
+  }
+
+  const canvas = new OffscreenCanvas(width, height);
+  const original = await readPixels(canvas, image);
+  const recompressedBlob = await canvas.convertToBlob({ type: 'image/jpeg', quality: quality / 100 });
+  const recompressed = await readPixels(canvas, recompressedBlob);
+
+  const levels = computeErrorLevels(original, recompressed, width, height, scale);
+  const heatmap = levels.heatmap.buffer as ArrayBuffer;
+  return {
+    result: { width, height, heatmap, summary: summarizeErrorLevels(levels, quality) },
+    transfer: [heatmap],
+  };
+});
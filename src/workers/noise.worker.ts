@@ -0,0 +1,43 @@
+// Noise level worker: decodes the image and estimates the noise per block
+
+import { handleRequests } from './protocol';
+import { lumaFromRgba } from '../utils/pixels';
+import { ELA_MAX_PIXELS } from '../utils/ela';
+import {
+  computeNoiseLevels,
+  noiseHeatmap,
+  summarizeNoiseLevels,
+  type NoiseSummary,
+} from '../utils/noiseMap';
+
+export interface NoiseRequest {
+  image: Blob;
+}
+
+export interface NoiseResult {
+  summary: NoiseSummary;
+  heatmap: ArrayBuffer;   // RGBA, one pixel per block (summary.blocksX x summary.blocksY)
+}
+
+handleRequests<NoiseRequest, NoiseResult>(async ({ image }) => {
+  // Stored orientation keeps the noise blocks on the file's 8x8 JPEG grid
+  const bitmap = await createImageBitmap(image, { imageOrientation: 'none' });
+  const { width, height } = bitmap;
+  if (width * height > ELA_MAX_PIXELS) {
+    bitmap.close();
+    throw new Error(`Imagem grande demais para a análise (${width}x${height})`);
+  }
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D indisponível no worker');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const levels = computeNoiseLevels(lumaFromRgba(ctx.getImageData(0, 0, width, height).data, width, height), width, height);
+  const summary = summarizeNoiseLevels(levels);
+  const heatmap = noiseHeatmap(levels, summary.medianNoise).buffer as ArrayBuffer;
+  return { result: { summary, heatmap }, transfer: [heatmap] };
+});
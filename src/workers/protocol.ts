@@ -0,0 +1,74 @@
+// Message protocol shared by the analysis workers and their callers
+// A worker handles one request and posts one response; callers terminate it afterwards.
+
+// A decode or analysis still running after this long is abandoned (the worker is terminated)
+export const WORKER_TIMEOUT_MS = 60_000;
+
+export type WorkerResponse<T> =
+  | { ok: true; result: T }
+  | { ok: false; error: string };
+
+/**
+ * Worker side: run the handler for each request and post the result (or the error)
+ */
+export function handleRequests<TRequest, TResult>(
+  handler: (request: TRequest) => Promise<{ result: TResult; transfer?: Transferable[] }>
+): void {
+  self.onmessage = async (event: MessageEvent<TRequest>) => {
+    try {
+      const { result, transfer = [] } = await handler(event.data);
+      const response: WorkerResponse<TResult> = { ok: true, result };
+      self.postMessage(response, { transfer });
+    } catch (error) {
+      const response: WorkerResponse<TResult> = { ok: false, error: error instanceof Error ? error.message : String(error) };
+      self.postMessage(response);
+    }
+  };
+}
+
+/**
+ * Pending worker request; cancel() terminates the worker and rejects the promise
+ */
+export interface WorkerTask<T> extends Promise<T> {
+  cancel: () => void;
+}
+
+/**
+ * Caller side: send one request to a fresh worker and resolve with its result;
+ * rejects and terminates the worker when it does not answer within the timeout or is cancelled
+ */
+export function runWorker<TRequest, TResult>(
+  createWorker: () => Worker,
+  request: TRequest,
+  transfer: Transferable[] = [],
+  timeoutMs: number = WORKER_TIMEOUT_MS
+): WorkerTask<TResult> {
+  let cancel = () => {};
+  const promise = new Promise<TResult>((resolve, reject) => {
+    const worker = createWorker();
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new Error(`Análise interrompida após ${Math.round(timeoutMs / 1000)} s`));
+    }, timeoutMs);
+    cancel = () => {
+      finish();
+      reject(new Error('Análise cancelada'));
+    };
+    worker.onmessage = (event: MessageEvent<WorkerResponse<TResult>>) => {
+      finish();
+      const response = event.data;
+      if ('result' in response) resolve(response.result);
+      else reject(new Error(response.error));
+    };
+    worker.onerror = event => {
+      finish();
+      reject(new Error(event.message || 'Falha no worker de análise'));
+    };
+    worker.postMessage(request, transfer);
+  });
+  return Object.assign(promise, { cancel: () => cancel() });
+}
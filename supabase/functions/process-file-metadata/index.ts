@@ -1,6 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
 import { corsHeaders } from "../_shared/cors.ts"
+import { analyzeForStorage, type StoredAnalysis } from "../../../src/utils/storedAnalysis.ts"
+import { analyzeFileBytes, type FileAnalysis } from "../../../src/utils/fileAnalysis.ts"
+import { verifyC2pa } from "../../../src/utils/c2pa.ts"
+import { buildValidationConfig, parseConfigOverrides } from "../../../src/utils/validationProfiles.ts"
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!
 const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
@@ -41,6 +45,32 @@ async function fetchWithRetry(url: string, options: RequestInit, retries = MAX_R
   throw lastError || new Error('Max retries exceeded')
 }
 
+/**
+ * Byte-level analysis of the uploaded file (structures and C2PA). Pixel analyses need a
+ * canvas and only run in the browser viewer; a failure here leaves the file analysis out.
+ */
+async function analyzeStoredFile(supabase: SupabaseClient, filePath: string): Promise<FileAnalysis | undefined> {
+  const { data: file, error } = await supabase.storage.from('image-uploads').download(filePath)
+  if (error || !file) {
+    console.error('Error downloading file for analysis:', error)
+    return undefined
+  }
+
+  try {
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const analysis = analyzeFileBytes(bytes)
+    const c2pa = await verifyC2pa(bytes).catch(c2paError => {
+      console.error('C2PA verification skipped:', c2paError)
+      return null
+    })
+    if (c2pa) analysis.c2pa = c2pa
+    return analysis
+  } catch (analysisError) {
+    console.error('File analysis skipped:', analysisError)
+    return undefined
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -49,7 +79,24 @@ serve(async (req) => {
   try {
     const supabase = createClient(supabaseUrl, supabaseKey)
     
-    const { filePath, fileName, mimeType, sizeBytes } = await req.json()
+    const { filePath, fileName, mimeType, sizeBytes, validationProfileId } = await req.json()
+
+    // Resolve the validation profile (requested one, otherwise the default) to score with it and record its version
+    const profileQuery = supabase.from('validation_profiles').select('id, slug, name, version, config')
+    const { data: profile, error: profileError } = validationProfileId
+      ? await profileQuery.eq('id', validationProfileId).maybeSingle()
+      : await profileQuery.eq('is_default', true).maybeSingle()
+
+    if (profileError) {
+      console.error('Error loading validation profile:', profileError)
+    }
+
+    if (validationProfileId && !profile) {
+      return new Response(JSON.stringify({ error: 'Unknown validation profile' }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      })
+    }
     
     // Generate signed URL for the uploaded file (120 seconds validity for retries)
     const { data: signedUrlData, error: signedUrlError } = await supabase
@@ -106,6 +153,19 @@ serve(async (req) => {
     // Extract the first exif object (should be the main file data)
     const exifData = exifToolResponse.exif[0]
 
+    // The verdict is computed here and stored with the record; clients cannot write it
+    const referenceTime = new Date().toISOString()
+    let analysisResults: StoredAnalysis | null = null
+    try {
+      const config = profile
+        ? buildValidationConfig(parseConfigOverrides(profile.config), profile)
+        : buildValidationConfig({})
+      const fileAnalysis = await analyzeStoredFile(supabase, filePath)
+      analysisResults = analyzeForStorage(exifData, config, { referenceTime, fileAnalysis })
+    } catch (analysisError) {
+      console.error('Validation error:', analysisError)
+    }
+
     // Save to database
     const { data: metadata, error: insertError } = await supabase
       .from('file_metadata')
@@ -117,6 +177,10 @@ serve(async (req) => {
         size_bytes: sizeBytes,
         exif_raw: exifData,
         exif_data: exifData, // Keep backward compatibility
+        analysis_results: analysisResults,
+        created_at: referenceTime,
+        validation_profile_id: profile?.id ?? null,
+        validation_profile_version: profile?.version ?? null,
         file_info: {
           name: fileName,
           size: sizeBytes,
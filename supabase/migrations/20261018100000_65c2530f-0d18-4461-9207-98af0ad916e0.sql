@@ -0,0 +1,88 @@
+-- Named validation profiles (weights/thresholds overriding DEFAULT_CONFIG in exifValidation.ts)
+CREATE TABLE IF NOT EXISTS public.validation_profiles (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug text NOT NULL UNIQUE,
+  name text NOT NULL,
+  description text,
+  version integer NOT NULL DEFAULT 1,
+  config jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Only one default profile
+CREATE UNIQUE INDEX IF NOT EXISTS validation_profiles_single_default
+  ON public.validation_profiles (is_default) WHERE is_default;
+
+-- Bump version whenever the config changes, so results can reference the exact version used
+CREATE OR REPLACE FUNCTION public.bump_validation_profile_version()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.config IS DISTINCT FROM OLD.config THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS validation_profiles_bump_version ON public.validation_profiles;
+CREATE TRIGGER validation_profiles_bump_version
+  BEFORE UPDATE ON public.validation_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.bump_validation_profile_version();
+
+ALTER TABLE public.validation_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Validation profiles are readable by everyone"
+  ON public.validation_profiles FOR SELECT
+  USING (true);
+
+-- Seed profiles; config only lists values that differ from DEFAULT_CONFIG
+INSERT INTO public.validation_profiles (slug, name, description, config, is_default) VALUES
+  ('padrao', 'Padrão', 'Pesos e limiares balanceados (DEFAULT_CONFIG)', '{}'::jsonb, true),
+  ('rigoroso', 'Rigoroso (Sinistros)', 'Penaliza mais a ausência de EXIF e indícios de edição; limiares mais baixos',
+    '{
+      "weights": {
+        "makeAbsent": 2,
+        "modelAbsent": 2,
+        "dateTimeAbsent": 3,
+        "editorDetected": 4,
+        "temporalInconsistency": 3,
+        "dimensionMismatch": 2,
+        "aiIndicators": 3,
+        "silentEditSignal": 2,
+        "cameraExifAbsentCombined": 2,
+        "impossibleDate": 3
+      },
+      "thresholds": { "level0Max": 0, "level1Max": 2, "level2Max": 5 },
+      "silentEditMax": 3,
+      "c2paStrongBump": 2
+    }'::jsonb,
+    false),
+  ('flexivel', 'Flexível (Marketing)', 'Tolera exportações e edições de tratamento; limiares mais altos',
+    '{
+      "weights": {
+        "makeAbsent": 0,
+        "modelAbsent": 0,
+        "dateTimeAbsent": 1,
+        "editorDetected": 1,
+        "progressiveDCT": 1,
+        "subsampling444": 1,
+        "specificICC": 0,
+        "cameraExifAbsentCombined": 0
+      },
+      "thresholds": { "level0Max": 2, "level1Max": 5, "level2Max": 8 },
+      "silentEditMax": 1,
+      "c2paStrongBump": 0
+    }'::jsonb,
+    false)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Profile and version used for each analysis
+ALTER TABLE public.file_metadata
+ADD COLUMN IF NOT EXISTS validation_profile_id uuid REFERENCES public.validation_profiles(id),
+ADD COLUMN IF NOT EXISTS validation_profile_version integer;
@@ -0,0 +1,15 @@
+-- Document profile: PDF invoices and medical reports, where any edit after issuance matters
+INSERT INTO public.validation_profiles (slug, name, description, config, is_default) VALUES
+  ('documentos', 'Documentos (Notas fiscais e laudos)', 'Penaliza mais edições de PDF após a emissão; limiares mais baixos',
+    '{
+      "weights": {
+        "pdfEditor": 3,
+        "pdfOnlineEditor": 4,
+        "pdfMetadataMismatch": 3,
+        "pdfIncrementalUpdates": 3,
+        "pdfDateGap": 2
+      },
+      "thresholds": { "level0Max": 0, "level1Max": 2, "level2Max": 5 }
+    }'::jsonb,
+    false)
+ON CONFLICT (slug) DO NOTHING;
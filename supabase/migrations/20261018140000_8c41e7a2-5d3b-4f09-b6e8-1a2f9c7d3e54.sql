@@ -0,0 +1,20 @@
+-- Access to file_metadata from the app (anon key)
+-- The edge function inserts records with the service role. Browsers read records (report,
+-- detail view) and store the verdict computed after the upload: once, while the record is new,
+-- and only the analysis_results column.
+ALTER TABLE public.file_metadata ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "File metadata is readable by everyone" ON public.file_metadata;
+CREATE POLICY "File metadata is readable by everyone"
+  ON public.file_metadata FOR SELECT
+  USING (true);
+
+-- A stored verdict is never replaced; recomputing happens in the viewer, not in the record
+DROP POLICY IF EXISTS "Analysis results are stored once after upload" ON public.file_metadata;
+CREATE POLICY "Analysis results are stored once after upload"
+  ON public.file_metadata FOR UPDATE
+  USING (analysis_results IS NULL AND created_at > now() - interval '15 minutes')
+  WITH CHECK (analysis_results IS NOT NULL);
+
+REVOKE INSERT, UPDATE, DELETE ON public.file_metadata FROM anon, authenticated;
+GRANT UPDATE (analysis_results) ON public.file_metadata TO anon, authenticated;
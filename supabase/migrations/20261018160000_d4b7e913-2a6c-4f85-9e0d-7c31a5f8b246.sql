@@ -0,0 +1,7 @@
+-- Verdicts are computed and stored by the process-file-metadata edge function (service role).
+-- Browsers only read file_metadata: the once-after-upload update let any anon client store a
+-- forged verdict on a new record.
+DROP POLICY IF EXISTS "Analysis results are stored once after upload" ON public.file_metadata;
+
+REVOKE UPDATE ON public.file_metadata FROM anon, authenticated;
+REVOKE UPDATE (analysis_results) ON public.file_metadata FROM anon, authenticated;